@@ -1,15 +1,43 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Toolbar } from './components/Toolbar';
 import { Sidebar } from './components/Sidebar';
 import { CodeEditor } from './components/CodeEditor';
 import { Console } from './components/Console';
 import { AIPanel } from './components/AIPanel';
 import { AIAssistant } from './components/AIAssistant';
+import { PinMapPanel } from './components/PinMapPanel';
+import { SizeReport } from './components/SizeReport';
+import { SimulatorPanel } from './components/SimulatorPanel';
+import { BreadboardPanel } from './components/BreadboardPanel';
 import { storage } from './utils/storage';
-import { ArduinoCompiler } from './utils/arduinoCompiler';
+import { AnalyzeOptions } from './utils/analyzer';
+import { AnalysisClient } from './utils/analysisClient';
+import type { ContentChange } from './utils/analysisSession';
 import { AIHelper } from './utils/aiHelper';
 import { SerialUploader } from './utils/serialUpload';
-import { Project, Sketch, ConsoleMessage, CompilationError, AIFixSuggestion, Theme } from './types';
+import { getBoard } from './utils/boards';
+import { buildPinMap } from './utils/pinUsage';
+import { CompileOptions, DEFAULT_COMPILER, getCompilerBackend } from './utils/compilerBackend';
+import { DEFAULT_DAEMON_URL } from './utils/arduinoCliBackend';
+import { DEFAULT_FORMAT_CONFIG } from './utils/codeFormatter';
+import { BuildSize, GccOutputParser } from './utils/gccOutputParser';
+import { LOW_MEMORY_RATIO, sizeUsage } from './utils/memoryEstimator';
+import { indexLibrary } from './utils/libraryIndexer';
+import { SimulationState, Simulator } from './utils/simulator';
+import { parseIntelHex } from './utils/intelHex';
+import { Breadboard } from './utils/virtualComponents';
+import { Project, Sketch, ConsoleMessage, VirtualComponent, CompilationError, AIFixSuggestion, AISuggestion, Theme, LintConfig, SourceLocation, CompilerBackendId, FormatConfig, ImportedLibrary } from './types';
+
+function formatError(err: CompilationError): string {
+  return `${err.file ? `${err.file}:` : ''}Line ${err.line}: ${err.message}${err.ruleId ? ` [${err.ruleId}]` : ''}`;
+}
+
+function errorLocation(err: CompilationError): SourceLocation {
+  return { file: err.file, line: err.line, column: err.column || undefined };
+}
+
+// Serial output can arrive hundreds of lines a second; older messages scroll away
+const MAX_CONSOLE_MESSAGES = 1000;
 
 function App() {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -22,22 +50,38 @@ function App() {
   const [isCompiling, setIsCompiling] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [simulator, setSimulator] = useState<Simulator | null>(null);
+  const [simulationState, setSimulationState] = useState<SimulationState>('stopped');
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [breadboard, setBreadboard] = useState<Breadboard | null>(null);
+  const [showBreadboard, setShowBreadboard] = useState(false);
   const [aiSuggestions, setAiSuggestions] = useState<AIFixSuggestion[]>([]);
+  const [assistantHints, setAssistantHints] = useState<AISuggestion[]>([]);
   const [showAIPanel, setShowAIPanel] = useState(false);
   const [showAIAssistant, setShowAIAssistant] = useState(true);
-  const [realTimeErrors, setRealTimeErrors] = useState<CompilationError[]>([]);
+  const [showPinMap, setShowPinMap] = useState(false);
+  const [showSizeReport, setShowSizeReport] = useState(false);
+  const [buildSize, setBuildSize] = useState<BuildSize | null>(null);
+  const [libraries, setLibraries] = useState<ImportedLibrary[]>(() => storage.getLibraries());
+  const [revealTarget, setRevealTarget] = useState<{ line: number; column?: number } | null>(null);
   const autoSaveTimer = useRef<NodeJS.Timeout | null>(null);
   const serialUploader = useRef<SerialUploader>(new SerialUploader());
   const isApplyingFix = useRef<boolean>(false);
+  const analysisClient = useRef<AnalysisClient | null>(null);
+  // The text of the open sketch as the analysis worker last received it
+  const analyzedCode = useRef('');
+  const codeRef = useRef(code);
+  codeRef.current = code;
 
-  const addConsoleMessage = useCallback((type: ConsoleMessage['type'], message: string) => {
+  const addConsoleMessage = useCallback((type: ConsoleMessage['type'], message: string, location?: SourceLocation) => {
     const newMessage: ConsoleMessage = {
       id: crypto.randomUUID(),
       type,
       message,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      location
     };
-    setConsoleMessages(prev => [...prev, newMessage]);
+    setConsoleMessages(prev => [...prev.slice(-(MAX_CONSOLE_MESSAGES - 1)), newMessage]);
   }, []);
 
   useEffect(() => {
@@ -87,16 +131,77 @@ function App() {
     };
   }, [code, currentProject, currentSketch]);
 
+  const lintConfig = currentProject?.lintConfig;
+  const boardId = currentProject?.boardId;
+  const compiler = currentProject?.compiler ?? DEFAULT_COMPILER;
+  const backend = getCompilerBackend(compiler.backend);
+  // Workspace libraries and those imported into the open project, indexed for the analyzer and completion
+  const projectLibraries = useMemo(
+    () => libraries.filter(l => l.projectId === null || l.projectId === currentProject?.id),
+    [libraries, currentProject?.id]
+  );
+  const indexedLibraries = useMemo(
+    () => projectLibraries.map(l => indexLibrary(l, getBoard(boardId))),
+    [projectLibraries, boardId]
+  );
+  const analyzeOptions = useMemo<AnalyzeOptions>(
+    () => ({ lintConfig, boardId, libraries: indexedLibraries }),
+    [lintConfig, boardId, indexedLibraries]
+  );
+  const compileOptions: CompileOptions = { ...analyzeOptions, daemonUrl: compiler.daemonUrl };
+  const formatConfig = useMemo<FormatConfig>(() => ({ ...DEFAULT_FORMAT_CONFIG, ...currentProject?.format }), [currentProject?.format]);
+  // Every file of the project, with the open sketch's unsaved edits swapped in
+  const projectFiles = useMemo(() => (currentProject?.sketches ?? []).map(s => ({
+    name: s.name,
+    content: s.id === currentSketch?.id ? code : s.content
+  })), [currentProject, currentSketch, code]);
+  const currentFileErrors = useMemo(
+    () => errors.filter(e => !e.file || e.file === currentSketch?.name),
+    [errors, currentSketch]
+  );
+  const otherFileProblems = useMemo(() => {
+    const byFile = new Map<string, CompilationError[]>();
+    errors.forEach(e => {
+      if (!e.file || e.file === currentSketch?.name) return;
+      byFile.set(e.file, [...(byFile.get(e.file) ?? []), e]);
+    });
+    return [...byFile.entries()];
+  }, [errors, currentSketch]);
+
   useEffect(() => {
-    if (code) {
-      const analysisTimer = setTimeout(() => {
-        const detectedErrors = ArduinoCompiler.analyze(code);
-        setErrors(detectedErrors);
-      }, 2000);
+    const client = new AnalysisClient(result => {
+      setErrors(result.errors);
+      setAssistantHints(result.suggestions);
+    });
+    analysisClient.current = client;
+    return () => client.dispose();
+  }, []);
 
-      return () => clearTimeout(analysisTimer);
-    }
-  }, [code]);
+  // Typing sends deltas (handleContentChange); this resends the project when
+  // anything else changes: another sketch opened, saved files, board or rules
+  useEffect(() => {
+    if (!currentProject) return;
+    const files = currentProject.sketches.map(s => ({
+      name: s.name,
+      content: s.id === currentSketch?.id ? codeRef.current : s.content
+    }));
+    analysisClient.current?.sync(files, currentSketch?.name ?? null, analyzeOptions);
+    analyzedCode.current = codeRef.current;
+  }, [currentProject, currentSketch, analyzeOptions]);
+
+  // Code set from outside the editor, e.g. by an applied fix, has no deltas
+  useEffect(() => {
+    if (!currentSketch || code === analyzedCode.current) return;
+    analysisClient.current?.replace(currentSketch.name, code);
+    analyzedCode.current = code;
+  }, [code, currentSketch]);
+
+  const handleContentChange = (changes: ContentChange[] | null, value: string) => {
+    if (!currentSketch) return;
+    if (changes) analysisClient.current?.edit(currentSketch.name, changes);
+    else analysisClient.current?.replace(currentSketch.name, value);
+    analyzedCode.current = value;
+  };
 
   const handleNewProject = () => {
     const name = prompt('Enter project name:');
@@ -150,6 +255,7 @@ function App() {
       storage.deleteProject(projectId);
       const updatedProjects = storage.getProjects();
       setProjects(updatedProjects);
+      setLibraries(storage.getLibraries());
       if (currentProject?.id === projectId) {
         if (updatedProjects.length > 0) {
           setCurrentProject(updatedProjects[0]);
@@ -216,20 +322,162 @@ function App() {
     input.click();
   };
 
+  const handleImportLibrary = (scope: 'project' | 'workspace') => {
+    if (!currentProject) return;
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const library = await storage.importLibrary(file, scope === 'project' ? currentProject.id : null);
+        setLibraries(storage.getLibraries());
+        const headers = library.files.filter(f => /\.(h|hpp)$/i.test(f.name)).map(f => f.name);
+        addConsoleMessage(
+          'success',
+          `Imported library ${library.name}${library.version ? ` ${library.version}` : ''} into the ${scope === 'project' ? 'project' : 'workspace'} (${headers.join(', ')})`
+        );
+      } catch (error) {
+        addConsoleMessage('error', `Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    input.click();
+  };
+
+  const handleDeleteLibrary = (libraryId: string) => {
+    const library = libraries.find(l => l.id === libraryId);
+    if (library && confirm(`Remove the library ${library.name}?`)) {
+      storage.deleteLibrary(libraryId);
+      setLibraries(storage.getLibraries());
+      addConsoleMessage('info', `Removed library ${library.name}`);
+    }
+  };
+
+  const handleUpdateFormatConfig = (format: Partial<FormatConfig>) => {
+    if (!currentProject) return;
+    storage.updateProject(currentProject.id, { format });
+    const updatedProjects = storage.getProjects();
+    setProjects(updatedProjects);
+    const updatedProject = updatedProjects.find(p => p.id === currentProject.id);
+    if (updatedProject) {
+      setCurrentProject(updatedProject);
+    }
+  };
+
+  const handleUpdateLintConfig = (config: LintConfig) => {
+    if (!currentProject) return;
+    storage.updateProject(currentProject.id, { lintConfig: config });
+    const updatedProjects = storage.getProjects();
+    setProjects(updatedProjects);
+    const updatedProject = updatedProjects.find(p => p.id === currentProject.id);
+    if (updatedProject) {
+      setCurrentProject(updatedProject);
+    }
+  };
+
+  const handleUpdateComponents = (nextComponents: VirtualComponent[]) => {
+    if (!currentProject) return;
+    storage.updateProject(currentProject.id, { components: nextComponents });
+    const updatedProjects = storage.getProjects();
+    setProjects(updatedProjects);
+    const updatedProject = updatedProjects.find(p => p.id === currentProject.id);
+    if (updatedProject) {
+      setCurrentProject(updatedProject);
+    }
+  };
+
+  const pinMap = useMemo(() => {
+    if (!showPinMap || !currentProject) return [];
+    // The open sketch may have unsaved edits; use the editor contents for it
+    const sketches = currentProject.sketches.map(s => (s.id === currentSketch?.id ? { ...s, content: code } : s));
+    return buildPinMap(sketches, getBoard(boardId));
+  }, [showPinMap, currentProject, currentSketch, code, boardId]);
+
+  const handleNavigate = (sketchId: string, line: number, column?: number) => {
+    if (sketchId !== currentSketch?.id) {
+      const sketch = currentProject?.sketches.find(s => s.id === sketchId);
+      if (!sketch) return;
+      handleSketchSelect(sketch);
+    }
+    setRevealTarget({ line, column });
+  };
+
+  const handleNavigateToLocation = (location: SourceLocation) => {
+    const sketch = location.file ? currentProject?.sketches.find(s => s.name === location.file) : currentSketch;
+    if (!sketch) return;
+    handleNavigate(sketch.id, location.line, location.column);
+  };
+
+  // The simulator reports where it paused from outside React; always navigate with the current project
+  const navigateRef = useRef(handleNavigateToLocation);
+  navigateRef.current = handleNavigateToLocation;
+
+  // A simulation belongs to the board and project it was started for
+  useEffect(() => {
+    setSimulator(null);
+    setBreadboard(null);
+  }, [boardId, currentProject?.id]);
+
+  useEffect(() => () => simulator?.stop(), [simulator]);
+
+  useEffect(() => () => breadboard?.dispose(), [breadboard]);
+
+  const components = useMemo(() => currentProject?.components ?? [], [currentProject?.components]);
+
+  // Parts added or rewired while the sketch runs take effect straight away
+  useEffect(() => {
+    breadboard?.setComponents(components);
+  }, [breadboard, components]);
+
+  const handleBoardChange = (nextBoardId: string) => {
+    if (!currentProject) return;
+    storage.updateProject(currentProject.id, { boardId: nextBoardId });
+    const updatedProjects = storage.getProjects();
+    setProjects(updatedProjects);
+    const updatedProject = updatedProjects.find(p => p.id === currentProject.id);
+    if (updatedProject) {
+      setCurrentProject(updatedProject);
+    }
+    addConsoleMessage('info', `Target board: ${getBoard(nextBoardId).name}`);
+  };
+
+  const handleCompilerChange = (nextBackend: CompilerBackendId) => {
+    if (!currentProject) return;
+    let daemonUrl = compiler.daemonUrl;
+    if (nextBackend === 'arduino-cli') {
+      const url = prompt('Compile daemon URL:', daemonUrl ?? DEFAULT_DAEMON_URL);
+      if (url === null) return;
+      daemonUrl = url.trim() || DEFAULT_DAEMON_URL;
+    }
+    storage.updateProject(currentProject.id, { compiler: { backend: nextBackend, daemonUrl } });
+    const updatedProjects = storage.getProjects();
+    setProjects(updatedProjects);
+    const updatedProject = updatedProjects.find(p => p.id === currentProject.id);
+    if (updatedProject) {
+      setCurrentProject(updatedProject);
+    }
+    addConsoleMessage('info', `Compiler: ${getCompilerBackend(nextBackend).name}${nextBackend === 'arduino-cli' ? ` at ${daemonUrl}` : ''}`);
+  };
+
   const handleCompile = async () => {
     setIsCompiling(true);
-    addConsoleMessage('info', 'Compiling sketch...');
+    addConsoleMessage('info', `Compiling sketch with ${backend.name}...`);
 
     try {
-      const result = await ArduinoCompiler.compile(code);
+      const result = await backend.compile(projectFiles, compileOptions);
       setErrors(result.errors);
+      setBuildSize(result.size ?? null);
 
       if (result.success) {
-        addConsoleMessage('success', result.output);
+        const { flash, sram } = result.size ? sizeUsage(result.size, getBoard(boardId)) : { flash: null, sram: null };
+        const nearLimit = Math.max(flash?.ratio ?? 0, sram?.ratio ?? 0) > LOW_MEMORY_RATIO;
+        addConsoleMessage(nearLimit ? 'warning' : 'success', result.output);
+        if (nearLimit) setShowSizeReport(true);
       } else {
         addConsoleMessage('error', result.output);
         result.errors.forEach(err => {
-          addConsoleMessage('error', `Line ${err.line}: ${err.message}`);
+          addConsoleMessage('error', formatError(err), errorLocation(err));
         });
       }
     } catch (error) {
@@ -242,22 +490,14 @@ function App() {
   const handleVerify = async () => {
     addConsoleMessage('info', 'Verifying code...');
     
-    // Combine real-time errors with compiler analysis
-    const compilerErrors = ArduinoCompiler.analyze(code);
-    const allErrors = [...realTimeErrors, ...compilerErrors];
-    
-    // Remove duplicates based on line and message
-    const uniqueErrors = allErrors.filter((error, index, self) => 
-      index === self.findIndex(e => e.line === error.line && e.message === error.message)
-    );
-    
-    setErrors(uniqueErrors);
+    const foundErrors = await backend.verify(projectFiles, compileOptions);
+    setErrors(foundErrors);
 
-    if (uniqueErrors.length === 0) {
+    if (foundErrors.length === 0) {
       addConsoleMessage('success', '✅ Code verification passed! No errors found.');
     } else {
-      const errorCount = uniqueErrors.filter(e => e.severity === 'error').length;
-      const warningCount = uniqueErrors.filter(e => e.severity === 'warning').length;
+      const errorCount = foundErrors.filter(e => e.severity === 'error').length;
+      const warningCount = foundErrors.filter(e => e.severity === 'warning').length;
       
       if (errorCount > 0) {
         addConsoleMessage('error', `❌ Found ${errorCount} error(s) and ${warningCount} warning(s)`);
@@ -266,7 +506,7 @@ function App() {
       }
       
       // Group errors by type for better reporting
-      const errorsByType = uniqueErrors.reduce((acc, err) => {
+      const errorsByType = foundErrors.reduce((acc, err) => {
         const key = err.severity;
         if (!acc[key]) acc[key] = [];
         acc[key].push(err);
@@ -277,14 +517,14 @@ function App() {
       if (errorsByType.error) {
         addConsoleMessage('error', '🔴 ERRORS:');
         errorsByType.error.forEach(err => {
-          addConsoleMessage('error', `  Line ${err.line}: ${err.message}`);
+          addConsoleMessage('error', `  ${formatError(err)}`, errorLocation(err));
         });
       }
       
       if (errorsByType.warning) {
         addConsoleMessage('warning', '🟡 WARNINGS:');
         errorsByType.warning.forEach(err => {
-          addConsoleMessage('warning', `  Line ${err.line}: ${err.message}`);
+          addConsoleMessage('warning', `  ${formatError(err)}`, errorLocation(err));
         });
       }
       
@@ -292,8 +532,27 @@ function App() {
     }
   };
 
+  const handleAnalyzeLog = (log: string) => {
+    const { errors: logErrors, size } = GccOutputParser.parse(log);
+    setErrors(logErrors);
+
+    if (logErrors.length === 0) {
+      addConsoleMessage('info', 'No compiler diagnostics found in the pasted log.');
+    } else {
+      const errorCount = logErrors.filter(e => e.severity === 'error').length;
+      addConsoleMessage(errorCount > 0 ? 'error' : 'warning', `Build log: ${errorCount} error(s), ${logErrors.length - errorCount} warning(s)`);
+      logErrors.forEach(err => {
+        addConsoleMessage(err.severity, `  ${formatError(err)}`, errorLocation(err));
+      });
+    }
+    if (size) {
+      setBuildSize(size);
+      addConsoleMessage('info', `Build log: ${size.flashBytes} bytes of program storage, ${size.sramBytes} bytes of dynamic memory`);
+    }
+  };
+
   const handleAutoFix = async () => {
-    if (errors.length === 0) {
+    if (currentFileErrors.length === 0) {
       addConsoleMessage('warning', 'No errors found to fix. Try compiling first to detect issues.');
       return;
     }
@@ -302,7 +561,7 @@ function App() {
     setShowAIPanel(true);
 
     try {
-      const suggestions = await AIHelper.analyzeAndFix(code, errors);
+      const suggestions = await AIHelper.analyzeAndFix(code, currentFileErrors);
       
       if (suggestions.length === 0) {
         addConsoleMessage('warning', 'No automatic fixes available for these errors. Manual intervention required.');
@@ -441,10 +700,6 @@ function App() {
     setCode(newCode);
   };
 
-  const handleRealTimeError = (errors: CompilationError[]) => {
-    setRealTimeErrors(errors);
-  };
-
   const handleUpload = async () => {
     if (errors.some(e => e.severity === 'error')) {
       addConsoleMessage('error', 'Cannot upload: Fix compilation errors first');
@@ -456,7 +711,7 @@ function App() {
     try {
       if (!serialUploader.current.isConnected()) {
         addConsoleMessage('info', 'Requesting connection to Arduino board...');
-        const connected = await serialUploader.current.connect();
+        const connected = await serialUploader.current.connect(getBoard(boardId).uploadBaud);
 
         if (!connected) {
           addConsoleMessage('error', 'Failed to connect to Arduino board');
@@ -468,7 +723,21 @@ function App() {
         addConsoleMessage('success', 'Connected to Arduino board!');
       }
 
-      const success = await serialUploader.current.upload(code, (message) => {
+      // Build with the active backend after connecting, so the port prompt
+      // still runs within the click that started the upload
+      addConsoleMessage('info', `Compiling sketch with ${backend.name}...`);
+      const build = await backend.compile(projectFiles, compileOptions);
+      setErrors(build.errors);
+      if (!build.success) {
+        addConsoleMessage('error', build.output);
+        build.errors.forEach(err => addConsoleMessage('error', formatError(err), errorLocation(err)));
+        addConsoleMessage('error', 'Cannot upload: Fix compilation errors first');
+        return;
+      }
+      addConsoleMessage('success', build.output);
+
+      const firmware = build.artifact ? build.artifact.data : code;
+      const success = await serialUploader.current.upload(firmware, (message) => {
         addConsoleMessage('info', message);
       });
 
@@ -484,6 +753,81 @@ function App() {
     }
   };
 
+  // Every run gets a fresh simulator, so its pins and breadboard start out clean
+  const launchSimulator = (announcement: string, start: (next: Simulator) => void) => {
+    const next = new Simulator(getBoard(boardId), {
+      onSerial: (port, line) => addConsoleMessage('serial', port === 'Serial' ? line : `${port}: ${line}`),
+      onNotice: (message, location) => addConsoleMessage('warning', `Simulator: ${message}`, location ?? undefined),
+      onError: (message, location) => addConsoleMessage('error', `Simulation stopped: ${message}`, location ?? undefined),
+      onStateChange: (state, location) => {
+        setSimulationState(state);
+        if (location) navigateRef.current(location);
+      }
+    });
+    setSimulator(next);
+    // Wire the parts up before the sketch's first digitalRead()
+    setBreadboard(new Breadboard(next.pins, components));
+    setShowSimulator(true);
+    if (components.length > 0) setShowBreadboard(true);
+    addConsoleMessage('info', announcement);
+    start(next);
+  };
+
+  const handleSimulate = () => {
+    launchSimulator(`Simulating on a virtual ${getBoard(boardId).name}...`, next => next.start(projectFiles));
+  };
+
+  const runFirmware = (image: Uint8Array, name: string) => {
+    launchSimulator(`Running ${name} on an emulated ATmega328P...`, next => next.startFirmware(image));
+  };
+
+  // Builds with the active backend and runs the exact image an upload would flash
+  const handleRunFirmware = async () => {
+    setIsCompiling(true);
+    addConsoleMessage('info', `Compiling sketch with ${backend.name}...`);
+    try {
+      const build = await backend.compile(projectFiles, compileOptions);
+      setErrors(build.errors);
+      if (!build.success) {
+        addConsoleMessage('error', build.output);
+        build.errors.forEach(err => addConsoleMessage('error', formatError(err), errorLocation(err)));
+        return;
+      }
+      addConsoleMessage('success', build.output);
+      const { artifact } = build;
+      if (!artifact) {
+        addConsoleMessage('error', `${backend.name} does not build a firmware image. Compile with arduino-cli, or load a .hex file.`);
+        return;
+      }
+      runFirmware(artifact.format === 'hex' ? parseIntelHex(new TextDecoder().decode(artifact.data)) : artifact.data, artifact.fileName);
+    } catch (error) {
+      addConsoleMessage('error', `Could not run the firmware: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsCompiling(false);
+    }
+  };
+
+  const handleLoadFirmware = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.hex';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        runFirmware(parseIntelHex(await file.text()), file.name);
+      } catch (error) {
+        addConsoleMessage('error', `Could not load ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    input.click();
+  };
+
+  const handlePauseSimulation = () => {
+    if (simulator?.simulationState === 'running') simulator.pause();
+    else simulator?.resume();
+  };
+
   return (
     <div className={`h-screen flex flex-col ${theme === 'dark' ? 'dark bg-gray-900 text-white' : 'bg-white text-gray-900'}`}>
       <Toolbar
@@ -491,14 +835,31 @@ function App() {
         onVerify={handleVerify}
         onAutoFix={handleAutoFix}
         onUpload={handleUpload}
+        onSimulate={handleSimulate}
+        onRunFirmware={handleRunFirmware}
+        onLoadFirmware={handleLoadFirmware}
+        onPauseSimulation={handlePauseSimulation}
+        onStepSimulation={() => simulator?.step()}
+        onStopSimulation={() => simulator?.stop()}
         onToggleTheme={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
         onToggleAI={() => setShowAIAssistant(!showAIAssistant)}
+        onTogglePinMap={() => setShowPinMap(!showPinMap)}
+        onToggleBreadboard={() => setShowBreadboard(!showBreadboard)}
+        onToggleSizeReport={() => setShowSizeReport(!showSizeReport)}
+        boardId={boardId}
+        onBoardChange={handleBoardChange}
+        compilerBackend={compiler.backend}
+        onCompilerChange={handleCompilerChange}
         theme={theme}
         isCompiling={isCompiling}
         isUploading={isUploading}
+        simulationState={simulationState}
         hasErrors={errors.some(e => e.severity === 'error')}
         isConnected={isConnected}
         showAI={showAIAssistant}
+        showPinMap={showPinMap}
+        showBreadboard={showBreadboard}
+        showSizeReport={showSizeReport}
       />
 
       <div className="flex-1 flex overflow-hidden relative">
@@ -515,19 +876,42 @@ function App() {
             onDeleteSketch={handleDeleteSketch}
             onExportSketch={handleExportSketch}
             onImportSketch={handleImportSketch}
+            libraries={projectLibraries}
+            onImportLibrary={handleImportLibrary}
+            onDeleteLibrary={handleDeleteLibrary}
+            onUpdateLintConfig={handleUpdateLintConfig}
+            onUpdateFormatConfig={handleUpdateFormatConfig}
             theme={theme}
           />
         </div>
 
         <div className="flex-1 flex flex-col">
+          {otherFileProblems.length > 0 && (
+            <div className={`flex items-center gap-2 px-3 py-1 text-xs border-b ${theme === 'dark' ? 'bg-gray-800 border-gray-700 text-gray-300' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+              <span>Problems in other files:</span>
+              {otherFileProblems.map(([file, fileErrors]) => (
+                <button
+                  key={file}
+                  onClick={() => handleNavigateToLocation(errorLocation(fileErrors[0]))}
+                  className={`px-2 py-0.5 rounded hover:underline ${fileErrors.some(e => e.severity === 'error') ? 'text-red-500' : 'text-yellow-500'}`}
+                  title={formatError(fileErrors[0])}
+                >
+                  {file} ({fileErrors.length})
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex-1">
             <CodeEditor
               value={code}
               onChange={handleCodeChange}
-              errors={errors}
+              errors={currentFileErrors}
               theme={theme}
               onCompile={handleCompile}
-              onRealTimeError={handleRealTimeError}
+              revealTarget={revealTarget}
+              onContentChange={handleContentChange}
+              formatConfig={formatConfig}
+              libraries={indexedLibraries}
             />
           </div>
 
@@ -536,10 +920,52 @@ function App() {
               messages={consoleMessages}
               theme={theme}
               onClear={() => setConsoleMessages([])}
+              onNavigate={handleNavigateToLocation}
+              onAnalyzeLog={handleAnalyzeLog}
             />
           </div>
         </div>
 
+        {showPinMap && (
+          <PinMapPanel
+            entries={pinMap}
+            board={getBoard(boardId)}
+            onNavigate={handleNavigate}
+            onClose={() => setShowPinMap(false)}
+            theme={theme}
+          />
+        )}
+
+        {showSimulator && simulator && (
+          <SimulatorPanel
+            simulator={simulator}
+            state={simulationState}
+            onClose={() => setShowSimulator(false)}
+            theme={theme}
+          />
+        )}
+
+        {showBreadboard && currentProject && (
+          <BreadboardPanel
+            components={components}
+            board={getBoard(boardId)}
+            breadboard={breadboard}
+            onChange={handleUpdateComponents}
+            onClose={() => setShowBreadboard(false)}
+            theme={theme}
+          />
+        )}
+
+        {showSizeReport && (
+          <SizeReport
+            size={buildSize}
+            board={getBoard(boardId)}
+            onNavigate={handleNavigateToLocation}
+            onClose={() => setShowSizeReport(false)}
+            theme={theme}
+          />
+        )}
+
         {showAIPanel && (
           <AIPanel
             suggestions={aiSuggestions}
@@ -552,7 +978,7 @@ function App() {
         {showAIAssistant && (
           <AIAssistant
             code={code}
-            errors={[...errors, ...realTimeErrors]}
+            analysis={assistantHints}
             theme={theme}
             onApplySuggestion={handleApplyFix}
           />
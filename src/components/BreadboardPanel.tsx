@@ -0,0 +1,507 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, ToyBrick, Trash2, Volume2, VolumeX, X } from 'lucide-react';
+import { VirtualComponent, VirtualComponentKind } from '../types';
+import { BoardProfile } from '../utils/boards';
+import { pinLabel } from '../utils/pinUsage';
+import { Breadboard, COMPONENT_KINDS, ComponentReading, LED_COLORS, createComponent, wiringProblems } from '../utils/virtualComponents';
+
+interface BreadboardPanelProps {
+  components: VirtualComponent[];
+  board: BoardProfile;
+  // The parts wired to the running simulation; null until one starts
+  breadboard: Breadboard | null;
+  onChange: (components: VirtualComponent[]) => void;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const CANVAS_WIDTH = 344;
+const PART_WIDTH = 80;
+const PART_HEIGHT = 92;
+const LCD_HEIGHT = 104;
+const GAP = 8;
+
+const LED_RGB: Record<string, string> = {
+  red: '239, 68, 68',
+  green: '34, 197, 94',
+  yellow: '250, 204, 21',
+  blue: '59, 130, 246',
+  white: '241, 245, 249'
+};
+
+// An active buzzer's own pitch, for sound while its pin is simply HIGH
+const ACTIVE_BUZZER_HZ = 2300;
+
+// Small parts four to a row; the display takes a row of its own
+function layout(components: VirtualComponent[]): Map<string, Rect> {
+  const rects = new Map<string, Rect>();
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  const newRow = () => {
+    y += rowHeight + GAP;
+    x = 0;
+    rowHeight = 0;
+  };
+  components.forEach(component => {
+    const wide = component.kind === 'lcd';
+    const width = wide ? CANVAS_WIDTH : PART_WIDTH;
+    const height = wide ? LCD_HEIGHT : PART_HEIGHT;
+    if (x > 0 && x + width > CANVAS_WIDTH) newRow();
+    rects.set(component.id, { x, y, width, height });
+    x += width + GAP;
+    rowHeight = Math.max(rowHeight, height);
+  });
+  return rects;
+}
+
+function idleReading(component: VirtualComponent): ComponentReading {
+  switch (component.kind) {
+    case 'led':
+      return { kind: 'led', brightness: 0 };
+    case 'button':
+      return { kind: 'button', pressed: false };
+    case 'potentiometer':
+      return { kind: 'potentiometer', position: 0.5 };
+    case 'buzzer':
+      return { kind: 'buzzer', sounding: false, frequency: null };
+    case 'lcd':
+      return { kind: 'lcd', display: null };
+    case 'servo':
+      return { kind: 'servo', angle: null };
+  }
+}
+
+function drawPart(ctx: CanvasRenderingContext2D, reading: ComponentReading, component: VirtualComponent, rect: Rect, dark: boolean): void {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + 34;
+  const ink = dark ? '#e5e7eb' : '#1f2937';
+
+  switch (reading.kind) {
+    case 'led': {
+      const rgb = LED_RGB[component.color ?? 'red'] ?? LED_RGB.red;
+      ctx.save();
+      if (reading.brightness > 0) {
+        ctx.shadowColor = `rgba(${rgb}, ${reading.brightness})`;
+        ctx.shadowBlur = 24 * reading.brightness;
+      }
+      ctx.fillStyle = `rgba(${rgb}, ${0.2 + 0.8 * reading.brightness})`;
+      ctx.beginPath();
+      ctx.arc(cx, cy - 4, 12, Math.PI, 0);
+      ctx.lineTo(cx + 12, cy + 12);
+      ctx.lineTo(cx - 12, cy + 12);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+      ctx.strokeStyle = `rgb(${rgb})`;
+      ctx.stroke();
+      break;
+    }
+    case 'button': {
+      ctx.fillStyle = dark ? '#374151' : '#d1d5db';
+      ctx.fillRect(cx - 18, cy - 18, 36, 36);
+      ctx.fillStyle = reading.pressed ? '#1d4ed8' : '#3b82f6';
+      ctx.beginPath();
+      ctx.arc(cx, cy + (reading.pressed ? 1 : 0), reading.pressed ? 10 : 12, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    case 'potentiometer': {
+      // The knob turns through 270 degrees
+      const angle = Math.PI * 0.75 + reading.position * Math.PI * 1.5;
+      ctx.fillStyle = dark ? '#4b5563' : '#9ca3af';
+      ctx.beginPath();
+      ctx.arc(cx, cy, 18, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = '#f9fafb';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.lineTo(cx + Math.cos(angle) * 15, cy + Math.sin(angle) * 15);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+      ctx.fillStyle = ink;
+      ctx.font = '9px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${Math.round(reading.position * 100)}%`, cx, cy + 30);
+      break;
+    }
+    case 'buzzer': {
+      ctx.fillStyle = '#111827';
+      ctx.beginPath();
+      ctx.arc(cx, cy, 16, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#4b5563';
+      ctx.beginPath();
+      ctx.arc(cx, cy, 3, 0, Math.PI * 2);
+      ctx.fill();
+      if (reading.sounding) {
+        ctx.strokeStyle = '#f59e0b';
+        [22, 28].forEach(radius => {
+          ctx.beginPath();
+          ctx.arc(cx, cy, radius, -Math.PI / 4, Math.PI / 4);
+          ctx.stroke();
+        });
+        ctx.fillStyle = ink;
+        ctx.font = '9px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(reading.frequency !== null ? `${reading.frequency} Hz` : 'on', cx, cy + 30);
+      }
+      break;
+    }
+    case 'servo': {
+      ctx.fillStyle = '#1e3a8a';
+      ctx.fillRect(cx - 20, cy - 10, 40, 24);
+      ctx.fillStyle = '#f9fafb';
+      ctx.beginPath();
+      ctx.arc(cx, cy, 5, 0, Math.PI * 2);
+      ctx.fill();
+      // 0 degrees points right and 180 left, as the horn sweeps over the top
+      const angle = Math.PI + ((reading.angle ?? 90) / 180) * Math.PI;
+      ctx.strokeStyle = reading.angle === null ? '#9ca3af' : '#f9fafb';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.lineTo(cx - Math.cos(angle) * 20, cy + Math.sin(angle) * 20);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+      ctx.fillStyle = ink;
+      ctx.font = '9px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(reading.angle === null ? 'detached' : `${Math.round(reading.angle)}°`, cx, cy + 30);
+      break;
+    }
+    case 'lcd':
+      drawDisplay(ctx, reading.display, rect);
+      break;
+  }
+}
+
+function drawDisplay(ctx: CanvasRenderingContext2D, display: Extract<ComponentReading, { kind: 'lcd' }>['display'], rect: Rect): void {
+  const cell = { width: 18, height: 28 };
+  const left = rect.x + (rect.width - 16 * (cell.width + 2)) / 2;
+  const top = rect.y + 12;
+  ctx.fillStyle = '#1e3a8a';
+  ctx.fillRect(left - 8, top - 6, 16 * (cell.width + 2) + 14, 2 * (cell.height + 2) + 10);
+  const on = display?.on ?? false;
+  const rows = display?.rows() ?? [];
+  const cursor = display?.cursorPosition() ?? null;
+
+  for (let row = 0; row < 2; row++) {
+    for (let column = 0; column < 16; column++) {
+      const x = left + column * (cell.width + 2);
+      const y = top + row * (cell.height + 2);
+      ctx.fillStyle = '#2563eb';
+      ctx.fillRect(x, y, cell.width, cell.height);
+      if (!on || !display) continue;
+      const code = rows[row][column];
+      ctx.fillStyle = '#f8fafc';
+      if (code < 16) {
+        // Custom characters from CGRAM, drawn dot by dot; 8-15 repeat 0-7
+        const glyph = display.cgram.slice((code & 7) * 8, (code & 7) * 8 + 8);
+        glyph.forEach((bits, line) => {
+          for (let dot = 0; dot < 5; dot++) {
+            if (bits & (0x10 >> dot)) ctx.fillRect(x + 2 + dot * 3, y + 3 + line * 3, 2.5, 2.5);
+          }
+        });
+      } else if (code > 0x20) {
+        ctx.font = '20px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(String.fromCharCode(code), x + cell.width / 2, y + cell.height - 7);
+      }
+      if (cursor && cursor.row === row && cursor.column === column) {
+        if (display.cursor) ctx.fillRect(x + 1, y + cell.height - 3, cell.width - 2, 2);
+        if (display.blink) {
+          ctx.globalAlpha = 0.5;
+          ctx.fillRect(x, y, cell.width, cell.height);
+          ctx.globalAlpha = 1;
+        }
+      }
+    }
+  }
+}
+
+export function BreadboardPanel({ components, board, breadboard, onChange, onClose, theme }: BreadboardPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [addKind, setAddKind] = useState<VirtualComponentKind>('led');
+  const [sound, setSound] = useState(false);
+  const drag = useRef<{ id: string; startX: number; startPosition: number } | null>(null);
+  const pressedId = useRef<string | null>(null);
+  const audio = useRef<{ context: AudioContext; oscillator: OscillatorNode; gain: GainNode } | null>(null);
+
+  const rects = useMemo(() => layout(components), [components]);
+  const height = [...rects.values()].reduce((max, rect) => Math.max(max, rect.y + rect.height), 0);
+  const problems = useMemo(() => wiringProblems(components, board), [components, board]);
+  const selected = components.find(c => c.id === selectedId) ?? null;
+  const dark = theme === 'dark';
+
+  // Redraw at most once a frame however often the pins change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let frame: number | null = null;
+
+    const draw = () => {
+      frame = null;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const scale = window.devicePixelRatio || 1;
+      canvas.width = CANVAS_WIDTH * scale;
+      canvas.height = height * scale;
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      ctx.clearRect(0, 0, CANVAS_WIDTH, height);
+
+      let tone: number | null = null;
+      components.forEach(component => {
+        const rect = rects.get(component.id)!;
+        const reading = breadboard ? breadboard.read(component) : idleReading(component);
+        if (reading.kind === 'buzzer' && reading.sounding) tone = reading.frequency ?? ACTIVE_BUZZER_HZ;
+
+        ctx.fillStyle = dark ? '#111827' : '#f9fafb';
+        ctx.strokeStyle = problems.has(component.id) ? '#dc2626' : component.id === selectedId ? '#6366f1' : dark ? '#374151' : '#e5e7eb';
+        ctx.lineWidth = component.id === selectedId ? 2 : 1;
+        ctx.beginPath();
+        ctx.roundRect(rect.x + 0.5, rect.y + 0.5, rect.width - 1, rect.height - 1, 6);
+        ctx.fill();
+        ctx.stroke();
+        ctx.lineWidth = 1;
+
+        drawPart(ctx, reading, component, rect, dark);
+
+        ctx.fillStyle = dark ? '#9ca3af' : '#6b7280';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'center';
+        const pins = Object.values(component.pins).map(pin => pinLabel(board, pin)).join(' ');
+        const caption = component.kind === 'lcd' ? `${component.label} · ${pins}` : component.label;
+        ctx.fillText(caption, rect.x + rect.width / 2, rect.y + rect.height - (component.kind === 'lcd' ? 10 : 18), rect.width - 6);
+        if (component.kind !== 'lcd') ctx.fillText(pins, rect.x + rect.width / 2, rect.y + rect.height - 6, rect.width - 6);
+      });
+
+      const sounds = audio.current;
+      if (sounds) {
+        sounds.gain.gain.value = tone !== null ? 0.05 : 0;
+        if (tone !== null) sounds.oscillator.frequency.value = tone;
+      }
+    };
+
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(draw);
+    };
+    const unsubscribe = breadboard?.pins.subscribe(schedule);
+    schedule();
+    return () => {
+      unsubscribe?.();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [components, breadboard, board, selectedId, dark, height, rects, problems]);
+
+  // Buzzers are heard only once the user asks, since browsers need a click to start audio
+  useEffect(() => {
+    if (!sound) return;
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    gain.gain.value = 0;
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    audio.current = { context, oscillator, gain };
+    return () => {
+      audio.current = null;
+      void context.close();
+    };
+  }, [sound]);
+
+  const hit = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * CANVAS_WIDTH;
+    const y = ((event.clientY - bounds.top) / bounds.height) * height;
+    const found = components.find(c => {
+      const rect = rects.get(c.id)!;
+      return x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+    });
+    return { component: found ?? null, x };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { component, x } = hit(event);
+    setSelectedId(component?.id ?? null);
+    if (!component || !breadboard) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (component.kind === 'button') {
+      pressedId.current = component.id;
+      breadboard.press(component.id, true);
+    } else if (component.kind === 'potentiometer') {
+      const reading = breadboard.read(component);
+      drag.current = { id: component.id, startX: x, startPosition: reading.kind === 'potentiometer' ? reading.position : 0.5 };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag.current || !breadboard) return;
+    const { x } = hit(event);
+    // Dragging 100 px turns the knob from one end to the other
+    breadboard.turn(drag.current.id, drag.current.startPosition + (x - drag.current.startX) / 100);
+  };
+
+  const handlePointerUp = () => {
+    if (pressedId.current) breadboard?.press(pressedId.current, false);
+    pressedId.current = null;
+    drag.current = null;
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * CANVAS_WIDTH;
+    const y = ((event.clientY - bounds.top) / bounds.height) * height;
+    const knob = components.find(c => {
+      const rect = rects.get(c.id)!;
+      return c.kind === 'potentiometer' && x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+    });
+    const reading = knob && breadboard?.read(knob);
+    if (knob && reading?.kind === 'potentiometer') breadboard!.turn(knob.id, reading.position + (event.deltaY < 0 ? 0.02 : -0.02));
+  };
+
+  const update = (changes: Partial<VirtualComponent>) => {
+    if (!selected) return;
+    onChange(components.map(c => (c.id === selected.id ? { ...c, ...changes } : c)));
+  };
+
+  const handleAdd = () => {
+    const component = createComponent(addKind, board, components);
+    onChange([...components, component]);
+    setSelectedId(component.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(components.filter(c => c.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const inputClass = `px-2 py-1 rounded border ${dark ? 'bg-gray-900 border-gray-600' : 'bg-white border-gray-300'}`;
+  const pinOptions = board.digitalPins.map(pin => (
+    <option key={pin} value={pin}>{pinLabel(board, pin)}</option>
+  ));
+
+  return (
+    <div className={`w-96 flex flex-col border-l overflow-hidden ${
+      dark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${
+        dark ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-blue-50'
+      }`}>
+        <div className="flex items-center gap-2">
+          <ToyBrick className="w-4 h-4 text-indigo-600" />
+          <h3 className="font-semibold text-sm">Breadboard</h3>
+          <span className="text-xs text-gray-500">{board.name}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setSound(!sound)}
+            className="hover:bg-gray-200 dark:hover:bg-gray-700 p-1 rounded transition-colors"
+            title={sound ? 'Mute buzzers' : 'Play buzzers'}
+          >
+            {sound ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onClose}
+            className="hover:bg-gray-200 dark:hover:bg-gray-700 p-1 rounded transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3 text-xs">
+        <div className="flex gap-2">
+          <select value={addKind} onChange={e => setAddKind(e.target.value as VirtualComponentKind)} className={`flex-1 ${inputClass}`}>
+            {(Object.keys(COMPONENT_KINDS) as VirtualComponentKind[]).map(kind => (
+              <option key={kind} value={kind}>{COMPONENT_KINDS[kind].name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        </div>
+
+        {components.length === 0 ? (
+          <p className="text-gray-500">No parts yet. Add LEDs, buttons, knobs and more, wire them to pins, then simulate the sketch to try them.</p>
+        ) : (
+          <>
+            <canvas
+              ref={canvasRef}
+              style={{ width: '100%', aspectRatio: `${CANVAS_WIDTH} / ${height}` }}
+              className="touch-none select-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onWheel={handleWheel}
+            />
+            {!breadboard && <p className="text-gray-500">Start a simulation to press the buttons and turn the knobs.</p>}
+          </>
+        )}
+
+        {selected && (
+          <div className={`p-2 rounded border space-y-2 ${dark ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'}`}>
+            <div className="flex items-center gap-2">
+              <input value={selected.label} onChange={e => update({ label: e.target.value })} className={`flex-1 min-w-0 ${inputClass}`} />
+              <button onClick={handleDelete} className="hover:text-red-600" title="Remove Part">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {COMPONENT_KINDS[selected.kind].pins.map(name => (
+                <label key={name} className="flex flex-col gap-1">
+                  <span className="text-gray-500 uppercase">{name}</span>
+                  <select
+                    value={selected.pins[name]}
+                    onChange={e => update({ pins: { ...selected.pins, [name]: Number(e.target.value) } })}
+                    className={inputClass}
+                  >
+                    {pinOptions}
+                  </select>
+                </label>
+              ))}
+              {selected.kind === 'led' && (
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-500 uppercase">colour</span>
+                  <select value={selected.color ?? 'red'} onChange={e => update({ color: e.target.value })} className={inputClass}>
+                    {LED_COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+                  </select>
+                </label>
+              )}
+              {selected.kind === 'button' && (
+                <label className="flex flex-col gap-1 col-span-2">
+                  <span className="text-gray-500 uppercase">pressed</span>
+                  <select
+                    value={selected.pressedLevel ?? 0}
+                    onChange={e => update({ pressedLevel: Number(e.target.value) as 0 | 1 })}
+                    className={inputClass}
+                  >
+                    <option value={0}>to GND (INPUT_PULLUP)</option>
+                    <option value={1}>to 5V (pull-down)</option>
+                  </select>
+                </label>
+              )}
+            </div>
+            {problems.has(selected.id) && <p className="text-red-500">{problems.get(selected.id)}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
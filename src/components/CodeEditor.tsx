@@ -1,7 +1,11 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef } from 'react';
 import Editor from '@monaco-editor/react';
-import { CompilationError } from '../types';
-import type { editor } from 'monaco-editor';
+import { CompilationError, FormatConfig, QuickFix, TextEdit } from '../types';
+import type { ContentChange } from '../utils/analysisSession';
+import { CodeFormatter } from '../utils/codeFormatter';
+import type { LibraryInfo } from '../utils/libraryCatalog';
+import { LibraryCompletion, libraryCompletions } from '../utils/libraryUsage';
+import type { editor, IPosition, IRange } from 'monaco-editor';
 
 interface CodeEditorProps {
   value: string;
@@ -9,285 +13,44 @@ interface CodeEditorProps {
   errors: CompilationError[];
   theme: 'light' | 'dark';
   onCompile: () => void;
-  onRealTimeError?: (errors: CompilationError[]) => void;
+  // A new object each time, so jumping to the same line twice still moves the cursor
+  revealTarget?: { line: number; column?: number } | null;
+  // Edits typed in the editor as deltas; null when the whole text was replaced
+  onContentChange?: (changes: ContentChange[] | null, value: string) => void;
+  formatConfig: FormatConfig;
+  // Imported libraries, for completion
+  libraries: LibraryInfo[];
 }
 
-export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTimeError }: CodeEditorProps) {
-  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
-  const [realTimeErrors, setRealTimeErrors] = useState<CompilationError[]>([]);
-
-  // Real-time error detection
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      if (value.length > 0) {
-        const detectedErrors = analyzeCodeRealTime(value);
-        setRealTimeErrors(detectedErrors);
-        if (onRealTimeError) {
-          onRealTimeError(detectedErrors);
-        }
-      }
-    }, 500); // Debounce for 500ms
-
-    return () => clearTimeout(timer);
-  }, [value, onRealTimeError]);
-
-  const analyzeCodeRealTime = (code: string): CompilationError[] => {
-    const errors: CompilationError[] = [];
-    const lines = code.split('\n');
-    const functionDeclarations = new Set<string>();
-
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
-      const trimmed = line.trim();
-      const original = line;
-
-      // Skip empty lines and comments
-      if (!trimmed || trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*')) {
-        return;
-      }
-
-      // Check for multiple statements on same line (like void oop();void oop();)
-      const semicolonCount = (trimmed.match(/;/g) || []).length;
-      if (semicolonCount > 1) {
-        errors.push({
-          line: lineNum,
-          column: 0,
-          message: 'Multiple statements on same line. Each statement should be on a separate line.',
-          severity: 'error'
-        });
-      }
-
-      // Check for duplicate function declarations
-      if (trimmed.match(/^(void|int|float|char|bool|String)\s+\w+\s*\([^)]*\)\s*;/)) {
-        const funcMatch = trimmed.match(/^(void|int|float|char|bool|String)\s+(\w+)\s*\([^)]*\)\s*;/);
-        if (funcMatch) {
-          const funcName = funcMatch[2];
-          if (functionDeclarations.has(funcName)) {
-            errors.push({
-              line: lineNum,
-              column: 0,
-              message: `Duplicate function declaration: '${funcName}' is already declared`,
-              severity: 'error'
-            });
-          } else {
-            functionDeclarations.add(funcName);
-          }
-        }
-      }
-
-      // Check for invalid function names (Arduino specific)
-      if (trimmed.match(/^void\s+\w+\s*\([^)]*\)\s*;/)) {
-        const funcMatch = trimmed.match(/^void\s+(\w+)\s*\([^)]*\)\s*;/);
-        if (funcMatch) {
-          const funcName = funcMatch[1];
-          const validArduinoFunctions = ['setup', 'loop'];
-          const commonFunctions = ['digitalWrite', 'digitalRead', 'analogWrite', 'analogRead', 'pinMode', 'delay'];
-          
-          // Check if it's not a valid Arduino function and looks suspicious
-          if (!validArduinoFunctions.includes(funcName) && 
-              !commonFunctions.includes(funcName) && 
-              funcName.length < 4 && 
-              !funcName.match(/^[a-zA-Z][a-zA-Z0-9_]*$/)) {
-            errors.push({
-              line: lineNum,
-              column: 0,
-              message: `Suspicious function name '${funcName}'. Arduino functions should have descriptive names.`,
-              severity: 'warning'
-            });
-          }
-        }
-      }
-
-      // Check for missing semicolons (more comprehensive)
-      const needsSemicolon = trimmed && 
-        !trimmed.endsWith(';') && 
-        !trimmed.endsWith('{') && 
-        !trimmed.endsWith('}') &&
-        !trimmed.includes('void setup') && 
-        !trimmed.includes('void loop') &&
-        !trimmed.includes('if (') && 
-        !trimmed.includes('else if') &&
-        !trimmed.includes('else') && 
-        !trimmed.includes('for (') &&
-        !trimmed.includes('while (') && 
-        !trimmed.includes('do') && 
-        !trimmed.includes('switch (') &&
-        !trimmed.includes('case ') && 
-        !trimmed.includes('default:') &&
-        !trimmed.includes('#include') &&
-        !trimmed.includes('#define') &&
-        !trimmed.startsWith('}') &&
-        (trimmed.includes('=') || 
-         trimmed.includes('pinMode') || 
-         trimmed.includes('digitalWrite') || 
-         trimmed.includes('analogWrite') ||
-         trimmed.includes('Serial.') ||
-         trimmed.includes('delay(') ||
-         trimmed.includes('return '));
-
-      if (needsSemicolon) {
-        errors.push({
-          line: lineNum,
-          column: original.length,
-          message: 'Expected `;` at end of statement',
-          severity: 'error'
-        });
-      }
-
-      // Check for syntax errors in function declarations
-      if (trimmed.includes('void ') && trimmed.includes('(') && trimmed.includes(')')) {
-        // Check if it's a proper function declaration or definition
-        if (trimmed.endsWith(';')) {
-          // Function declaration - check syntax
-          if (!trimmed.match(/^void\s+\w+\s*\([^)]*\)\s*;$/)) {
-            errors.push({
-              line: lineNum,
-              column: 0,
-              message: 'Invalid function declaration syntax',
-              severity: 'error'
-            });
-          }
-        } else if (trimmed.endsWith('{')) {
-          // Function definition - check syntax
-          if (!trimmed.match(/^void\s+\w+\s*\([^)]*\)\s*\{$/)) {
-            errors.push({
-              line: lineNum,
-              column: 0,
-              message: 'Invalid function definition syntax',
-              severity: 'error'
-            });
-          }
-        }
-      }
-
-      // Check pinMode syntax
-      if (trimmed.includes('pinMode')) {
-        if (!trimmed.includes('(') || !trimmed.includes(')')) {
-          errors.push({
-            line: lineNum,
-            column: trimmed.indexOf('pinMode'),
-            message: 'pinMode function call missing parentheses',
-            severity: 'error'
-          });
-        } else if (trimmed.includes('pinMode(') && !trimmed.includes(',')) {
-          const openParen = trimmed.indexOf('pinMode(') + 8;
-          const closeParen = trimmed.indexOf(')', openParen);
-          if (closeParen > openParen) {
-            const params = trimmed.substring(openParen, closeParen).trim();
-            if (params && !params.includes(',')) {
-              errors.push({
-                line: lineNum,
-                column: openParen,
-                message: 'pinMode requires two parameters separated by comma: pinMode(pin, mode)',
-                severity: 'error'
-              });
-            }
-          }
-        }
-      }
-
-      // Check digitalWrite syntax
-      if (trimmed.includes('digitalWrite')) {
-        if (!trimmed.includes('(') || !trimmed.includes(')')) {
-          errors.push({
-            line: lineNum,
-            column: trimmed.indexOf('digitalWrite'),
-            message: 'digitalWrite function call missing parentheses',
-            severity: 'error'
-          });
-        } else if (trimmed.includes('digitalWrite(') && !trimmed.includes(',')) {
-          const openParen = trimmed.indexOf('digitalWrite(') + 12;
-          const closeParen = trimmed.indexOf(')', openParen);
-          if (closeParen > openParen) {
-            const params = trimmed.substring(openParen, closeParen).trim();
-            if (params && !params.includes(',')) {
-              errors.push({
-                line: lineNum,
-                column: openParen,
-                message: 'digitalWrite requires two parameters: digitalWrite(pin, value)',
-                severity: 'error'
-              });
-            }
-          }
-        }
-      }
-
-      // Check analogWrite syntax
-      if (trimmed.includes('analogWrite')) {
-        if (!trimmed.includes('(') || !trimmed.includes(')')) {
-          errors.push({
-            line: lineNum,
-            column: trimmed.indexOf('analogWrite'),
-            message: 'analogWrite function call missing parentheses',
-            severity: 'error'
-          });
-        } else if (trimmed.includes('analogWrite(') && !trimmed.includes(',')) {
-          const openParen = trimmed.indexOf('analogWrite(') + 11;
-          const closeParen = trimmed.indexOf(')', openParen);
-          if (closeParen > openParen) {
-            const params = trimmed.substring(openParen, closeParen).trim();
-            if (params && !params.includes(',')) {
-              errors.push({
-                line: lineNum,
-                column: openParen,
-                message: 'analogWrite requires two parameters: analogWrite(pin, value)',
-                severity: 'error'
-              });
-            }
-          }
-        }
-      }
-
-      // Check for missing variable types
-      if (trimmed.includes('=') && !trimmed.includes('==') && !trimmed.includes('!=') && 
-          !trimmed.includes('<=') && !trimmed.includes('>=')) {
-        const equalIndex = trimmed.indexOf('=');
-        const beforeEqual = trimmed.substring(0, equalIndex).trim();
-        
-        // Check if it's a variable declaration without type
-        if (beforeEqual && !beforeEqual.includes(' ') && 
-            !trimmed.includes('int ') && !trimmed.includes('float ') && 
-            !trimmed.includes('char ') && !trimmed.includes('bool ') && 
-            !trimmed.includes('String ') && !trimmed.includes('const ') && 
-            !trimmed.includes('static ') && !trimmed.includes('unsigned ') &&
-            !beforeEqual.includes('.') && !beforeEqual.includes('[') &&
-            !trimmed.includes('void setup') && !trimmed.includes('void loop')) {
-          
-          errors.push({
-            line: lineNum,
-            column: 0,
-            message: `Variable '${beforeEqual}' declaration missing type (int, float, char, etc.)`,
-            severity: 'warning'
-          });
-        }
-      }
+function markerKey(line: number, column: number, message: string): string {
+  return `${line}:${column}:${message}`;
+}
 
-      // Check for missing brackets
-      const openBrackets = (trimmed.match(/\(/g) || []).length;
-      const closeBrackets = (trimmed.match(/\)/g) || []).length;
-      if (openBrackets !== closeBrackets) {
-        errors.push({
-          line: lineNum,
-          column: trimmed.length,
-          message: 'Mismatched parentheses',
-          severity: 'error'
-        });
-      }
+function toMonacoEdit(edit: TextEdit): { range: IRange; text: string } {
+  return {
+    range: { startLineNumber: edit.line, startColumn: edit.column, endLineNumber: edit.endLine, endColumn: edit.endColumn },
+    text: edit.text
+  };
+}
 
-      // Check for missing braces in control structures
-      if ((trimmed.includes('if (') || trimmed.includes('for (') || trimmed.includes('while (')) && 
-          !trimmed.includes('{') && !trimmed.endsWith(')')) {
-        errors.push({
-          line: lineNum,
-          column: trimmed.length,
-          message: 'Control structure missing opening brace {',
-          severity: 'warning'
-        });
-      }
-    });
+export function CodeEditor({ value, onChange, errors, theme, onCompile, revealTarget, onContentChange, formatConfig, libraries }: CodeEditorProps) {
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  // Quick fixes of the current markers, keyed by markerKey
+  const fixesRef = useRef(new Map<string, QuickFix[]>());
+  // The providers are registered once on mount and read the latest settings from here
+  const formatConfigRef = useRef(formatConfig);
+  formatConfigRef.current = formatConfig;
+  const librariesRef = useRef(libraries);
+  librariesRef.current = libraries;
 
-    return errors;
-  };
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealTarget) return;
+    const position = { lineNumber: revealTarget.line, column: revealTarget.column ?? 1 };
+    editor.setPosition(position);
+    editor.revealLineInCenter(position.lineNumber);
+    editor.focus();
+  }, [revealTarget]);
 
   useEffect(() => {
     if (editorRef.current) {
@@ -295,26 +58,42 @@ export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTi
       if (monaco) {
         const model = editorRef.current.getModel();
         if (model) {
-          // Combine real-time errors with compilation errors
-          const allErrors = [...realTimeErrors, ...errors];
-          const markers = allErrors.map(err => ({
-            severity: err.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
-            startLineNumber: err.line,
-            startColumn: err.column || 1,
-            endLineNumber: err.line,
-            endColumn: err.column + 10 || 100,
-            message: err.message
-          }));
+          const lineCount = model.getLineCount();
+          fixesRef.current.clear();
+          const markers = errors.map(err => {
+            // Errors without an explicit range underline the rest of their line
+            const line = Math.min(Math.max(err.line, 1), lineCount);
+            const endLine = Math.min(err.endLine ?? line, lineCount);
+            const startColumn = err.column || model.getLineFirstNonWhitespaceColumn(line) || 1;
+            const endColumn = err.endColumn ?? model.getLineMaxColumn(endLine);
+            const message = [err.message, ...(err.notes ?? [])].join('\n');
+            if (err.fixes?.length) fixesRef.current.set(markerKey(line, startColumn, message), err.fixes);
+            return {
+              severity: err.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+              startLineNumber: line,
+              startColumn,
+              endLineNumber: endLine,
+              // Zero-width ranges are invisible; widen them to one character
+              endColumn: endLine === line && endColumn <= startColumn ? startColumn + 1 : endColumn,
+              message,
+              code: err.ruleId
+            };
+          });
           monaco.editor.setModelMarkers(model, 'arduino', markers);
         }
       }
     }
-  }, [errors, realTimeErrors]);
+  }, [errors]);
 
   const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor) => {
     editorRef.current = editor;
+    const monaco = (window as any).monaco;
 
     editor.addCommand((window as any).monaco.KeyMod.CtrlCmd | (window as any).monaco.KeyCode.KeyS, () => {
+      if (formatConfigRef.current.formatOnSave) {
+        const edits = CodeFormatter.formatEdits(editor.getModel()?.getValue(monaco.editor.EndOfLinePreference.LF) ?? '', formatConfigRef.current);
+        if (edits.length > 0) editor.executeEdits('format-on-save', edits.map(toMonacoEdit));
+      }
       const currentValue = editor.getValue();
       onChange(currentValue);
     });
@@ -324,10 +103,76 @@ export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTi
     });
 
     // Add AI completion suggestions
-    const monaco = (window as any).monaco;
     if (monaco) {
+      monaco.languages.registerCodeActionProvider('cpp', {
+        provideCodeActions: (model: editor.ITextModel, _range: unknown, context: { markers: editor.IMarkerData[] }) => {
+          const actions = context.markers.flatMap(marker =>
+            (fixesRef.current.get(markerKey(marker.startLineNumber, marker.startColumn, marker.message)) ?? []).map((fix, i) => ({
+              title: fix.title,
+              kind: 'quickfix',
+              diagnostics: [marker],
+              isPreferred: i === 0,
+              edit: {
+                edits: fix.edits.map(edit => ({
+                  resource: model.uri,
+                  versionId: undefined,
+                  textEdit: toMonacoEdit(edit)
+                }))
+              }
+            }))
+          );
+          return { actions, dispose: () => {} };
+        }
+      });
+
+      const formatEdits = (model: editor.ITextModel, startLine?: number, endLine?: number) =>
+        CodeFormatter.formatEdits(
+          model.getValue(monaco.editor.EndOfLinePreference.LF),
+          formatConfigRef.current,
+          startLine === undefined || endLine === undefined ? undefined : { startLine, endLine }
+        ).map(toMonacoEdit);
+
+      monaco.languages.registerDocumentFormattingEditProvider('cpp', {
+        provideDocumentFormattingEdits: (model: editor.ITextModel) => formatEdits(model)
+      });
+
+      monaco.languages.registerDocumentRangeFormattingEditProvider('cpp', {
+        provideDocumentRangeFormattingEdits: (model: editor.ITextModel, range: IRange) =>
+          formatEdits(model, range.startLineNumber, range.endLineNumber)
+      });
+
+      // `;` and `}` tidy the line they end; Enter tidies the line it leaves
+      monaco.languages.registerOnTypeFormattingEditProvider('cpp', {
+        autoFormatTriggerCharacters: [';', '}', '\n'],
+        provideOnTypeFormattingEdits: (model: editor.ITextModel, position: IPosition, ch: string) => {
+          const line = ch === '\n' ? position.lineNumber - 1 : position.lineNumber;
+          return formatEdits(model, line, line);
+        }
+      });
+
+      const completionKinds: Record<LibraryCompletion['kind'], number> = {
+        method: monaco.languages.CompletionItemKind.Method,
+        function: monaco.languages.CompletionItemKind.Function,
+        class: monaco.languages.CompletionItemKind.Class,
+        object: monaco.languages.CompletionItemKind.Variable,
+        constant: monaco.languages.CompletionItemKind.Constant,
+        header: monaco.languages.CompletionItemKind.File
+      };
+
       monaco.languages.registerCompletionItemProvider('cpp', {
-        provideCompletionItems: (_model: any, _position: any) => {
+        triggerCharacters: ['.'],
+        provideCompletionItems: (model: editor.ITextModel, position: IPosition) => {
+          const linePrefix = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+          const library = libraryCompletions(model.getValue(), linePrefix, librariesRef.current);
+          const librarySuggestions = library.items.map(item => ({
+            label: item.label,
+            kind: completionKinds[item.kind],
+            detail: item.detail,
+            insertText: item.insertText,
+            insertTextRules: item.snippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined
+          }));
+          if (library.exclusive) return { suggestions: librarySuggestions };
+
           const suggestions = [
             {
               label: 'pinMode',
@@ -387,7 +232,7 @@ export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTi
             }
           ];
 
-          return { suggestions };
+          return { suggestions: [...suggestions, ...librarySuggestions] };
         }
       });
     }
@@ -398,7 +243,13 @@ export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTi
       height="100%"
       defaultLanguage="cpp"
       value={value}
-      onChange={(val) => onChange(val || '')}
+      onChange={(val, event) => {
+        onContentChange?.(
+          event.isFlush ? null : event.changes.map(({ rangeOffset, rangeLength, text }) => ({ rangeOffset, rangeLength, text })),
+          val || ''
+        );
+        onChange(val || '');
+      }}
       onMount={handleEditorDidMount}
       theme={theme === 'dark' ? 'vs-dark' : 'vs-light'}
       options={{
@@ -407,7 +258,7 @@ export function CodeEditor({ value, onChange, errors, theme, onCompile, onRealTi
         lineNumbers: 'on',
         scrollBeyondLastLine: false,
         automaticLayout: true,
-        tabSize: 2,
+        tabSize: formatConfig.indentWidth,
         wordWrap: 'on',
         suggestOnTriggerCharacters: true,
         quickSuggestions: true,
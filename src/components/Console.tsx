@@ -1,15 +1,26 @@
-import { useEffect, useRef } from 'react';
-import { Terminal, AlertCircle, CheckCircle, Info, Sparkles } from 'lucide-react';
-import { ConsoleMessage } from '../types';
+import { useEffect, useRef, useState } from 'react';
+import { Terminal, AlertCircle, CheckCircle, Info, Sparkles, ClipboardPaste, Cable } from 'lucide-react';
+import { ConsoleMessage, SourceLocation } from '../types';
 
 interface ConsoleProps {
   messages: ConsoleMessage[];
   theme: 'light' | 'dark';
   onClear: () => void;
+  onNavigate?: (location: SourceLocation) => void;
+  // Called with a build log pasted from the desktop IDE or arduino-cli
+  onAnalyzeLog?: (log: string) => void;
 }
 
-export function Console({ messages, theme, onClear }: ConsoleProps) {
+export function Console({ messages, theme, onClear, onNavigate, onAnalyzeLog }: ConsoleProps) {
   const consoleRef = useRef<HTMLDivElement>(null);
+  const [showLogInput, setShowLogInput] = useState(false);
+  const [buildLog, setBuildLog] = useState('');
+
+  const handleAnalyzeLog = () => {
+    if (buildLog.trim()) onAnalyzeLog?.(buildLog);
+    setBuildLog('');
+    setShowLogInput(false);
+  };
 
   useEffect(() => {
     if (consoleRef.current) {
@@ -27,6 +38,8 @@ export function Console({ messages, theme, onClear }: ConsoleProps) {
         return <AlertCircle className="w-4 h-4 text-yellow-500" />;
       case 'ai':
         return <Sparkles className="w-4 h-4 text-blue-500" />;
+      case 'serial':
+        return <Cable className="w-4 h-4 text-indigo-500" />;
       default:
         return <Info className="w-4 h-4 text-gray-500" />;
     }
@@ -42,6 +55,8 @@ export function Console({ messages, theme, onClear }: ConsoleProps) {
         return 'text-yellow-600 dark:text-yellow-400';
       case 'ai':
         return 'text-blue-600 dark:text-blue-400';
+      case 'serial':
+        return 'text-indigo-700 dark:text-indigo-300';
       default:
         return 'text-gray-700 dark:text-gray-300';
     }
@@ -54,13 +69,53 @@ export function Console({ messages, theme, onClear }: ConsoleProps) {
           <Terminal className="w-4 h-4" />
           <span className="text-sm font-medium">Console</span>
         </div>
-        <button
-          onClick={onClear}
-          className={`text-xs px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors`}
-        >
-          Clear
-        </button>
+        <div className="flex items-center gap-1">
+          {onAnalyzeLog && (
+            <button
+              onClick={() => setShowLogInput(!showLogInput)}
+              className={`flex items-center gap-1 text-xs px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors`}
+              title="Paste a compiler log to show its errors in the editor"
+            >
+              <ClipboardPaste className="w-3 h-3" />
+              Paste build log
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className={`text-xs px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors`}
+          >
+            Clear
+          </button>
+        </div>
       </div>
+      {showLogInput && (
+        <div className={`flex flex-col gap-2 p-2 border-b ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+          <textarea
+            value={buildLog}
+            onChange={(e) => setBuildLog(e.target.value)}
+            placeholder="Paste the output of Verify/Compile from the Arduino IDE or arduino-cli"
+            rows={5}
+            className={`w-full font-mono text-xs p-2 rounded border resize-none ${
+              theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'
+            }`}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowLogInput(false)}
+              className="text-xs px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAnalyzeLog}
+              className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              Analyze
+            </button>
+          </div>
+        </div>
+      )}
       <div
         ref={consoleRef}
         className="flex-1 overflow-y-auto p-4 font-mono text-sm space-y-2"
@@ -74,7 +129,17 @@ export function Console({ messages, theme, onClear }: ConsoleProps) {
             <div key={msg.id} className="flex items-start gap-2">
               {getIcon(msg.type)}
               <div className="flex-1">
-                <span className={getTextColor(msg.type)}>{msg.message}</span>
+                {msg.location && onNavigate ? (
+                  <button
+                    onClick={() => onNavigate(msg.location!)}
+                    className={`text-left hover:underline ${getTextColor(msg.type)}`}
+                    title={`Go to ${msg.location.file ? `${msg.location.file}:` : 'line '}${msg.location.line}`}
+                  >
+                    {msg.message}
+                  </button>
+                ) : (
+                  <span className={getTextColor(msg.type)}>{msg.message}</span>
+                )}
                 <span className="text-gray-400 text-xs ml-2">
                   {new Date(msg.timestamp).toLocaleTimeString()}
                 </span>
@@ -0,0 +1,76 @@
+import { RotateCcw } from 'lucide-react';
+import { BraceStyle, FormatConfig } from '../types';
+import { DEFAULT_FORMAT_CONFIG } from '../utils/codeFormatter';
+
+interface FormatSettingsProps {
+  config: Partial<FormatConfig>;
+  onChange: (config: Partial<FormatConfig>) => void;
+  theme: 'light' | 'dark';
+}
+
+const INDENT_WIDTHS = [2, 3, 4, 8];
+
+const TOGGLES: { key: 'spaceAfterKeyword' | 'spaceAroundOperators' | 'spaceAfterComma' | 'formatOnSave'; label: string }[] = [
+  { key: 'spaceAfterKeyword', label: 'Space after if / for / while' },
+  { key: 'spaceAroundOperators', label: 'Spaces around operators' },
+  { key: 'spaceAfterComma', label: 'Space after commas' },
+  { key: 'formatOnSave', label: 'Format on save (Ctrl+S)' }
+];
+
+export function FormatSettings({ config, onChange, theme }: FormatSettingsProps) {
+  const settings = { ...DEFAULT_FORMAT_CONFIG, ...config };
+  const selectClass = `px-1 py-0.5 rounded border ${theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'}`;
+
+  return (
+    <div className="text-xs space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Formatting</span>
+        <button
+          onClick={() => onChange({})}
+          disabled={Object.keys(config).length === 0}
+          className="flex items-center gap-1 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Reset formatting to the defaults"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span>Braces</span>
+        <select
+          value={settings.braceStyle}
+          onChange={(e) => onChange({ ...config, braceStyle: e.target.value as BraceStyle })}
+          className={selectClass}
+        >
+          <option value="same-line">same line</option>
+          <option value="next-line">next line</option>
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span>Indent width</span>
+        <select
+          value={settings.indentWidth}
+          onChange={(e) => onChange({ ...config, indentWidth: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {INDENT_WIDTHS.map(width => (
+            <option key={width} value={width}>{width} spaces</option>
+          ))}
+        </select>
+      </div>
+
+      {TOGGLES.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between gap-2 cursor-pointer">
+          <span>{label}</span>
+          <input
+            type="checkbox"
+            checked={settings[key]}
+            onChange={(e) => onChange({ ...config, [key]: e.target.checked })}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { Trash2, Upload } from 'lucide-react';
+import { ImportedLibrary } from '../types';
+import { LIBRARY_CATALOG } from '../utils/libraryCatalog';
+
+interface LibraryManagerProps {
+  // Workspace libraries and those of the open project
+  libraries: ImportedLibrary[];
+  onImport: (scope: 'project' | 'workspace') => void;
+  onDelete: (libraryId: string) => void;
+  theme: 'light' | 'dark';
+}
+
+export function LibraryManager({ libraries, onImport, onDelete, theme }: LibraryManagerProps) {
+  const buttonClass = `flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border ${
+    theme === 'dark' ? 'border-gray-600 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="text-xs space-y-2">
+      <span className="font-semibold">Libraries</span>
+
+      <div className="flex gap-2">
+        <button onClick={() => onImport('project')} className={buttonClass} title="Import a library .zip into this project">
+          <Upload className="w-3 h-3" />
+          Project
+        </button>
+        <button onClick={() => onImport('workspace')} className={buttonClass} title="Import a library .zip for every project">
+          <Upload className="w-3 h-3" />
+          Workspace
+        </button>
+      </div>
+
+      {libraries.length === 0 ? (
+        <div className="text-gray-500">No imported libraries. Import an Arduino library .zip to use its headers.</div>
+      ) : (
+        <div className="space-y-1">
+          {libraries.map(library => (
+            <div key={library.id} className="flex items-start justify-between gap-2 group" title={library.description}>
+              <div className="min-w-0">
+                <div className="truncate">
+                  {library.name} <span className="text-gray-500">{library.version}</span>
+                </div>
+                <div className="text-gray-500 truncate font-mono">
+                  {library.files.filter(f => /\.(h|hpp)$/i.test(f.name)).map(f => f.name).join(', ')}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-gray-500">{library.projectId === null ? 'workspace' : 'project'}</span>
+                <button
+                  onClick={() => onDelete(library.id)}
+                  className="opacity-0 group-hover:opacity-100 hover:text-red-600"
+                  title="Remove Library"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-gray-500" title={LIBRARY_CATALOG.map(library => library.name).join(', ')}>
+        Built in: {LIBRARY_CATALOG.length} common libraries
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { RotateCcw } from 'lucide-react';
+import { LintConfig, RuleSetting } from '../types';
+import { Analyzer, RuleCategory } from '../utils/analyzer';
+
+interface LintSettingsProps {
+  config: LintConfig;
+  onChange: (config: LintConfig) => void;
+  theme: 'light' | 'dark';
+}
+
+const CATEGORY_LABELS: Record<RuleCategory, string> = {
+  syntax: 'Syntax',
+  sketch: 'Sketch structure',
+  declarations: 'Declarations',
+  libraries: 'Libraries',
+  types: 'Types',
+  memory: 'Memory',
+  pins: 'Pins',
+  timing: 'Timing',
+  interrupts: 'Interrupts',
+  hardware: 'Hardware',
+  style: 'Style'
+};
+
+export function LintSettings({ config, onChange, theme }: LintSettingsProps) {
+  const rules = Analyzer.getRules();
+  const categories = [...new Set(rules.map(rule => rule.category))];
+
+  const updateRule = (ruleId: string, value: string) => {
+    const next = { ...config };
+    if (value === 'default') {
+      delete next[ruleId];
+    } else {
+      next[ruleId] = value as RuleSetting;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Lint rules</span>
+        <button
+          onClick={() => onChange({})}
+          disabled={Object.keys(config).length === 0}
+          className="flex items-center gap-1 hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Reset all rules to their defaults"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+
+      {categories.map(category => (
+        <div key={category}>
+          <div className="text-gray-500 uppercase tracking-wide mb-1">{CATEGORY_LABELS[category]}</div>
+          <div className="space-y-1">
+            {rules.filter(rule => rule.category === category).map(rule => (
+              <div key={rule.id} className="flex items-center justify-between gap-2" title={rule.description}>
+                <span className={`truncate font-mono ${config[rule.id] === 'off' ? 'line-through text-gray-500' : ''}`}>
+                  {rule.id}
+                </span>
+                <select
+                  value={config[rule.id] ?? 'default'}
+                  onChange={(e) => updateRule(rule.id, e.target.value)}
+                  className={`px-1 py-0.5 rounded border ${
+                    theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'
+                  }`}
+                >
+                  <option value="default">default ({rule.defaultSeverity})</option>
+                  <option value="error">error</option>
+                  <option value="warning">warning</option>
+                  <option value="off">off</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { CircuitBoard, X } from 'lucide-react';
+import { BoardProfile } from '../utils/boards';
+import { PinMapEntry, pinLabel } from '../utils/pinUsage';
+
+interface PinMapPanelProps {
+  entries: PinMapEntry[];
+  board: BoardProfile;
+  onNavigate: (sketchId: string, line: number) => void;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+const PIN_SPACING = 22;
+const PINS_PER_ROW = 13;
+
+const MODE_COLORS: Record<string, string> = {
+  OUTPUT: '#2563eb',
+  INPUT: '#16a34a',
+  INPUT_PULLUP: '#0d9488'
+};
+
+// Pins that are only read or written without a pinMode() still count as used
+const UNSPECIFIED_COLOR = '#9333ea';
+const CONFLICT_COLOR = '#dc2626';
+
+function pinColor(entry: PinMapEntry): string {
+  if (entry.modes.length > 1) return CONFLICT_COLOR;
+  return MODE_COLORS[entry.modes[0]] ?? UNSPECIFIED_COLOR;
+}
+
+// Digital header first, then the analog header; ESP boards label everything by GPIO number
+function headerRows(board: BoardProfile): number[][] {
+  const analog = board.architecture === 'esp32' ? [] : Object.values(board.analogPins);
+  const digital = board.digitalPins.filter(pin => !analog.includes(pin));
+  const rows: number[][] = [];
+  [digital, analog].forEach(header => {
+    for (let i = 0; i < header.length; i += PINS_PER_ROW) rows.push(header.slice(i, i + PINS_PER_ROW));
+  });
+  return rows;
+}
+
+export function PinMapPanel({ entries, board, onNavigate, onClose, theme }: PinMapPanelProps) {
+  const byPin = new Map(entries.map(entry => [entry.pin, entry]));
+  const rows = headerRows(board);
+  const width = PINS_PER_ROW * PIN_SPACING + 16;
+  const height = rows.length * (PIN_SPACING + 14) + 16;
+
+  const jumpToPin = (entry: PinMapEntry | undefined) => {
+    const first = entry?.references[0];
+    if (first) onNavigate(first.sketchId, first.line);
+  };
+
+  return (
+    <div className={`w-80 flex flex-col border-l overflow-hidden ${
+      theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${
+        theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-blue-50'
+      }`}>
+        <div className="flex items-center gap-2">
+          <CircuitBoard className="w-4 h-4 text-blue-600" />
+          <h3 className="font-semibold text-sm">Pin Map</h3>
+          <span className="text-xs text-gray-500">{board.name}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="hover:bg-gray-200 dark:hover:bg-gray-700 p-1 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3">
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+          <rect x={1} y={1} width={width - 2} height={height - 2} rx={6} fill="#0f766e" stroke="#115e59" />
+          {rows.map((row, rowIndex) =>
+            row.map((pin, index) => {
+              const entry = byPin.get(pin);
+              const x = 8 + PIN_SPACING / 2 + index * PIN_SPACING;
+              const y = 12 + rowIndex * (PIN_SPACING + 14);
+              return (
+                <g
+                  key={pin}
+                  onClick={() => jumpToPin(entry)}
+                  className={entry ? 'cursor-pointer' : ''}
+                >
+                  <title>
+                    {entry
+                      ? `${pinLabel(board, pin)}: ${[...entry.names, ...entry.modes, ...entry.functions].join(', ')}`
+                      : `${pinLabel(board, pin)} (unused)`}
+                  </title>
+                  <circle
+                    cx={x}
+                    cy={y + 6}
+                    r={6}
+                    fill={entry ? pinColor(entry) : '#1f2937'}
+                    stroke={board.pwmPins.includes(pin) ? '#fbbf24' : '#d1d5db'}
+                    strokeWidth={1.5}
+                  />
+                  <text x={x} y={y + 22} fontSize={7} fill="#f9fafb" textAnchor="middle">
+                    {board.pwmPins.includes(pin) ? '~' : ''}{pinLabel(board, pin)}
+                  </text>
+                </g>
+              );
+            })
+          )}
+        </svg>
+
+        <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+          {Object.entries(MODE_COLORS).map(([mode, color]) => (
+            <span key={mode} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full inline-block" style={{ backgroundColor: color }} />
+              {mode}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full inline-block" style={{ backgroundColor: UNSPECIFIED_COLOR }} />
+            no pinMode
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full inline-block" style={{ backgroundColor: CONFLICT_COLOR }} />
+            conflicting modes
+          </span>
+          <span>~ PWM</span>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No pins referenced in this project.</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div
+                key={entry.pin}
+                className={`p-2 rounded border text-xs ${
+                  theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold font-mono">
+                    Pin {pinLabel(board, entry.pin)}
+                    {entry.names.length > 0 && <span className="text-gray-500"> ({entry.names.join(', ')})</span>}
+                  </span>
+                  <span style={{ color: pinColor(entry) }}>{entry.modes.join(' / ') || 'no pinMode'}</span>
+                </div>
+                <div className="text-gray-500 mb-1">{entry.functions.map(fn => `${fn}()`).join(', ')}</div>
+                <div className="flex flex-wrap gap-1">
+                  {entry.references.map((ref, index) => (
+                    <button
+                      key={index}
+                      onClick={() => onNavigate(ref.sketchId, ref.line)}
+                      className="px-1.5 py-0.5 rounded bg-blue-600/10 text-blue-600 hover:bg-blue-600/20 font-mono"
+                      title={`${ref.fn}() in ${ref.sketchName}`}
+                    >
+                      {ref.sketchName}:{ref.line}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState } from 'react';
-import { FileCode, FolderPlus, FilePlus, Trash2, Download, Upload, ChevronRight, ChevronDown } from 'lucide-react';
-import { Project, Sketch } from '../types';
+import { FileCode, FolderPlus, FilePlus, Trash2, Download, Upload, ChevronRight, ChevronDown, SlidersHorizontal, AlignLeft, Package } from 'lucide-react';
+import { FormatConfig, ImportedLibrary, LintConfig, Project, Sketch } from '../types';
+import { FormatSettings } from './FormatSettings';
+import { LibraryManager } from './LibraryManager';
+import { LintSettings } from './LintSettings';
 
 interface SidebarProps {
   projects: Project[];
@@ -14,6 +17,11 @@ interface SidebarProps {
   onDeleteSketch: (sketchId: string) => void;
   onExportSketch: (sketch: Sketch) => void;
   onImportSketch: () => void;
+  onUpdateLintConfig: (config: LintConfig) => void;
+  onUpdateFormatConfig: (config: Partial<FormatConfig>) => void;
+  libraries: ImportedLibrary[];
+  onImportLibrary: (scope: 'project' | 'workspace') => void;
+  onDeleteLibrary: (libraryId: string) => void;
   theme: 'light' | 'dark';
 }
 
@@ -29,11 +37,19 @@ export function Sidebar({
   onDeleteSketch,
   onExportSketch,
   onImportSketch,
+  onUpdateLintConfig,
+  onUpdateFormatConfig,
+  libraries,
+  onImportLibrary,
+  onDeleteLibrary,
   theme
 }: SidebarProps) {
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(
     new Set(currentProject ? [currentProject.id] : [])
   );
+  const [showLintSettings, setShowLintSettings] = useState(false);
+  const [showFormatSettings, setShowFormatSettings] = useState(false);
+  const [showLibraries, setShowLibraries] = useState(false);
 
   const toggleProject = (projectId: string) => {
     const newExpanded = new Set(expandedProjects);
@@ -161,7 +177,62 @@ export function Sidebar({
         )}
       </div>
 
-      <div className={`p-3 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+      {showLintSettings && currentProject && (
+        <div className={`max-h-72 overflow-y-auto p-3 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+          <LintSettings
+            config={currentProject.lintConfig ?? {}}
+            onChange={onUpdateLintConfig}
+            theme={theme}
+          />
+        </div>
+      )}
+
+      {showFormatSettings && currentProject && (
+        <div className={`max-h-72 overflow-y-auto p-3 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+          <FormatSettings
+            config={currentProject.format ?? {}}
+            onChange={onUpdateFormatConfig}
+            theme={theme}
+          />
+        </div>
+      )}
+
+      {showLibraries && currentProject && (
+        <div className={`max-h-72 overflow-y-auto p-3 border-t ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+          <LibraryManager
+            libraries={libraries}
+            onImport={onImportLibrary}
+            onDelete={onDeleteLibrary}
+            theme={theme}
+          />
+        </div>
+      )}
+
+      <div className={`p-3 border-t space-y-2 ${theme === 'dark' ? 'border-gray-700' : 'border-gray-200'}`}>
+        <button
+          onClick={() => setShowLintSettings(!showLintSettings)}
+          disabled={!currentProject}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {showLintSettings ? 'Hide Lint Rules' : 'Lint Rules'}
+        </button>
+        <button
+          onClick={() => setShowFormatSettings(!showFormatSettings)}
+          disabled={!currentProject}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <AlignLeft className="w-4 h-4" />
+          {showFormatSettings ? 'Hide Formatting' : 'Formatting'}
+        </button>
+        <button
+          onClick={() => setShowLibraries(!showLibraries)}
+          disabled={!currentProject}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm border rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Package className="w-4 h-4" />
+          {showLibraries ? 'Hide Libraries' : 'Libraries'}
+        </button>
         <button
           onClick={onImportSketch}
           disabled={!currentProject}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { MonitorPlay, X } from 'lucide-react';
+import { pinLabel } from '../utils/pinUsage';
+import { SimulationState, Simulator } from '../utils/simulator';
+import { PinState } from '../utils/virtualPins';
+
+interface SimulatorPanelProps {
+  simulator: Simulator;
+  state: SimulationState;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+const LEVEL_COLORS = { high: '#dc2626', low: '#4b5563', floating: '#9ca3af' };
+
+function formatClock(micros: number): string {
+  const seconds = micros / 1e6;
+  return seconds < 60 ? `${seconds.toFixed(3)} s` : `${Math.floor(seconds / 60)} min ${(seconds % 60).toFixed(1)} s`;
+}
+
+export function SimulatorPanel({ simulator, state, onClose, theme }: SimulatorPanelProps) {
+  const { board, pins } = simulator;
+  const [snapshot, setSnapshot] = useState<{ pins: PinState[]; time: number }>(() => ({ pins: pins.snapshot(), time: simulator.time }));
+
+  // Pin changes can come thousands of times a second; redraw at most once a frame.
+  // While running the clock moves too, so keep redrawing.
+  useEffect(() => {
+    let frame: number | null = null;
+    const redraw = () => {
+      frame = null;
+      setSnapshot({ pins: pins.snapshot(), time: simulator.time });
+      if (state === 'running') schedule();
+    };
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(redraw);
+    };
+    const unsubscribe = pins.subscribe(schedule);
+    schedule();
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [simulator, pins, state]);
+
+  const maxReading = board.architecture === 'esp32' ? 4095 : 1023;
+  const segmentClass = (active: boolean) =>
+    `px-1.5 py-0.5 ${active ? 'bg-indigo-600 text-white' : theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-200'}`;
+
+  return (
+    <div className={`w-80 flex flex-col border-l overflow-hidden ${
+      theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${
+        theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-blue-50'
+      }`}>
+        <div className="flex items-center gap-2">
+          <MonitorPlay className="w-4 h-4 text-indigo-600" />
+          <h3 className="font-semibold text-sm">Simulator</h3>
+          <span className="text-xs text-gray-500">{board.name}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="hover:bg-gray-200 dark:hover:bg-gray-700 p-1 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-500">{state === 'stopped' ? 'Stopped' : state === 'paused' ? 'Paused' : 'Running'}</span>
+          <span className="font-mono" title="millis() in the simulation">
+            {simulator.programCounter !== null && <span className="mr-2 text-gray-500" title="Flash address of the next instruction">PC {simulator.programCounter.toString(16).toUpperCase().padStart(4, '0')}</span>}
+            {formatClock(snapshot.time)}
+          </span>
+        </div>
+
+        {snapshot.pins.length === 0 ? (
+          <p className="text-gray-500">No pins used yet. Pins appear here as the sketch sets them up.</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshot.pins.map(pin => {
+              const output = pin.mode === 'OUTPUT';
+              const level = pins.read(pin.pin);
+              const analog = board.adcPins.includes(pin.pin);
+              return (
+                <div
+                  key={pin.pin}
+                  className={`p-2 rounded border space-y-1 ${
+                    theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 font-semibold font-mono">
+                      <span
+                        className="w-2.5 h-2.5 rounded-full inline-block"
+                        style={{
+                          backgroundColor: !output && pin.input === null && pin.mode === 'INPUT' ? LEVEL_COLORS.floating : level ? LEVEL_COLORS.high : LEVEL_COLORS.low,
+                          opacity: pin.duty !== null ? 0.25 + (0.75 * pin.duty) / 255 : 1
+                        }}
+                      />
+                      Pin {pinLabel(board, pin.pin)}
+                    </span>
+                    <span className="text-gray-500">{pin.mode}</span>
+                  </div>
+
+                  {output ? (
+                    <div className="font-mono">
+                      {pin.duty !== null ? `PWM ${Math.round((pin.duty / 255) * 100)}% (${pin.duty}/255)` : level ? 'HIGH' : 'LOW'}
+                      {pin.frequency !== null && <span className="ml-2">tone {pin.frequency} Hz</span>}
+                      {pin.pulse !== null && <span className="ml-2">servo pulse {Math.round(pin.pulse)} µs</span>}
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono">{level ? 'HIGH' : 'LOW'}</span>
+                      <div className={`flex rounded border overflow-hidden ${theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>
+                        <button onClick={() => pins.drive(pin.pin, 1)} className={segmentClass(pin.input === 1)} title="Drive the pin HIGH">
+                          HIGH
+                        </button>
+                        <button onClick={() => pins.drive(pin.pin, 0)} className={segmentClass(pin.input === 0)} title="Drive the pin LOW">
+                          LOW
+                        </button>
+                        <button onClick={() => pins.drive(pin.pin, null)} className={segmentClass(pin.input === null)} title="Leave the pin unconnected">
+                          open
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {analog && !output && (
+                    <label className="flex items-center gap-2" title="Voltage on the pin, as read by analogRead()">
+                      <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.001}
+                        value={pin.voltage}
+                        disabled={pin.input !== null}
+                        onChange={e => pins.setVoltage(pin.pin, Number(e.target.value))}
+                        className="flex-1"
+                      />
+                      <span className="font-mono w-10 text-right">{pins.readAnalog(pin.pin)}</span>
+                      <span className="text-gray-500">/ {maxReading}</span>
+                    </label>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { SourceLocation } from '../types';
+import { BoardProfile, formatBytes } from '../utils/boards';
+import type { BuildSize } from '../utils/gccOutputParser';
+import { LOW_MEMORY_RATIO, SizeCategory, SizeUsage, sizeUsage } from '../utils/memoryEstimator';
+
+interface SizeReportProps {
+  // The last compile's size, or null before the first successful build
+  size: BuildSize | null;
+  board: BoardProfile;
+  onNavigate: (location: SourceLocation) => void;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+type SortKey = 'sramBytes' | 'flashBytes';
+
+const MAX_ROWS = 15;
+
+const CATEGORY_LABELS: Record<SizeCategory, string> = {
+  core: 'core',
+  library: 'library',
+  global: 'global',
+  heap: 'heap',
+  string: 'strings',
+  code: 'code'
+};
+
+function barColor({ ratio }: SizeUsage): string {
+  if (ratio > 1) return '#dc2626';
+  return ratio > LOW_MEMORY_RATIO ? '#f59e0b' : '#16a34a';
+}
+
+function UsageBar({ label, usage }: { label: string; usage: SizeUsage }) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-medium">{label}</span>
+        <span className="text-gray-500">
+          {formatBytes(usage.used)} / {formatBytes(usage.max)} ({Math.round(usage.ratio * 100)}%)
+        </span>
+      </div>
+      <div className="h-2 rounded bg-gray-300 dark:bg-gray-700 overflow-hidden">
+        <div className="h-full" style={{ width: `${Math.min(usage.ratio, 1) * 100}%`, backgroundColor: barColor(usage) }} />
+      </div>
+    </div>
+  );
+}
+
+export function SizeReport({ size, board, onNavigate, onClose, theme }: SizeReportProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('sramBytes');
+  const usage = size ? sizeUsage(size, board) : null;
+  const contributors = [...(size?.contributors ?? [])]
+    .filter(c => c[sortKey] > 0)
+    .sort((a, b) => b[sortKey] - a[sortKey])
+    .slice(0, MAX_ROWS);
+
+  return (
+    <div className={`w-80 flex flex-col border-l overflow-hidden ${
+      theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+    }`}>
+      <div className={`flex items-center justify-between px-4 py-3 border-b ${
+        theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-blue-50'
+      }`}>
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-blue-600" />
+          <h3 className="font-semibold text-sm">Memory Usage</h3>
+          <span className="text-xs text-gray-500">{board.name}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="hover:bg-gray-200 dark:hover:bg-gray-700 p-1 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3">
+        {!size || !usage ? (
+          <p className="text-sm text-gray-500">Compile the sketch to see how much flash and SRAM it uses.</p>
+        ) : (
+          <>
+            <UsageBar label="Flash (program storage)" usage={usage.flash} />
+            <UsageBar label="SRAM (global variables)" usage={usage.sram} />
+            {usage.sram.ratio > LOW_MEMORY_RATIO && (
+              <p className="text-xs text-yellow-600">
+                Less than {formatBytes(Math.max(usage.sram.max - usage.sram.used, 0))} is left for the stack and heap. Local
+                variables, String objects and library buffers may overwrite globals at run time.
+              </p>
+            )}
+
+            {size.contributors ? (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-semibold">Largest contributors</span>
+                  <div className="flex text-xs rounded overflow-hidden border border-gray-300 dark:border-gray-600">
+                    {(['sramBytes', 'flashBytes'] as SortKey[]).map(key => (
+                      <button
+                        key={key}
+                        onClick={() => setSortKey(key)}
+                        className={`px-2 py-0.5 ${sortKey === key ? 'bg-blue-600 text-white' : ''}`}
+                      >
+                        {key === 'sramBytes' ? 'SRAM' : 'Flash'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {contributors.map((contributor, index) => (
+                    <button
+                      key={index}
+                      onClick={() => contributor.location && onNavigate(contributor.location)}
+                      disabled={!contributor.location}
+                      className={`w-full flex items-center justify-between gap-2 p-2 rounded border text-xs text-left ${
+                        theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'
+                      } ${contributor.location ? 'hover:border-blue-500' : 'cursor-default'}`}
+                      title={contributor.location ? `${contributor.location.file ?? ''}:${contributor.location.line}` : undefined}
+                    >
+                      <span className="font-mono truncate">{contributor.name}</span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <span className="text-gray-500">{CATEGORY_LABELS[contributor.category]}</span>
+                        <span className="font-mono">{formatBytes(contributor[sortKey])}</span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">This compiler only reports totals; switch to the built-in checker for a per-symbol breakdown.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,39 @@
-import { Play, CheckCircle, Wrench, Moon, Sun, Zap, Info, Upload, Bot } from 'lucide-react';
+import { Play, CheckCircle, Wrench, Moon, Sun, Zap, Info, Upload, Bot, Cpu, CircuitBoard, Hammer, BarChart3, MonitorPlay, Pause, StepForward, Square, ToyBrick, Binary, FileUp } from 'lucide-react';
+import { CompilerBackendId } from '../types';
+import { BOARDS, formatBytes, getBoard } from '../utils/boards';
+import { COMPILER_BACKENDS, getCompilerBackend } from '../utils/compilerBackend';
+import type { SimulationState } from '../utils/simulator';
 
 interface ToolbarProps {
   onCompile: () => void;
   onVerify: () => void;
   onAutoFix: () => void;
   onUpload: () => void;
+  onSimulate: () => void;
+  onRunFirmware: () => void;
+  onLoadFirmware: () => void;
+  onPauseSimulation: () => void;
+  onStepSimulation: () => void;
+  onStopSimulation: () => void;
   onToggleTheme: () => void;
   onToggleAI: () => void;
+  onTogglePinMap: () => void;
+  onToggleBreadboard: () => void;
+  onToggleSizeReport: () => void;
+  boardId?: string;
+  onBoardChange: (boardId: string) => void;
+  compilerBackend?: CompilerBackendId;
+  onCompilerChange: (backend: CompilerBackendId) => void;
   theme: 'light' | 'dark';
   isCompiling: boolean;
   isUploading: boolean;
+  simulationState: SimulationState;
   hasErrors: boolean;
   isConnected: boolean;
   showAI: boolean;
+  showPinMap: boolean;
+  showBreadboard: boolean;
+  showSizeReport: boolean;
 }
 
 export function Toolbar({
@@ -20,15 +41,35 @@ export function Toolbar({
   onVerify,
   onAutoFix,
   onUpload,
+  onSimulate,
+  onRunFirmware,
+  onLoadFirmware,
+  onPauseSimulation,
+  onStepSimulation,
+  onStopSimulation,
   onToggleTheme,
   onToggleAI,
+  onTogglePinMap,
+  onToggleBreadboard,
+  onToggleSizeReport,
+  boardId,
+  onBoardChange,
+  compilerBackend,
+  onCompilerChange,
   theme,
   isCompiling,
   isUploading,
+  simulationState,
   hasErrors,
   isConnected,
-  showAI
+  showAI,
+  showPinMap,
+  showBreadboard,
+  showSizeReport
 }: ToolbarProps) {
+  const board = getBoard(boardId);
+  const backend = getCompilerBackend(compilerBackend);
+
   return (
     <div className={`flex items-center justify-between px-4 py-3 border-b ${
       theme === 'dark' ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-200'
@@ -87,6 +128,61 @@ export function Toolbar({
           </span>
         </button>
 
+        {simulationState === 'stopped' ? (
+          <div className="flex items-center rounded overflow-hidden bg-indigo-600 text-white">
+            <button
+              onClick={onSimulate}
+              disabled={isCompiling || hasErrors}
+              className="flex items-center gap-2 px-4 py-2 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Run the sketch in the browser with virtual pins"
+            >
+              <MonitorPlay className="w-4 h-4" />
+              <span className="text-sm font-medium">Simulate</span>
+            </button>
+            <button
+              onClick={onRunFirmware}
+              disabled={isCompiling || hasErrors}
+              className="px-3 py-2 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Build the firmware and run it on an emulated ATmega328P"
+            >
+              <Binary className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onLoadFirmware}
+              className="px-3 py-2 hover:bg-indigo-700 transition-colors"
+              title="Run a .hex file on an emulated ATmega328P"
+            >
+              <FileUp className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center rounded overflow-hidden bg-indigo-600 text-white">
+            <button
+              onClick={onPauseSimulation}
+              className="flex items-center gap-2 px-3 py-2 hover:bg-indigo-700 transition-colors"
+              title={simulationState === 'running' ? 'Pause Simulation' : 'Resume Simulation'}
+            >
+              {simulationState === 'running' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              <span className="text-sm font-medium">{simulationState === 'running' ? 'Pause' : 'Resume'}</span>
+            </button>
+            <button
+              onClick={onStepSimulation}
+              disabled={simulationState !== 'paused'}
+              className="px-3 py-2 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Run to the next statement"
+            >
+              <StepForward className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onStopSimulation}
+              className="px-3 py-2 hover:bg-indigo-700 transition-colors"
+              title="Stop Simulation"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         <button
           onClick={onToggleAI}
           className={`flex items-center gap-2 px-4 py-2 rounded transition-colors ${
@@ -101,9 +197,81 @@ export function Toolbar({
             {showAI ? 'AI On' : 'AI Off'}
           </span>
         </button>
+
+        <button
+          onClick={onTogglePinMap}
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-colors ${
+            showPinMap
+              ? 'bg-teal-600 hover:bg-teal-700 text-white'
+              : 'bg-gray-600 hover:bg-gray-700 text-white'
+          }`}
+          title="Toggle Pin Map"
+        >
+          <CircuitBoard className="w-4 h-4" />
+          <span className="text-sm font-medium">Pins</span>
+        </button>
+
+        <button
+          onClick={onToggleBreadboard}
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-colors ${
+            showBreadboard
+              ? 'bg-teal-600 hover:bg-teal-700 text-white'
+              : 'bg-gray-600 hover:bg-gray-700 text-white'
+          }`}
+          title="Toggle Breadboard"
+        >
+          <ToyBrick className="w-4 h-4" />
+          <span className="text-sm font-medium">Parts</span>
+        </button>
+
+        <button
+          onClick={onToggleSizeReport}
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-colors ${
+            showSizeReport
+              ? 'bg-teal-600 hover:bg-teal-700 text-white'
+              : 'bg-gray-600 hover:bg-gray-700 text-white'
+          }`}
+          title="Toggle Memory Usage"
+        >
+          <BarChart3 className="w-4 h-4" />
+          <span className="text-sm font-medium">Size</span>
+        </button>
       </div>
 
       <div className="flex items-center gap-3">
+        <div
+          className="flex items-center gap-1"
+          title={`${board.mcu} @ ${board.clockHz / 1_000_000} MHz • ${formatBytes(board.flashBytes)} flash • ${formatBytes(board.sramBytes)} SRAM`}
+        >
+          <Cpu className="w-4 h-4" />
+          <select
+            value={board.id}
+            onChange={(e) => onBoardChange(e.target.value)}
+            className={`text-sm px-2 py-1 rounded border ${
+              theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'
+            }`}
+          >
+            {BOARDS.map(b => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1" title={backend.description}>
+          <Hammer className="w-4 h-4" />
+          <select
+            value={backend.id}
+            onChange={(e) => onCompilerChange(e.target.value as CompilerBackendId)}
+            className={`text-sm px-2 py-1 rounded border ${
+              theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-300'
+            }`}
+          >
+            {COMPILER_BACKENDS.map(b => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+        </div>
+
         <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
           <Info className="w-4 h-4" />
           <span>Ctrl/Cmd + R to verify • Ctrl/Cmd + S to save</span>
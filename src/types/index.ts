@@ -9,15 +9,104 @@ export interface Project {
   name: string;
   description: string;
   sketches: Sketch[];
+  // Target board from the catalog in utils/boards; projects saved before boards existed default to the Uno
+  boardId?: string;
+  lintConfig?: LintConfig;
+  // Which compiler backend Verify, Compile and Upload go through; defaults to the built-in checker
+  compiler?: CompilerSettings;
+  // Formatter options; unset fields fall back to DEFAULT_FORMAT_CONFIG in utils/codeFormatter
+  format?: Partial<FormatConfig>;
+  // Parts on the simulator's breadboard
+  components?: VirtualComponent[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type VirtualComponentKind = 'led' | 'button' | 'potentiometer' | 'buzzer' | 'lcd' | 'servo';
+
+// A part wired to the board for simulation
+export interface VirtualComponent {
+  id: string;
+  kind: VirtualComponentKind;
+  label: string;
+  // Board pin of each connection, by the names COMPONENT_KINDS in utils/virtualComponents gives them
+  pins: Record<string, number>;
+  // LEDs: the colour it lights up in
+  color?: string;
+  // Buttons: 0 when pressing connects the pin to GND (read with INPUT_PULLUP),
+  // 1 when it connects the pin to 5V and a pull-down resistor holds it LOW otherwise
+  pressedLevel?: 0 | 1;
+}
+
+// A third-party library imported from a .zip and stored next to the projects
+export interface ImportedLibrary {
+  id: string;
+  // From library.properties, or the archive's folder name
+  name: string;
+  version: string;
+  description: string;
+  // The project it was imported into; null for the workspace, where every project sees it
+  projectId: string | null;
+  // Headers and sources from the library's src/ folder, named by their path inside it
+  files: { name: string; content: string }[];
+  importedAt: string;
+}
+
+// Per-rule override of the analyzer's default severity; rules not listed keep their default
+export type RuleSetting = 'off' | 'warning' | 'error';
+
+export type LintConfig = Record<string, RuleSetting>;
+
+export type CompilerBackendId = 'builtin' | 'arduino-cli';
+
+export interface CompilerSettings {
+  backend: CompilerBackendId;
+  // Base URL of the local compile daemon used by the arduino-cli backend
+  daemonUrl?: string;
+}
+
+export type BraceStyle = 'same-line' | 'next-line';
+
+export interface FormatConfig {
+  braceStyle: BraceStyle;
+  // Spaces per indentation level
+  indentWidth: number;
+  // `if (x)` rather than `if(x)`, likewise for for, while, switch and catch
+  spaceAfterKeyword: boolean;
+  spaceAroundOperators: boolean;
+  spaceAfterComma: boolean;
+  // Format the sketch when it is saved with Ctrl+S
+  formatOnSave: boolean;
+}
+
 export interface CompilationError {
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
   message: string;
   severity: 'error' | 'warning';
+  ruleId?: string;
+  // Project file the diagnostic belongs to, when a whole project was analyzed
+  file?: string;
+  // Follow-up lines from a real compiler: notes, include chains, template backtraces
+  notes?: string[];
+  // Machine-applicable fixes, offered as quick fixes in the editor
+  fixes?: QuickFix[];
+}
+
+// Replaces the text between two positions (1-based, end exclusive); an insertion when they are equal
+export interface TextEdit {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+}
+
+export interface QuickFix {
+  title: string;
+  edits: TextEdit[];
 }
 
 export interface AIFixSuggestion {
@@ -27,11 +116,29 @@ export interface AIFixSuggestion {
   explanation: string;
 }
 
+export interface AISuggestion {
+  id: string;
+  type: 'completion' | 'fix' | 'optimization' | 'explanation';
+  title: string;
+  description: string;
+  code?: string;
+  line?: number;
+  confidence: number;
+}
+
 export interface ConsoleMessage {
   id: string;
-  type: 'info' | 'error' | 'warning' | 'success' | 'ai';
+  type: 'info' | 'error' | 'warning' | 'success' | 'ai' | 'serial';
   message: string;
   timestamp: number;
+  // Source position the message refers to; the Console lets the user jump there
+  location?: SourceLocation;
+}
+
+export interface SourceLocation {
+  file?: string;
+  line: number;
+  column?: number;
 }
 
 export type Theme = 'light' | 'dark';
@@ -1,5 +1,6 @@
 import { CompilationError, AIFixSuggestion } from '../types';
 import { FreeAIService } from './freeAIService';
+import { getQuickFixSuggestions, toFixSuggestion } from './quickFixes';
 
 export class AIHelper {
   static async analyzeAndFix(code: string, errors: CompilationError[]): Promise<AIFixSuggestion[]> {
@@ -10,7 +11,7 @@ export class AIHelper {
         return aiSuggestions;
       }
       
-      // Fallback to rule-based fixes
+      // Fallback to the analyzer's quick fixes
       return this.getRuleBasedFixes(code, errors);
     } catch (error) {
       console.warn('AI analysis failed, falling back to rule-based fixes:', error);
@@ -38,306 +39,17 @@ export class AIHelper {
       console.warn('AI service failed, falling back to rule-based fixes:', error);
     }
     
-    // Fallback to enhanced rule-based fixes
-    return this.getEnhancedRuleBasedFixes(code, errors);
+    return this.getRuleBasedFixes(code, errors);
   }
 
+  // The AI only explains; the edit itself is the analyzer's quick fix
   private static createSuggestionFromAI(code: string, error: CompilationError, aiExplanation: string): AIFixSuggestion | null {
-    const lines = code.split('\n');
-    const line = lines[error.line - 1] || '';
-    
-    // Create suggestion based on AI explanation
-    if (error.message.includes('Expected `;`')) {
-      return {
-        line: error.line,
-        original: line,
-        fixed: line + ';',
-        explanation: aiExplanation
-      };
-    } else if (error.message.includes('pinMode')) {
-      const fixedLine = line.replace('pinMode(', 'pinMode(').replace(' ', ', ');
-      return {
-        line: error.line,
-        original: line,
-        fixed: fixedLine,
-        explanation: aiExplanation
-      };
-    } else if (error.message.includes('digitalWrite')) {
-      const fixedLine = line.replace('digitalWrite(', 'digitalWrite(').replace(' ', ', ');
-      return {
-        line: error.line,
-        original: line,
-        fixed: fixedLine,
-        explanation: aiExplanation
-      };
-    }
-    
-    return null;
+    const fix = error.fixes?.[0];
+    return fix ? toFixSuggestion(code, error, fix, aiExplanation) : null;
   }
 
   private static getRuleBasedFixes(code: string, errors: CompilationError[]): AIFixSuggestion[] {
-    const suggestions: AIFixSuggestion[] = [];
-    const lines = code.split('\n');
-
-    errors.forEach(error => {
-      const line = lines[error.line - 1] || '';
-      let suggestion: AIFixSuggestion | null = null;
-
-      if (error.message.includes('Expected `;`')) {
-        suggestion = {
-          line: error.line,
-          original: line,
-          fixed: line + ';',
-          explanation: 'Added missing semicolon at end of statement'
-        };
-      } else if (error.message.includes('void setup()')) {
-        suggestion = {
-          line: 1,
-          original: '',
-          fixed: 'void setup() {\n  // Initialization code here\n  Serial.begin(9600);\n}',
-          explanation: 'Added required setup() function'
-        };
-      } else if (error.message.includes('void loop()')) {
-        suggestion = {
-          line: 1,
-          original: '',
-          fixed: '\nvoid loop() {\n  // Main code here\n}',
-          explanation: 'Added required loop() function'
-        };
-      } else if (error.message.includes('unclosed brace')) {
-        suggestion = {
-          line: error.line,
-          original: line,
-          fixed: line + '\n}',
-          explanation: 'Added missing closing brace'
-        };
-      }
-
-      if (suggestion) {
-        suggestions.push(suggestion);
-      }
-    });
-
-    return suggestions;
-  }
-
-  private static getEnhancedRuleBasedFixes(code: string, errors: CompilationError[]): AIFixSuggestion[] {
-    const suggestions: AIFixSuggestion[] = [];
-    const lines = code.split('\n');
-
-    errors.forEach(error => {
-      // Validate error line number first
-      if (error.line < 1 || error.line > lines.length) {
-        console.warn(`Skipping error with invalid line number: ${error.line}. Code has ${lines.length} lines.`);
-        return;
-      }
-
-      const line = lines[error.line - 1] || '';
-      let suggestion: AIFixSuggestion | null = null;
-
-      // Enhanced error detection and fixes
-      
-      // Handle misspelled Arduino functions
-      if (error.message.includes('appears to be misspelled')) {
-        const misspelledMatch = error.message.match(/Function '(\w+)' appears to be misspelled\. Did you mean '(\w+)'\?/);
-        if (misspelledMatch) {
-          const [, wrongName, correctName] = misspelledMatch;
-          const fixedLine = line.replace(`void ${wrongName}(`, `void ${correctName}(`);
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: fixedLine,
-            explanation: `Fixed misspelled function name from '${wrongName}()' to '${correctName}()'`
-          };
-        }
-      } else if (error.message.includes('Expected `;`') || error.message.includes('SYNTAX ERROR: Expected')) {
-        // Only suggest semicolon if line doesn't already end with one
-        if (!line.trim().endsWith(';')) {
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: line + ';',
-            explanation: 'Added missing semicolon at end of statement'
-          };
-        }
-      } else if (error.message.includes('void setup()') || error.message.includes('Arduino sketch must have a void setup()')) {
-        // Find a good place to insert setup function
-        let insertLine = 1;
-        // Look for includes first, then insert after them
-        for (let i = 0; i < lines.length; i++) {
-          if (lines[i].trim().startsWith('#include') || lines[i].trim().startsWith('#define')) {
-            insertLine = i + 2;
-          } else {
-            break;
-          }
-        }
-        
-        const hasSerialBegin = code.includes('Serial.begin');
-        const setupCode = hasSerialBegin 
-          ? 'void setup() {\n  // Initialization code here\n}'
-          : 'void setup() {\n  // Initialization code here\n  Serial.begin(9600);\n}';
-        
-        suggestion = {
-          line: insertLine,
-          original: '',
-          fixed: setupCode,
-          explanation: 'Added required setup() function with Serial initialization'
-        };
-      } else if (error.message.includes('void loop()') || error.message.includes('Arduino sketch must have a void loop()')) {
-        // Insert loop function at the end - use last line or line 1 if empty
-        const insertLine = lines.length > 0 ? lines.length : 1;
-        suggestion = {
-          line: insertLine,
-          original: lines[insertLine - 1] || '',
-          fixed: (lines[insertLine - 1] || '') + '\nvoid loop() {\n  // Main code here\n}',
-          explanation: 'Added required loop() function at the end of the sketch'
-        };
-      } else if (error.message.includes('Multiple statements on same line')) {
-        // Split multiple statements into separate lines
-        const statements = line.split(';').filter(s => s.trim());
-        if (statements.length > 1) {
-          const fixedLines = statements.map(s => s.trim() + ';').join('\n');
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: fixedLines,
-            explanation: 'Split multiple statements into separate lines'
-          };
-        }
-      } else if (error.message.includes('Redefinition of function') || error.message.includes('Duplicate function declaration')) {
-        // Smart handling for Arduino function duplicates
-        const funcMatch = line.match(/void\s+(\w+)\s*\(/);
-        if (funcMatch) {
-          const funcName = funcMatch[1];
-          
-          // Check if this is a misspelled Arduino function
-          const correctArduinoFunctions = {
-            'lop': 'loop',
-            'setup': 'setup',
-            'loo': 'loop',
-            'looop': 'loop',
-            'setu': 'setup',
-            'setpu': 'setup'
-          };
-          
-          if (correctArduinoFunctions[funcName]) {
-            const correctName = correctArduinoFunctions[funcName];
-            // Check if correct function already exists in code
-            const hasCorrectFunction = code.includes(`void ${correctName}(`);
-            
-            if (hasCorrectFunction) {
-              // Remove the incorrect function
-              suggestion = {
-                line: error.line,
-                original: line,
-                fixed: '', // Remove the incorrect duplicate
-                explanation: `Removed incorrect function '${funcName}()' - correct '${correctName}()' already exists`
-              };
-            } else {
-              // Fix the function name
-              const fixedLine = line.replace(`void ${funcName}(`, `void ${correctName}(`);
-              suggestion = {
-                line: error.line,
-                original: line,
-                fixed: fixedLine,
-                explanation: `Fixed function name from '${funcName}()' to '${correctName}()'`
-              };
-            }
-          } else {
-            // Regular duplicate removal
-            suggestion = {
-              line: error.line,
-              original: line,
-              fixed: '', // Remove the duplicate line
-              explanation: 'Removed duplicate function declaration'
-            };
-          }
-        }
-      } else if (error.message.includes('unclosed brace')) {
-        const braceCount = this.countBraces(code);
-        if (braceCount > 0) {
-          const insertLine = lines.length > 0 ? lines.length : 1;
-          suggestion = {
-            line: insertLine,
-            original: lines[insertLine - 1] || '',
-            fixed: (lines[insertLine - 1] || '') + '\n' + '}'.repeat(braceCount),
-            explanation: `Added ${braceCount} missing closing brace(s) at end of code`
-          };
-        }
-      } else if (error.message.includes('Mismatched parentheses')) {
-        // Try to fix parentheses
-        const openParens = (line.match(/\(/g) || []).length;
-        const closeParens = (line.match(/\)/g) || []).length;
-        const diff = openParens - closeParens;
-        
-        if (diff > 0) {
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: line + ')'.repeat(diff),
-            explanation: `Added ${diff} missing closing parenthesis/parentheses`
-          };
-        } else if (diff < 0) {
-          // Remove extra closing parentheses
-          let fixed = line;
-          for (let i = 0; i < Math.abs(diff); i++) {
-            const lastParen = fixed.lastIndexOf(')');
-            if (lastParen !== -1) {
-              fixed = fixed.substring(0, lastParen) + fixed.substring(lastParen + 1);
-            }
-          }
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: fixed,
-            explanation: `Removed ${Math.abs(diff)} extra closing parenthesis/parentheses`
-          };
-        }
-      } else if (error.message.includes('pinMode') || error.message.includes('digitalWrite') || error.message.includes('analogWrite')) {
-        // Fix Arduino function syntax
-        let fixed = line;
-        
-        // Fix pinMode syntax
-        if (line.includes('pinMode') && !line.includes(',')) {
-          fixed = fixed.replace(/pinMode\s*\(\s*(\d+)\s+(\w+)\s*\)/, 'pinMode($1, $2)');
-        }
-        
-        // Fix digitalWrite syntax  
-        if (line.includes('digitalWrite') && !line.includes(',')) {
-          fixed = fixed.replace(/digitalWrite\s*\(\s*(\d+)\s+(\w+)\s*\)/, 'digitalWrite($1, $2)');
-        }
-        
-        // Fix analogWrite syntax
-        if (line.includes('analogWrite') && !line.includes(',')) {
-          fixed = fixed.replace(/analogWrite\s*\(\s*(\d+)\s+(\d+)\s*\)/, 'analogWrite($1, $2)');
-        }
-        
-        if (fixed !== line) {
-          suggestion = {
-            line: error.line,
-            original: line,
-            fixed: fixed,
-            explanation: 'Fixed Arduino function syntax - added missing comma between parameters'
-          };
-        }
-      }
-
-      // Validate suggestion before adding
-      if (suggestion && this.validateSuggestion(code, suggestion)) {
-        suggestions.push(suggestion);
-      }
-    });
-
-    return suggestions;
-  }
-
-  private static countBraces(line: string): number {
-    let count = 0;
-    for (const char of line) {
-      if (char === '{') count++;
-      if (char === '}') count--;
-    }
-    return count;
+    return getQuickFixSuggestions(code, errors).filter(suggestion => this.validateSuggestion(code, suggestion));
   }
 
   // Method to validate and improve suggestions
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisClient } from './analysisClient';
+import type { AnalysisRequest, AnalysisResult } from './analysisSession';
+
+describe('AnalysisClient', () => {
+  let posted: AnalysisRequest[] = [];
+  const workers: { onmessage: ((event: { data: AnalysisResult }) => void) | null }[] = [];
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    posted = [];
+  });
+
+  it('delivers only the result for the latest request', () => {
+    vi.stubGlobal(
+      'Worker',
+      class {
+        onmessage: ((event: { data: AnalysisResult }) => void) | null = null;
+        constructor() {
+          workers.push(this);
+        }
+        postMessage(request: AnalysisRequest) {
+          posted.push(request);
+        }
+        terminate() {}
+      }
+    );
+    const results: AnalysisResult[] = [];
+    const client = new AnalysisClient(result => results.push(result));
+    client.sync([{ name: 'main.ino', content: 'void setup() {}\nvoid loop() {}\n' }], 'main.ino', { boardId: 'uno' });
+    client.edit('main.ino', [{ rangeOffset: 0, rangeLength: 0, text: '\n' }]);
+    expect(posted.map(r => r.version)).toEqual([1, 2]);
+
+    const reply = (version: number) => workers[0].onmessage!({ data: { version, errors: [], suggestions: [] } });
+    reply(1);
+    expect(results).toEqual([]);
+    reply(2);
+    expect(results.map(r => r.version)).toEqual([2]);
+    client.dispose();
+  });
+});
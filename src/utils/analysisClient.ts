@@ -0,0 +1,37 @@
+import type { AnalyzeOptions } from './analyzer';
+import type { AnalysisRequest, AnalysisResult, ContentChange } from './analysisSession';
+import type { SourceFile } from './preprocessor';
+
+// Runs live analysis in a Web Worker. Every request carries a version number and
+// only the result for the latest one is delivered; older results are stale.
+export class AnalysisClient {
+  private readonly worker: Worker;
+  private version = 0;
+
+  constructor(private readonly onResult: (result: AnalysisResult) => void) {
+    this.worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<AnalysisResult>) => {
+      if (event.data.version === this.version) this.onResult(event.data);
+    };
+  }
+
+  sync(files: SourceFile[], activeFile: string | null, options: AnalyzeOptions): void {
+    this.post({ type: 'sync', version: ++this.version, files, activeFile, options });
+  }
+
+  edit(file: string, changes: ContentChange[]): void {
+    this.post({ type: 'edit', version: ++this.version, file, changes });
+  }
+
+  replace(file: string, content: string): void {
+    this.post({ type: 'replace', version: ++this.version, file, content });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+  }
+
+  private post(request: AnalysisRequest): void {
+    this.worker.postMessage(request);
+  }
+}
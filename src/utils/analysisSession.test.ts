@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisSession } from './analysisSession';
+import { Analyzer } from './analyzer';
+
+const MAIN = `int speed = 3;
+
+void setup() {
+  Serial.begin(9600);
+  pinMode(13, OUTPUT);
+}
+
+void loop() {
+  int unused = 1;
+  digitalWrite(13, HIGH);
+  delay(speed * 100);
+}
+`;
+
+const MOTOR = `void spin(int steps) {
+  for (int i = 0; i < steps; i++) {
+    step();
+  }
+}
+`;
+
+const OPTIONS = { boardId: 'uno' };
+
+// A session and a plain copy of its files, edited the way Monaco reports edits
+function project() {
+  const files = new Map([['main.ino', MAIN], ['motor.ino', MOTOR]]);
+  const session = new AnalysisSession();
+  let version = 0;
+  session.apply({ type: 'sync', version: ++version, files: [...files].map(([name, content]) => ({ name, content })), activeFile: 'main.ino', options: OPTIONS });
+
+  const replace = (file: string, find: string, text: string) => {
+    const content = files.get(file)!;
+    const rangeOffset = content.indexOf(find);
+    expect(rangeOffset).toBeGreaterThanOrEqual(0);
+    files.set(file, content.slice(0, rangeOffset) + text + content.slice(rangeOffset + find.length));
+    session.apply({ type: 'edit', version: ++version, file, changes: [{ rangeOffset, rangeLength: find.length, text }] });
+  };
+  // What a full analysis of the same text reports
+  const expected = () => Analyzer.analyzeProject([...files].map(([name, content]) => ({ name, content })), OPTIONS);
+
+  return { session, files, replace, expected };
+}
+
+describe('AnalysisSession', () => {
+  it('matches a full analysis after inserts and deletes', () => {
+    const { session, replace, expected } = project();
+    expect(session.analyze().errors).toEqual(expected());
+
+    replace('main.ino', '  digitalWrite(13, HIGH);\n', '  digitalWrite(13, HIGH)\n');
+    expect(session.analyze().errors).toEqual(expected());
+    expect(session.analyze().errors.map(e => e.ruleId)).toContain('missing-semicolon');
+
+    replace('main.ino', '  digitalWrite(13, HIGH)\n', '  digitalWrite(13, HIGH);\n  Serial.println(undeclared);\n');
+    expect(session.analyze().errors).toEqual(expected());
+    expect(session.analyze().errors.map(e => e.ruleId)).toContain('undeclared-identifier');
+
+    replace('main.ino', '  int unused = 1;\n', '');
+    replace('main.ino', '  Serial.println(undeclared);\n', '');
+    expect(session.analyze().errors).toEqual(expected());
+  });
+
+  it('matches a full analysis after edits in another tab', () => {
+    const { session, replace, expected } = project();
+    replace('motor.ino', '    step();', '    stepp();');
+    expect(session.analyze().errors).toEqual(expected());
+    expect(session.analyze().errors.some(e => e.file === 'motor.ino')).toBe(true);
+  });
+
+  it('applies several changes of one edit against the same original text', () => {
+    const { session, files, expected } = project();
+    const content = files.get('main.ino')!;
+    const first = content.indexOf('13');
+    const second = content.indexOf('13', first + 1);
+    session.apply({
+      type: 'edit',
+      version: 2,
+      file: 'main.ino',
+      changes: [
+        { rangeOffset: first, rangeLength: 2, text: 'ledPin' },
+        { rangeOffset: second, rangeLength: 2, text: 'ledPin' }
+      ]
+    });
+    files.set('main.ino', content.replace(/13/g, 'ledPin'));
+    expect(session.analyze().errors).toEqual(expected());
+    expect(session.analyze().errors.filter(e => e.ruleId === 'undeclared-identifier').map(e => e.line)).toEqual([5, 10]);
+  });
+
+  it('matches a full analysis when a declaration changes what later code means', () => {
+    const { session, replace, expected } = project();
+    replace('main.ino', 'int speed = 3;\n', 'int speed = 3;\nMotor m;\n');
+    expect(session.analyze().errors).toEqual(expected());
+
+    replace('main.ino', 'int speed = 3;\n', 'struct Motor { int pin; };\nint speed = 3;\n');
+    expect(session.analyze().errors).toEqual(expected());
+
+    replace('motor.ino', 'void spin(int steps)', 'void spin(long steps, int extra)');
+    expect(session.analyze().errors).toEqual(expected());
+  });
+
+  it('reports the version of the last request it applied', () => {
+    const { session, replace } = project();
+    replace('main.ino', 'speed', 'rate');
+    expect(session.analyze().version).toBe(2);
+  });
+});
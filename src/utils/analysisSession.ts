@@ -0,0 +1,69 @@
+import { AISuggestion, CompilationError } from '../types';
+import { Analyzer, AnalyzeOptions } from './analyzer';
+import { suggestImprovements } from './assistantSuggestions';
+import { IncrementalParser } from './incrementalParser';
+import type { SourceFile } from './preprocessor';
+
+// One edit from Monaco's onDidChangeModelContent, in offsets of the text before the edit
+export interface ContentChange {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+export type AnalysisRequest =
+  | { type: 'sync'; version: number; files: SourceFile[]; activeFile: string | null; options: AnalyzeOptions }
+  | { type: 'edit'; version: number; file: string; changes: ContentChange[] }
+  | { type: 'replace'; version: number; file: string; content: string };
+
+export interface AnalysisResult {
+  version: number;
+  errors: CompilationError[];
+  // Assistant hints for the active file
+  suggestions: AISuggestion[];
+}
+
+// The analysis worker's state: its own copy of the project, kept current from
+// edit deltas, and a parser that remembers declarations between runs
+export class AnalysisSession {
+  private readonly files = new Map<string, string>();
+  private readonly parser = new IncrementalParser();
+  private activeFile: string | null = null;
+  private options: AnalyzeOptions = {};
+  private version = 0;
+
+  apply(request: AnalysisRequest): void {
+    this.version = request.version;
+    switch (request.type) {
+      case 'sync':
+        this.files.clear();
+        request.files.forEach(file => this.files.set(file.name, file.content));
+        this.activeFile = request.activeFile;
+        this.options = request.options;
+        break;
+      case 'edit': {
+        // Monaco reports the changes of one edit against the same original text;
+        // applying them from the end keeps the earlier offsets valid
+        const changes = [...request.changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+        const content = changes.reduce(
+          (text, change) => text.slice(0, change.rangeOffset) + change.text + text.slice(change.rangeOffset + change.rangeLength),
+          this.files.get(request.file) ?? ''
+        );
+        this.files.set(request.file, content);
+        break;
+      }
+      case 'replace':
+        this.files.set(request.file, request.content);
+        break;
+    }
+  }
+
+  analyze(): AnalysisResult {
+    const files = [...this.files].map(([name, content]) => ({ name, content }));
+    return {
+      version: this.version,
+      errors: Analyzer.analyzeProject(files, { ...this.options, parser: this.parser }),
+      suggestions: suggestImprovements(this.files.get(this.activeFile ?? '') ?? '')
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { AnalysisRequest, AnalysisSession } from './analysisSession';
+
+// Edits arrive once per keystroke; analyze when typing pauses briefly
+const ANALYSIS_DELAY_MS = 150;
+
+const session = new AnalysisSession();
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  session.apply(event.data);
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    self.postMessage(session.analyze());
+  }, ANALYSIS_DELAY_MS);
+};
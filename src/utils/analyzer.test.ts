@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from './analyzer';
+
+const summary = (errors: ReturnType<typeof Analyzer.analyzeProject>) => errors.map(e => `${e.file}:${e.line} ${e.ruleId}`);
+
+describe('Analyzer.analyzeProject', () => {
+  it('maps diagnostics of joined tabs back to their tab', () => {
+    const files = [
+      { name: 'main.ino', content: 'void setup() {}\nvoid loop() {}\n' },
+      { name: 'motor.ino', content: 'void drive() {\n  int speed = 1\n}\n' }
+    ];
+    expect(summary(Analyzer.analyzeProject(files, { boardId: 'uno' }))).toContain('motor.ino:2 missing-semicolon');
+  });
+
+  it('reports syntax errors of an included header against the header', () => {
+    const files = [
+      { name: 'main.ino', content: '#include "config.h"\nvoid setup() { helper(3); }\nvoid loop() {}\n' },
+      { name: 'config.h', content: '#pragma once\nvoid helper(int pin)\nvoid f() { int x = 1; x +; }\n' }
+    ];
+    const errors = Analyzer.analyzeProject(files, { boardId: 'uno' });
+    expect(summary(errors.filter(e => e.file === 'config.h'))).toEqual(['config.h:2 missing-semicolon', 'config.h:3 syntax-error']);
+    expect(errors.some(e => e.file === 'main.ino' && e.line === 1)).toBe(false);
+  });
+
+  it('does not run the other rules on headers', () => {
+    const files = [
+      { name: 'main.ino', content: '#include "util.h"\nvoid setup() {}\nvoid loop() {}\n' },
+      { name: 'util.h', content: 'int unused;\nvoid declaredOnly();\n' }
+    ];
+    expect(Analyzer.analyzeProject(files, { boardId: 'uno' }).filter(e => e.file === 'util.h')).toEqual([]);
+  });
+
+  it('leaves headers nobody includes alone', () => {
+    const files = [
+      { name: 'main.ino', content: 'void setup() {}\nvoid loop() {}\n' },
+      { name: 'draft.h', content: 'int x +;\n' }
+    ];
+    expect(Analyzer.analyzeProject(files, { boardId: 'uno' })).toEqual([]);
+  });
+
+  it('resolves functions defined in other translation units', () => {
+    const files = [
+      { name: 'main.ino', content: 'void blink();\nvoid setup() { blink(); }\nvoid loop() {}\n' },
+      { name: 'blink.cpp', content: '#include <Arduino.h>\nvoid blink() { digitalWrite(13, HIGH); }\n' }
+    ];
+    expect(Analyzer.analyzeProject(files, { boardId: 'uno' }).filter(e => e.ruleId === 'undefined-function')).toEqual([]);
+  });
+});
+
+describe('Analyzer.analyze', () => {
+  const SHORT = 'void go() {}\nint spare;\nvoid setup() { go(); }\nvoid loop() {}\n';
+  const rules = (code: string, lintConfig = {}) => Analyzer.analyze(code, { boardId: 'uno', lintConfig }).map(e => `${e.line} ${e.ruleId} ${e.severity}`);
+
+  it('turns rules off and changes their severity per project', () => {
+    expect(rules(SHORT)).toEqual(['1 short-function-name warning', '2 unused-variable warning']);
+    expect(rules(SHORT, { 'short-function-name': 'off' })).toEqual(['2 unused-variable warning']);
+    expect(rules(SHORT, { 'short-function-name': 'error' })).toEqual(['1 short-function-name error', '2 unused-variable warning']);
+  });
+
+  it('silences the next line for the listed rules only', () => {
+    const code = 'void setup() {\n  // arduino-lint-disable-next-line undeclared-identifier -- set by the library\n  Serial.println(total);\n  Serial.println(other);\n}\nvoid loop() {}\n';
+    expect(rules(code)).toEqual(['4 undeclared-identifier error']);
+    expect(rules(code.replace('undeclared-identifier', 'unused-variable'))).toEqual(['3 undeclared-identifier error', '4 undeclared-identifier error']);
+  });
+
+  it('silences every rule on the next line when none is listed', () => {
+    expect(rules('/* arduino-lint-disable-next-line */\nvoid go() {}\nint spare;\nvoid setup() { go(); }\nvoid loop() {}\n')).toEqual(['3 unused-variable warning']);
+  });
+
+  it('silences rules for the whole file', () => {
+    expect(rules(`// arduino-lint-disable short-function-name, unused-variable\n${SHORT}`)).toEqual([]);
+    expect(rules(`${SHORT}// arduino-lint-disable\n`)).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import { CompilationError, LintConfig, QuickFix } from '../types';
+import { BoardProfile, getBoard } from './boards';
+import { SourceRange, TranslationUnit } from './cppAst';
+import { Token } from './cppLexer';
+import { CppParser } from './cppParser';
+import type { LibraryInfo } from './libraryCatalog';
+import type { IncrementalParser } from './incrementalParser';
+import { Preprocessor, SourceFile } from './preprocessor';
+import { BUILTIN_RULES } from './rules';
+import { SymbolTable } from './symbolTable';
+
+export type RuleSeverity = CompilationError['severity'];
+
+export type RuleCategory = 'syntax' | 'sketch' | 'declarations' | 'libraries' | 'types' | 'memory' | 'pins' | 'timing' | 'interrupts' | 'hardware' | 'style';
+
+// Where a diagnostic points; a bare line/column falls back to the rest of the line
+export type ReportLocation = SourceRange | { line: number; column: number };
+
+export interface RuleContext {
+  code: string;
+  ast: TranslationUnit;
+  tokens: Token[];
+  board: BoardProfile;
+  // Libraries the user imported, looked up before the built-in catalog
+  libraries: LibraryInfo[];
+  // Lexer and parser errors, each tagged with the syntax rule that owns it
+  syntaxErrors: CompilationError[];
+  // Functions with a body in another translation unit of the project
+  linkedFunctions: Set<string>;
+  // Fixes are offered as editor quick fixes and applied exactly as given
+  report(location: ReportLocation, message: string, fixes?: QuickFix[]): void;
+}
+
+export interface AnalyzeOptions {
+  lintConfig?: LintConfig;
+  boardId?: string;
+  // Name of the file being analyzed and the rest of the project, for #include "..."
+  fileName?: string;
+  files?: SourceFile[];
+  // Libraries the user imported, indexed from their headers
+  libraries?: LibraryInfo[];
+  // Functions defined elsewhere in the project, resolved by the linker
+  linkedFunctions?: string[];
+  // Reuses declarations that did not change since the last run, for live analysis
+  parser?: IncrementalParser;
+  // Only the preprocessor, lexer and parser errors, for headers checked on their own
+  syntaxOnly?: boolean;
+}
+
+export interface Rule {
+  id: string;
+  defaultSeverity: RuleSeverity;
+  category: RuleCategory;
+  description: string;
+  // Only meaningful for .ino tabs, not for .cpp files compiled on their own
+  sketchOnly?: boolean;
+  check(context: RuleContext): void;
+}
+
+export class Analyzer {
+  private static readonly rules = new Map<string, Rule>();
+
+  static register(rule: Rule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule '${rule.id}' is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  static getRule(id: string): Rule | undefined {
+    return this.rules.get(id);
+  }
+
+  static getRules(): Rule[] {
+    return [...this.rules.values()];
+  }
+
+  static analyze(code: string, options: AnalyzeOptions = {}): CompilationError[] {
+    const board = getBoard(options.boardId);
+    const preprocessed = Preprocessor.process(code, { board, files: options.files, fileName: options.fileName });
+    const parsed = options.parser
+      ? options.parser.parse(preprocessed.tokens, options.fileName)
+      : CppParser.parse(preprocessed.tokens);
+    // Code from an included file sits on its #include line; its own problems are
+    // reported when that file is analyzed, not here (see analyzeProject)
+    const includeLines = new Set(preprocessed.includeLines);
+    const syntaxErrors = [...preprocessed.errors, ...parsed.errors.filter(e => !includeLines.has(e.line))]
+      .map(e => ({ ...e, ruleId: e.ruleId ?? 'syntax-error' }));
+    const suppressions = this.collectSuppressions(preprocessed.tokens);
+    // One list for every rule, so what they cache per AST is shared
+    const libraries = options.libraries ?? [];
+    const errors: CompilationError[] = [];
+
+    const sketch = !options.fileName || isSketchFile(options.fileName);
+
+    this.rules.forEach(rule => {
+      if (rule.sketchOnly && !sketch) return;
+      if (options.syntaxOnly && rule.category !== 'syntax') return;
+      const setting = options.lintConfig?.[rule.id];
+      if (setting === 'off' || suppressions.file.has('*') || suppressions.file.has(rule.id)) return;
+      const severity = setting ?? rule.defaultSeverity;
+
+      const context: RuleContext = {
+        code,
+        ast: parsed.ast,
+        tokens: preprocessed.tokens,
+        board,
+        libraries,
+        syntaxErrors,
+        linkedFunctions: new Set(options.linkedFunctions),
+        report: (location, message, fixes) => {
+          if (rule.category !== 'syntax' && includeLines.has(location.line)) return;
+          const suppressed = suppressions.lines.get(location.line);
+          if (suppressed && (suppressed.has('*') || suppressed.has(rule.id))) return;
+          errors.push({ ...location, message, severity, ruleId: rule.id, ...(fixes && fixes.length > 0 ? { fixes } : {}) });
+        }
+      };
+
+      // A broken rule must not take the rest of the analysis down with it
+      try {
+        rule.check(context);
+      } catch (error) {
+        console.warn(`Rule '${rule.id}' failed:`, error);
+      }
+    });
+
+    // A macro that uses its argument twice yields the same diagnostic twice
+    const seen = new Set<string>();
+    const unique = errors.filter(e => {
+      const key = `${e.line}:${e.column}:${e.endLine}:${e.endColumn}:${e.ruleId}:${e.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return unique.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  // Mirrors the Arduino builder: all .ino tabs are joined into one translation
+  // unit, the main tab (the first one) followed by the rest in alphabetical
+  // order, and every .cpp file is compiled on its own. Headers are only seen
+  // through #include; each one that is included is also checked on its own
+  // for syntax errors, which would otherwise land on the #include line.
+  // Diagnostics are mapped back to the file they came from.
+  static analyzeProject(files: SourceFile[], options: AnalyzeOptions = {}): CompilationError[] {
+    const tabs = files.filter(f => isSketchFile(f.name));
+    const sources = files.filter(f => /\.(c|cpp)$/i.test(f.name));
+    const joined = tabs.length > 0 ? joinTabs(tabs) : undefined;
+    const units = [
+      ...(joined ? [{ name: tabs[0].name, content: joined.code }] : []),
+      ...sources
+    ];
+    const board = getBoard(options.boardId);
+    const libraries = options.libraries ?? [];
+    const scanned = units.map(unit => this.scanUnit(unit, files, board, libraries, options.parser));
+    const linkedFrom = (index: number) => scanned.filter((_, i) => i !== index).flatMap(unit => unit.functions);
+    const errors: CompilationError[] = [];
+
+    if (joined) {
+      const { code, segments } = joined;
+      this.analyze(code, { ...options, fileName: tabs[0].name, files, libraries, linkedFunctions: linkedFrom(0) }).forEach(error => {
+        const segment = [...segments].reverse().find(s => s.startLine <= error.line) ?? segments[0];
+        const offset = segment.startLine - 1;
+        // A fix that would reach into another tab cannot be applied to this one
+        const fixes = error.fixes
+          ?.map(fix => ({ ...fix, edits: fix.edits.map(edit => ({ ...edit, line: edit.line - offset, endLine: edit.endLine - offset })) }))
+          .filter(fix => fix.edits.every(edit => edit.line >= 1 && edit.endLine <= segment.lineCount));
+        errors.push({
+          ...error,
+          line: Math.max(error.line - offset, 1),
+          endLine: error.endLine !== undefined ? Math.min(error.endLine - offset, segment.lineCount) : undefined,
+          file: segment.name,
+          fixes: fixes && fixes.length > 0 ? fixes : undefined
+        });
+      });
+    }
+
+    sources.forEach((source, i) => {
+      this.analyze(source.content, { ...options, fileName: source.name, files, libraries, linkedFunctions: linkedFrom(i + (joined ? 1 : 0)) })
+        .forEach(error => errors.push({ ...error, file: source.name }));
+    });
+
+    const included = new Set(scanned.flatMap(unit => unit.includes));
+    files
+      .filter(file => included.has(file.name) && !tabs.includes(file) && !sources.includes(file))
+      .forEach(header => {
+        this.analyze(header.content, { ...options, fileName: header.name, files, syntaxOnly: true })
+          .forEach(error => errors.push({ ...error, file: header.name }));
+      });
+
+    return errors;
+  }
+
+  // The functions a translation unit defines and the project files it includes
+  private static scanUnit(
+    unit: SourceFile,
+    files: SourceFile[],
+    board: BoardProfile,
+    libraries: LibraryInfo[],
+    parser?: IncrementalParser
+  ): { functions: string[]; includes: string[] } {
+    const preprocessed = Preprocessor.process(unit.content, { board, files, fileName: unit.name });
+    const parsed = parser ? parser.parse(preprocessed.tokens, unit.name) : CppParser.parse(preprocessed.tokens);
+    const table = SymbolTable.build(parsed.ast, preprocessed.tokens, libraries);
+    const functions = table.symbols
+      .filter(symbol => symbol.kind === 'function' && symbol.defined && symbol.scope === table.global)
+      .map(symbol => symbol.name);
+    return { functions, includes: preprocessed.includedFiles };
+  }
+
+  // `// arduino-lint-disable-next-line [rule, ...]` silences the following line and
+  // `// arduino-lint-disable [rule, ...]` the whole file; without rule IDs every rule
+  // is silenced. Anything after ` -- ` is a free-form reason.
+  private static collectSuppressions(tokens: Token[]): { file: Set<string>; lines: Map<number, Set<string>> } {
+    const file = new Set<string>();
+    const lines = new Map<number, Set<string>>();
+
+    tokens.forEach(token => {
+      if (token.kind !== 'comment') return;
+      const text = token.value.replace(/^\/\/|^\/\*|\*\/$/g, '').split(' -- ')[0].trim();
+      const match = text.match(/^arduino-lint-disable(-next-line)?(?:\s+(.*))?$/);
+      if (!match) return;
+
+      const ruleIds = (match[2] ?? '').split(/[\s,]+/).filter(Boolean);
+      const target = match[1] ? lines.get(token.endLine + 1) ?? new Set<string>() : file;
+      (ruleIds.length > 0 ? ruleIds : ['*']).forEach(id => target.add(id));
+      if (match[1]) lines.set(token.endLine + 1, target);
+    });
+
+    return { file, lines };
+  }
+}
+
+export function isSketchFile(name: string): boolean {
+  return /\.(ino|pde)$/i.test(name);
+}
+
+// Joins .ino tabs into one source, remembering which lines came from which tab
+export function joinTabs(tabs: SourceFile[]): { code: string; segments: { name: string; startLine: number; lineCount: number }[] } {
+  const [main, ...rest] = tabs;
+  const ordered = [main, ...rest.sort((a, b) => a.name.localeCompare(b.name))];
+  const segments: { name: string; startLine: number; lineCount: number }[] = [];
+  let startLine = 1;
+  const code = ordered.map(tab => {
+    const text = tab.content.endsWith('\n') ? tab.content : `${tab.content}\n`;
+    const lineCount = text.split('\n').length - 1;
+    segments.push({ name: tab.name, startLine, lineCount });
+    startLine += lineCount;
+    return text;
+  }).join('');
+  return { code, segments };
+}
+
+BUILTIN_RULES.forEach(rule => Analyzer.register(rule));
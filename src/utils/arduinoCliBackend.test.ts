@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { arduinoCliBackend } from './arduinoCliBackend';
+import { GccOutputParser } from './gccOutputParser';
+
+const files = [{ name: 'blink.ino', content: 'void setup() {}\nvoid loop() {}\n' }];
+
+function answer(body: object) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status: 200 })));
+}
+
+describe('arduinoCliBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('attaches daemon notes to the diagnostic before them, as the log parser does', async () => {
+    answer({
+      success: false,
+      diagnostics: [
+        { file: 'blink.ino', line: 4, column: 3, severity: 'error', message: "no matching function for call to 'go(int)'" },
+        { file: 'blink.ino', line: 1, column: 6, severity: 'note', message: "candidate: 'void go()'" },
+        { file: 'blink.ino', line: 9, severity: 'warning', message: 'unused variable' }
+      ]
+    });
+    const { errors } = await arduinoCliBackend.compile(files, { boardId: 'uno' });
+    expect(errors).toHaveLength(2);
+    expect(errors[0].notes).toEqual(["blink.ino:1: note: candidate: 'void go()'"]);
+    expect(errors[1].notes).toBeUndefined();
+
+    const log = GccOutputParser.parse(
+      "/tmp/sketch/blink.ino:4:3: error: no matching function for call to 'go(int)'\n/tmp/sketch/blink.ino:1:6: note: candidate: 'void go()'\n"
+    );
+    expect(log.errors[0].notes).toEqual(errors[0].notes);
+  });
+
+  it('keeps a note that comes first for the next diagnostic', async () => {
+    answer({
+      success: false,
+      diagnostics: [
+        { line: 2, severity: 'note', message: 'in expansion of macro' },
+        { file: 'blink.ino', line: 7, severity: 'error', message: 'expected ;' }
+      ]
+    });
+    const { errors } = await arduinoCliBackend.compile(files, { boardId: 'uno' });
+    expect(errors).toMatchObject([{ line: 7, notes: ['note: in expansion of macro'] }]);
+  });
+
+  it('reports an unreachable daemon as an error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    const result = await arduinoCliBackend.compile(files, { boardId: 'uno', daemonUrl: 'http://localhost:1' });
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toBe('Could not reach the compile daemon at http://localhost:1. Is it running?');
+  });
+});
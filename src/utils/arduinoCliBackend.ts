@@ -0,0 +1,117 @@
+import { CompilationError } from '../types';
+import { isSketchFile } from './analyzer';
+import { getBoard } from './boards';
+import type { BuildArtifact, CompileOptions, CompileResult, CompilerBackend } from './compilerBackend';
+import { GccOutputParser } from './gccOutputParser';
+import type { SourceFile } from './preprocessor';
+
+export const DEFAULT_DAEMON_URL = 'http://localhost:8750';
+
+// What the compile daemon answers to `POST /compile`. The daemon is a thin
+// wrapper around `arduino-cli compile`: it writes the files into a sketch
+// folder named after the main tab, builds it for `fqbn` and reports back.
+interface DaemonDiagnostic {
+  file?: string;
+  line: number;
+  column?: number;
+  severity: 'error' | 'warning' | 'note';
+  message: string;
+}
+
+interface DaemonResponse {
+  success: boolean;
+  // Raw compiler and size tool output
+  output?: string;
+  // Structured diagnostics; when the daemon leaves them out they are parsed from `output`
+  diagnostics?: DaemonDiagnostic[];
+  size?: { flashBytes: number; sramBytes: number };
+  artifact?: { fileName: string; format: 'hex' | 'bin'; base64: string };
+}
+
+// Notes ("candidate is…", "declared here") go with the diagnostic before them,
+// or the next one when they come first, the same as GccOutputParser does
+function toCompilationErrors(diagnostics: DaemonDiagnostic[]): CompilationError[] {
+  const errors: CompilationError[] = [];
+  let pending: string[] = [];
+  diagnostics.forEach(diagnostic => {
+    if (diagnostic.severity === 'note') {
+      const location = diagnostic.file ? `${diagnostic.file}:${diagnostic.line}: ` : '';
+      const note = `${location}note: ${diagnostic.message}`;
+      const previous = errors[errors.length - 1];
+      if (previous) (previous.notes ??= []).push(note);
+      else pending.push(note);
+      return;
+    }
+    errors.push({
+      line: diagnostic.line,
+      column: diagnostic.column ?? 0,
+      message: diagnostic.message,
+      severity: diagnostic.severity === 'error' ? 'error' : 'warning',
+      ruleId: 'compiler',
+      file: diagnostic.file,
+      notes: pending.length > 0 ? pending : undefined
+    });
+    pending = [];
+  });
+  return errors;
+}
+
+function decodeArtifact(artifact: NonNullable<DaemonResponse['artifact']>): BuildArtifact {
+  const binary = atob(artifact.base64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { fileName: artifact.fileName, format: artifact.format, data };
+}
+
+async function requestBuild(files: SourceFile[], options: CompileOptions): Promise<DaemonResponse> {
+  const url = (options.daemonUrl || DEFAULT_DAEMON_URL).replace(/\/+$/, '');
+  const sketch = files.find(f => isSketchFile(f.name))?.name.replace(/\.\w+$/, '') ?? 'sketch';
+  let response: Response;
+  try {
+    response = await fetch(`${url}/compile`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fqbn: getBoard(options.boardId).fqbn, sketch, files })
+    });
+  } catch {
+    throw new Error(`Could not reach the compile daemon at ${url}. Is it running?`);
+  }
+  if (!response.ok) {
+    throw new Error(`Compile daemon returned ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Builds with the real toolchain through a compile daemon on this machine
+export const arduinoCliBackend: CompilerBackend = {
+  id: 'arduino-cli',
+  name: 'arduino-cli (local daemon)',
+  description: 'Sends the project to a compile daemon on localhost that runs arduino-cli, and returns real diagnostics, sizes and firmware.',
+  async verify(files, options) {
+    return (await this.compile(files, options)).errors;
+  },
+  async compile(files, options): Promise<CompileResult> {
+    let result: DaemonResponse;
+    try {
+      result = await requestBuild(files, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        errors: [{ line: 1, column: 0, message, severity: 'error', ruleId: 'compiler' }],
+        output: message
+      };
+    }
+
+    const log = GccOutputParser.parse(result.output ?? '');
+    const errors = result.diagnostics ? toCompilationErrors(result.diagnostics) : log.errors;
+    const errorCount = errors.filter(e => e.severity === 'error').length;
+    return {
+      success: result.success,
+      errors,
+      output: result.output?.trim() || (result.success ? 'Compilation successful!' : `Compilation failed with ${errorCount} error(s)`),
+      size: result.size ?? log.size,
+      artifact: result.artifact ? decodeArtifact(result.artifact) : undefined
+    };
+  }
+};
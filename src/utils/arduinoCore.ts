@@ -0,0 +1,74 @@
+// Names the Arduino core and the common avr-libc / ESP headers make visible to
+// every sketch, so the analyzer can tell them apart from undeclared identifiers.
+
+export const CORE_TYPES = [
+  'boolean', 'byte', 'word', 'String', 'size_t', 'ssize_t', 'int8_t', 'uint8_t', 'int16_t', 'uint16_t',
+  'int32_t', 'uint32_t', 'int64_t', 'uint64_t', 'uintptr_t', 'intptr_t', 'prog_char', 'prog_uchar',
+  'PGM_P', 'PGM_VOID_P', '__FlashStringHelper', 'Print', 'Stream', 'HardwareSerial', 'IPAddress'
+];
+
+export const CORE_FUNCTIONS = [
+  // Digital and analog I/O
+  'pinMode', 'digitalWrite', 'digitalRead', 'analogWrite', 'analogRead', 'analogReference',
+  'analogReadResolution', 'analogWriteResolution', 'tone', 'noTone', 'pulseIn', 'pulseInLong', 'shiftIn', 'shiftOut',
+  // Time
+  'delay', 'delayMicroseconds', 'millis', 'micros', 'yield',
+  // Interrupts
+  'attachInterrupt', 'detachInterrupt', 'interrupts', 'noInterrupts', 'digitalPinToInterrupt', 'sei', 'cli',
+  // Math
+  'map', 'constrain', 'random', 'randomSeed', 'min', 'max', 'abs', 'sq', 'sqrt', 'pow', 'sin', 'cos', 'tan',
+  'asin', 'acos', 'atan', 'atan2', 'exp', 'log', 'log10', 'floor', 'ceil', 'round', 'fabs', 'fmod', 'isnan', 'isinf',
+  'radians', 'degrees',
+  // Bits and bytes
+  'bitRead', 'bitWrite', 'bitSet', 'bitClear', 'bit', 'lowByte', 'highByte', 'makeWord', '_BV',
+  // Characters
+  'isAlpha', 'isAlphaNumeric', 'isAscii', 'isControl', 'isDigit', 'isGraph', 'isHexadecimalDigit',
+  'isLowerCase', 'isPrintable', 'isPunct', 'isSpace', 'isUpperCase', 'isWhitespace',
+  'isalpha', 'isdigit', 'isspace', 'isupper', 'islower', 'toupper', 'tolower',
+  // Flash strings and PROGMEM
+  'F', 'PSTR', 'pgm_read_byte', 'pgm_read_word', 'pgm_read_dword', 'pgm_read_float', 'pgm_read_ptr',
+  'strcpy_P', 'strlen_P', 'strcmp_P', 'memcpy_P', 'sprintf_P',
+  // C library functions pulled in by Arduino.h
+  'memcpy', 'memset', 'memcmp', 'memmove', 'strlen', 'strcpy', 'strncpy', 'strcmp', 'strncmp', 'strcat',
+  'strncat', 'strchr', 'strrchr', 'strstr', 'strtok', 'sprintf', 'snprintf', 'sscanf', 'dtostrf', 'itoa',
+  'ltoa', 'utoa', 'ultoa', 'atoi', 'atol', 'atof', 'strtol', 'strtoul', 'strtod', 'malloc', 'calloc',
+  'realloc', 'free', 'qsort'
+];
+
+export const CORE_OBJECTS = ['Serial', 'Serial1', 'Serial2', 'Serial3', 'SerialUSB', 'Keyboard', 'Mouse', 'ESP'];
+
+// Lower- and mixed-case constants; all-caps macros are recognised by their spelling
+export const CORE_CONSTANTS = ['true', 'false', 'nullptr', 'errno'];
+
+// Globals declared by the core and system headers; library headers are described by libraryCatalog
+export const HEADER_SYMBOLS: Record<string, string[]> = {
+  'Arduino.h': [],
+  'Keyboard.h': ['Keyboard'],
+  'Mouse.h': ['Mouse'],
+  'avr/pgmspace.h': [],
+  'avr/io.h': [],
+  'avr/interrupt.h': ['ISR'],
+  'avr/wdt.h': ['wdt_enable', 'wdt_disable', 'wdt_reset'],
+  'avr/sleep.h': ['set_sleep_mode', 'sleep_enable', 'sleep_disable', 'sleep_cpu', 'sleep_mode', 'sleep_bod_disable'],
+  'avr/power.h': ['power_all_disable', 'power_all_enable', 'power_adc_disable', 'power_adc_enable'],
+  'avr/eeprom.h': ['eeprom_read_byte', 'eeprom_write_byte', 'eeprom_update_byte', 'eeprom_read_block', 'eeprom_write_block'],
+  'util/delay.h': ['_delay_ms', '_delay_us'],
+  'math.h': [],
+  'string.h': [],
+  'stdlib.h': [],
+  'stdio.h': [],
+  'stdint.h': [],
+  'stdbool.h': [],
+  'stdarg.h': [],
+  'ctype.h': [],
+  'limits.h': [],
+  'float.h': [],
+  'inttypes.h': [],
+  'util/atomic.h': [],
+  'util/crc16.h': ['_crc16_update', '_crc8_ccitt_update', '_crc_ibutton_update']
+};
+
+// ISR(...) blocks and register names are macros; treat anything spelled like one as declared
+export function looksLikeMacro(name: string): boolean {
+  return /^[A-Z][A-Z0-9_]*$/.test(name) || /^_[A-Z0-9_]+$/.test(name);
+}
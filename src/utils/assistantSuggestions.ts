@@ -0,0 +1,201 @@
+import { AISuggestion } from '../types';
+
+// Line-based hints shown by the AI assistant panel; cheap enough to run after
+// every edit, but kept off the main thread with the rest of live analysis
+export function suggestImprovements(code: string): AISuggestion[] {
+  if (code.length <= 10) return [];
+
+  const suggestions: AISuggestion[] = [];
+  const lines = code.split('\n');
+
+  // Analyze each line for improvements
+  lines.forEach((line, index) => {
+    const lineNum = index + 1;
+    const trimmed = line.trim();
+
+    // Suggest variable declarations
+    if (trimmed.includes('=') && !trimmed.includes('int ') && !trimmed.includes('float ') && 
+        !trimmed.includes('bool ') && !trimmed.includes('char ') && !trimmed.includes('String ')) {
+      const varName = trimmed.split('=')[0].trim();
+      if (varName && !varName.includes(' ') && !varName.includes('void') && !varName.includes('(')) {
+        const indentation = line.match(/^\s*/)?.[0] || '';
+        const fixedLine = indentation + `int ${trimmed}`;
+
+        suggestions.push({
+          id: `var-${lineNum}`,
+          type: 'fix',
+          title: `Add variable type for ${varName}`,
+          description: `Declare ${varName} with proper data type`,
+          code: fixedLine,
+          line: lineNum,
+          confidence: 0.9
+        });
+      }
+    }
+
+    // Suggest missing semicolons (more accurate)
+    const needsSemicolon = trimmed && 
+      !trimmed.endsWith(';') && 
+      !trimmed.endsWith('{') && 
+      !trimmed.endsWith('}') &&
+      !trimmed.startsWith('//') && 
+      !trimmed.startsWith('/*') && 
+      !trimmed.includes('void setup') &&
+      !trimmed.includes('void loop') && 
+      !trimmed.includes('if (') && 
+      !trimmed.includes('else') &&
+      !trimmed.includes('for (') && 
+      !trimmed.includes('while (') &&
+      !trimmed.includes('#include') && 
+      !trimmed.includes('#define') &&
+      (trimmed.includes('=') || 
+       trimmed.includes('pinMode') || 
+       trimmed.includes('digitalWrite') || 
+       trimmed.includes('Serial.') ||
+       trimmed.includes('delay('));
+
+    if (needsSemicolon) {
+      // Preserve original indentation
+      const indentation = line.match(/^\s*/)?.[0] || '';
+      const fixedLine = indentation + trimmed + ';';
+
+      suggestions.push({
+        id: `semicolon-${lineNum}`,
+        type: 'fix',
+        title: 'Add missing semicolon',
+        description: 'Statement should end with semicolon',
+        code: fixedLine,
+        line: lineNum,
+        confidence: 0.95
+      });
+    }
+
+    // Suggest Arduino function fixes
+    if (trimmed.includes('pinMode')) {
+      if (!trimmed.includes('(') || !trimmed.includes(')')) {
+        suggestions.push({
+          id: `pinmode-paren-${lineNum}`,
+          type: 'fix',
+          title: 'Fix pinMode syntax - add parentheses',
+          description: 'pinMode function needs parentheses',
+          code: trimmed.replace('pinMode', 'pinMode(pin, mode)'),
+          line: lineNum,
+          confidence: 0.9
+        });
+      } else if (trimmed.includes('pinMode(') && !trimmed.includes(',')) {
+        // Try to fix common pinMode patterns
+        if (trimmed.match(/pinMode\(\s*\d+\s+\w+\s*\)/)) {
+          const indentation = line.match(/^\s*/)?.[0] || '';
+          const fixed = trimmed.replace(/pinMode\((\s*\d+)\s+(\w+)\s*\)/, 'pinMode($1, $2)');
+          const fixedLine = indentation + fixed;
+
+          suggestions.push({
+            id: `pinmode-comma-${lineNum}`,
+            type: 'fix',
+            title: 'Fix pinMode syntax - add comma',
+            description: 'pinMode requires comma between pin and mode',
+            code: fixedLine,
+            line: lineNum,
+            confidence: 0.95
+          });
+        } else {
+          suggestions.push({
+            id: `pinmode-comma-${lineNum}`,
+            type: 'fix',
+            title: 'Fix pinMode syntax',
+            description: 'pinMode requires two parameters: pinMode(pin, mode)',
+            code: 'pinMode(pin, OUTPUT); // Example: replace with actual pin number',
+            line: lineNum,
+            confidence: 0.8
+          });
+        }
+      }
+    }
+
+    if (trimmed.includes('digitalWrite')) {
+      if (!trimmed.includes('(') || !trimmed.includes(')')) {
+        suggestions.push({
+          id: `digitalwrite-paren-${lineNum}`,
+          type: 'fix',
+          title: 'Fix digitalWrite syntax - add parentheses',
+          description: 'digitalWrite function needs parentheses',
+          code: trimmed.replace('digitalWrite', 'digitalWrite(pin, value)'),
+          line: lineNum,
+          confidence: 0.9
+        });
+      } else if (trimmed.includes('digitalWrite(') && !trimmed.includes(',')) {
+        // Try to fix common digitalWrite patterns
+        if (trimmed.match(/digitalWrite\(\s*\d+\s+\w+\s*\)/)) {
+          const indentation = line.match(/^\s*/)?.[0] || '';
+          const fixed = trimmed.replace(/digitalWrite\((\s*\d+)\s+(\w+)\s*\)/, 'digitalWrite($1, $2)');
+          const fixedLine = indentation + fixed;
+
+          suggestions.push({
+            id: `digitalwrite-comma-${lineNum}`,
+            type: 'fix',
+            title: 'Fix digitalWrite syntax - add comma',
+            description: 'digitalWrite requires comma between pin and value',
+            code: fixedLine,
+            line: lineNum,
+            confidence: 0.95
+          });
+        } else {
+          suggestions.push({
+            id: `digitalwrite-comma-${lineNum}`,
+            type: 'fix',
+            title: 'Fix digitalWrite syntax',
+            description: 'digitalWrite requires two parameters: digitalWrite(pin, value)',
+            code: 'digitalWrite(pin, HIGH); // Example: replace with actual pin number',
+            line: lineNum,
+            confidence: 0.8
+          });
+        }
+      }
+    }
+
+    // Suggest Serial.begin if missing
+    if (trimmed.includes('void setup()') && !code.includes('Serial.begin')) {
+      // Insert Serial.begin inside the setup function, not after it
+      const nextLineIndex = lineNum; // lineNum is already 1-based, so this points to next line
+      if (nextLineIndex <= lines.length) {
+        suggestions.push({
+          id: 'serial-begin',
+          type: 'optimization',
+          title: 'Add Serial.begin for debugging',
+          description: 'Enable serial communication for debugging',
+          code: '  Serial.begin(9600);',
+          line: nextLineIndex,
+          confidence: 0.8
+        });
+      }
+    }
+  });
+
+  // Add contextual suggestions
+  if (!code.includes('void setup()')) {
+    suggestions.push({
+      id: 'setup-function',
+      type: 'completion',
+      title: 'Add setup() function',
+      description: 'Arduino sketches require setup() function',
+      code: 'void setup() {\n  // Initialization code here\n  Serial.begin(9600);\n}',
+      line: 1,
+      confidence: 0.95
+    });
+  }
+
+  if (!code.includes('void loop()')) {
+    const insertLine = lines.length > 0 ? lines.length : 1;
+    suggestions.push({
+      id: 'loop-function',
+      type: 'completion',
+      title: 'Add loop() function',
+      description: 'Arduino sketches require loop() function',
+      code: '\nvoid loop() {\n  // Main code here\n}',
+      line: insertLine,
+      confidence: 0.95
+    });
+  }
+
+  return suggestions.slice(0, 5); // Limit to 5 suggestions
+}
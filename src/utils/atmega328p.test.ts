@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Atmega328p } from './atmega328p';
+import { getBoard } from './boards';
+import { VirtualPins } from './virtualPins';
+
+const ldi = (d: number, k: number) => 0xe000 | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0xf);
+const sts = (address: number, r: number) => [0x9200 | (r << 4), address];
+const sbi = (a: number, b: number) => 0x9a00 | (a << 3) | b;
+const sbic = (a: number, b: number) => 0x9900 | (a << 3) | b;
+const HALT = 0xcfff;
+
+function boot(program: (number | number[])[]) {
+  const board = getBoard('uno');
+  const pins = new VirtualPins(board);
+  const sent: { byte: number; cycles: number }[] = [];
+  const notices: string[] = [];
+  const words = program.flat();
+  const image = new Uint8Array(words.length * 2);
+  words.forEach((word, i) => {
+    image[i * 2] = word & 0xff;
+    image[i * 2 + 1] = word >> 8;
+  });
+  const chip: Atmega328p = new Atmega328p(image, board, {
+    pins,
+    transmit: byte => sent.push({ byte, cycles: chip.cycles }),
+    notice: message => notices.push(message)
+  });
+  return { chip, pins, sent, notices };
+}
+
+describe('Atmega328p', () => {
+  it('drives pins from DDRx and PORTx', () => {
+    const { chip, pins } = boot([sbi(0x04, 5), sbi(0x05, 5), sbi(0x0b, 2), HALT]);
+    chip.run(10);
+    expect(pins.get(13)).toMatchObject({ mode: 'OUTPUT', output: 1 });
+    // PORTx without DDRx turns on the pull-up
+    expect(pins.get(2).mode).toBe('INPUT_PULLUP');
+  });
+
+  it('reads inputs through PINx', () => {
+    // Sets PORTB5 only if PIND3 reads high
+    const program = [sbi(0x04, 5), sbic(0x09, 3), sbi(0x05, 5), HALT];
+    const low = boot(program);
+    low.pins.drive(3, 0);
+    low.chip.run(10);
+    expect(low.pins.get(13).output).toBe(0);
+
+    const high = boot(program);
+    high.pins.drive(3, 1);
+    high.chip.run(10);
+    expect(high.pins.get(13).output).toBe(1);
+  });
+
+  it('shifts USART bytes out at the baud rate', () => {
+    // 9600 baud at 16 MHz: UBRR 103, 16 cycles a bit, 10 bits a frame
+    const { chip, sent } = boot([
+      ldi(16, 103), sts(0xc4, 16), ldi(16, 0x08), sts(0xc1, 16),
+      ldi(16, 0x48), sts(0xc6, 16), ldi(16, 0x69), sts(0xc6, 16), HALT
+    ]);
+    chip.run(40_000);
+    const frame = 16 * 104 * 10;
+    expect(sent.map(s => s.byte)).toEqual([0x48, 0x69]);
+    expect(sent[0].cycles - frame).toBeGreaterThanOrEqual(0);
+    expect(sent[0].cycles - frame).toBeLessThan(10);
+    expect(sent[1].cycles - sent[0].cycles).toBe(frame);
+  });
+
+  it('reports hardware it does not emulate once', () => {
+    const { chip, notices } = boot([ldi(16, 0x55), sts(0x4e, 16), sts(0x4e, 16), HALT]);
+    chip.run(10);
+    expect(notices).toEqual(["The SPI bus isn't emulated: transfers complete at once and read 0xFF"]);
+  });
+});
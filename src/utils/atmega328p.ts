@@ -0,0 +1,728 @@
+import { AvrCpu } from './avrCpu';
+import { BoardProfile } from './boards';
+import { PinMode, VirtualPins } from './virtualPins';
+
+export interface ChipHost {
+  pins: VirtualPins;
+  // A byte the USART finished shifting out on TX
+  transmit: (byte: number) => void;
+  // Firmware using hardware the emulator does not model, reported once each
+  notice: (message: string) => void;
+}
+
+const FLASH_BYTES = 32768;
+const RAM_END = 0x8ff;
+const EEPROM_BYTES = 1024;
+
+// Interrupt vector numbers, which are also their priorities
+const INT0 = 1;
+const PCINT0 = 3;
+const USART_UDRE = 19;
+const USART_TX = 20;
+const ADC_READY = 21;
+
+const PCIFR = 0x3b;
+const EIFR = 0x3c;
+const EIMSK = 0x3d;
+const EECR = 0x3f;
+const EEDR = 0x40;
+const EEARL = 0x41;
+const EEARH = 0x42;
+const SPCR = 0x4c;
+const SPSR = 0x4d;
+const SPDR = 0x4e;
+const WDTCSR = 0x60;
+const PCICR = 0x68;
+const EICRA = 0x69;
+const PCMSK0 = 0x6b;
+const ADCL = 0x78;
+const ADCH = 0x79;
+const ADCSRA = 0x7a;
+const ADCSRB = 0x7b;
+const ADMUX = 0x7c;
+const TWCR = 0xbc;
+const UCSR0A = 0xc0;
+const UCSR0B = 0xc1;
+const UCSR0C = 0xc2;
+const UBRR0L = 0xc4;
+const UBRR0H = 0xc5;
+const UDR0 = 0xc6;
+
+// The Arduino pin on each bit of ports B, C and D; PB6-7 carry the crystal and PC6 is RESET
+const PORTS = [
+  { pin: 0x23, ddr: 0x24, port: 0x25, pins: [8, 9, 10, 11, 12, 13, null, null] },
+  { pin: 0x26, ddr: 0x27, port: 0x28, pins: [14, 15, 16, 17, 18, 19, null, null] },
+  { pin: 0x29, ddr: 0x2a, port: 0x2b, pins: [0, 1, 2, 3, 4, 5, 6, 7] }
+];
+
+// Pulses 400-3000 µs wide repeating every 10-40 ms are a servo signal; an
+// output toggling with an even duty cycle is a tone
+const SERVO_PULSE = [400, 3000];
+const SERVO_PERIOD = [10_000, 40_000];
+// A servo signal or tone counts as stopped once its pin has been quiet this long (µs)
+const SIGNAL_TIMEOUT = 60_000;
+
+type WaveKind = 'normal' | 'ctc' | 'fast' | 'phase';
+type Top = number | 'ocrA' | 'icr';
+
+// Waveform generation modes by WGM bits, from the datasheet's mode tables
+const WAVES_8: [WaveKind, Top][] = [
+  ['normal', 0xff], ['phase', 0xff], ['ctc', 'ocrA'], ['fast', 0xff],
+  ['normal', 0xff], ['phase', 'ocrA'], ['normal', 0xff], ['fast', 'ocrA']
+];
+const WAVES_16: [WaveKind, Top][] = [
+  ['normal', 0xffff], ['phase', 0xff], ['phase', 0x1ff], ['phase', 0x3ff],
+  ['ctc', 'ocrA'], ['fast', 0xff], ['fast', 0x1ff], ['fast', 0x3ff],
+  ['phase', 'icr'], ['phase', 'ocrA'], ['phase', 'icr'], ['phase', 'ocrA'],
+  ['ctc', 'icr'], ['normal', 0xffff], ['fast', 'icr'], ['fast', 'ocrA']
+];
+
+interface TimerSpec {
+  tccrA: number;
+  tccrB: number;
+  tcnt: number;
+  ocrA: number;
+  ocrB: number;
+  icr: number | null;
+  timsk: number;
+  tifr: number;
+  max: number;
+  // Prescaler for each clock select value; 0 stops the timer
+  clocks: number[];
+  // Compare A, compare B, overflow and input capture vectors
+  vectors: [number, number, number, number | null];
+  // OCnA and OCnB
+  pins: [number, number];
+}
+
+const TIMERS: TimerSpec[] = [
+  {
+    tccrA: 0x44, tccrB: 0x45, tcnt: 0x46, ocrA: 0x47, ocrB: 0x48, icr: null, timsk: 0x6e, tifr: 0x35,
+    max: 0xff, clocks: [0, 1, 8, 64, 256, 1024, 0, 0], vectors: [14, 15, 16, null], pins: [6, 5]
+  },
+  {
+    tccrA: 0x80, tccrB: 0x81, tcnt: 0x84, ocrA: 0x88, ocrB: 0x8a, icr: 0x86, timsk: 0x6f, tifr: 0x36,
+    max: 0xffff, clocks: [0, 1, 8, 64, 256, 1024, 0, 0], vectors: [11, 12, 13, 10], pins: [9, 10]
+  },
+  {
+    tccrA: 0xb0, tccrB: 0xb1, tcnt: 0xb2, ocrA: 0xb3, ocrB: 0xb4, icr: null, timsk: 0x70, tifr: 0x37,
+    max: 0xff, clocks: [0, 1, 8, 32, 64, 128, 256, 1024], vectors: [7, 8, 9, null], pins: [11, 3]
+  }
+];
+
+// TIFR and TIMSK bit of each flag
+const OCFA = 0x02;
+const OCFB = 0x04;
+const TOV = 0x01;
+const ICF = 0x20;
+
+type PinOverride = { level: 0 | 1 } | { duty: number };
+
+// One timer/counter. The count is brought up to date lazily: when the CPU
+// touches a timer register and when the chip reaches the timer's next event.
+class Timer {
+  count = 0;
+  ocrA = 0;
+  ocrB = 0;
+  icr = 0;
+  // Counting down, in the second half of a phase correct period
+  private down = false;
+  private synced = 0;
+  // OCnA and OCnB as compare matches in the non-PWM modes leave them
+  private readonly outputs: (0 | 1)[] = [0, 0];
+
+  constructor(private readonly cpu: AvrCpu, readonly spec: TimerSpec, private readonly onOutput: (pin: number) => void) {}
+
+  private get wgm(): number {
+    const data = this.cpu.data;
+    const low = data[this.spec.tccrA] & 3;
+    return this.spec.max === 0xff ? low | ((data[this.spec.tccrB] >> 1) & 4) : low | ((data[this.spec.tccrB] >> 1) & 0xc);
+  }
+
+  private get clock(): number {
+    return this.spec.clocks[this.cpu.data[this.spec.tccrB] & 7];
+  }
+
+  private wave(): { kind: WaveKind; top: number; topSource: Top } {
+    const [kind, topSource] = (this.spec.max === 0xff ? WAVES_8 : WAVES_16)[this.wgm];
+    const top = topSource === 'ocrA' ? this.ocrA : topSource === 'icr' ? this.icr : topSource;
+    // A phase correct period needs somewhere to turn around
+    return { kind, top: kind === 'phase' ? Math.max(top, 1) : top, topSource };
+  }
+
+  // Brings the count up to the given cycle; flags land in TIFR
+  sync(now: number): void {
+    const clock = this.clock;
+    if (clock) this.advance(Math.floor(now / clock) - Math.floor(this.synced / clock));
+    this.synced = now;
+  }
+
+  // The cycle of the next compare match, overflow or TOP, or Infinity while stopped
+  nextEvent(): number {
+    const clock = this.clock;
+    if (!clock) return Infinity;
+    return (Math.floor(this.synced / clock) + this.ticksToEvent()) * clock;
+  }
+
+  // The pin level or duty cycle the timer puts on OCnA/OCnB, or null when the port drives it
+  override(pin: number): PinOverride | null {
+    const channel = this.spec.pins.indexOf(pin);
+    if (channel < 0) return null;
+    const com = (this.cpu.data[this.spec.tccrA] >> (channel === 0 ? 6 : 4)) & 3;
+    if (com === 0) return null;
+    const { kind, top, topSource } = this.wave();
+    if (kind === 'normal' || kind === 'ctc') return { level: this.outputs[channel] };
+    // With OCRnA as TOP, toggling OCnA once a period makes a square wave
+    if (com === 1) return channel === 0 && topSource === 'ocrA' ? { duty: 128 } : null;
+    const ocr = channel === 0 ? this.ocrA : this.ocrB;
+    const fraction = Math.min(1, kind === 'fast' ? (ocr + 1) / (top + 1) : ocr / top);
+    const duty = Math.round(fraction * 255);
+    return { duty: com === 3 ? 255 - duty : duty };
+  }
+
+  private position(kind: WaveKind, top: number): number {
+    return kind === 'phase' && this.down ? 2 * top - this.count : this.count;
+  }
+
+  // Ticks until the count next reaches a point that sets a flag
+  private ticksToEvent(): number {
+    const { kind, top, topSource } = this.wave();
+    const { max } = this.spec;
+    if (kind !== 'phase' && this.count > top) {
+      // TOP was moved below the count, which runs on to MAX and wraps
+      return Math.min(max - this.count + 1, ...[this.ocrA, this.ocrB].filter(ocr => ocr > this.count).map(ocr => ocr - this.count));
+    }
+    const length = kind === 'phase' ? 2 * top : top + 1;
+    const points = kind === 'phase'
+      ? [this.ocrA, 2 * top - this.ocrA, this.ocrB, 2 * top - this.ocrB, 0, top]
+      : [this.ocrA, this.ocrB, 0, ...(topSource === 'icr' ? [top] : [])];
+    const position = this.position(kind, top);
+    return points
+      .filter(point => point >= 0 && point <= length)
+      .reduce((nearest, point) => Math.min(nearest, (point - position + length) % length || length), length);
+  }
+
+  private advance(ticks: number): void {
+    while (ticks > 0) {
+      const step = this.ticksToEvent();
+      const { kind, top } = this.wave();
+      const { max } = this.spec;
+      const overrun = kind !== 'phase' && this.count > top;
+      if (step > ticks) {
+        this.move(kind, top, ticks, overrun);
+        return;
+      }
+      this.move(kind, top, step, overrun);
+      ticks -= step;
+      this.fire(kind, top, overrun || (kind !== 'phase' && top === max));
+    }
+  }
+
+  private move(kind: WaveKind, top: number, ticks: number, overrun: boolean): void {
+    if (overrun) {
+      this.count = (this.count + ticks) % (this.spec.max + 1);
+      return;
+    }
+    const length = kind === 'phase' ? 2 * top : top + 1;
+    const position = (this.position(kind, top) + ticks) % length;
+    this.down = kind === 'phase' && position > top;
+    this.count = this.down ? 2 * top - position : position;
+  }
+
+  private fire(kind: WaveKind, top: number, wrapsAtMax: boolean): void {
+    const { tifr, icr } = this.spec;
+    let flags = 0;
+    if (this.count === this.ocrA) flags |= OCFA;
+    if (this.count === this.ocrB) flags |= OCFB;
+    if (this.count === 0 && (kind === 'phase' ? !this.down : kind === 'fast' || wrapsAtMax)) flags |= TOV;
+    if (icr !== null && this.count === top && this.wave().topSource === 'icr') flags |= ICF;
+    this.cpu.data[tifr] |= flags;
+    if (kind === 'normal' || kind === 'ctc') {
+      if (flags & OCFA) this.compareOutput(0);
+      if (flags & OCFB) this.compareOutput(1);
+    }
+  }
+
+  private compareOutput(channel: number): void {
+    const com = (this.cpu.data[this.spec.tccrA] >> (channel === 0 ? 6 : 4)) & 3;
+    if (com === 0) return;
+    this.outputs[channel] = com === 1 ? ((this.outputs[channel] ^ 1) as 0 | 1) : com === 2 ? 0 : 1;
+    this.onOutput(this.spec.pins[channel]);
+  }
+}
+
+interface Edges {
+  rise: number | null;
+  fall: number | null;
+  last: number;
+}
+
+// An ATmega328P as wired on an Uno or Nano: the AVR core plus GPIO ports,
+// external and pin change interrupts, timers 0-2, USART0, the ADC and EEPROM,
+// with the ports driving VirtualPins.
+export class Atmega328p {
+  readonly cpu: AvrCpu;
+  private readonly timers: Timer[];
+  private readonly pinBits = new Map<number, { port: number; bit: number }>();
+  // Input levels as last seen, to find edges for INT0/INT1 and pin change interrupts
+  private readonly levels = new Map<number, 0 | 1>();
+  private readonly edges = new Map<number, Edges>();
+  private readonly eeprom = new Uint8Array(EEPROM_BYTES).fill(0xff);
+  private readonly noticed = new Set<string>();
+  private readonly unsubscribe: () => void;
+  private nextEvent = Infinity;
+  // The 16-bit timer registers go through one shared TEMP byte
+  private temp = 0;
+  // USART0 transmitter: the byte being shifted out and the one waiting in UDR0
+  private shifting: number | null = null;
+  private transmitBuffer: number | null = null;
+  private transmitDone = Infinity;
+  private transmitComplete = false;
+  private conversionDone = Infinity;
+  private firstConversion = true;
+
+  constructor(image: Uint8Array, readonly board: BoardProfile, private readonly host: ChipHost) {
+    if (image.length > FLASH_BYTES) throw new Error(`The image is ${image.length} bytes; the ATmega328P has ${FLASH_BYTES} bytes of flash`);
+    this.cpu = new AvrCpu(image, FLASH_BYTES / 2, RAM_END);
+    this.cpu.data[UCSR0C] = 0x06;
+    this.cpu.onInterrupt = vector => this.acknowledge(vector);
+
+    PORTS.forEach((spec, port) => {
+      spec.pins.forEach((pin, bit) => {
+        if (pin === null) return;
+        this.pinBits.set(pin, { port, bit });
+        this.levels.set(pin, host.pins.read(pin));
+      });
+      this.cpu.hookRead(spec.pin, () => this.readPort(port));
+      // Writing ones to PINx toggles those bits of PORTx
+      this.cpu.hookWrite(spec.pin, (value, _old, mask) => {
+        const data = this.cpu.data;
+        data[spec.pin] = 0;
+        const old = data[spec.port];
+        data[spec.port] ^= value & mask;
+        this.refreshPort(port, old ^ data[spec.port]);
+      });
+      this.cpu.hookWrite(spec.ddr, (value, old) => this.refreshPort(port, value ^ old));
+      this.cpu.hookWrite(spec.port, (value, old) => this.refreshPort(port, value ^ old));
+    });
+
+    this.timers = TIMERS.map(spec => new Timer(this.cpu, spec, pin => this.refreshPin(pin)));
+    this.timers.forEach(timer => this.hookTimer(timer));
+    this.hookUsart();
+    this.hookAdc();
+    this.hookEeprom();
+
+    [EIMSK, EICRA, PCICR, PCMSK0, PCMSK0 + 1, PCMSK0 + 2].forEach(address => this.cpu.hookWrite(address, () => this.updateInterrupts()));
+    [EIFR, PCIFR].forEach(address =>
+      this.cpu.hookWrite(address, (value, old, mask) => {
+        this.cpu.data[address] = old & ~(value & mask);
+        this.updateInterrupts();
+      })
+    );
+
+    // Ports the emulator does not model get a notice instead of silently hanging
+    this.cpu.hookWrite(SPDR, () => {
+      this.cpu.data[SPDR] = 0xff;
+      this.cpu.data[SPSR] |= 0x80;
+      this.unsupported('SPI', "The SPI bus isn't emulated: transfers complete at once and read 0xFF");
+    });
+    this.cpu.hookWrite(SPCR, value => {
+      if (value & 0x40) this.unsupported('SPI', "The SPI bus isn't emulated: transfers complete at once and read 0xFF");
+    });
+    this.cpu.hookWrite(TWCR, value => {
+      if (value & 0x04) this.unsupported('TWI', "The I2C (Wire) bus isn't emulated, so I2C devices won't answer");
+    });
+    // wdt_disable() writes WDE with the change enable bit set, which is not arming it
+    this.cpu.hookWrite(WDTCSR, value => {
+      if (value & 0x48 && !(value & 0x10)) this.unsupported('WDT', "The watchdog timer isn't emulated; it will never reset the chip");
+    });
+
+    this.unsubscribe = host.pins.subscribe(() => this.sense());
+    this.schedule();
+  }
+
+  get cycles(): number {
+    return this.cpu.cycles;
+  }
+
+  // Byte address of the next instruction, as disassembly listings show it
+  get pc(): number {
+    return this.cpu.pc * 2;
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  // Runs for at least the given number of clock cycles
+  run(cycles: number): void {
+    const cpu = this.cpu;
+    const end = cpu.cycles + cycles;
+    while (cpu.cycles < end) {
+      this.tick(end);
+    }
+    this.expireSignals();
+  }
+
+  // One instruction, or one interrupt entry
+  step(): void {
+    this.tick(Infinity);
+  }
+
+  private tick(limit: number): void {
+    const cpu = this.cpu;
+    if (cpu.sleeping && (cpu.pendingInterrupts === 0 || !(cpu.sreg & 0x80))) {
+      // Asleep, nothing happens until the next peripheral event
+      if (this.nextEvent === Infinity && limit === Infinity) throw new Error('The chip went to sleep with nothing left to wake it');
+      cpu.cycles = Math.max(cpu.cycles, Math.min(this.nextEvent, limit));
+    } else {
+      cpu.step();
+    }
+    if (cpu.cycles >= this.nextEvent) this.update();
+  }
+
+  private update(): void {
+    const now = this.cpu.cycles;
+    this.timers.forEach(timer => timer.sync(now));
+    if (now >= this.transmitDone) this.finishTransmit();
+    if (now >= this.conversionDone) this.finishConversion();
+    this.updateInterrupts();
+    this.schedule();
+  }
+
+  private schedule(): void {
+    this.nextEvent = Math.min(this.transmitDone, this.conversionDone, ...this.timers.map(timer => timer.nextEvent()));
+  }
+
+  private unsupported(key: string, message: string): void {
+    if (this.noticed.has(key)) return;
+    this.noticed.add(key);
+    this.host.notice(message);
+  }
+
+  // ---------------------------------------------------------------- GPIO
+
+  private readPort(port: number): number {
+    let value = 0;
+    PORTS[port].pins.forEach((pin, bit) => {
+      if (pin !== null && this.host.pins.read(pin)) value |= 1 << bit;
+    });
+    return value;
+  }
+
+  private refreshPort(port: number, changed: number): void {
+    PORTS[port].pins.forEach((pin, bit) => {
+      if (pin !== null && changed & (1 << bit)) this.refreshPin(pin);
+    });
+  }
+
+  private refreshPin(pin: number): void {
+    const { port, bit } = this.pinBits.get(pin)!;
+    const data = this.cpu.data;
+    const high = (data[PORTS[port].port] >> bit) & 1;
+    if (!((data[PORTS[port].ddr] >> bit) & 1)) {
+      this.drive(pin, high ? 'INPUT_PULLUP' : 'INPUT', 0);
+      return;
+    }
+    const override = this.timers.reduce<PinOverride | null>((found, timer) => found ?? timer.override(pin), null);
+    if (override && 'duty' in override) this.host.pins.writeDuty(pin, override.duty);
+    else this.drive(pin, 'OUTPUT', override ? override.level : (high as 0 | 1));
+  }
+
+  private drive(pin: number, mode: PinMode, level: 0 | 1): void {
+    const pins = this.host.pins;
+    const state = pins.get(pin);
+    if (state.mode !== mode || state.duty !== null) pins.setMode(pin, mode);
+    if (mode === 'OUTPUT' && state.output !== level) {
+      this.edge(pin, level);
+      pins.write(pin, level);
+    }
+  }
+
+  // Recognises servo pulses and tones in a pin's edges so the virtual parts can show them
+  private edge(pin: number, level: 0 | 1): void {
+    const now = this.cpu.cycles / (this.board.clockHz / 1e6);
+    const edges = this.edges.get(pin) ?? { rise: null, fall: null, last: now };
+    edges.last = now;
+    this.edges.set(pin, edges);
+    if (!level) {
+      edges.fall = now;
+      return;
+    }
+    if (edges.rise !== null && edges.fall !== null && edges.fall > edges.rise) {
+      const width = edges.fall - edges.rise;
+      const period = now - edges.rise;
+      if (width >= SERVO_PULSE[0] && width <= SERVO_PULSE[1] && period >= SERVO_PERIOD[0] && period <= SERVO_PERIOD[1]) {
+        this.host.pins.writePulse(pin, Math.round(width));
+      } else if (Math.abs(2 * width - period) < period * 0.1) {
+        this.host.pins.setFrequency(pin, Math.round(1e6 / period));
+      }
+    }
+    edges.rise = now;
+  }
+
+  private expireSignals(): void {
+    const now = this.cpu.cycles / (this.board.clockHz / 1e6);
+    this.edges.forEach((edges, pin) => {
+      if (now - edges.last < SIGNAL_TIMEOUT) return;
+      const state = this.host.pins.get(pin);
+      if (state.mode !== 'OUTPUT') return;
+      if (state.pulse !== null) this.host.pins.writePulse(pin, null);
+      if (state.frequency !== null) this.host.pins.setFrequency(pin, null);
+    });
+  }
+
+  // Any pin change, whoever made it: sets the INT0/INT1 and pin change flags
+  private sense(): void {
+    const data = this.cpu.data;
+    this.pinBits.forEach(({ port, bit }, pin) => {
+      const level = this.host.pins.read(pin);
+      if (this.levels.get(pin) === level) return;
+      this.levels.set(pin, level);
+      if (data[PCMSK0 + port] & (1 << bit)) data[PCIFR] |= 1 << port;
+      // INT0 and INT1 are PD2 and PD3
+      if (port === 2 && (bit === 2 || bit === 3)) {
+        const line = bit - 2;
+        const sense = (data[EICRA] >> (line * 2)) & 3;
+        if (sense === 1 || (sense === 2 && !level) || (sense === 3 && level)) data[EIFR] |= 1 << line;
+      }
+    });
+    this.updateInterrupts();
+  }
+
+  // ---------------------------------------------------------------- interrupts
+
+  private updateInterrupts(): void {
+    const data = this.cpu.data;
+    let pending = 0;
+    for (let line = 0; line < 2; line++) {
+      if (!(data[EIMSK] & (1 << line))) continue;
+      // Sense mode 0 interrupts for as long as the pin stays low
+      const lowLevel = ((data[EICRA] >> (line * 2)) & 3) === 0 && !this.host.pins.read(2 + line);
+      if (data[EIFR] & (1 << line) || lowLevel) pending |= 1 << (INT0 + line);
+    }
+    for (let port = 0; port < 3; port++) {
+      if (data[PCICR] & data[PCIFR] & (1 << port)) pending |= 1 << (PCINT0 + port);
+    }
+    this.timers.forEach(({ spec }) => {
+      const active = data[spec.tifr] & data[spec.timsk];
+      if (active & OCFA) pending |= 1 << spec.vectors[0];
+      if (active & OCFB) pending |= 1 << spec.vectors[1];
+      if (active & TOV) pending |= 1 << spec.vectors[2];
+      if (active & ICF && spec.vectors[3] !== null) pending |= 1 << spec.vectors[3];
+    });
+    if (data[UCSR0B] & 0x20 && this.transmitBuffer === null) pending |= 1 << USART_UDRE;
+    if (data[UCSR0B] & 0x40 && this.transmitComplete) pending |= 1 << USART_TX;
+    if ((data[ADCSRA] & 0x18) === 0x18) pending |= 1 << ADC_READY;
+    this.cpu.pendingInterrupts = pending;
+  }
+
+  // Entering a handler clears the flag that requested it
+  private acknowledge(vector: number): void {
+    const data = this.cpu.data;
+    if (vector === INT0 || vector === INT0 + 1) data[EIFR] &= ~(1 << (vector - INT0));
+    else if (vector >= PCINT0 && vector < PCINT0 + 3) data[PCIFR] &= ~(1 << (vector - PCINT0));
+    else if (vector === USART_TX) this.transmitComplete = false;
+    else if (vector === ADC_READY) data[ADCSRA] &= ~0x10;
+    this.timers.forEach(({ spec }) => {
+      const flag = [OCFA, OCFB, TOV, ICF][spec.vectors.indexOf(vector)];
+      if (flag) data[spec.tifr] &= ~flag;
+    });
+    this.updateInterrupts();
+  }
+
+  // ---------------------------------------------------------------- timers
+
+  private hookTimer(timer: Timer): void {
+    const { cpu } = this;
+    const { spec } = timer;
+    const changed = () => {
+      spec.pins.forEach(pin => this.refreshPin(pin));
+      this.updateInterrupts();
+      this.schedule();
+    };
+    // Register changes apply from now; count what happened before them first
+    const sync = () => timer.sync(cpu.cycles);
+
+    [spec.tccrA, spec.tccrB].forEach(address =>
+      cpu.hookWrite(address, (value, old) => {
+        cpu.data[address] = old;
+        sync();
+        cpu.data[address] = value;
+        changed();
+      })
+    );
+    cpu.hookWrite(spec.timsk, () => changed());
+    cpu.hookRead(spec.tifr, () => {
+      sync();
+      return cpu.data[spec.tifr];
+    });
+    cpu.hookWrite(spec.tifr, (value, old, mask) => {
+      cpu.data[spec.tifr] = old;
+      sync();
+      cpu.data[spec.tifr] &= ~(value & mask);
+      changed();
+    });
+
+    const registers: [number, (value: number) => void, () => number][] = [
+      [spec.tcnt, value => (timer.count = value), () => timer.count],
+      [spec.ocrA, value => (timer.ocrA = value), () => timer.ocrA],
+      [spec.ocrB, value => (timer.ocrB = value), () => timer.ocrB]
+    ];
+    if (spec.icr !== null) registers.push([spec.icr, value => (timer.icr = value), () => timer.icr]);
+    registers.forEach(([address, set, get]) => {
+      if (spec.max === 0xff) {
+        cpu.hookRead(address, () => {
+          sync();
+          return get();
+        });
+        cpu.hookWrite(address, value => {
+          sync();
+          set(value);
+          changed();
+        });
+        return;
+      }
+      // Reading the low byte latches the high byte; writing the low byte writes both
+      cpu.hookRead(address, () => {
+        sync();
+        this.temp = get() >> 8;
+        return get() & 0xff;
+      });
+      cpu.hookRead(address + 1, () => this.temp);
+      cpu.hookWrite(address + 1, value => (this.temp = value));
+      cpu.hookWrite(address, value => {
+        sync();
+        set((this.temp << 8) | value);
+        changed();
+      });
+    });
+  }
+
+  // ---------------------------------------------------------------- USART0
+
+  private hookUsart(): void {
+    const { cpu } = this;
+    const data = cpu.data;
+    cpu.hookRead(UCSR0A, () => (data[UCSR0A] & 0x03) | (this.transmitComplete ? 0x40 : 0) | (this.transmitBuffer === null ? 0x20 : 0));
+    cpu.hookWrite(UCSR0A, (value, _old, mask) => {
+      data[UCSR0A] = value & 0x03;
+      if (value & mask & 0x40) this.transmitComplete = false;
+      this.updateInterrupts();
+    });
+    cpu.hookWrite(UCSR0B, () => this.updateInterrupts());
+    // Nothing is ever received
+    cpu.hookRead(UDR0, () => 0);
+    cpu.hookWrite(UDR0, value => {
+      if (!(data[UCSR0B] & 0x08)) return;
+      if (this.shifting === null) this.startTransmit(value);
+      else this.transmitBuffer = value;
+      this.updateInterrupts();
+      this.schedule();
+    });
+  }
+
+  private startTransmit(byte: number): void {
+    const data = this.cpu.data;
+    const ubrr = ((data[UBRR0H] & 0x0f) << 8) | data[UBRR0L];
+    const cyclesPerBit = (data[UCSR0A] & 0x02 ? 8 : 16) * (ubrr + 1);
+    const size = ((data[UCSR0C] >> 1) & 3) | (data[UCSR0B] & 0x04);
+    const dataBits = size === 7 ? 9 : 5 + (size & 3);
+    const parityBits = data[UCSR0C] & 0x30 ? 1 : 0;
+    const stopBits = data[UCSR0C] & 0x08 ? 2 : 1;
+    this.shifting = byte;
+    this.transmitDone = this.cpu.cycles + cyclesPerBit * (1 + dataBits + parityBits + stopBits);
+  }
+
+  private finishTransmit(): void {
+    this.host.transmit(this.shifting ?? 0);
+    if (this.transmitBuffer !== null) {
+      this.startTransmit(this.transmitBuffer);
+      this.transmitBuffer = null;
+    } else {
+      this.shifting = null;
+      this.transmitDone = Infinity;
+      this.transmitComplete = true;
+    }
+  }
+
+  // ---------------------------------------------------------------- ADC
+
+  private hookAdc(): void {
+    const { cpu } = this;
+    const data = cpu.data;
+    cpu.hookWrite(ADCSRA, (value, old, mask) => {
+      const converting = this.conversionDone !== Infinity;
+      // ADIF clears when a one is written to it
+      const flag = old & 0x10 & ~(value & mask);
+      data[ADCSRA] = (value & ~0x50) | flag;
+      if (!(value & 0x80)) {
+        this.conversionDone = Infinity;
+        this.firstConversion = true;
+      } else if (converting || value & 0x40) {
+        if (!converting) this.startConversion();
+        data[ADCSRA] |= 0x40;
+      }
+      this.updateInterrupts();
+      this.schedule();
+    });
+  }
+
+  private startConversion(): void {
+    const prescaler = [2, 2, 4, 8, 16, 32, 64, 128][this.cpu.data[ADCSRA] & 7];
+    // The first conversion after enabling the ADC also initialises its analog circuitry
+    this.conversionDone = this.cpu.cycles + (this.firstConversion ? 25 : 13) * prescaler;
+    this.firstConversion = false;
+  }
+
+  private finishConversion(): void {
+    const data = this.cpu.data;
+    const result = this.sample();
+    const leftAdjusted = data[ADMUX] & 0x20;
+    data[ADCL] = leftAdjusted ? (result << 6) & 0xc0 : result & 0xff;
+    data[ADCH] = leftAdjusted ? result >> 2 : result >> 8;
+    data[ADCSRA] |= 0x10;
+    // Auto trigger from free running mode starts the next conversion straight away
+    if (data[ADCSRA] & 0x20 && (data[ADCSRB] & 7) === 0) {
+      this.conversionDone = Infinity;
+      this.startConversion();
+    } else {
+      data[ADCSRA] &= ~0x40;
+      this.conversionDone = Infinity;
+    }
+  }
+
+  private sample(): number {
+    const admux = this.cpu.data[ADMUX];
+    const channel = admux & 0x0f;
+    const pin = 14 + channel;
+    // Fraction of AVCC on the channel; 14 is the 1.1 V bandgap, 8 the temperature sensor
+    const input =
+      channel < 8 ? (this.board.adcPins.includes(pin) ? this.host.pins.readAnalog(pin) / 1023 : 0)
+      : channel === 14 ? 1.1 / 5
+      : channel === 8 ? 0.314 / 5
+      : 0;
+    // REFS = 3 measures against the internal 1.1 V reference instead of AVCC
+    const reference = admux >> 6 === 3 ? 1.1 / 5 : 1;
+    return Math.min(1023, Math.round((input / reference) * 1023));
+  }
+
+  // ---------------------------------------------------------------- EEPROM
+
+  // Reads and writes complete at once rather than taking 3.4 ms per byte
+  private hookEeprom(): void {
+    const { cpu } = this;
+    const data = cpu.data;
+    cpu.hookWrite(EECR, (value, old) => {
+      const address = ((data[EEARH] << 8) | data[EEARL]) % EEPROM_BYTES;
+      if (value & 0x01) {
+        data[EEDR] = this.eeprom[address];
+        cpu.cycles += 4;
+      }
+      const write = value & 0x02 && old & 0x04;
+      if (write) this.eeprom[address] = data[EEDR];
+      // EEMPE only enables the one write that follows it
+      data[EECR] = value & (write ? 0x38 : 0x3c);
+    });
+  }
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import { AvrCpu } from './avrCpu';
+
+// SREG bits
+const C = 0x01;
+const Z = 0x02;
+const N = 0x04;
+const V = 0x08;
+const S = 0x10;
+const H = 0x20;
+const I = 0x80;
+
+// Just enough of an assembler to hand-write the programs below
+const rr = (base: number) => (d: number, r: number) => base | ((r & 0x10) << 5) | (d << 4) | (r & 0xf);
+const ri = (base: number) => (d: number, k: number) => base | ((k & 0xf0) << 4) | ((d - 16) << 4) | (k & 0xf);
+const rd = (base: number) => (d: number) => base | (d << 4);
+const asm = {
+  ldi: ri(0xe000), subi: ri(0x5000), sbci: ri(0x4000), cpi: ri(0x3000),
+  add: rr(0x0c00), adc: rr(0x1c00), sub: rr(0x1800), sbc: rr(0x0800), cp: rr(0x1400), cpc: rr(0x0400),
+  cpse: rr(0x1000), and: rr(0x2000), eor: rr(0x2400), mov: rr(0x2c00), mul: rr(0x9c00),
+  com: rd(0x9400), neg: rd(0x9401), swap: rd(0x9402), inc: rd(0x9403), asr: rd(0x9405), lsr: rd(0x9406), ror: rd(0x9407), dec: rd(0x940a),
+  push: rd(0x920f), pop: rd(0x900f),
+  adiw: (d: number, k: number) => 0x9600 | ((k & 0x30) << 2) | (((d - 24) / 2) << 4) | (k & 0xf),
+  sbiw: (d: number, k: number) => 0x9700 | ((k & 0x30) << 2) | (((d - 24) / 2) << 4) | (k & 0xf),
+  sts: (address: number, r: number) => [0x9200 | (r << 4), address],
+  lds: (d: number, address: number) => [0x9000 | (d << 4), address],
+  out: (a: number, r: number) => 0xb800 | ((a & 0x30) << 5) | (r << 4) | (a & 0xf),
+  in: (d: number, a: number) => 0xb000 | ((a & 0x30) << 5) | (d << 4) | (a & 0xf),
+  sbi: (a: number, b: number) => 0x9a00 | (a << 3) | b,
+  sbrs: (r: number, b: number) => 0xfe00 | (r << 4) | b,
+  breq: (k: number) => 0xf000 | ((k & 0x7f) << 3) | 1,
+  brne: (k: number) => 0xf400 | ((k & 0x7f) << 3) | 1,
+  rjmp: (k: number) => 0xc000 | (k & 0xfff),
+  rcall: (k: number) => 0xd000 | (k & 0xfff),
+  jmp: (k: number) => [0x940c, k],
+  nop: 0x0000, ret: 0x9508, reti: 0x9518, sei: 0x9478, sleep: 0x9588,
+  // rjmp .-1, where every test program ends
+  halt: 0xcfff
+};
+
+const RAM_END = 0x8ff;
+
+function load(program: (number | number[])[]): AvrCpu {
+  const words = program.flat();
+  const image = new Uint8Array(words.length * 2);
+  words.forEach((word, i) => {
+    image[i * 2] = word & 0xff;
+    image[i * 2 + 1] = word >> 8;
+  });
+  return new AvrCpu(image, 0x4000, RAM_END);
+}
+
+// Runs until the program reaches its halt loop
+function run(program: (number | number[])[]): AvrCpu {
+  const cpu = load(program);
+  for (let steps = 0; cpu.program[cpu.pc] !== asm.halt; steps++) {
+    if (steps > 1000) throw new Error('The test program never halted');
+    cpu.step();
+  }
+  return cpu;
+}
+
+// SREG after applying `op` to the register values
+function flagsAfter(values: number[], op: number | number[]): number {
+  return run([...values.map((value, i) => asm.ldi(16 + i, value)), op, asm.halt]).sreg;
+}
+
+describe('AvrCpu arithmetic', () => {
+  it('sets H, V, N, S, Z and C for ADD', () => {
+    expect(flagsAfter([0x7f, 0x01], asm.add(16, 17))).toBe(H | V | N);
+    expect(flagsAfter([0xff, 0x01], asm.add(16, 17))).toBe(H | Z | C);
+    expect(flagsAfter([0x80, 0x80], asm.add(16, 17))).toBe(V | S | Z | C);
+  });
+
+  it('adds the carry with ADC for multi-byte sums', () => {
+    const cpu = run([asm.ldi(16, 0xff), asm.ldi(17, 0x00), asm.ldi(18, 0x01), asm.ldi(19, 0x00), asm.add(16, 18), asm.adc(17, 19), asm.halt]);
+    expect([cpu.data[16], cpu.data[17]]).toEqual([0x00, 0x01]);
+    expect(cpu.sreg & (Z | C)).toBe(0);
+  });
+
+  it('sets the borrow flags for SUB and SUBI', () => {
+    expect(flagsAfter([0x10, 0x01], asm.sub(16, 17))).toBe(H);
+    expect(flagsAfter([0x00, 0x01], asm.sub(16, 17))).toBe(H | S | N | C);
+    expect(flagsAfter([0x80], asm.subi(16, 1))).toBe(H | S | V);
+    expect(flagsAfter([0x05], asm.cpi(16, 5))).toBe(Z);
+  });
+
+  it('keeps Z clear through CPC and SBC unless the whole value is zero', () => {
+    const compare = (a: number, b: number) =>
+      flagsAfter([a & 0xff, a >> 8, b & 0xff, b >> 8], [asm.cp(16, 18), asm.cpc(17, 19)]);
+    expect(compare(0x0100, 0x0100) & Z).toBe(Z);
+    expect(compare(0x0001, 0x0000) & Z).toBe(0);
+    expect(compare(0x0000, 0x0001) & (Z | C)).toBe(C);
+
+    const cpu = run([asm.ldi(24, 0x00), asm.ldi(25, 0x01), asm.subi(24, 1), asm.sbci(25, 0), asm.halt]);
+    expect([cpu.data[24], cpu.data[25]]).toEqual([0xff, 0x00]);
+    expect(cpu.sreg & (Z | C)).toBe(0);
+  });
+
+  it('handles the single-register operations', () => {
+    expect(flagsAfter([0x80], asm.neg(16))).toBe(V | N | C);
+    expect(flagsAfter([0x00], asm.neg(16))).toBe(Z);
+    expect(flagsAfter([0x0f], asm.com(16))).toBe(S | N | C);
+    expect(flagsAfter([0x81], asm.asr(16))).toBe(S | N | C);
+    expect(flagsAfter([0x01], asm.lsr(16))).toBe(S | V | Z | C);
+    expect(flagsAfter([0x7f], asm.inc(16))).toBe(V | N);
+    expect(flagsAfter([0x80], asm.dec(16))).toBe(S | V);
+
+    const cpu = run([asm.ldi(16, 0x3c), asm.swap(16), asm.ldi(17, 0x01), asm.lsr(17), asm.ldi(18, 0x80), asm.ror(18), asm.halt]);
+    expect(cpu.data[16]).toBe(0xc3);
+    // ROR shifts in the carry LSR just shifted out
+    expect(cpu.data[18]).toBe(0xc0);
+  });
+
+  it('clears V in logic operations but keeps the carry', () => {
+    const cpu = run([asm.ldi(16, 0xff), asm.ldi(17, 0x01), asm.add(16, 17), asm.ldi(18, 0xf0), asm.and(18, 18), asm.halt]);
+    expect(cpu.sreg).toBe(H | S | N | C);
+    expect(flagsAfter([0x55], asm.eor(16, 16))).toBe(Z);
+  });
+
+  it('works on register pairs with ADIW and SBIW', () => {
+    const wrap = run([asm.ldi(24, 0xff), asm.ldi(25, 0xff), asm.adiw(24, 1), asm.halt]);
+    expect([wrap.data[24], wrap.data[25], wrap.sreg]).toEqual([0, 0, Z | C]);
+    expect(flagsAfter([0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0x7f], asm.adiw(24, 1))).toBe(V | N);
+    expect(flagsAfter([0, 0, 0, 0, 0, 0, 0, 0, 0x00, 0x00], asm.sbiw(24, 1))).toBe(S | N | C);
+  });
+
+  it('multiplies into r1:r0 with C from bit 15', () => {
+    const cpu = run([asm.ldi(16, 0xff), asm.ldi(17, 0xff), asm.mul(16, 17), asm.halt]);
+    expect([cpu.data[0], cpu.data[1]]).toEqual([0x01, 0xfe]);
+    expect(cpu.sreg & (Z | C)).toBe(C);
+  });
+});
+
+describe('AvrCpu control flow', () => {
+  it('counts cycles as the datasheet does', () => {
+    const cycles = (program: (number | number[])[]) => run([...program, asm.halt]).cycles;
+    expect(cycles([asm.ldi(16, 1), asm.add(16, 16)])).toBe(2);
+    expect(cycles([asm.rjmp(0)])).toBe(2);
+    expect(cycles([asm.jmp(2)])).toBe(3);
+    expect(cycles([asm.adiw(24, 1), asm.mul(16, 16)])).toBe(4);
+    expect(cycles([asm.push(16), asm.pop(17)])).toBe(4);
+    expect(cycles([asm.sts(0x100, 16), asm.lds(17, 0x100)])).toBe(4);
+    // Taken and not-taken branches
+    expect(cycles([asm.ldi(16, 0), asm.cpi(16, 0), asm.breq(0)])).toBe(4);
+    expect(cycles([asm.ldi(16, 0), asm.cpi(16, 0), asm.brne(0)])).toBe(3);
+  });
+
+  it('skips two-word instructions whole', () => {
+    const cpu = run([asm.ldi(16, 1), asm.cpse(16, 16), asm.sts(0x100, 16), asm.ldi(17, 7), asm.halt]);
+    expect(cpu.data[0x100]).toBe(0);
+    expect(cpu.data[17]).toBe(7);
+    // LDI, a skip over two words, LDI
+    expect(cpu.cycles).toBe(5);
+
+    const one = run([asm.ldi(16, 0x04), asm.sbrs(16, 2), asm.ldi(17, 1), asm.ldi(18, 2), asm.halt]);
+    expect([one.data[17], one.data[18], one.cycles]).toEqual([0, 2, 4]);
+  });
+
+  it('calls and returns through the stack', () => {
+    const cpu = load([asm.rcall(2), asm.halt, asm.nop, asm.ldi(16, 9), asm.ret]);
+    cpu.step();
+    expect(cpu.pc).toBe(3);
+    expect(cpu.sp).toBe(RAM_END - 2);
+    expect([cpu.data[RAM_END], cpu.data[RAM_END - 1]]).toEqual([1, 0]);
+    cpu.step();
+    cpu.step();
+    expect([cpu.pc, cpu.sp, cpu.cycles, cpu.data[16]]).toEqual([1, RAM_END, 8, 9]);
+  });
+
+  it('reaches I/O registers through IN, OUT, SBI and the data space', () => {
+    const cpu = load([asm.ldi(16, 0x20), asm.out(0x05, 16), asm.sbi(0x05, 0), asm.sts(0x25, 16), asm.in(17, 0x03), asm.halt]);
+    const writes: [number, number, number][] = [];
+    cpu.hookWrite(0x25, (value, old, mask) => writes.push([value, old, mask]));
+    cpu.hookRead(0x23, () => 0x5a);
+    while (cpu.program[cpu.pc] !== asm.halt) cpu.step();
+    expect(writes).toEqual([[0x20, 0x00, 0xff], [0x21, 0x20, 0x01], [0x20, 0x21, 0xff]]);
+    expect(cpu.data[17]).toBe(0x5a);
+  });
+
+  it('moves the stack pointer through SPL and SPH', () => {
+    const cpu = run([asm.ldi(16, 0x34), asm.ldi(17, 0x02), asm.out(0x3d, 16), asm.out(0x3e, 17), asm.push(16), asm.halt]);
+    expect(cpu.sp).toBe(0x233);
+    expect(cpu.data[0x234]).toBe(0x34);
+  });
+});
+
+describe('AvrCpu interrupts', () => {
+  const VECTOR = 3;
+
+  it('runs one more instruction after SEI, then enters the vector', () => {
+    const cpu = load([asm.sei, asm.ldi(16, 1), asm.ldi(17, 2), asm.halt, asm.halt, asm.halt, asm.reti]);
+    const taken: number[] = [];
+    cpu.onInterrupt = vector => taken.push(vector);
+    cpu.pendingInterrupts = 1 << VECTOR;
+    cpu.step();
+    cpu.step();
+    expect(cpu.data[16]).toBe(1);
+    cpu.step();
+    expect(taken).toEqual([VECTOR]);
+    expect(cpu.pc).toBe(VECTOR * 2);
+    expect(cpu.sreg & I).toBe(0);
+    expect(cpu.cycles).toBe(2 + 4);
+    expect([cpu.data[RAM_END], cpu.data[RAM_END - 1]]).toEqual([2, 0]);
+    expect(cpu.data[17]).toBe(0);
+  });
+
+  it('takes the lowest pending vector first and returns with RETI', () => {
+    const cpu = load([asm.sei, asm.nop, asm.ldi(16, 1), asm.halt, asm.reti, asm.halt, asm.reti]);
+    cpu.onInterrupt = vector => {
+      cpu.pendingInterrupts &= ~(1 << vector);
+    };
+    cpu.pendingInterrupts = (1 << 3) | (1 << 2);
+    cpu.step();
+    cpu.step();
+    cpu.step();
+    expect(cpu.pc).toBe(4);
+    // RETI re-enables interrupts but runs one instruction before the next one
+    cpu.step();
+    expect([cpu.pc, cpu.sreg & I]).toEqual([2, I]);
+    cpu.step();
+    expect(cpu.data[16]).toBe(1);
+    cpu.step();
+    expect(cpu.pc).toBe(6);
+  });
+
+  it('takes four more cycles to wake from sleep', () => {
+    // SLEEP only sleeps with SE set in SMCR
+    const cpu = load([asm.ldi(16, 1), asm.out(0x33, 16), asm.sei, asm.sleep, asm.halt]);
+    for (let i = 0; i < 4; i++) cpu.step();
+    expect(cpu.sleeping).toBe(true);
+    cpu.step();
+    expect(cpu.pc).toBe(4);
+    cpu.pendingInterrupts = 1 << VECTOR;
+    const before = cpu.cycles;
+    cpu.step();
+    expect([cpu.cycles - before, cpu.sleeping]).toEqual([8, false]);
+  });
+});
+
+describe('AvrCpu errors', () => {
+  it('explains running into erased flash', () => {
+    expect(() => run([asm.nop])).toThrow('Illegal instruction 0xFFFF at 0x0002 (erased flash: the program ran past its end)');
+  });
+
+  it('catches stack underflow and overflow', () => {
+    expect(() => run([asm.ret])).toThrow('Stack underflow');
+    const cpu = load([asm.push(16), asm.halt]);
+    cpu.sp = 0xff;
+    expect(() => cpu.step()).toThrow('Stack overflow');
+  });
+});
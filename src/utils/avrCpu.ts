@@ -0,0 +1,599 @@
+// An AVR core (the AVRe+ instruction set of the ATmega328P) executing a flash
+// image instruction by instruction with the datasheet's cycle counts. It knows
+// nothing of peripherals: the chip hooks the I/O registers it implements and
+// raises interrupts through `pendingInterrupts`.
+
+export type IoReadHook = () => number;
+// `mask` is the bits the instruction writes: SBI and CBI touch only one, which
+// matters for registers where writing a one clears a flag or toggles a pin
+export type IoWriteHook = (value: number, old: number, mask: number) => void;
+
+type Handler = (cpu: AvrCpu, op: number) => void;
+
+const SPL = 0x5d;
+const SPH = 0x5e;
+const SREG = 0x5f;
+const SMCR = 0x53;
+
+const C = 0x01;
+const Z = 0x02;
+const N = 0x04;
+const V = 0x08;
+const S = 0x10;
+const H = 0x20;
+const I = 0x80;
+
+const X = 26;
+const Y = 28;
+const ZP = 30;
+
+// S is N xor V for every instruction that sets it
+function withSign(flags: number): number {
+  return ((flags >> 2) ^ (flags >> 3)) & 1 ? flags | S : flags;
+}
+
+function resultFlags(result: number): number {
+  return (result === 0 ? Z : 0) | (result & 0x80 ? N : 0);
+}
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+}
+
+let handlers: Handler[] | null = null;
+
+export class AvrCpu {
+  // Registers, I/O registers and SRAM, as the data space lays them out
+  readonly data: Uint8Array;
+  readonly program: Uint16Array;
+  // Word address of the next instruction
+  pc = 0;
+  cycles = 0;
+  sleeping = false;
+  // Bit n set while interrupt vector n is pending; the chip keeps it current
+  pendingInterrupts = 0;
+  // Told which interrupt the CPU took, so the chip can clear its flag
+  onInterrupt: (vector: number) => void = () => {};
+  private readonly readHooks: (IoReadHook | undefined)[] = new Array(0x100);
+  private readonly writeHooks: (IoWriteHook | undefined)[] = new Array(0x100);
+  // SEI and RETI always let one more instruction run before an interrupt
+  private interruptDelay = false;
+
+  constructor(image: Uint8Array, flashWords: number, readonly ramEnd: number) {
+    this.program = new Uint16Array(flashWords).fill(0xffff);
+    for (let i = 0; i + 1 < image.length; i += 2) this.program[i >> 1] = image[i] | (image[i + 1] << 8);
+    this.data = new Uint8Array(ramEnd + 1);
+    handlers ??= AvrCpu.decodeTable();
+    this.reset();
+  }
+
+  reset(): void {
+    this.data.fill(0);
+    this.pc = 0;
+    this.cycles = 0;
+    this.sleeping = false;
+    this.sp = this.ramEnd;
+  }
+
+  hookRead(address: number, hook: IoReadHook): void {
+    this.readHooks[address] = hook;
+  }
+
+  hookWrite(address: number, hook: IoWriteHook): void {
+    this.writeHooks[address] = hook;
+  }
+
+  get sp(): number {
+    return this.data[SPL] | (this.data[SPH] << 8);
+  }
+
+  set sp(value: number) {
+    this.data[SPL] = value & 0xff;
+    this.data[SPH] = (value >> 8) & 0xff;
+  }
+
+  get sreg(): number {
+    return this.data[SREG];
+  }
+
+  readData(address: number): number {
+    if (address >= 0x20 && address < 0x100) {
+      const hook = this.readHooks[address];
+      if (hook) return hook();
+    }
+    return address <= this.ramEnd ? this.data[address] : 0;
+  }
+
+  // Hooks see the new value already stored and may replace it
+  writeData(address: number, value: number, mask = 0xff): void {
+    if (address >= 0x20 && address < 0x100) {
+      const hook = this.writeHooks[address];
+      if (hook) {
+        const old = this.data[address];
+        this.data[address] = value;
+        hook(value, old, mask);
+        return;
+      }
+    }
+    if (address <= this.ramEnd) this.data[address] = value;
+  }
+
+  // Runs one instruction, or enters the highest-priority pending interrupt
+  step(): void {
+    if (this.pendingInterrupts !== 0 && this.data[SREG] & I && !this.interruptDelay) {
+      this.interrupt();
+      return;
+    }
+    this.interruptDelay = false;
+    if (this.sleeping) return;
+    const op = this.program[this.pc];
+    handlers![op](this, op);
+  }
+
+  private interrupt(): void {
+    const pending = this.pendingInterrupts;
+    const vector = 31 - Math.clz32(pending & -pending);
+    this.pushPc(this.pc);
+    this.data[SREG] &= ~I;
+    this.pc = vector * 2;
+    // Waking from sleep takes four more cycles on top of the four to enter
+    this.cycles += this.sleeping ? 8 : 4;
+    this.sleeping = false;
+    this.onInterrupt(vector);
+  }
+
+  private push(value: number): void {
+    const sp = this.sp;
+    if (sp < 0x100) throw new Error(`Stack overflow: the stack grew into the I/O registers at ${hex(this.pc * 2, 4)}`);
+    this.data[sp] = value;
+    this.sp = sp - 1;
+  }
+
+  private pop(): number {
+    const sp = this.sp + 1;
+    if (sp > this.ramEnd) throw new Error(`Stack underflow: returned with an empty stack at ${hex(this.pc * 2, 4)}`);
+    this.sp = sp;
+    return this.data[sp];
+  }
+
+  private pushPc(pc: number): void {
+    this.push(pc & 0xff);
+    this.push(pc >> 8);
+  }
+
+  private popPc(): number {
+    const high = this.pop();
+    return ((high << 8) | this.pop()) % this.program.length;
+  }
+
+  private word(register: number): number {
+    return this.data[register] | (this.data[register + 1] << 8);
+  }
+
+  private setWord(register: number, value: number): void {
+    this.data[register] = value & 0xff;
+    this.data[register + 1] = (value >> 8) & 0xff;
+  }
+
+  // Skips the next instruction, which may be two words long; returns the cycles it took
+  private skip(): number {
+    const next = this.program[(this.pc + 1) % this.program.length];
+    const long = (next & 0xfe0c) === 0x940c || (next & 0xfc0f) === 0x9000;
+    this.pc += long ? 3 : 2;
+    return long ? 3 : 2;
+  }
+
+  private illegal(op: number): never {
+    const hint = op === 0xffff ? ' (erased flash: the program ran past its end)' : '';
+    throw new Error(`Illegal instruction ${hex(op, 4)} at ${hex(this.pc * 2, 4)}${hint}`);
+  }
+
+  private add(d: number, r: number, carry: number): void {
+    const rd = this.data[d];
+    const rr = this.data[r];
+    const sum = rd + rr + carry;
+    const result = sum & 0xff;
+    this.data[d] = result;
+    let flags = (this.data[SREG] & 0xc0) | resultFlags(result);
+    if (((rd & 0xf) + (rr & 0xf) + carry) & 0x10) flags |= H;
+    if (sum > 0xff) flags |= C;
+    if (~(rd ^ rr) & (rd ^ result) & 0x80) flags |= V;
+    this.data[SREG] = withSign(flags);
+  }
+
+  // SBC, SBCI and CPC leave Z clear unless the whole multi-byte result is zero
+  private subtract(rd: number, rr: number, carry: number, chained: boolean): number {
+    const difference = rd - rr - carry;
+    const result = difference & 0xff;
+    const old = this.data[SREG];
+    let flags = (old & 0xc0) | (result & 0x80 ? N : 0);
+    if (result === 0 && (!chained || old & Z)) flags |= Z;
+    if (((rd & 0xf) - (rr & 0xf) - carry) & 0x10) flags |= H;
+    if (difference < 0) flags |= C;
+    if ((rd ^ rr) & (rd ^ result) & 0x80) flags |= V;
+    this.data[SREG] = withSign(flags);
+    return result;
+  }
+
+  private logic(d: number, result: number): void {
+    this.data[d] = result;
+    this.data[SREG] = withSign((this.data[SREG] & 0xe1) | resultFlags(result));
+  }
+
+  private shiftRight(d: number, result: number): void {
+    const carry = this.data[d] & 1;
+    this.data[d] = result;
+    let flags = (this.data[SREG] & 0xe0) | resultFlags(result) | carry;
+    if (((flags >> 2) ^ carry) & 1) flags |= V;
+    this.data[SREG] = withSign(flags);
+  }
+
+  private multiply(product: number, fractional: boolean): void {
+    const carry = product & 0x8000 ? C : 0;
+    const result = (fractional ? product << 1 : product) & 0xffff;
+    this.setWord(0, result);
+    this.data[SREG] = (this.data[SREG] & 0xfc) | carry | (result === 0 ? Z : 0);
+    this.pc++;
+    this.cycles += 2;
+  }
+
+  private load(d: number, address: number): void {
+    this.data[d] = this.readData(address);
+    this.pc++;
+    this.cycles += 2;
+  }
+
+  private store(address: number, r: number): void {
+    this.writeData(address, this.data[r]);
+    this.pc++;
+    this.cycles += 2;
+  }
+
+  // Pointer access through X, Y or Z: mode 1 post-increments, 2 pre-decrements
+  private indirect(pointer: number, mode: number): number {
+    let address = this.word(pointer);
+    if (mode === 2) address = (address - 1) & 0xffff;
+    this.setWord(pointer, mode === 1 ? (address + 1) & 0xffff : address);
+    return address;
+  }
+
+  private programByte(address: number): number {
+    const word = this.program[(address >> 1) % this.program.length];
+    return address & 1 ? word >> 8 : word & 0xff;
+  }
+
+  private static decodeTable(): Handler[] {
+    const rd = (op: number) => (op >> 4) & 0x1f;
+    const rr = (op: number) => (op & 0xf) | ((op >> 5) & 0x10);
+    const rdHigh = (op: number) => 16 + ((op >> 4) & 0xf);
+    const imm8 = (op: number) => (op & 0xf) | ((op >> 4) & 0xf0);
+    const displacement = (op: number) => (op & 7) | ((op >> 7) & 0x18) | ((op >> 8) & 0x20);
+    const ioBit = (op: number) => 0x20 + ((op >> 3) & 0x1f);
+    const next = (cpu: AvrCpu, cycles = 1) => {
+      cpu.pc++;
+      cpu.cycles += cycles;
+    };
+    const branch = (cpu: AvrCpu, op: number, taken: boolean) => {
+      const offset = ((op >> 3) & 0x7f) << 25 >> 25;
+      cpu.pc = taken ? (cpu.pc + 1 + offset + cpu.program.length) % cpu.program.length : cpu.pc + 1;
+      cpu.cycles += taken ? 2 : 1;
+    };
+    const skipIf = (cpu: AvrCpu, condition: boolean) => {
+      if (condition) cpu.cycles += cpu.skip();
+      else next(cpu);
+    };
+    const absolute = (cpu: AvrCpu, op: number) => (((op >> 3) & 0x3e) | (op & 1)) << 16 | cpu.program[(cpu.pc + 1) % cpu.program.length];
+
+    // Most specific patterns first; letters stand for operand bits
+    const instructions: [string, Handler][] = [
+      ['0000 0000 0000 0000', cpu => next(cpu)], // NOP
+      ['0000 0001 dddd rrrr', (cpu, op) => { // MOVW
+        cpu.setWord(((op >> 4) & 0xf) * 2, cpu.word((op & 0xf) * 2));
+        next(cpu);
+      }],
+      ['0000 0010 dddd rrrr', (cpu, op) => { // MULS
+        const a = (cpu.data[rdHigh(op)] << 24) >> 24;
+        const b = (cpu.data[16 + (op & 0xf)] << 24) >> 24;
+        cpu.multiply((a * b) & 0xffff, false);
+      }],
+      ['0000 0011 0ddd 0rrr', (cpu, op) => { // MULSU
+        const a = (cpu.data[16 + ((op >> 4) & 7)] << 24) >> 24;
+        cpu.multiply((a * cpu.data[16 + (op & 7)]) & 0xffff, false);
+      }],
+      ['0000 0011 0ddd 1rrr', (cpu, op) => { // FMUL
+        cpu.multiply(cpu.data[16 + ((op >> 4) & 7)] * cpu.data[16 + (op & 7)], true);
+      }],
+      ['0000 0011 1ddd 0rrr', (cpu, op) => { // FMULS
+        const a = (cpu.data[16 + ((op >> 4) & 7)] << 24) >> 24;
+        const b = (cpu.data[16 + (op & 7)] << 24) >> 24;
+        cpu.multiply((a * b) & 0xffff, true);
+      }],
+      ['0000 0011 1ddd 1rrr', (cpu, op) => { // FMULSU
+        const a = (cpu.data[16 + ((op >> 4) & 7)] << 24) >> 24;
+        cpu.multiply((a * cpu.data[16 + (op & 7)]) & 0xffff, true);
+      }],
+      ['0000 01rd dddd rrrr', (cpu, op) => { // CPC
+        cpu.subtract(cpu.data[rd(op)], cpu.data[rr(op)], cpu.data[SREG] & C, true);
+        next(cpu);
+      }],
+      ['0000 10rd dddd rrrr', (cpu, op) => { // SBC
+        cpu.data[rd(op)] = cpu.subtract(cpu.data[rd(op)], cpu.data[rr(op)], cpu.data[SREG] & C, true);
+        next(cpu);
+      }],
+      ['0000 11rd dddd rrrr', (cpu, op) => { // ADD
+        cpu.add(rd(op), rr(op), 0);
+        next(cpu);
+      }],
+      ['0001 00rd dddd rrrr', (cpu, op) => skipIf(cpu, cpu.data[rd(op)] === cpu.data[rr(op)])], // CPSE
+      ['0001 01rd dddd rrrr', (cpu, op) => { // CP
+        cpu.subtract(cpu.data[rd(op)], cpu.data[rr(op)], 0, false);
+        next(cpu);
+      }],
+      ['0001 10rd dddd rrrr', (cpu, op) => { // SUB
+        cpu.data[rd(op)] = cpu.subtract(cpu.data[rd(op)], cpu.data[rr(op)], 0, false);
+        next(cpu);
+      }],
+      ['0001 11rd dddd rrrr', (cpu, op) => { // ADC
+        cpu.add(rd(op), rr(op), cpu.data[SREG] & C);
+        next(cpu);
+      }],
+      ['0010 00rd dddd rrrr', (cpu, op) => { // AND
+        cpu.logic(rd(op), cpu.data[rd(op)] & cpu.data[rr(op)]);
+        next(cpu);
+      }],
+      ['0010 01rd dddd rrrr', (cpu, op) => { // EOR
+        cpu.logic(rd(op), cpu.data[rd(op)] ^ cpu.data[rr(op)]);
+        next(cpu);
+      }],
+      ['0010 10rd dddd rrrr', (cpu, op) => { // OR
+        cpu.logic(rd(op), cpu.data[rd(op)] | cpu.data[rr(op)]);
+        next(cpu);
+      }],
+      ['0010 11rd dddd rrrr', (cpu, op) => { // MOV
+        cpu.data[rd(op)] = cpu.data[rr(op)];
+        next(cpu);
+      }],
+      ['0011 KKKK dddd KKKK', (cpu, op) => { // CPI
+        cpu.subtract(cpu.data[rdHigh(op)], imm8(op), 0, false);
+        next(cpu);
+      }],
+      ['0100 KKKK dddd KKKK', (cpu, op) => { // SBCI
+        cpu.data[rdHigh(op)] = cpu.subtract(cpu.data[rdHigh(op)], imm8(op), cpu.data[SREG] & C, true);
+        next(cpu);
+      }],
+      ['0101 KKKK dddd KKKK', (cpu, op) => { // SUBI
+        cpu.data[rdHigh(op)] = cpu.subtract(cpu.data[rdHigh(op)], imm8(op), 0, false);
+        next(cpu);
+      }],
+      ['0110 KKKK dddd KKKK', (cpu, op) => { // ORI
+        cpu.logic(rdHigh(op), cpu.data[rdHigh(op)] | imm8(op));
+        next(cpu);
+      }],
+      ['0111 KKKK dddd KKKK', (cpu, op) => { // ANDI
+        cpu.logic(rdHigh(op), cpu.data[rdHigh(op)] & imm8(op));
+        next(cpu);
+      }],
+      ['10q0 qq0d dddd 0qqq', (cpu, op) => cpu.load(rd(op), (cpu.word(ZP) + displacement(op)) & 0xffff)], // LDD Z+q
+      ['10q0 qq0d dddd 1qqq', (cpu, op) => cpu.load(rd(op), (cpu.word(Y) + displacement(op)) & 0xffff)], // LDD Y+q
+      ['10q0 qq1r rrrr 0qqq', (cpu, op) => cpu.store((cpu.word(ZP) + displacement(op)) & 0xffff, rd(op))], // STD Z+q
+      ['10q0 qq1r rrrr 1qqq', (cpu, op) => cpu.store((cpu.word(Y) + displacement(op)) & 0xffff, rd(op))], // STD Y+q
+      ['1001 000d dddd 0000', (cpu, op) => { // LDS
+        cpu.data[rd(op)] = cpu.readData(cpu.program[cpu.pc + 1]);
+        cpu.pc += 2;
+        cpu.cycles += 2;
+      }],
+      ['1001 000d dddd 0001', (cpu, op) => cpu.load(rd(op), cpu.indirect(ZP, 1))], // LD Z+
+      ['1001 000d dddd 0010', (cpu, op) => cpu.load(rd(op), cpu.indirect(ZP, 2))], // LD -Z
+      ['1001 000d dddd 0100', (cpu, op) => { // LPM Rd, Z
+        cpu.data[rd(op)] = cpu.programByte(cpu.word(ZP));
+        next(cpu, 3);
+      }],
+      ['1001 000d dddd 0101', (cpu, op) => { // LPM Rd, Z+
+        cpu.data[rd(op)] = cpu.programByte(cpu.indirect(ZP, 1));
+        next(cpu, 3);
+      }],
+      ['1001 000d dddd 1001', (cpu, op) => cpu.load(rd(op), cpu.indirect(Y, 1))], // LD Y+
+      ['1001 000d dddd 1010', (cpu, op) => cpu.load(rd(op), cpu.indirect(Y, 2))], // LD -Y
+      ['1001 000d dddd 1100', (cpu, op) => cpu.load(rd(op), cpu.indirect(X, 0))], // LD X
+      ['1001 000d dddd 1101', (cpu, op) => cpu.load(rd(op), cpu.indirect(X, 1))], // LD X+
+      ['1001 000d dddd 1110', (cpu, op) => cpu.load(rd(op), cpu.indirect(X, 2))], // LD -X
+      ['1001 000d dddd 1111', (cpu, op) => { // POP
+        cpu.data[rd(op)] = cpu.pop();
+        next(cpu, 2);
+      }],
+      ['1001 001r rrrr 0000', (cpu, op) => { // STS
+        cpu.writeData(cpu.program[cpu.pc + 1], cpu.data[rd(op)]);
+        cpu.pc += 2;
+        cpu.cycles += 2;
+      }],
+      ['1001 001r rrrr 0001', (cpu, op) => cpu.store(cpu.indirect(ZP, 1), rd(op))], // ST Z+
+      ['1001 001r rrrr 0010', (cpu, op) => cpu.store(cpu.indirect(ZP, 2), rd(op))], // ST -Z
+      ['1001 001r rrrr 1001', (cpu, op) => cpu.store(cpu.indirect(Y, 1), rd(op))], // ST Y+
+      ['1001 001r rrrr 1010', (cpu, op) => cpu.store(cpu.indirect(Y, 2), rd(op))], // ST -Y
+      ['1001 001r rrrr 1100', (cpu, op) => cpu.store(cpu.indirect(X, 0), rd(op))], // ST X
+      ['1001 001r rrrr 1101', (cpu, op) => cpu.store(cpu.indirect(X, 1), rd(op))], // ST X+
+      ['1001 001r rrrr 1110', (cpu, op) => cpu.store(cpu.indirect(X, 2), rd(op))], // ST -X
+      ['1001 001r rrrr 1111', (cpu, op) => { // PUSH
+        cpu.push(cpu.data[rd(op)]);
+        next(cpu, 2);
+      }],
+      ['1001 0100 0000 1001', cpu => { // IJMP
+        cpu.pc = cpu.word(ZP) % cpu.program.length;
+        cpu.cycles += 2;
+      }],
+      ['1001 0101 0000 1001', cpu => { // ICALL
+        cpu.pushPc(cpu.pc + 1);
+        cpu.pc = cpu.word(ZP) % cpu.program.length;
+        cpu.cycles += 3;
+      }],
+      ['1001 0100 0sss 1000', (cpu, op) => { // BSET
+        cpu.data[SREG] |= 1 << ((op >> 4) & 7);
+        if (op === 0x9478) cpu.interruptDelay = true;
+        next(cpu);
+      }],
+      ['1001 0100 1sss 1000', (cpu, op) => { // BCLR
+        cpu.data[SREG] &= ~(1 << ((op >> 4) & 7));
+        next(cpu);
+      }],
+      ['1001 0101 0000 1000', cpu => { // RET
+        cpu.pc = cpu.popPc();
+        cpu.cycles += 4;
+      }],
+      ['1001 0101 0001 1000', cpu => { // RETI
+        cpu.pc = cpu.popPc();
+        cpu.data[SREG] |= I;
+        cpu.interruptDelay = true;
+        cpu.cycles += 4;
+      }],
+      ['1001 0101 1000 1000', cpu => { // SLEEP
+        if (cpu.data[SMCR] & 1) cpu.sleeping = true;
+        next(cpu);
+      }],
+      ['1001 0101 1001 1000', cpu => next(cpu)], // BREAK, for on-chip debuggers only
+      ['1001 0101 1010 1000', cpu => next(cpu)], // WDR
+      ['1001 0101 1100 1000', cpu => { // LPM
+        cpu.data[0] = cpu.programByte(cpu.word(ZP));
+        next(cpu, 3);
+      }],
+      // Only a bootloader section may write flash, so SPM does nothing here
+      ['1001 0101 1110 1000', cpu => next(cpu)],
+      ['1001 010d dddd 0000', (cpu, op) => { // COM
+        cpu.logic(rd(op), ~cpu.data[rd(op)] & 0xff);
+        cpu.data[SREG] |= C;
+        next(cpu);
+      }],
+      ['1001 010d dddd 0001', (cpu, op) => { // NEG
+        const value = cpu.data[rd(op)];
+        const result = -value & 0xff;
+        cpu.data[rd(op)] = result;
+        let flags = (cpu.data[SREG] & 0xc0) | resultFlags(result);
+        if ((result | value) & 0x08) flags |= H;
+        if (result !== 0) flags |= C;
+        if (result === 0x80) flags |= V;
+        cpu.data[SREG] = withSign(flags);
+        next(cpu);
+      }],
+      ['1001 010d dddd 0010', (cpu, op) => { // SWAP
+        const value = cpu.data[rd(op)];
+        cpu.data[rd(op)] = ((value << 4) | (value >> 4)) & 0xff;
+        next(cpu);
+      }],
+      ['1001 010d dddd 0011', (cpu, op) => { // INC
+        const result = (cpu.data[rd(op)] + 1) & 0xff;
+        cpu.data[rd(op)] = result;
+        cpu.data[SREG] = withSign((cpu.data[SREG] & 0xe1) | resultFlags(result) | (result === 0x80 ? V : 0));
+        next(cpu);
+      }],
+      ['1001 010d dddd 0101', (cpu, op) => { // ASR
+        const value = cpu.data[rd(op)];
+        cpu.shiftRight(rd(op), (value >> 1) | (value & 0x80));
+        next(cpu);
+      }],
+      ['1001 010d dddd 0110', (cpu, op) => { // LSR
+        cpu.shiftRight(rd(op), cpu.data[rd(op)] >> 1);
+        next(cpu);
+      }],
+      ['1001 010d dddd 0111', (cpu, op) => { // ROR
+        cpu.shiftRight(rd(op), (cpu.data[rd(op)] >> 1) | ((cpu.data[SREG] & C) << 7));
+        next(cpu);
+      }],
+      ['1001 010d dddd 1010', (cpu, op) => { // DEC
+        const result = (cpu.data[rd(op)] - 1) & 0xff;
+        cpu.data[rd(op)] = result;
+        cpu.data[SREG] = withSign((cpu.data[SREG] & 0xe1) | resultFlags(result) | (result === 0x7f ? V : 0));
+        next(cpu);
+      }],
+      ['1001 010k kkkk 110k', (cpu, op) => { // JMP
+        cpu.pc = absolute(cpu, op) % cpu.program.length;
+        cpu.cycles += 3;
+      }],
+      ['1001 010k kkkk 111k', (cpu, op) => { // CALL
+        cpu.pushPc(cpu.pc + 2);
+        cpu.pc = absolute(cpu, op) % cpu.program.length;
+        cpu.cycles += 4;
+      }],
+      ['1001 0110 KKdd KKKK', (cpu, op) => { // ADIW
+        const d = 24 + ((op >> 3) & 6);
+        const value = cpu.word(d);
+        const sum = value + ((op & 0xf) | ((op >> 2) & 0x30));
+        const result = sum & 0xffff;
+        cpu.setWord(d, result);
+        let flags = (cpu.data[SREG] & 0xe0) | (result === 0 ? Z : 0) | (result & 0x8000 ? N : 0);
+        if (sum > 0xffff) flags |= C;
+        if (~value & result & 0x8000) flags |= V;
+        cpu.data[SREG] = withSign(flags);
+        next(cpu, 2);
+      }],
+      ['1001 0111 KKdd KKKK', (cpu, op) => { // SBIW
+        const d = 24 + ((op >> 3) & 6);
+        const value = cpu.word(d);
+        const difference = value - ((op & 0xf) | ((op >> 2) & 0x30));
+        const result = difference & 0xffff;
+        cpu.setWord(d, result);
+        let flags = (cpu.data[SREG] & 0xe0) | (result === 0 ? Z : 0) | (result & 0x8000 ? N : 0);
+        if (difference < 0) flags |= C;
+        if (value & ~result & 0x8000) flags |= V;
+        cpu.data[SREG] = withSign(flags);
+        next(cpu, 2);
+      }],
+      ['1001 1000 AAAA Abbb', (cpu, op) => { // CBI
+        const bit = 1 << (op & 7);
+        cpu.writeData(ioBit(op), cpu.readData(ioBit(op)) & ~bit, bit);
+        next(cpu, 2);
+      }],
+      ['1001 1001 AAAA Abbb', (cpu, op) => skipIf(cpu, !(cpu.readData(ioBit(op)) & (1 << (op & 7))))], // SBIC
+      ['1001 1010 AAAA Abbb', (cpu, op) => { // SBI
+        const bit = 1 << (op & 7);
+        cpu.writeData(ioBit(op), cpu.readData(ioBit(op)) | bit, bit);
+        next(cpu, 2);
+      }],
+      ['1001 1011 AAAA Abbb', (cpu, op) => skipIf(cpu, !!(cpu.readData(ioBit(op)) & (1 << (op & 7))))], // SBIS
+      ['1001 11rd dddd rrrr', (cpu, op) => cpu.multiply(cpu.data[rd(op)] * cpu.data[rr(op)], false)], // MUL
+      ['1011 0AAd dddd AAAA', (cpu, op) => { // IN
+        cpu.data[rd(op)] = cpu.readData(0x20 + ((op & 0xf) | ((op >> 5) & 0x30)));
+        next(cpu);
+      }],
+      ['1011 1AAr rrrr AAAA', (cpu, op) => { // OUT
+        cpu.writeData(0x20 + ((op & 0xf) | ((op >> 5) & 0x30)), cpu.data[rd(op)]);
+        next(cpu);
+      }],
+      ['1100 kkkk kkkk kkkk', (cpu, op) => { // RJMP
+        cpu.pc = (cpu.pc + 1 + ((op << 20) >> 20) + cpu.program.length) % cpu.program.length;
+        cpu.cycles += 2;
+      }],
+      ['1101 kkkk kkkk kkkk', (cpu, op) => { // RCALL
+        cpu.pushPc(cpu.pc + 1);
+        cpu.pc = (cpu.pc + 1 + ((op << 20) >> 20) + cpu.program.length) % cpu.program.length;
+        cpu.cycles += 3;
+      }],
+      ['1110 KKKK dddd KKKK', (cpu, op) => { // LDI
+        cpu.data[rdHigh(op)] = imm8(op);
+        next(cpu);
+      }],
+      ['1111 00kk kkkk ksss', (cpu, op) => branch(cpu, op, !!(cpu.data[SREG] & (1 << (op & 7))))], // BRBS
+      ['1111 01kk kkkk ksss', (cpu, op) => branch(cpu, op, !(cpu.data[SREG] & (1 << (op & 7))))], // BRBC
+      ['1111 100d dddd 0bbb', (cpu, op) => { // BLD
+        const bit = 1 << (op & 7);
+        cpu.data[rd(op)] = cpu.data[SREG] & 0x40 ? cpu.data[rd(op)] | bit : cpu.data[rd(op)] & ~bit;
+        next(cpu);
+      }],
+      ['1111 101d dddd 0bbb', (cpu, op) => { // BST
+        cpu.data[SREG] = cpu.data[rd(op)] & (1 << (op & 7)) ? cpu.data[SREG] | 0x40 : cpu.data[SREG] & ~0x40;
+        next(cpu);
+      }],
+      ['1111 110r rrrr 0bbb', (cpu, op) => skipIf(cpu, !(cpu.data[rd(op)] & (1 << (op & 7))))], // SBRC
+      ['1111 111r rrrr 0bbb', (cpu, op) => skipIf(cpu, !!(cpu.data[rd(op)] & (1 << (op & 7))))] // SBRS
+    ];
+
+    const table: Handler[] = new Array(0x10000).fill((cpu: AvrCpu, op: number) => cpu.illegal(op));
+    [...instructions].reverse().forEach(([pattern, handler]) => {
+      const bits = pattern.replace(/ /g, '');
+      const mask = parseInt(bits.replace(/[01]/g, '1').replace(/[^1]/g, '0'), 2);
+      const value = parseInt(bits.replace(/[^1]/g, '0'), 2);
+      for (let op = 0; op < 0x10000; op++) {
+        if ((op & mask) === value) table[op] = handler;
+      }
+    });
+    return table;
+  }
+}
@@ -0,0 +1,264 @@
+export type BoardArchitecture = 'avr' | 'esp32' | 'esp8266';
+
+export type BusName = 'SPI' | 'Wire';
+
+export interface BoardProfile {
+  id: string;
+  name: string;
+  // Fully qualified board name understood by arduino-cli
+  fqbn: string;
+  mcu: string;
+  architecture: BoardArchitecture;
+  clockHz: number;
+  // Program storage available to the sketch (bootloader already subtracted)
+  flashBytes: number;
+  sramBytes: number;
+  eepromBytes: number;
+  // What an empty setup()/loop() sketch costs with this board's core
+  baseFlashBytes: number;
+  baseSramBytes: number;
+  // Sizes of the C types that differ between 8-bit AVR and 32-bit Xtensa
+  intSize: number;
+  doubleSize: number;
+  pointerSize: number;
+  // Every pin number accepted by pinMode/digitalRead/digitalWrite
+  digitalPins: number[];
+  // Pin aliases such as A0 mapped to the pin number they stand for
+  analogPins: Record<string, number>;
+  // Pins wired to the ADC and usable with analogRead()
+  adcPins: number[];
+  pwmPins: number[];
+  // Pins that can only be read, never driven
+  inputOnlyPins: number[];
+  // Pins that can trigger attachInterrupt(); on AVR in interrupt-number order,
+  // so attachInterrupt(0, ...) means the first of them
+  interruptPins: number[];
+  // Hardware UARTs by their Arduino object name, as [rx, tx]
+  serialPins: Record<string, [number, number]>;
+  // Hardware timers with the PWM pins each one drives
+  timers: Record<string, number[]>;
+  // The timer a library or core function reprograms, e.g. Servo -> timer1
+  timerUsers: Record<string, string>;
+  // SPI and I2C signals by name; SS is left out because it stays a free output in master mode
+  busPins: Record<BusName, Record<string, number>>;
+  // Pins with a pin change interrupt, which SoftwareSerial needs on its RX pin
+  pinChangePins: number[];
+  builtinLed: number;
+  uploadBaud: number;
+  // Macros the board package defines on the compiler command line, e.g. ARDUINO_AVR_UNO
+  macros: Record<string, string>;
+}
+
+const range = (from: number, to: number): number[] => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const analogAliases = (first: number, count: number): Record<string, number> =>
+  Object.fromEntries(range(0, count - 1).map(i => [`A${i}`, first + i]));
+
+const ATMEGA328P = {
+  mcu: 'ATmega328P',
+  architecture: 'avr' as const,
+  clockHz: 16_000_000,
+  sramBytes: 2048,
+  eepromBytes: 1024,
+  baseFlashBytes: 444,
+  baseSramBytes: 9,
+  intSize: 2,
+  doubleSize: 4,
+  pointerSize: 2,
+  digitalPins: range(0, 19),
+  pwmPins: [3, 5, 6, 9, 10, 11],
+  inputOnlyPins: [],
+  interruptPins: [2, 3],
+  serialPins: { Serial: [0, 1] as [number, number] },
+  timers: { timer0: [5, 6], timer1: [9, 10], timer2: [3, 11] },
+  timerUsers: { Servo: 'timer1', 'tone()': 'timer2' },
+  busPins: { SPI: { MOSI: 11, MISO: 12, SCK: 13 }, Wire: { SDA: 18, SCL: 19 } },
+  builtinLed: 13,
+  uploadBaud: 115200
+};
+
+// ESP32 DevKit: GPIO 6-11 are wired to the SPI flash and 20, 24 and 28-31 do not exist
+const ESP32_GPIO = [...range(0, 5), ...range(12, 19), ...range(21, 23), ...range(25, 27), ...range(32, 39)];
+const ESP32_INPUT_ONLY = range(34, 39);
+
+export const BOARDS: BoardProfile[] = [
+  {
+    ...ATMEGA328P,
+    id: 'uno',
+    name: 'Arduino Uno',
+    fqbn: 'arduino:avr:uno',
+    flashBytes: 32256,
+    analogPins: analogAliases(14, 6),
+    adcPins: range(14, 19),
+    pinChangePins: range(0, 19),
+    macros: { ARDUINO_AVR_UNO: '1', __AVR_ATmega328P__: '1' }
+  },
+  {
+    ...ATMEGA328P,
+    id: 'nano',
+    name: 'Arduino Nano',
+    fqbn: 'arduino:avr:nano',
+    flashBytes: 30720,
+    // A6 and A7 are analog-only inputs with no digital function
+    analogPins: analogAliases(14, 8),
+    adcPins: range(14, 21),
+    inputOnlyPins: [20, 21],
+    pinChangePins: range(0, 19),
+    macros: { ARDUINO_AVR_NANO: '1', __AVR_ATmega328P__: '1' }
+  },
+  {
+    id: 'mega2560',
+    name: 'Arduino Mega 2560',
+    fqbn: 'arduino:avr:mega:cpu=atmega2560',
+    mcu: 'ATmega2560',
+    architecture: 'avr',
+    clockHz: 16_000_000,
+    flashBytes: 253952,
+    sramBytes: 8192,
+    eepromBytes: 4096,
+    baseFlashBytes: 662,
+    baseSramBytes: 9,
+    intSize: 2,
+    doubleSize: 4,
+    pointerSize: 2,
+    digitalPins: range(0, 69),
+    analogPins: analogAliases(54, 16),
+    adcPins: range(54, 69),
+    pwmPins: [...range(2, 13), 44, 45, 46],
+    inputOnlyPins: [],
+    interruptPins: [2, 3, 21, 20, 19, 18],
+    serialPins: { Serial: [0, 1], Serial1: [19, 18], Serial2: [17, 16], Serial3: [15, 14] },
+    timers: { timer0: [4, 13], timer1: [11, 12], timer2: [9, 10], timer3: [2, 3, 5], timer4: [6, 7, 8], timer5: [44, 45, 46] },
+    // Servo starts with timer5 so the common PWM pins keep working
+    timerUsers: { Servo: 'timer5', 'tone()': 'timer2' },
+    busPins: { SPI: { MOSI: 51, MISO: 50, SCK: 52 }, Wire: { SDA: 20, SCL: 21 } },
+    pinChangePins: [...range(10, 15), ...range(50, 53), ...range(62, 69)],
+    builtinLed: 13,
+    uploadBaud: 115200,
+    macros: { ARDUINO_AVR_MEGA2560: '1', __AVR_ATmega2560__: '1' }
+  },
+  {
+    id: 'leonardo',
+    name: 'Arduino Leonardo',
+    fqbn: 'arduino:avr:leonardo',
+    mcu: 'ATmega32U4',
+    architecture: 'avr',
+    clockHz: 16_000_000,
+    flashBytes: 28672,
+    sramBytes: 2560,
+    eepromBytes: 1024,
+    // The USB stack is always linked in
+    baseFlashBytes: 3962,
+    baseSramBytes: 149,
+    intSize: 2,
+    doubleSize: 4,
+    pointerSize: 2,
+    digitalPins: range(0, 29),
+    // A6-A11 share pins with D4, D6, D8, D9, D10 and D12
+    analogPins: { ...analogAliases(18, 6), A6: 24, A7: 25, A8: 26, A9: 27, A10: 28, A11: 29 },
+    adcPins: range(18, 29),
+    pwmPins: [3, 5, 6, 9, 10, 11, 13],
+    inputOnlyPins: [],
+    interruptPins: [3, 2, 0, 1, 7],
+    // Serial is the USB port; the hardware UART on pins 0/1 is Serial1
+    serialPins: { Serial1: [0, 1] },
+    timers: { timer0: [3, 11], timer1: [9, 10], timer3: [5], timer4: [6, 13] },
+    timerUsers: { Servo: 'timer1', 'tone()': 'timer3' },
+    // SPI is only on the ICSP header
+    busPins: { SPI: { MOSI: 16, MISO: 14, SCK: 15 }, Wire: { SDA: 2, SCL: 3 } },
+    pinChangePins: [8, 9, 10, 11, 14, 15, 16],
+    builtinLed: 13,
+    uploadBaud: 57600,
+    macros: { ARDUINO_AVR_LEONARDO: '1', __AVR_ATmega32U4__: '1', USBCON: '1' }
+  },
+  {
+    id: 'esp32',
+    name: 'ESP32 Dev Module',
+    fqbn: 'esp32:esp32:esp32',
+    mcu: 'ESP32',
+    architecture: 'esp32',
+    clockHz: 240_000_000,
+    flashBytes: 1310720,
+    sramBytes: 327680,
+    eepromBytes: 4096,
+    baseFlashBytes: 211_000,
+    baseSramBytes: 13_000,
+    intSize: 4,
+    doubleSize: 8,
+    pointerSize: 4,
+    digitalPins: ESP32_GPIO,
+    analogPins: {
+      A0: 36, A3: 39, A4: 32, A5: 33, A6: 34, A7: 35, A10: 4, A11: 0, A12: 2, A13: 15,
+      A14: 13, A15: 12, A16: 14, A17: 27, A18: 25, A19: 26
+    },
+    adcPins: [0, 2, 4, 12, 13, 14, 15, 25, 26, 27, ...range(32, 39)],
+    // LEDC can drive any output-capable GPIO
+    pwmPins: ESP32_GPIO.filter(pin => !ESP32_INPUT_ONLY.includes(pin)),
+    inputOnlyPins: ESP32_INPUT_ONLY,
+    interruptPins: ESP32_GPIO,
+    serialPins: { Serial: [3, 1], Serial2: [16, 17] },
+    // Servo and tone() use LEDC channels, which are not tied to pins
+    timers: {},
+    timerUsers: {},
+    busPins: { SPI: { MOSI: 23, MISO: 19, SCK: 18 }, Wire: { SDA: 21, SCL: 22 } },
+    pinChangePins: [],
+    builtinLed: 2,
+    uploadBaud: 921600,
+    macros: { ARDUINO_ESP32_DEV: '1', ESP32: '1' }
+  },
+  {
+    id: 'esp8266',
+    name: 'ESP8266 (NodeMCU 1.0)',
+    fqbn: 'esp8266:esp8266:nodemcuv2',
+    mcu: 'ESP8266',
+    architecture: 'esp8266',
+    clockHz: 80_000_000,
+    flashBytes: 1044464,
+    sramBytes: 81920,
+    eepromBytes: 4096,
+    baseFlashBytes: 264_000,
+    baseSramBytes: 27_000,
+    intSize: 4,
+    doubleSize: 8,
+    pointerSize: 4,
+    digitalPins: [...range(0, 5), ...range(12, 16)],
+    analogPins: { A0: 17 },
+    adcPins: [17],
+    // Software PWM works on every GPIO except 16
+    pwmPins: [...range(0, 5), ...range(12, 15)],
+    inputOnlyPins: [17],
+    // GPIO16 has no interrupt support
+    interruptPins: [...range(0, 5), ...range(12, 15)],
+    serialPins: { Serial: [3, 1] },
+    // PWM is done in software, so no pin loses it to a library
+    timers: {},
+    timerUsers: {},
+    busPins: { SPI: { MOSI: 13, MISO: 12, SCK: 14 }, Wire: { SDA: 4, SCL: 5 } },
+    pinChangePins: [],
+    builtinLed: 2,
+    uploadBaud: 115200,
+    macros: { ARDUINO_ESP8266_NODEMCU_ESP12E: '1', ESP8266: '1' }
+  }
+];
+
+export const DEFAULT_BOARD_ID = 'uno';
+
+export function getBoard(id: string | undefined): BoardProfile {
+  return BOARDS.find(board => board.id === id) ?? BOARDS.find(board => board.id === DEFAULT_BOARD_ID)!;
+}
+
+// Resolves `13`, `A0` or a board alias like `LED_BUILTIN` to a pin number
+export function resolvePin(board: BoardProfile, name: string): number | null {
+  if (/^\d+$/.test(name)) return parseInt(name, 10);
+  if (name in board.analogPins) return board.analogPins[name];
+  if (name === 'LED_BUILTIN') return board.builtinLed;
+  return null;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : bytes >= 1024
+      ? `${(bytes / 1024).toFixed(1)} KB`
+      : `${bytes} bytes`;
+}
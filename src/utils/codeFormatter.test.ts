@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CodeFormatter, DEFAULT_FORMAT_CONFIG } from './codeFormatter';
+
+const format = (code: string) => CodeFormatter.format(code);
+
+describe('CodeFormatter', () => {
+  it('puts statements on their own lines and indents blocks', () => {
+    expect(format('void loop(){if(x>1){y=2;z++;}}\n')).toBe('void loop() {\n  if (x > 1) {\n    y = 2;\n    z++;\n  }\n}\n');
+  });
+
+  it('moves braces to their own line in the next-line style', () => {
+    const config = { ...DEFAULT_FORMAT_CONFIG, braceStyle: 'next-line' as const };
+    expect(CodeFormatter.format('void setup() {\n  go();\n}\n', config)).toBe('void setup()\n{\n  go();\n}\n');
+  });
+
+  it('keeps unary operators, pointers and member access tight', () => {
+    expect(format('int *p = &x;\nint y = -p->v + !f()->next;\n')).toBe('int *p = &x;\nint y = -p->v + !f()->next;\n');
+  });
+
+  it('spaces * and & as operators inside expressions', () => {
+    expect(format('a=b*c;\n')).toBe('a = b * c;\n');
+    expect(format('m=b&c;\n')).toBe('m = b & c;\n');
+    expect(format('x=y/z*w;\n')).toBe('x = y / z * w;\n');
+    expect(format('f(a*b, x&mask);\nreturn n*2;\n')).toBe('f(a * b, x & mask);\nreturn n * 2;\n');
+  });
+
+  it('keeps * and & in declarations as written', () => {
+    const code = 'Servo *s;\nconst String &name = n;\nvoid run(Servo &s, char **argv);\nM::M(Pin* p) {}\nx = (Servo*)p;\n';
+    expect(format(code)).toBe('Servo *s;\nconst String &name = n;\nvoid run(Servo &s, char **argv);\nM::M(Pin* p) {\n}\nx = (Servo*)p;\n');
+    expect(format('class M {\npublic:\n  M(Servo &s);\n};\n')).toBe('class M {\npublic:\n  M(Servo &s);\n};\n');
+  });
+
+  it('spaces a trailing return type like an operator', () => {
+    expect(format('auto f = [](int a)->int{ return a + 1; };\n')).toBe('auto f = [](int a) -> int {\n  return a + 1;\n};\n');
+    expect(format('auto square(int v)->int {\n  return v * v;\n}\n')).toBe('auto square(int v) -> int {\n  return v * v;\n}\n');
+  });
+
+  it('keeps the spacing inside inline braces symmetric', () => {
+    expect(format('attachInterrupt(0, []() {n++;}, RISING);\n')).toBe('attachInterrupt(0, []() { n++; }, RISING);\n');
+    expect(format('on([]() mutable -> int {return 1;});\n')).toBe('on([]() mutable -> int { return 1; });\n');
+    expect(format('int v[] = { 1, 2, };\n')).toBe('int v[] = {1, 2,};\n');
+  });
+
+  it('leaves code with unbalanced brackets alone', () => {
+    expect(format('void setup() {\n')).toBeNull();
+  });
+
+  it('only edits lines inside the requested range', () => {
+    const code = 'int a=1;\nint b=2;\n';
+    expect(CodeFormatter.formatEdits(code, DEFAULT_FORMAT_CONFIG, { startLine: 2, endLine: 2 })).toEqual([
+      { line: 2, column: 1, endLine: 2, endColumn: 9, text: 'int b = 2;' }
+    ]);
+  });
+});
@@ -0,0 +1,560 @@
+import { FormatConfig, TextEdit } from '../types';
+import { CppLexer, Token } from './cppLexer';
+
+export const DEFAULT_FORMAT_CONFIG: FormatConfig = {
+  braceStyle: 'same-line',
+  indentWidth: 2,
+  spaceAfterKeyword: true,
+  spaceAroundOperators: true,
+  spaceAfterComma: true,
+  formatOnSave: false
+};
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch']);
+// Keywords written like a function call, with no space before `(`
+const CALL_LIKE_KEYWORDS = new Set([
+  'sizeof', 'alignof', 'alignas', 'decltype', 'noexcept', 'static_assert', 'operator',
+  'static_cast', 'dynamic_cast', 'reinterpret_cast', 'const_cast'
+]);
+const TYPE_KEYWORDS = new Set(['void', 'bool', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'auto']);
+const VALUE_KEYWORDS = new Set(['this', 'true', 'false', 'nullptr']);
+// Keywords whose `{` opens a body rather than an initializer
+const BODY_KEYWORDS = new Set(['struct', 'class', 'union', 'enum', 'namespace', 'extern']);
+// `) const {`, `try {`
+const BLOCK_OPENERS = new Set(['const', 'override', 'final', 'noexcept', 'mutable', 'try']);
+const ACCESS_SPECIFIERS = new Set(['public', 'private', 'protected']);
+const NOT_OPERATORS = new Set(['(', ')', '[', ']', '{', '}', ';', ',', '.', '->', '::', '#', '##', '...', '.*']);
+// `Servo *servo` or `a * b`, `String &s` or `a & b`: where a declaration may
+// stand the spacing as written is kept
+const AMBIGUOUS_OPERATORS = new Set(['*', '&']);
+// Specifiers that may come before the type of a declaration
+const DECL_SPECIFIERS = new Set(['const', 'volatile', 'static', 'extern', 'inline', 'constexpr', 'mutable', 'register', 'struct', 'class', 'enum', 'typename', 'virtual']);
+// `(Servo *)p`, `Vector<int *>`, `char **argv`: what can follow a declarator's `*` with no name
+const ABSTRACT_FOLLOWERS = new Set([')', ',', '>', '>>', '*', '&']);
+const TEMPLATE_CASTS = new Set(['template', 'static_cast', 'dynamic_cast', 'reinterpret_cast', 'const_cast']);
+const TEMPLATE_FOLLOWERS = new Set(['(', ')', '::', '{', ',', '*', '&', '>', '>>', ';', '[']);
+
+type FrameKind = 'paren' | 'bracket' | 'block' | 'list' | 'inline';
+
+interface Frame {
+  // block: statements on their own lines; list: initializers as written; inline: a lambda body inside parentheses
+  kind: FrameKind;
+  owner: 'switch' | 'do' | 'class' | 'enum' | 'type' | null;
+  // The keyword a control header's parentheses belong to, e.g. 'if'
+  keyword: string | null;
+  // Inside a switch once its first case label was seen
+  inCase: boolean;
+  // A `case X: {` block, laid out level with its label
+  caseBlock: boolean;
+}
+
+const isPunct = (token: Token | null, value: string): boolean => token?.kind === 'punctuator' && token.value === value;
+const isWordy = (token: Token): boolean => ['identifier', 'keyword', 'number', 'string', 'char'].includes(token.kind);
+const isLineComment = (token: Token): boolean => token.kind === 'comment' && token.value.startsWith('//');
+const isBrace = (frame: Frame | undefined): boolean => frame !== undefined && frame.kind !== 'paren' && frame.kind !== 'bracket';
+
+// `<` and `>` pairs that enclose template arguments, like `Vector<int>`, so
+// they are not spaced as comparisons
+function findTemplateBrackets(tokens: Token[]): Set<Token> {
+  const brackets = new Set<Token>();
+  tokens.forEach((token, i) => {
+    const before = tokens[i - 1];
+    if (!isPunct(token, '<') || !before) return;
+    if (before.kind !== 'identifier' && !(before.kind === 'keyword' && TEMPLATE_CASTS.has(before.value))) return;
+    let depth = 1;
+    for (let j = i + 1; j < tokens.length; j++) {
+      const inner = tokens[j];
+      if (isPunct(inner, '<')) {
+        depth++;
+      } else if (isPunct(inner, '>') || (isPunct(inner, '>>') && depth <= 2)) {
+        depth -= inner.value.length;
+        if (depth > 0) continue;
+        const after = tokens[j + 1];
+        if (after && (after.kind === 'identifier' || (after.kind === 'punctuator' && TEMPLATE_FOLLOWERS.has(after.value)))) {
+          brackets.add(token).add(inner);
+        }
+        return;
+      } else if (inner.kind !== 'identifier' && inner.kind !== 'keyword' && inner.kind !== 'number' && !['::', ',', '*', '&'].includes(inner.value)) {
+        return;
+      }
+    }
+  });
+  return brackets;
+}
+
+// `->` tokens that begin a trailing return type, as in `[](int a) -> int {` or
+// `auto f() -> int`, and the last token of each such type that a body follows
+function findTrailingReturns(tokens: Token[]): { arrows: Set<Token>; typeEnds: Set<Token> } {
+  const arrows = new Set<Token>();
+  const typeEnds = new Set<Token>();
+  tokens.forEach((token, i) => {
+    if (!isPunct(token, '->')) return;
+    let close = i - 1;
+    while (close >= 0 && tokens[close].kind === 'keyword' && BLOCK_OPENERS.has(tokens[close].value)) close--;
+    if (!isPunct(tokens[close] ?? null, ')')) return;
+    let open = close;
+    for (let depth = 0; open >= 0; open--) {
+      if (isPunct(tokens[open], ')')) depth++;
+      else if (isPunct(tokens[open], '(') && --depth === 0) break;
+    }
+    const before = tokens[open - 1] ?? null;
+    const lambda = isPunct(before, ']');
+    const declaration = before?.kind === 'identifier' && tokens[open - 2]?.kind === 'keyword' && tokens[open - 2].value === 'auto';
+    if (!lambda && !declaration) return;
+    arrows.add(token);
+    const body = tokens.findIndex((t, j) => j > i && (isPunct(t, '{') || isPunct(t, ';') || isPunct(t, '=')));
+    if (body > i + 1 && isPunct(tokens[body], '{')) typeEnds.add(tokens[body - 1]);
+  });
+  return { arrows, typeEnds };
+}
+
+// An output line that starts with the token that also starts original `line`
+interface Anchor {
+  line: number;
+  outputLine: number;
+}
+
+interface Hunk {
+  start: number;
+  deleted: number;
+  inserted: string[];
+}
+
+// Lines up to the last one that is not blank
+function contentLength(lines: string[]): number {
+  let length = lines.length;
+  while (length > 0 && lines[length - 1].trim() === '') length--;
+  return length;
+}
+
+// Replaces original lines [start, start + deleted) with `inserted`
+function hunkEdit(lines: string[], { start, deleted, inserted }: Hunk): TextEdit {
+  const endOf = (line: number) => lines[line - 1].length + 1;
+  if (deleted > 0) {
+    const last = start + deleted;
+    if (inserted.length > 0) return { line: start + 1, column: 1, endLine: last, endColumn: endOf(last), text: inserted.join('\n') };
+    // Whole lines go together with one of their line breaks
+    if (last < lines.length) return { line: start + 1, column: 1, endLine: last + 1, endColumn: 1, text: '' };
+    if (start === 0) return { line: 1, column: 1, endLine: last, endColumn: endOf(last), text: '' };
+    return { line: start, column: endOf(start), endLine: last, endColumn: endOf(last), text: '' };
+  }
+  if (start < lines.length) return { line: start + 1, column: 1, endLine: start + 1, endColumn: 1, text: `${inserted.join('\n')}\n` };
+  const last = lines.length;
+  return { line: last, column: endOf(last), endLine: last, endColumn: endOf(last), text: `\n${inserted.join('\n')}` };
+}
+
+// Lays out sketch code from its tokens: statements on their own lines, braces
+// in the configured style, indentation from nesting and spacing around
+// keywords, operators and commas. Comments, strings and preprocessor lines are
+// kept as written, and so are the user's line breaks inside statements.
+export class CodeFormatter {
+  private readonly lines: string[] = [];
+  private line = '';
+  // Physical lines in `lines`, which may hold multi-line comments
+  private emitted = 0;
+  private readonly anchors: Anchor[] = [];
+  private readonly stack: Frame[] = [];
+  // Brace depths at which a brace-less `if`/`for`/`while`/`else` body is indented
+  private extras: number[] = [];
+  // Significant tokens of the statement written so far; empty at a statement start
+  private statement: Token[] = [];
+  private last: Token | null = null;
+  private lastSignificant: Token | null = null;
+  private pendingBreak = false;
+  // A control header or `else`/`do` that was just written and still needs its body
+  private pendingBody: string | null = null;
+  private closedHeader: string | null = null;
+  private closedBlock: Frame | null = null;
+  private labelPending = false;
+  private afterLabel = false;
+  private doWhile = false;
+  private ternaries = 0;
+  private lastUnary = false;
+  private lastAsWritten = false;
+  private readonly templates: Set<Token>;
+  private readonly trailingReturns: { arrows: Set<Token>; typeEnds: Set<Token> };
+
+  private constructor(private readonly code: string, private readonly tokens: Token[], private readonly config: FormatConfig) {
+    this.templates = findTemplateBrackets(CppLexer.significant(tokens));
+    this.trailingReturns = findTrailingReturns(CppLexer.significant(tokens));
+  }
+
+  // Null when the code does not lex or its brackets do not balance; half-typed
+  // code is left alone rather than laid out around a guess
+  static format(code: string, config: FormatConfig = DEFAULT_FORMAT_CONFIG): string | null {
+    const { tokens, errors } = CppLexer.tokenize(code);
+    if (errors.length > 0) return null;
+    return new CodeFormatter(code, tokens, config).run();
+  }
+
+  // Edits from `code` to its formatted text, one per original line where the
+  // layout allows; with a range, only those that fall entirely inside its lines
+  static formatEdits(code: string, config: FormatConfig = DEFAULT_FORMAT_CONFIG, range?: LineRange): TextEdit[] {
+    const { tokens, errors } = CppLexer.tokenize(code);
+    if (errors.length > 0) return [];
+    const formatter = new CodeFormatter(code, tokens, config);
+    const formatted = formatter.run();
+    if (formatted === null) return [];
+
+    const lines = code.split('\n');
+    const output = formatted.split('\n');
+    const anchors = [{ line: 1, outputLine: 1 }, ...formatter.anchors, { line: lines.length + 1, outputLine: output.length + 1 }];
+    const hunks: Hunk[] = [];
+    anchors.slice(0, -1).forEach((anchor, i) => {
+      const before = lines.slice(anchor.line - 1, anchors[i + 1].line - 1);
+      const after = output.slice(anchor.outputLine - 1, anchors[i + 1].outputLine - 1);
+      // Blank lines after the code are a hunk of their own so ranges can leave them out
+      const [beforeCode, afterCode] = [contentLength(before), contentLength(after)];
+      hunks.push({ start: anchor.line - 1, deleted: beforeCode, inserted: after.slice(0, afterCode) });
+      hunks.push({ start: anchor.line - 1 + beforeCode, deleted: before.length - beforeCode, inserted: after.slice(afterCode) });
+    });
+
+    return hunks
+      .filter(hunk => hunk.deleted > 0 || hunk.inserted.length > 0)
+      .filter(hunk => hunk.deleted !== hunk.inserted.length || hunk.inserted.some((line, i) => line !== lines[hunk.start + i]))
+      .filter(hunk => {
+        if (!range) return true;
+        if (hunk.deleted > 0) return hunk.start + 1 >= range.startLine && hunk.start + hunk.deleted <= range.endLine;
+        return hunk.start >= range.startLine && hunk.start + 1 <= range.endLine;
+      })
+      .map(hunk => hunkEdit(lines, hunk));
+  }
+
+  private run(): string | null {
+    const tokens = this.tokens.filter(token => token.kind !== 'eof');
+    for (let i = 0; i < tokens.length; i++) {
+      if (!this.place(tokens[i], tokens.slice(i + 1).find(t => t.kind !== 'comment') ?? null)) return null;
+    }
+    if (this.stack.length > 0) return null;
+    this.newline(false);
+    while (this.lines.length > 0 && this.lines[this.lines.length - 1] === '') this.lines.pop();
+    return this.lines.join('\n') + (this.code.endsWith('\n') ? '\n' : '');
+  }
+
+  private depth(): number {
+    return this.stack.filter(isBrace).length;
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private newline(blank: boolean): void {
+    if (this.line !== '') {
+      this.lines.push(this.line.trimEnd());
+      this.emitted += this.line.split('\n').length;
+    }
+    this.line = '';
+    if (blank && this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') {
+      this.lines.push('');
+      this.emitted++;
+    }
+  }
+
+  private classifyBrace(): Pick<Frame, 'kind' | 'owner'> {
+    const top = this.top();
+    const prev = this.lastSignificant;
+    const afterReturnType = prev !== null && this.trailingReturns.typeEnds.has(prev);
+    const afterParams = isPunct(prev, ')') || isPunct(prev, ']') || afterReturnType;
+
+    if (top && !isBrace(top)) return { kind: afterParams ? 'inline' : 'list', owner: null };
+    if (top && top.kind !== 'block') {
+      return { kind: afterParams || prev?.value === 'else' || prev?.value === 'do' ? 'inline' : 'list', owner: null };
+    }
+    if (isPunct(prev, ')') || afterReturnType) return { kind: 'block', owner: this.closedHeader === 'switch' ? 'switch' : null };
+    if (!prev || this.statement.length === 0) return { kind: 'block', owner: prev?.value === 'do' ? 'do' : null };
+    if (prev.kind === 'keyword' && BLOCK_OPENERS.has(prev.value)) return { kind: 'block', owner: null };
+    const keyword = this.statement.find(token => token.kind === 'keyword' && BODY_KEYWORDS.has(token.value));
+    if (keyword && !this.statement.some(token => isPunct(token, '='))) {
+      const owner = keyword.value === 'enum' ? 'enum' : keyword.value === 'class' || keyword.value === 'struct' ? 'class' : 'type';
+      return { kind: 'block', owner };
+    }
+    return { kind: 'list', owner: null };
+  }
+
+  private level(token: Token, brace: FrameKind | null, closed: Frame | undefined): number {
+    if (token.kind === 'preprocessor') return 0;
+    const top = this.top();
+    let level = this.extras.length;
+    this.stack.forEach(frame => {
+      if (isBrace(frame)) level += (frame.caseBlock ? 0 : 1) + (frame.inCase ? 1 : 0);
+    });
+    const atStart = this.statement.length === 0;
+    if (atStart && top?.owner === 'switch' && top.inCase && (token.value === 'case' || token.value === 'default')) level--;
+    if (atStart && top?.owner === 'class' && ACCESS_SPECIFIERS.has(token.value)) level--;
+    if (brace === 'block' && this.afterLabel && top?.owner === 'switch') level--;
+    if (closed?.caseBlock) level--;
+    const closesBrace = isBrace(closed);
+    if (!atStart && brace !== 'block' && !closesBrace) level += 2;
+    return Math.max(level, 0);
+  }
+
+  private lineBreak(token: Token, brace: FrameKind | null, closed: Frame | undefined): boolean {
+    const prev = this.last;
+    if (!prev) return false;
+    if (token.kind === 'preprocessor' || prev.kind === 'preprocessor' || isLineComment(prev)) return true;
+    const gap = token.line - prev.endLine;
+    if (token.kind === 'comment' && gap === 0) return false;
+    const sameLineBraces = this.config.braceStyle === 'same-line';
+    if (this.closedBlock && token.kind !== 'comment') {
+      if ([';', ',', ')'].includes(token.value) && token.kind === 'punctuator') return false;
+      if (token.value === 'else') return !sameLineBraces;
+      if (token.value === 'while' && this.doWhile) return false;
+      if (this.closedBlock.owner && ['class', 'enum', 'type'].includes(this.closedBlock.owner) && (token.kind === 'identifier' || isPunct(token, '*'))) {
+        return false;
+      }
+      return true;
+    }
+    if (brace === 'block' && (this.pendingBreak ? this.afterLabel : true)) return !sameLineBraces;
+    if (this.pendingBreak) return true;
+    if (closed?.kind === 'block') return true;
+    return gap > 0;
+  }
+
+  private isUnary(token: Token): boolean {
+    const prev = this.lastSignificant;
+    if (token.value === '!' || token.value === '~') return true;
+    const operand = prev && (prev.kind === 'identifier' || isPunct(prev, ')') || isPunct(prev, ']') || prev.kind === 'number' || this.templates.has(prev));
+    if (token.value === '++' || token.value === '--') return !operand;
+    if (!['-', '+', '*', '&'].includes(token.value)) return false;
+    if (!prev || this.statement.length === 0) return true;
+    if (prev.kind === 'punctuator') return !operand && !isPunct(prev, '}');
+    return prev.kind === 'keyword' && !VALUE_KEYWORDS.has(prev.value);
+  }
+
+  // A `*` or `&` after a name that may be the type of a declaration: at the
+  // start of a statement, in a parameter list or the first clause of a `for`.
+  // Inside an expression, as in `a = b*c` or `f(x & mask)`, it is an operator.
+  private mayDeclare(token: Token, next: Token | null): boolean {
+    const prev = this.lastSignificant;
+    if (!AMBIGUOUS_OPERATORS.has(token.value) || prev === null) return false;
+    if (prev.kind === 'keyword') return !VALUE_KEYWORDS.has(prev.value);
+    if (prev.kind !== 'identifier') return false;
+    if (next?.kind === 'punctuator' && ABSTRACT_FOLLOWERS.has(next.value)) return true;
+
+    const tokens = this.statement;
+    let start = tokens.length - 1;
+    while (isPunct(tokens[start - 1] ?? null, '::') && tokens[start - 2]?.kind === 'identifier') start -= 2;
+    while (tokens[start - 1]?.kind === 'keyword' && DECL_SPECIFIERS.has(tokens[start - 1].value)) start--;
+    if (start === 0) return true;
+    const before = tokens[start - 1];
+    if (!isPunct(before, '(') && !isPunct(before, ',')) return false;
+
+    let open = start - 1;
+    for (let depth = 0; open >= 0; open--) {
+      if (isPunct(tokens[open], ')')) depth++;
+      else if (isPunct(tokens[open], '(') && depth-- === 0) break;
+    }
+    const callee = tokens[open - 1];
+    if (!callee) return false;
+    if (callee.kind === 'keyword') return (callee.value === 'for' || callee.value === 'catch') && open === start - 1;
+    if (callee.kind !== 'identifier') return false;
+    // `void run(Servo &s)`, `Motor::Motor(Pin *p)`; a constructor declared in its class has nothing before its name
+    const owner = tokens[open - 2];
+    if (owner) {
+      if (owner.kind === 'keyword') return TYPE_KEYWORDS.has(owner.value) || DECL_SPECIFIERS.has(owner.value);
+      return owner.kind === 'identifier' || ['*', '&', '::', '~'].includes(owner.value) || this.templates.has(owner);
+    }
+    return [...this.stack].reverse().find(isBrace)?.owner === 'class';
+  }
+
+  private spaceBefore(token: Token, next: Token | null, brace: FrameKind | null, closed: Frame | undefined): boolean {
+    const prev = this.last!;
+    const { config } = this;
+    const value = token.kind === 'punctuator' ? token.value : null;
+    const before = prev.kind === 'punctuator' ? prev.value : null;
+
+    if (token.kind === 'comment') return isLineComment(token) || token.spaceBefore;
+    if (prev.kind === 'comment') return token.spaceBefore;
+    if (before === '(' || before === '[') return false;
+    if (value === ')' || value === ']' || value === ';' || value === ',') return false;
+    // Inside braces the space before `}` mirrors the one after `{`
+    if (value === '}') return closed?.kind === 'inline' && before !== '{';
+    if (before === ',') return config.spaceAfterComma;
+    if (before === ';') return true;
+    if (this.trailingReturns.arrows.has(token) || this.trailingReturns.arrows.has(prev)) return true;
+    if (value === '.' || value === '->' || before === '.' || before === '->' || before === '::') return false;
+    if (value === '::' && (prev.kind === 'identifier' || this.templates.has(prev))) return false;
+
+    if (this.templates.has(token)) return value === '<' && prev.kind === 'keyword' && prev.value === 'template';
+    if (this.templates.has(prev)) return before !== '<' && (isWordy(token) || (AMBIGUOUS_OPERATORS.has(value ?? '') && token.spaceBefore));
+
+    if (value === '{') {
+      if (brace === 'block' || brace === 'inline') return true;
+      if (prev.kind === 'identifier' || before === ']') return false;
+    }
+    if (before === '{') return this.top()?.kind === 'inline' && value !== '}';
+    if (before === '}') return true;
+
+    if (value === '(') {
+      if (prev.kind === 'keyword') {
+        if (CONTROL_KEYWORDS.has(prev.value)) return config.spaceAfterKeyword;
+        return !CALL_LIKE_KEYWORDS.has(prev.value) && !TYPE_KEYWORDS.has(prev.value) && !VALUE_KEYWORDS.has(prev.value);
+      }
+      if (prev.kind === 'identifier' || before === ')' || before === ']') return false;
+    }
+    if (value === '[' && (prev.kind === 'identifier' || prev.kind === 'string' || before === ')' || before === ']')) return false;
+    if (prev.kind === 'keyword' && prev.value === 'operator') return false;
+
+    if (value && !NOT_OPERATORS.has(value)) {
+      if (this.mayDeclare(token, next)) return token.spaceBefore;
+      if (value === ':' && this.labelPending && this.ternaries === 0) return false;
+      if (this.isUnary(token)) {
+        if (before && !NOT_OPERATORS.has(before)) return this.lastAsWritten ? token.spaceBefore : !this.lastUnary && config.spaceAroundOperators;
+        return isWordy(prev) || token.spaceBefore;
+      }
+      if (value === '++' || value === '--') return false;
+      return config.spaceAroundOperators;
+    }
+    if (before && !NOT_OPERATORS.has(before)) {
+      if (this.lastAsWritten) return token.spaceBefore;
+      if (this.lastUnary) return false;
+      if (before === '++' || before === '--') return token.spaceBefore;
+      return config.spaceAroundOperators;
+    }
+    // `if (x) return`, `run() const`; casts like `(byte)value` keep their spacing
+    if (before === ')' && isWordy(token)) return this.closedHeader !== null || token.kind === 'keyword' || token.spaceBefore;
+    if (isWordy(prev) && isWordy(token)) return true;
+    return token.spaceBefore;
+  }
+
+  private place(token: Token, next: Token | null): boolean {
+    const significant = token.kind !== 'comment' && token.kind !== 'preprocessor';
+    const value = token.kind === 'punctuator' ? token.value : null;
+
+    if (significant && this.pendingBody) {
+      const body = this.pendingBody;
+      this.pendingBody = null;
+      if (value !== '{' && !(body === 'else' && token.value === 'if')) this.extras.push(this.depth());
+    }
+
+    let closed: Frame | undefined;
+    if (value === ')' || value === ']' || value === '}') {
+      closed = this.stack.pop();
+      const expected = value === ')' ? closed?.kind === 'paren' : value === ']' ? closed?.kind === 'bracket' : isBrace(closed);
+      if (!expected) return false;
+      this.extras = this.extras.filter(depth => depth <= this.depth());
+    }
+    const brace = value === '{' ? this.classifyBrace() : null;
+
+    if (this.lineBreak(token, brace?.kind ?? null, closed)) {
+      const blank =
+        token.line - this.last!.endLine > 1 && !(isPunct(this.last, '{') && this.top()?.kind === 'block') && closed?.kind !== 'block';
+      this.newline(blank);
+    }
+    if (this.line === '') {
+      if (token.firstOnLine) this.anchors.push({ line: token.line, outputLine: this.emitted + 1 });
+      this.line = ' '.repeat(this.level(token, brace?.kind ?? null, closed) * this.config.indentWidth);
+    } else if (this.spaceBefore(token, next, brace?.kind ?? null, closed)) {
+      this.line += ' ';
+    }
+    const text = this.code.slice(token.offset, token.end);
+    this.line += token.kind === 'preprocessor' ? text.trim() : text;
+    this.last = token;
+
+    if (token.kind === 'preprocessor') {
+      this.pendingBreak = true;
+      return true;
+    }
+    if (token.kind === 'comment') return true;
+
+    const wasAfterLabel = this.afterLabel;
+    this.pendingBreak = false;
+    this.closedBlock = null;
+    this.afterLabel = false;
+    this.lastUnary = false;
+    this.lastAsWritten = false;
+    if (value && !NOT_OPERATORS.has(value)) {
+      this.lastAsWritten = this.mayDeclare(token, next);
+      this.lastUnary = !this.lastAsWritten && this.isUnary(token);
+    }
+    const atStart = this.statement.length === 0;
+    const top = this.top();
+    this.lastSignificant = token;
+    this.closedHeader = null;
+
+    if (value === '(') {
+      const prev = this.statement[this.statement.length - 1];
+      const keyword = prev?.kind === 'keyword' && CONTROL_KEYWORDS.has(prev.value) && !(prev.value === 'while' && this.doWhile) ? prev.value : null;
+      this.stack.push({ kind: 'paren', owner: null, keyword, inCase: false, caseBlock: false });
+      this.statement.push(token);
+    } else if (value === '[') {
+      this.stack.push({ kind: 'bracket', owner: null, keyword: null, inCase: false, caseBlock: false });
+      this.statement.push(token);
+    } else if (value === '{') {
+      const caseBlock = brace!.kind === 'block' && wasAfterLabel && top?.owner === 'switch';
+      this.stack.push({ ...brace!, keyword: null, inCase: false, caseBlock });
+      this.statement = [];
+      this.pendingBreak = brace!.kind === 'block';
+    } else if (value === ')') {
+      this.statement.push(token);
+      if (closed!.keyword) {
+        this.closedHeader = closed!.keyword;
+        this.pendingBody = closed!.keyword;
+        this.statement = [];
+      }
+    } else if (value === '}') {
+      if (closed!.kind === 'block') {
+        this.closedBlock = closed!;
+        this.statement = closed!.owner === 'class' || closed!.owner === 'enum' || closed!.owner === 'type' ? [token] : [];
+        if (closed!.owner === 'do') this.doWhile = true;
+        if (this.statement.length === 0) this.endStatement();
+      } else {
+        this.statement.push(token);
+      }
+    } else if (value === ';') {
+      if (!top || isBrace(top)) {
+        this.statement = [];
+        this.ternaries = 0;
+        this.labelPending = false;
+        this.endStatement();
+        if (!top || top.kind === 'block') this.pendingBreak = true;
+        this.doWhile = false;
+      } else {
+        this.statement.push(token);
+      }
+    } else if (value === ',') {
+      this.statement = isBrace(top) && top?.kind !== 'block' ? [] : [...this.statement, token];
+      if (top?.owner === 'enum') this.statement = [];
+    } else if (value === '?') {
+      this.ternaries++;
+      this.statement.push(token);
+    } else if (value === ':') {
+      if (this.labelPending && this.ternaries === 0) {
+        this.labelPending = false;
+        this.statement = [];
+        this.pendingBreak = true;
+        this.afterLabel = true;
+        if (top?.owner === 'switch') top.inCase = true;
+      } else {
+        if (this.ternaries > 0) this.ternaries--;
+        this.statement.push(token);
+      }
+    } else if (token.kind === 'keyword' && (token.value === 'else' || token.value === 'do') && atStart) {
+      this.pendingBody = token.value;
+    } else {
+      if (atStart && isPunct(next, ':')) {
+        const label =
+          ((token.value === 'case' || token.value === 'default') && top?.owner === 'switch') ||
+          (ACCESS_SPECIFIERS.has(token.value) && top?.owner === 'class') ||
+          (token.kind === 'identifier' && top?.kind === 'block');
+        if (label) this.labelPending = true;
+      } else if (atStart && token.value === 'case' && top?.owner === 'switch') {
+        this.labelPending = true;
+      }
+      this.statement.push(token);
+    }
+    return true;
+  }
+
+  // A statement ended at this depth, so the brace-less bodies it completed end too
+  private endStatement(): void {
+    const depth = this.depth();
+    while (this.extras.length > 0 && this.extras[this.extras.length - 1] >= depth) this.extras.pop();
+  }
+}
@@ -0,0 +1,43 @@
+import { CompilationError, CompilerBackendId, CompilerSettings } from '../types';
+import type { AnalyzeOptions } from './analyzer';
+import { arduinoCliBackend } from './arduinoCliBackend';
+import { builtinBackend } from './arduinoCompiler';
+import type { MemoryEstimate } from './memoryEstimator';
+import type { SourceFile } from './preprocessor';
+
+export interface BuildArtifact {
+  fileName: string;
+  format: 'hex' | 'bin';
+  data: Uint8Array;
+}
+
+export interface CompileOptions extends AnalyzeOptions {
+  daemonUrl?: string;
+}
+
+export interface CompileResult {
+  success: boolean;
+  errors: CompilationError[];
+  // Console text, e.g. the size summary or the failure count
+  output: string;
+  size?: MemoryEstimate;
+  // The firmware image, when the backend actually builds one
+  artifact?: BuildArtifact;
+}
+
+export interface CompilerBackend {
+  id: CompilerBackendId;
+  name: string;
+  description: string;
+  // Verify only needs diagnostics; backends may answer it faster than a full build
+  verify(files: SourceFile[], options: CompileOptions): Promise<CompilationError[]>;
+  compile(files: SourceFile[], options: CompileOptions): Promise<CompileResult>;
+}
+
+export const COMPILER_BACKENDS: CompilerBackend[] = [builtinBackend, arduinoCliBackend];
+
+export const DEFAULT_COMPILER: CompilerSettings = { backend: 'builtin' };
+
+export function getCompilerBackend(id: CompilerBackendId | undefined): CompilerBackend {
+  return COMPILER_BACKENDS.find(backend => backend.id === id) ?? builtinBackend;
+}
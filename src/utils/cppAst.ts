@@ -0,0 +1,432 @@
+// AST for the Arduino C++ subset produced by CppParser. Every node carries the
+// source range it was parsed from so diagnostics can underline exact text.
+
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+interface NodeBase {
+  range: SourceRange;
+}
+
+// ---------------------------------------------------------------- types
+
+export interface TypeSpec extends NodeBase {
+  kind: 'Type';
+  // Normalised base name, e.g. 'unsigned long', 'int', 'String', 'Servo'
+  name: string;
+  qualifiers: string[];
+  templateArgs?: string;
+}
+
+// ---------------------------------------------------------------- declarations
+
+export interface VariableDeclarator extends NodeBase {
+  kind: 'VariableDeclarator';
+  name: string;
+  nameRange: SourceRange;
+  pointer: number;
+  reference: boolean;
+  arrayDims: (Expression | null)[];
+  init: Expression | null;
+  // `Servo motor(9);` style constructor arguments
+  ctorArgs: Expression[] | null;
+}
+
+export interface VariableDeclaration extends NodeBase {
+  kind: 'VariableDeclaration';
+  type: TypeSpec;
+  declarators: VariableDeclarator[];
+  // Attribute macros such as PROGMEM and `__attribute__((...))` specifiers, as written
+  attributes: string[];
+}
+
+export interface Parameter extends NodeBase {
+  kind: 'Parameter';
+  type: TypeSpec;
+  name: string | null;
+  nameRange: SourceRange | null;
+  pointer: number;
+  reference: boolean;
+  arrayDims: (Expression | null)[];
+  defaultValue: Expression | null;
+}
+
+export interface FunctionDeclaration extends NodeBase {
+  kind: 'FunctionDeclaration';
+  // Constructors and ISR(...) blocks have no written return type
+  returnType: TypeSpec | null;
+  returnPointer: number;
+  returnReference: boolean;
+  name: string;
+  nameRange: SourceRange;
+  // Set for out-of-class definitions such as `void Motor::stop()`
+  className: string | null;
+  params: Parameter[];
+  variadic: boolean;
+  body: CompoundStatement | null;
+}
+
+export interface StructDeclaration extends NodeBase {
+  kind: 'StructDeclaration';
+  keyword: 'struct' | 'class' | 'union';
+  name: string | null;
+  bases: string[];
+  members: Declaration[];
+  instances: VariableDeclarator[];
+}
+
+export interface Enumerator extends NodeBase {
+  kind: 'Enumerator';
+  name: string;
+  value: Expression | null;
+}
+
+export interface EnumDeclaration extends NodeBase {
+  kind: 'EnumDeclaration';
+  name: string | null;
+  scoped: boolean;
+  enumerators: Enumerator[];
+  instances: VariableDeclarator[];
+}
+
+export interface TypedefDeclaration extends NodeBase {
+  kind: 'TypedefDeclaration';
+  name: string;
+  type: TypeSpec;
+}
+
+export interface NamespaceDeclaration extends NodeBase {
+  kind: 'NamespaceDeclaration';
+  name: string | null;
+  body: Declaration[];
+}
+
+// `using namespace std;`, `template <...>` headers and other constructs the
+// analyzer has no use for are kept as opaque nodes so ranges stay intact
+export interface OpaqueDeclaration extends NodeBase {
+  kind: 'OpaqueDeclaration';
+  text: string;
+}
+
+export type Declaration =
+  | VariableDeclaration
+  | FunctionDeclaration
+  | StructDeclaration
+  | EnumDeclaration
+  | TypedefDeclaration
+  | NamespaceDeclaration
+  | OpaqueDeclaration;
+
+export interface TranslationUnit extends NodeBase {
+  kind: 'TranslationUnit';
+  body: Declaration[];
+}
+
+// ---------------------------------------------------------------- statements
+
+export interface CompoundStatement extends NodeBase {
+  kind: 'CompoundStatement';
+  body: Statement[];
+}
+
+export interface ExpressionStatement extends NodeBase {
+  kind: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface IfStatement extends NodeBase {
+  kind: 'IfStatement';
+  test: Expression;
+  consequent: Statement;
+  alternate: Statement | null;
+}
+
+export interface ForStatement extends NodeBase {
+  kind: 'ForStatement';
+  init: VariableDeclaration | Expression | null;
+  test: Expression | null;
+  update: Expression | null;
+  body: Statement;
+}
+
+export interface ForRangeStatement extends NodeBase {
+  kind: 'ForRangeStatement';
+  declaration: VariableDeclaration;
+  iterable: Expression;
+  body: Statement;
+}
+
+export interface WhileStatement extends NodeBase {
+  kind: 'WhileStatement';
+  test: Expression;
+  body: Statement;
+}
+
+export interface DoWhileStatement extends NodeBase {
+  kind: 'DoWhileStatement';
+  body: Statement;
+  test: Expression;
+}
+
+export interface SwitchStatement extends NodeBase {
+  kind: 'SwitchStatement';
+  discriminant: Expression;
+  body: Statement;
+}
+
+// `case X:` and `default:` are labels inside the switch body, as in C++
+export interface CaseLabel extends NodeBase {
+  kind: 'CaseLabel';
+  test: Expression | null;
+}
+
+export interface LabelStatement extends NodeBase {
+  kind: 'LabelStatement';
+  label: string;
+}
+
+export interface GotoStatement extends NodeBase {
+  kind: 'GotoStatement';
+  label: string;
+}
+
+export interface BreakStatement extends NodeBase {
+  kind: 'BreakStatement';
+}
+
+export interface ContinueStatement extends NodeBase {
+  kind: 'ContinueStatement';
+}
+
+export interface ReturnStatement extends NodeBase {
+  kind: 'ReturnStatement';
+  argument: Expression | null;
+}
+
+export interface EmptyStatement extends NodeBase {
+  kind: 'EmptyStatement';
+}
+
+export type Statement =
+  | CompoundStatement
+  | ExpressionStatement
+  | IfStatement
+  | ForStatement
+  | ForRangeStatement
+  | WhileStatement
+  | DoWhileStatement
+  | SwitchStatement
+  | CaseLabel
+  | LabelStatement
+  | GotoStatement
+  | BreakStatement
+  | ContinueStatement
+  | ReturnStatement
+  | EmptyStatement
+  | Declaration;
+
+// ---------------------------------------------------------------- expressions
+
+export interface Identifier extends NodeBase {
+  kind: 'Identifier';
+  // Qualified names keep their scope, e.g. 'std::min'
+  name: string;
+}
+
+export interface NumberLiteral extends NodeBase {
+  kind: 'NumberLiteral';
+  raw: string;
+  value: number;
+  isFloat: boolean;
+  isUnsigned: boolean;
+  isLong: boolean;
+}
+
+export interface StringLiteral extends NodeBase {
+  kind: 'StringLiteral';
+  raw: string;
+  value: string;
+}
+
+export interface CharLiteral extends NodeBase {
+  kind: 'CharLiteral';
+  raw: string;
+  value: number;
+}
+
+export interface BooleanLiteral extends NodeBase {
+  kind: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NullLiteral extends NodeBase {
+  kind: 'NullLiteral';
+}
+
+export interface ThisExpression extends NodeBase {
+  kind: 'ThisExpression';
+}
+
+export interface UnaryExpression extends NodeBase {
+  kind: 'UnaryExpression';
+  operator: string;
+  argument: Expression;
+  prefix: boolean;
+}
+
+export interface BinaryExpression extends NodeBase {
+  kind: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface AssignmentExpression extends NodeBase {
+  kind: 'AssignmentExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface ConditionalExpression extends NodeBase {
+  kind: 'ConditionalExpression';
+  test: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface CallExpression extends NodeBase {
+  kind: 'CallExpression';
+  callee: Expression;
+  arguments: Expression[];
+}
+
+export interface MemberExpression extends NodeBase {
+  kind: 'MemberExpression';
+  object: Expression;
+  property: string;
+  propertyRange: SourceRange;
+  arrow: boolean;
+}
+
+export interface IndexExpression extends NodeBase {
+  kind: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+}
+
+export interface CastExpression extends NodeBase {
+  kind: 'CastExpression';
+  type: TypeSpec;
+  pointer: number;
+  argument: Expression;
+}
+
+export interface SizeofExpression extends NodeBase {
+  kind: 'SizeofExpression';
+  argument: Expression | TypeSpec;
+}
+
+export interface InitializerList extends NodeBase {
+  kind: 'InitializerList';
+  elements: Expression[];
+}
+
+export interface NewExpression extends NodeBase {
+  kind: 'NewExpression';
+  type: TypeSpec;
+  arguments: Expression[];
+  arraySize: Expression | null;
+}
+
+export interface DeleteExpression extends NodeBase {
+  kind: 'DeleteExpression';
+  argument: Expression;
+  isArray: boolean;
+}
+
+export interface LambdaExpression extends NodeBase {
+  kind: 'LambdaExpression';
+  params: Parameter[];
+  body: CompoundStatement;
+}
+
+export interface SequenceExpression extends NodeBase {
+  kind: 'SequenceExpression';
+  expressions: Expression[];
+}
+
+export type Expression =
+  | Identifier
+  | NumberLiteral
+  | StringLiteral
+  | CharLiteral
+  | BooleanLiteral
+  | NullLiteral
+  | ThisExpression
+  | UnaryExpression
+  | BinaryExpression
+  | AssignmentExpression
+  | ConditionalExpression
+  | CallExpression
+  | MemberExpression
+  | IndexExpression
+  | CastExpression
+  | SizeofExpression
+  | InitializerList
+  | NewExpression
+  | DeleteExpression
+  | LambdaExpression
+  | SequenceExpression;
+
+export type AstNode =
+  | TranslationUnit
+  | Statement
+  | Expression
+  | TypeSpec
+  | VariableDeclarator
+  | Parameter
+  | Enumerator;
+
+// Visits every child node of `node` in source order
+export function forEachChild(node: AstNode, callback: (child: AstNode) => void): void {
+  for (const key of Object.keys(node)) {
+    if (key === 'range' || key === 'nameRange' || key === 'propertyRange') continue;
+    const value = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        if (isNode(item)) callback(item);
+      }
+    } else if (isNode(value)) {
+      callback(value);
+    }
+  }
+}
+
+// Depth-first walk; returning false from `enter` skips the node's children
+export function walk(node: AstNode, enter: (node: AstNode, parent: AstNode | null) => boolean | void, parent: AstNode | null = null): void {
+  if (enter(node, parent) === false) return;
+  forEachChild(node, child => walk(child, enter, node));
+}
+
+// `delay` for plain calls, `Serial.available` for member calls on a named object
+export function calleeName(call: CallExpression): string | null {
+  const { callee } = call;
+  if (callee.kind === 'Identifier') return callee.name;
+  if (callee.kind === 'MemberExpression' && callee.object.kind === 'Identifier') return `${callee.object.name}.${callee.property}`;
+  return null;
+}
+
+export function containsRange(outer: SourceRange, inner: SourceRange): boolean {
+  const startsAfter = inner.line > outer.line || (inner.line === outer.line && inner.column >= outer.column);
+  const endsBefore = inner.endLine < outer.endLine || (inner.endLine === outer.endLine && inner.endColumn <= outer.endColumn);
+  return startsAfter && endsBefore;
+}
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && typeof (value as { kind?: unknown }).kind === 'string';
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { CppLexer, isValidNumber } from './cppLexer';
+
+const kinds = (source: string) => CppLexer.significant(CppLexer.tokenize(source).tokens).map(t => [t.kind, t.value]);
+
+describe('CppLexer', () => {
+  it('takes the longest punctuator', () => {
+    expect(kinds('a >>= b->c')).toEqual([
+      ['identifier', 'a'], ['punctuator', '>>='], ['identifier', 'b'], ['punctuator', '->'], ['identifier', 'c'], ['eof', '']
+    ]);
+  });
+
+  it('keeps directives, strings and comments whole', () => {
+    const { tokens, errors } = CppLexer.tokenize('#include <Servo.h>\nchar *s = "a // b"; // note\n');
+    expect(errors).toEqual([]);
+    expect(tokens.map(t => t.kind)).toEqual([
+      'preprocessor', 'keyword', 'punctuator', 'identifier', 'punctuator', 'string', 'punctuator', 'comment', 'eof'
+    ]);
+    expect(tokens[5].value).toBe('"a // b"');
+  });
+
+  it('records 1-based positions with an exclusive end column', () => {
+    const [, second] = CppLexer.tokenize('int\n  count;').tokens;
+    expect(second).toMatchObject({ value: 'count', line: 2, column: 3, endLine: 2, endColumn: 8, firstOnLine: true, spaceBefore: true });
+  });
+
+  it('reports unterminated strings', () => {
+    const { errors } = CppLexer.tokenize('Serial.println("hello);\n');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(1);
+  });
+
+  it('validates numeric literals', () => {
+    ['0x1F', '0b1010', '1e3', '3.14f', '100UL', "1'000"].forEach(n => expect(isValidNumber(n), n).toBe(true));
+    ['0x1G', '0b102', '12abc'].forEach(n => expect(isValidNumber(n), n).toBe(false));
+  });
+});
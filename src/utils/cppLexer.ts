@@ -0,0 +1,359 @@
+import { CompilationError } from '../types';
+
+export type TokenKind =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'char'
+  | 'punctuator'
+  | 'preprocessor'
+  | 'comment'
+  | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  // 1-based positions; endColumn is exclusive so ranges map directly onto Monaco
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  offset: number;
+  end: number;
+  // Layout information needed by the preprocessor and the missing-semicolon check
+  firstOnLine: boolean;
+  spaceBefore: boolean;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  errors: CompilationError[];
+}
+
+export const CPP_KEYWORDS = new Set([
+  'alignas', 'alignof', 'asm', 'auto', 'bool', 'break', 'case', 'catch', 'char', 'class',
+  'const', 'const_cast', 'constexpr', 'continue', 'decltype', 'default', 'delete', 'do',
+  'double', 'dynamic_cast', 'else', 'enum', 'explicit', 'extern', 'false', 'float', 'for',
+  'friend', 'goto', 'if', 'inline', 'int', 'long', 'mutable', 'namespace', 'new', 'noexcept',
+  'nullptr', 'operator', 'private', 'protected', 'public', 'register', 'reinterpret_cast',
+  'return', 'short', 'signed', 'sizeof', 'static', 'static_assert', 'static_cast', 'struct',
+  'switch', 'template', 'this', 'throw', 'true', 'try', 'typedef', 'typename', 'union',
+  'unsigned', 'using', 'virtual', 'void', 'volatile', 'while'
+]);
+
+// Ordered longest first so the scanner always takes the maximal munch
+const PUNCTUATORS = [
+  '>>=', '<<=', '...', '->*',
+  '::', '->', '++', '--', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '.*', '##',
+  '{', '}', '[', ']', '(', ')', '<', '>', ';', ':', ',', '.', '?',
+  '+', '-', '*', '/', '%', '&', '|', '^', '!', '~', '=', '#'
+];
+
+const VALID_NUMBER = /^(?:0[xX][0-9a-fA-F']+|0[bB][01']+|\d[\d']*\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)(?:[uU](?:ll?|LL?)?|(?:ll?|LL?)[uU]?|[fFlL])?$/;
+
+export function isValidNumber(value: string): boolean {
+  return VALID_NUMBER.test(value);
+}
+
+const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+export class CppLexer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private atLineStart = true;
+  private sawSpace = false;
+  private readonly tokens: Token[] = [];
+  private readonly errors: CompilationError[] = [];
+
+  private constructor(private readonly source: string) {}
+
+  static tokenize(source: string): LexResult {
+    const lexer = new CppLexer(source);
+    lexer.run();
+    return { tokens: lexer.tokens, errors: lexer.errors };
+  }
+
+  // Convenience for callers that only care about code: comments are dropped
+  static significant(tokens: Token[]): Token[] {
+    return tokens.filter(t => t.kind !== 'comment');
+  }
+
+  private peek(ahead = 0): string {
+    return this.source[this.pos + ahead] ?? '';
+  }
+
+  private advance(): string {
+    const ch = this.source[this.pos++];
+    if (ch === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return ch;
+  }
+
+  private run(): void {
+    while (this.pos < this.source.length) {
+      const ch = this.peek();
+
+      if (ch === '\n') {
+        this.advance();
+        this.atLineStart = true;
+        this.sawSpace = true;
+        continue;
+      }
+
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f' || ch === '\v') {
+        this.advance();
+        this.sawSpace = true;
+        continue;
+      }
+
+      // Line continuation outside of a directive is just whitespace
+      if (ch === '\\' && (this.peek(1) === '\n' || (this.peek(1) === '\r' && this.peek(2) === '\n'))) {
+        this.advance();
+        if (this.peek() === '\r') this.advance();
+        this.advance();
+        this.sawSpace = true;
+        continue;
+      }
+
+      const startPos = this.pos;
+      const startLine = this.line;
+      const startColumn = this.column;
+
+      if (ch === '/' && this.peek(1) === '/') {
+        this.scanLineComment();
+        this.push('comment', startPos, startLine, startColumn);
+        continue;
+      }
+
+      if (ch === '/' && this.peek(1) === '*') {
+        if (!this.scanBlockComment()) {
+          this.error(startLine, startColumn, 'Unterminated block comment: missing `*/`');
+        }
+        this.push('comment', startPos, startLine, startColumn);
+        continue;
+      }
+
+      if (ch === '#' && this.atLineStart) {
+        this.scanDirective();
+        this.push('preprocessor', startPos, startLine, startColumn);
+        continue;
+      }
+
+      if (this.startsRawString()) {
+        if (!this.scanRawString()) {
+          this.error(startLine, startColumn, 'Unterminated raw string literal');
+        }
+        this.push('string', startPos, startLine, startColumn);
+        continue;
+      }
+
+      const prefixLength = this.stringPrefixLength();
+      if (prefixLength >= 0) {
+        for (let i = 0; i < prefixLength; i++) this.advance();
+        const quote = this.peek();
+        if (!this.scanQuoted(quote)) {
+          this.error(
+            startLine,
+            startColumn,
+            quote === '"' ? 'Unterminated string literal: missing closing `"`' : "Unterminated character literal: missing closing `'`"
+          );
+        }
+        this.push(quote === '"' ? 'string' : 'char', startPos, startLine, startColumn);
+        continue;
+      }
+
+      if (isDigit(ch) || (ch === '.' && isDigit(this.peek(1)))) {
+        this.scanNumber(startPos);
+        this.push('number', startPos, startLine, startColumn);
+        continue;
+      }
+
+      if (isIdentStart(ch)) {
+        while (isIdentPart(this.peek())) this.advance();
+        const word = this.source.slice(startPos, this.pos);
+        this.push(CPP_KEYWORDS.has(word) ? 'keyword' : 'identifier', startPos, startLine, startColumn);
+        continue;
+      }
+
+      const punctuator = PUNCTUATORS.find(p => this.source.startsWith(p, this.pos));
+      if (punctuator) {
+        for (let i = 0; i < punctuator.length; i++) this.advance();
+        this.push('punctuator', startPos, startLine, startColumn);
+        continue;
+      }
+
+      this.advance();
+      this.error(startLine, startColumn, `Stray '${ch}' in program`);
+      this.sawSpace = true;
+    }
+
+    this.tokens.push({
+      kind: 'eof',
+      value: '',
+      line: this.line,
+      column: this.column,
+      endLine: this.line,
+      endColumn: this.column,
+      offset: this.pos,
+      end: this.pos,
+      firstOnLine: this.atLineStart,
+      spaceBefore: this.sawSpace
+    });
+  }
+
+  private push(kind: TokenKind, startPos: number, line: number, column: number): void {
+    this.tokens.push({
+      kind,
+      value: this.source.slice(startPos, this.pos),
+      line,
+      column,
+      endLine: this.line,
+      endColumn: this.column,
+      offset: startPos,
+      end: this.pos,
+      firstOnLine: this.atLineStart,
+      spaceBefore: this.sawSpace
+    });
+    this.atLineStart = false;
+    this.sawSpace = false;
+  }
+
+  private error(line: number, column: number, message: string): void {
+    this.errors.push({ line, column, message, severity: 'error' });
+  }
+
+  private scanLineComment(): void {
+    while (this.pos < this.source.length && this.peek() !== '\n') {
+      // A backslash at the end of a // comment continues it onto the next line
+      if (this.peek() === '\\' && this.peek(1) === '\n') this.advance();
+      this.advance();
+    }
+  }
+
+  private scanBlockComment(): boolean {
+    this.advance();
+    this.advance();
+    while (this.pos < this.source.length) {
+      if (this.peek() === '*' && this.peek(1) === '/') {
+        this.advance();
+        this.advance();
+        return true;
+      }
+      this.advance();
+    }
+    return false;
+  }
+
+  // A directive runs to the end of the line, honouring continuations and
+  // skipping over comments so a `/* ... */` spanning lines does not end it early
+  private scanDirective(): void {
+    while (this.pos < this.source.length) {
+      const ch = this.peek();
+      if (ch === '\n') break;
+      if (ch === '\\' && this.peek(1) === '\n') {
+        this.advance();
+        this.advance();
+        continue;
+      }
+      if (ch === '/' && this.peek(1) === '*') {
+        this.scanBlockComment();
+        continue;
+      }
+      if (ch === '/' && this.peek(1) === '/') {
+        this.scanLineComment();
+        break;
+      }
+      if (ch === '"' || ch === "'") {
+        this.scanQuoted(ch);
+        continue;
+      }
+      this.advance();
+    }
+    // Trailing carriage return belongs to the line ending, not the directive
+    while (this.pos > 0 && this.source[this.pos - 1] === '\r') {
+      this.pos--;
+      this.column--;
+    }
+  }
+
+  private stringPrefixLength(): number {
+    const ch = this.peek();
+    if (ch === '"' || ch === "'") return 0;
+    for (const prefix of ['u8', 'u', 'U', 'L']) {
+      if (this.source.startsWith(prefix, this.pos)) {
+        const next = this.peek(prefix.length);
+        if (next === '"' || next === "'") return prefix.length;
+      }
+    }
+    return -1;
+  }
+
+  private startsRawString(): boolean {
+    return /^(?:u8|u|U|L)?R"/.test(this.source.slice(this.pos, this.pos + 4));
+  }
+
+  private scanRawString(): boolean {
+    while (this.peek() !== '"') this.advance();
+    this.advance();
+    let delimiter = '';
+    while (this.pos < this.source.length && this.peek() !== '(' && this.peek() !== '\n') {
+      delimiter += this.advance();
+    }
+    if (this.peek() !== '(') return false;
+    const terminator = `)${delimiter}"`;
+    while (this.pos < this.source.length) {
+      if (this.source.startsWith(terminator, this.pos)) {
+        for (let i = 0; i < terminator.length; i++) this.advance();
+        return true;
+      }
+      this.advance();
+    }
+    return false;
+  }
+
+  private scanQuoted(quote: string): boolean {
+    this.advance();
+    while (this.pos < this.source.length) {
+      const ch = this.peek();
+      if (ch === '\n') return false;
+      if (ch === '\\') {
+        this.advance();
+        if (this.pos < this.source.length) this.advance();
+        continue;
+      }
+      this.advance();
+      if (ch === quote) return true;
+    }
+    return false;
+  }
+
+  // Numbers are scanned greedily (pp-number style) so that `1blink` becomes a
+  // single malformed literal instead of a number followed by an identifier
+  private scanNumber(startPos: number): void {
+    const isHex = /^0[xX]/.test(this.source.slice(startPos, startPos + 2));
+    while (this.pos < this.source.length) {
+      const ch = this.peek();
+      if ((ch === 'e' || ch === 'E' || ch === 'p' || ch === 'P') && (this.peek(1) === '+' || this.peek(1) === '-')) {
+        if (!isHex || ch === 'p' || ch === 'P') {
+          this.advance();
+          this.advance();
+          continue;
+        }
+      }
+      if (isIdentPart(ch) || ch === '.' || ch === "'") {
+        this.advance();
+        continue;
+      }
+      break;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { FunctionDeclaration, VariableDeclaration } from './cppAst';
+import { CppParser } from './cppParser';
+
+describe('CppParser', () => {
+  it('parses globals and function definitions', () => {
+    const { ast, errors } = CppParser.parseSource('const int led = 13;\nvoid setup() {\n  pinMode(led, OUTPUT);\n}\n');
+    expect(errors).toEqual([]);
+    const [led, setup] = ast.body as [VariableDeclaration, FunctionDeclaration];
+    expect(led.kind).toBe('VariableDeclaration');
+    expect(led.type).toMatchObject({ name: 'int', qualifiers: ['const'] });
+    expect(led.declarators[0]).toMatchObject({ name: 'led', nameRange: { line: 1, column: 11, endColumn: 14 } });
+    expect(setup).toMatchObject({ kind: 'FunctionDeclaration', name: 'setup', params: [] });
+    expect(setup.body?.body).toHaveLength(1);
+  });
+
+  it('reports a missing semicolon at the end of the statement and keeps going', () => {
+    const { ast, errors } = CppParser.parseSource('void loop() {\n  int x = 1\n  x++;\n}\nvoid other() {}\n');
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ ruleId: 'missing-semicolon', line: 2 });
+    expect(ast.body.map(d => (d as FunctionDeclaration).name)).toEqual(['loop', 'other']);
+  });
+
+  it('reports a brace that is never closed', () => {
+    const { errors } = CppParser.parseSource('void setup() {\n  if (true) {\n}\n');
+    expect(errors.map(e => e.ruleId)).toContain('unclosed-brace');
+  });
+
+  it('keeps attribute macros and __attribute__ on variable declarations', () => {
+    const { ast } = CppParser.parseSource('const uint8_t PROGMEM font[] = {0};\nint buffer[4] __attribute__((section(".noinit")));\n');
+    expect((ast.body as VariableDeclaration[]).map(d => d.attributes)).toEqual([['PROGMEM'], ['__attribute__((section(".noinit")))']]);
+  });
+
+  it('tells declarations from calls with known types', () => {
+    const { ast, errors } = CppParser.parseSource('Servo arm;\nvoid setup() { arm.attach(9); }\n', { knownTypes: ['Servo'] });
+    expect(errors).toEqual([]);
+    expect(ast.body[0]).toMatchObject({ kind: 'VariableDeclaration', type: { name: 'Servo' } });
+  });
+});
@@ -0,0 +1,1695 @@
+import { CompilationError, QuickFix, TextEdit } from '../types';
+import { CORE_FUNCTIONS, CORE_TYPES } from './arduinoCore';
+import { CppLexer, Token, isValidNumber } from './cppLexer';
+import {
+  CaseLabel,
+  CompoundStatement,
+  Declaration,
+  EnumDeclaration,
+  Enumerator,
+  Expression,
+  ForRangeStatement,
+  ForStatement,
+  FunctionDeclaration,
+  Identifier,
+  NamespaceDeclaration,
+  OpaqueDeclaration,
+  Parameter,
+  SourceRange,
+  Statement,
+  StructDeclaration,
+  TranslationUnit,
+  TypeSpec,
+  VariableDeclaration,
+  VariableDeclarator
+} from './cppAst';
+
+export interface ParseResult {
+  ast: TranslationUnit;
+  errors: CompilationError[];
+}
+
+export interface ParseOptions {
+  // Extra type names (library classes, typedefs from headers) to treat as types
+  knownTypes?: Iterable<string>;
+  // Extra names known to be functions, so `name ident` is not read as a declaration
+  knownFunctions?: Iterable<string>;
+}
+
+const BUILTIN_TYPES = new Set(['void', 'bool', 'char', 'short', 'int', 'long', 'float', 'double', 'signed', 'unsigned', 'auto']);
+
+const DECL_SPECIFIERS = new Set([
+  'const', 'volatile', 'static', 'extern', 'inline', 'constexpr', 'register', 'mutable', 'virtual', 'explicit', 'friend'
+]);
+
+// Attribute-like macros that may appear between a type and a declarator
+const ATTRIBUTE_MACROS = new Set(['PROGMEM', 'IRAM_ATTR', 'ICACHE_RAM_ATTR', 'ICACHE_FLASH_ATTR', 'DRAM_ATTR', 'RTC_DATA_ATTR']);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '|': 3,
+  '^': 4,
+  '&': 5,
+  '==': 6, '!=': 6,
+  '<': 7, '>': 7, '<=': 7, '>=': 7,
+  '<<': 8, '>>': 8,
+  '+': 9, '-': 9,
+  '*': 10, '/': 10, '%': 10
+};
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=']);
+
+type DeclContext = 'global' | 'local' | 'member';
+
+// Thrown after a syntax error has been recorded; caught at statement and
+// declaration boundaries where the parser resynchronises
+class ParseAbort extends Error {}
+
+export class CppParser {
+  private pos = 0;
+  private readonly errors: CompilationError[] = [];
+  private readonly knownTypes: Set<string>;
+  private readonly knownFunctions: Set<string>;
+
+  private constructor(private readonly tokens: Token[], options: ParseOptions) {
+    this.knownTypes = new Set([...CORE_TYPES, ...(options.knownTypes ?? [])]);
+    this.knownFunctions = new Set([...CORE_FUNCTIONS, ...(options.knownFunctions ?? [])]);
+    this.prescan();
+  }
+
+  // Tokens may contain comments and directives; both are ignored by the grammar
+  static parse(tokens: Token[], options: ParseOptions = {}): ParseResult {
+    const parser = new CppParser(this.significant(tokens), options);
+    const ast = parser.parseTranslationUnit();
+    return { ast, errors: parser.errors };
+  }
+
+  // The type and function names the parser would learn from these tokens; parsing
+  // part of a file with them as options reads it the same way as the whole file
+  static scanNames(tokens: Token[]): { knownTypes: string[]; knownFunctions: string[] } {
+    const parser = new CppParser(this.significant(tokens), {});
+    return { knownTypes: [...parser.knownTypes], knownFunctions: [...parser.knownFunctions] };
+  }
+
+  private static significant(tokens: Token[]): Token[] {
+    const significant = tokens.filter(t => t.kind !== 'comment' && t.kind !== 'preprocessor');
+    if (significant.length === 0 || significant[significant.length - 1].kind !== 'eof') {
+      const last = tokens[tokens.length - 1];
+      significant.push({
+        kind: 'eof', value: '', line: last?.endLine ?? 1, column: last?.endColumn ?? 1,
+        endLine: last?.endLine ?? 1, endColumn: last?.endColumn ?? 1, offset: last?.end ?? 0,
+        end: last?.end ?? 0, firstOnLine: true, spaceBefore: true
+      });
+    }
+    return significant;
+  }
+
+  static parseSource(source: string, options: ParseOptions = {}): ParseResult & { tokens: Token[] } {
+    const lexed = CppLexer.tokenize(source);
+    const result = this.parse(lexed.tokens, options);
+    return { ...result, tokens: lexed.tokens, errors: [...lexed.errors, ...result.errors] };
+  }
+
+  // ---------------------------------------------------------------- cursor
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private get current(): Token {
+    return this.peek();
+  }
+
+  private get previous(): Token {
+    return this.tokens[Math.max(this.pos - 1, 0)];
+  }
+
+  private next(): Token {
+    const token = this.current;
+    if (token.kind !== 'eof') this.pos++;
+    return token;
+  }
+
+  private at(value: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.value === value && token.kind !== 'string' && token.kind !== 'char';
+  }
+
+  private eat(value: string): boolean {
+    if (this.at(value)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string, message?: string, ruleId?: string): Token {
+    if (this.at(value)) return this.next();
+    const fixes = value === ')' && this.pos > 0 ? this.closeParenFix() : undefined;
+    this.fail(message ?? `Expected '${value}' before ${this.describe(this.current)}`, this.current, ruleId, fixes);
+  }
+
+  private isEof(): boolean {
+    return this.current.kind === 'eof';
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'eof' ? 'end of file' : `'${token.value}'`;
+  }
+
+  private rangeOf(token: Token): SourceRange {
+    return { line: token.line, column: token.column, endLine: token.endLine, endColumn: token.endColumn };
+  }
+
+  private finish(start: Token): SourceRange {
+    const end = this.pos > 0 ? this.previous : start;
+    if (end.offset < start.offset) return this.rangeOf(start);
+    return { line: start.line, column: start.column, endLine: end.endLine, endColumn: end.endColumn };
+  }
+
+  private error(range: SourceRange, message: string, ruleId = 'syntax-error', fixes?: QuickFix[]): void {
+    // Cascading errors at the exact same spot add nothing
+    if (this.errors.some(e => e.line === range.line && e.column === range.column)) return;
+    this.errors.push({
+      line: range.line,
+      column: range.column,
+      endLine: range.endLine,
+      endColumn: range.endColumn,
+      message,
+      severity: 'error',
+      ruleId,
+      fixes
+    });
+  }
+
+  private fail(message: string, token: Token = this.current, ruleId?: string, fixes?: QuickFix[]): never {
+    this.error(this.rangeOf(token), message, ruleId, fixes);
+    throw new ParseAbort(message);
+  }
+
+  private insertAfter(token: Token, text: string): TextEdit {
+    return { line: token.endLine, column: token.endColumn, endLine: token.endLine, endColumn: token.endColumn, text };
+  }
+
+  // Replaces the whitespace between two tokens on the same line
+  private replaceBetween(before: Token, after: Token, text: string): TextEdit {
+    return { line: before.endLine, column: before.endColumn, endLine: after.line, endColumn: after.column, text };
+  }
+
+  private closeParenFix(): QuickFix[] {
+    return [{ title: "Insert missing ')'", edits: [this.insertAfter(this.previous, ')')] }];
+  }
+
+  // A missing semicolon at the end of a line is reported and then assumed, so
+  // the next line parses normally instead of being swallowed by recovery
+  private expectSemicolon(what: string): void {
+    if (this.eat(';')) return;
+    const prev = this.previous;
+    const token = this.current;
+    this.error(this.rangeOf(prev), `Expected \`;\` after ${what}`, 'missing-semicolon', [
+      { title: "Insert missing ';'", edits: [this.insertAfter(prev, ';')] }
+    ]);
+    if (token.line > prev.endLine || token.value === '}' || token.kind === 'eof') return;
+    throw new ParseAbort(what);
+  }
+
+  // Skips to a plausible restart point after an error
+  private synchronize(topLevel: boolean): void {
+    const start = this.pos;
+    let depth = 0;
+    while (!this.isEof()) {
+      const token = this.current;
+      if (this.pos > start && depth === 0 && token.firstOnLine && token.column === 1 && this.looksLikeFunctionDefinition()) {
+        return;
+      }
+      if (token.value === '{') {
+        depth++;
+      } else if (token.value === '}') {
+        if (depth === 0) {
+          if (this.pos === start && topLevel) this.next();
+          return;
+        }
+        depth--;
+        this.next();
+        if (depth === 0 && topLevel) return;
+        continue;
+      } else if (token.value === ';' && depth === 0) {
+        this.next();
+        return;
+      }
+      this.next();
+    }
+  }
+
+  // ---------------------------------------------------------------- type knowledge
+
+  // Registers user-declared type and function names up front so usage before
+  // declaration (common with Arduino's generated prototypes) still parses
+  private prescan(): void {
+    const tokens = this.tokens;
+    for (let i = 0; i < tokens.length; i++) {
+      const t = tokens[i];
+      if (['struct', 'class', 'union', 'enum'].includes(t.value) && t.kind === 'keyword') {
+        let j = i + 1;
+        if (tokens[j]?.value === 'class' || tokens[j]?.value === 'struct') j++;
+        if (tokens[j]?.kind === 'identifier') this.knownTypes.add(tokens[j].value);
+      } else if (t.value === 'typedef') {
+        let depth = 0;
+        let name: string | null = null;
+        for (let j = i + 1; j < tokens.length; j++) {
+          const v = tokens[j].value;
+          if (v === '{' || v === '(') depth++;
+          if (v === '}' || v === ')') depth--;
+          if (v === '(' && tokens[j + 1]?.value === '*' && tokens[j + 2]?.kind === 'identifier') name = tokens[j + 2].value;
+          if (depth === 0 && tokens[j].kind === 'identifier' && name === null) {
+            const after = tokens[j + 1]?.value;
+            if (after === ';' || after === '[' || after === ',') name = tokens[j].value;
+          }
+          if (depth === 0 && v === ';') break;
+        }
+        if (name) this.knownTypes.add(name);
+      } else if (t.value === 'using' && tokens[i + 1]?.kind === 'identifier' && tokens[i + 2]?.value === '=') {
+        this.knownTypes.add(tokens[i + 1].value);
+      } else if (t.value === 'template' && tokens[i + 1]?.value === '<') {
+        for (let j = i + 2; j < tokens.length && tokens[j].value !== '>'; j++) {
+          if ((tokens[j].value === 'typename' || tokens[j].value === 'class') && tokens[j + 1]?.kind === 'identifier') {
+            this.knownTypes.add(tokens[j + 1].value);
+          }
+        }
+      } else if (t.kind === 'identifier' && tokens[i + 1]?.value === '(' && (BUILTIN_TYPES.has(tokens[i - 1]?.value) || tokens[i - 1]?.kind === 'identifier')) {
+        this.knownFunctions.add(t.value);
+      }
+    }
+    // A name declared as a type wins over a same-named function guess
+    this.knownTypes.forEach(name => this.knownFunctions.delete(name));
+  }
+
+  private isKnownType(name: string): boolean {
+    return BUILTIN_TYPES.has(name) || this.knownTypes.has(name);
+  }
+
+  // Index just past a (possibly qualified, possibly templated) name starting at `index`
+  private skipName(index: number): number {
+    let i = index;
+    if (this.tokens[i]?.value === '::') i++;
+    while (this.tokens[i]?.kind === 'identifier') {
+      i++;
+      if (this.tokens[i]?.value === '<') {
+        const close = this.findTemplateClose(i);
+        if (close !== -1) i = close + 1;
+      }
+      if (this.tokens[i]?.value === '::' && this.tokens[i + 1]?.kind === 'identifier') {
+        i++;
+        continue;
+      }
+      break;
+    }
+    return i;
+  }
+
+  // Matching `>` for a template argument list, or -1 if `<` is a comparison
+  private findTemplateClose(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const v = this.tokens[i].value;
+      if (v === '<') depth++;
+      else if (v === '>') depth--;
+      else if (v === '>>') depth -= 2;
+      else if ([';', '{', '}', '&&', '||', '='].includes(v) || this.tokens[i].kind === 'eof') return -1;
+      if (depth <= 0) {
+        const after = this.tokens[i + 1];
+        const looksLikeType = after && (after.kind === 'identifier' || ['*', '&', '::', '(', ')', ',', '>'].includes(after.value));
+        return looksLikeType ? i : -1;
+      }
+    }
+    return -1;
+  }
+
+  private isDeclarationStart(ahead = 0): boolean {
+    const t = this.peek(ahead);
+    if (t.kind === 'keyword') {
+      if (DECL_SPECIFIERS.has(t.value)) return true;
+      if (['struct', 'class', 'union', 'enum', 'typedef', 'using', 'namespace', 'template', 'static_assert', 'typename'].includes(t.value)) return true;
+      if (BUILTIN_TYPES.has(t.value)) return !(this.peek(ahead + 1).value === '(' && t.value !== 'void');
+      return false;
+    }
+    if (t.kind !== 'identifier' && t.value !== '::') return false;
+    if (ATTRIBUTE_MACROS.has(t.value) || t.value === '__attribute__') return true;
+    if (this.knownFunctions.has(t.value) && !this.knownTypes.has(t.value)) return false;
+
+    const after = this.skipName(this.pos + ahead);
+    const next = this.tokens[after];
+    if (!next) return false;
+    const name = t.value;
+    if (next.kind === 'identifier' || (next.kind === 'keyword' && (next.value === 'const' || next.value === 'volatile'))) return true;
+    if (next.value === '*' || next.value === '&' || next.value === '&&') {
+      if (this.isKnownType(name)) return true;
+      const declarator = this.tokens[after + 1];
+      const follow = this.tokens[after + 2]?.value;
+      return declarator?.kind === 'identifier' && ['=', ';', ',', '[', ')'].includes(follow);
+    }
+    return false;
+  }
+
+  // Speculatively checks for `type name(...) {` without consuming anything
+  private looksLikeFunctionDefinition(): boolean {
+    const saved = this.pos;
+    try {
+      if (this.current.kind === 'identifier' && ['ISR', 'SIGNAL'].includes(this.current.value)) return this.at('(', 1);
+      if (!this.isDeclarationStart()) return false;
+      if (!this.parseTypeSpec()) return false;
+      while (this.at('*') || this.at('&')) this.next();
+      this.skipAttributes();
+      if (this.current.kind !== 'identifier' && this.current.value !== '~') return false;
+      this.pos = this.skipName(this.pos + (this.at('~') ? 1 : 0));
+      if (!this.at('(')) return false;
+      const close = this.findClosingParen(this.pos);
+      if (close === -1) return false;
+      let after = close + 1;
+      while (this.tokens[after]?.value === 'const') after++;
+      return this.tokens[after]?.value === '{';
+    } catch {
+      return false;
+    } finally {
+      this.pos = saved;
+    }
+  }
+
+  private findClosingParen(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const v = this.tokens[i].value;
+      if (this.tokens[i].kind === 'string' || this.tokens[i].kind === 'char') continue;
+      if (v === '(') depth++;
+      else if (v === ')' && --depth === 0) return i;
+      else if (v === ';' || v === '{' || v === '}') return -1;
+    }
+    return -1;
+  }
+
+  private skipAttributes(): void {
+    for (;;) {
+      if (this.current.kind === 'identifier' && ATTRIBUTE_MACROS.has(this.current.value)) {
+        this.next();
+      } else if (this.at('__attribute__')) {
+        this.next();
+        if (this.at('(')) this.skipBalanced('(', ')');
+      } else {
+        return;
+      }
+    }
+  }
+
+  // The attributes that skipAttributes() passed over in a range of tokens
+  private attributesBetween(from: number, to: number): string[] {
+    const attributes: string[] = [];
+    for (let i = from; i < to; i++) {
+      const t = this.tokens[i];
+      if (t.kind === 'identifier' && ATTRIBUTE_MACROS.has(t.value)) {
+        attributes.push(t.value);
+      } else if (t.value === '__attribute__' && this.tokens[i + 1]?.value === '(') {
+        let end = i + 1;
+        for (let depth = 0; end < to; end++) {
+          if (this.tokens[end].value === '(') depth++;
+          else if (this.tokens[end].value === ')' && --depth === 0) break;
+        }
+        attributes.push(this.textBetween(i, end + 1));
+        i = end;
+      }
+    }
+    return attributes;
+  }
+
+  private skipBalanced(open: string, close: string): void {
+    let depth = 0;
+    do {
+      if (this.at(open)) depth++;
+      else if (this.at(close)) depth--;
+      this.next();
+    } while (depth > 0 && !this.isEof());
+  }
+
+  private textBetween(from: number, to: number): string {
+    let text = '';
+    for (let i = from; i < to; i++) {
+      const t = this.tokens[i];
+      text += (i > from && t.spaceBefore ? ' ' : '') + t.value;
+    }
+    return text;
+  }
+
+  // ---------------------------------------------------------------- types
+
+  private parseTypeSpec(): TypeSpec | null {
+    const start = this.current;
+    const qualifiers: string[] = [];
+    const builtin: string[] = [];
+    let name: string | null = null;
+    let templateArgs: string | undefined;
+
+    const takeQualifiers = () => {
+      for (;;) {
+        if (this.current.kind === 'keyword' && (DECL_SPECIFIERS.has(this.current.value) || this.current.value === 'typename')) {
+          const word = this.next().value;
+          if (word !== 'typename' && !qualifiers.includes(word)) qualifiers.push(word);
+        } else if ((this.current.kind === 'identifier' && ATTRIBUTE_MACROS.has(this.current.value)) || this.at('__attribute__')) {
+          this.skipAttributes();
+        } else {
+          return;
+        }
+      }
+    };
+
+    takeQualifiers();
+
+    if (this.current.kind === 'keyword' && BUILTIN_TYPES.has(this.current.value)) {
+      while (this.current.kind === 'keyword' && (BUILTIN_TYPES.has(this.current.value) || this.current.value === 'const' || this.current.value === 'volatile')) {
+        const word = this.next().value;
+        if (word === 'const' || word === 'volatile') {
+          if (!qualifiers.includes(word)) qualifiers.push(word);
+        } else {
+          builtin.push(word);
+        }
+      }
+      name = normalizeBuiltin(builtin);
+    } else if (this.current.kind === 'keyword' && ['struct', 'class', 'union', 'enum'].includes(this.current.value)) {
+      this.next();
+      if (this.at('class') || this.at('struct')) this.next();
+      if (this.peek().kind !== 'identifier') return null;
+      name = this.next().value;
+    } else if (this.current.kind === 'identifier' || this.at('::')) {
+      const nameStart = this.pos;
+      const end = this.skipName(this.pos);
+      let text = '';
+      for (let i = nameStart; i < end; i++) {
+        const v = this.tokens[i].value;
+        if (v === '<') {
+          const close = this.findTemplateClose(i);
+          templateArgs = this.textBetween(i + 1, close);
+          i = close;
+          continue;
+        }
+        text += v;
+      }
+      this.pos = end;
+      name = text;
+    } else {
+      this.pos = this.tokens.indexOf(start);
+      return null;
+    }
+
+    takeQualifiers();
+
+    return {
+      kind: 'Type',
+      name,
+      qualifiers,
+      templateArgs,
+      range: this.finish(start)
+    };
+  }
+
+  // ---------------------------------------------------------------- declarations
+
+  private parseTranslationUnit(): TranslationUnit {
+    const start = this.current;
+    const body: Declaration[] = [];
+
+    while (!this.isEof()) {
+      const before = this.pos;
+      try {
+        body.push(...this.parseDeclaration('global', null));
+      } catch (e) {
+        if (!(e instanceof ParseAbort)) throw e;
+        this.synchronize(true);
+      }
+      if (this.pos === before) this.next();
+    }
+
+    return { kind: 'TranslationUnit', body, range: this.finish(start) };
+  }
+
+  private parseDeclarationList(context: DeclContext, className: string | null, body: Declaration[]): void {
+    while (!this.at('}') && !this.isEof()) {
+      const before = this.pos;
+      try {
+        if (context === 'member' && ['public', 'private', 'protected'].includes(this.current.value) && this.at(':', 1)) {
+          this.next();
+          this.next();
+          continue;
+        }
+        body.push(...this.parseDeclaration(context, className));
+      } catch (e) {
+        if (!(e instanceof ParseAbort)) throw e;
+        this.synchronize(false);
+      }
+      if (this.pos === before) this.next();
+    }
+  }
+
+  private parseDeclaration(context: DeclContext, className: string | null): Declaration[] {
+    const token = this.current;
+
+    if (this.eat(';')) return [];
+
+    if (token.value === '}' && context === 'global') {
+      this.next();
+      this.error(this.rangeOf(token), "Unexpected '}': extra closing brace", 'extra-brace');
+      return [];
+    }
+
+    if (token.value === 'extern' && this.peek(1).kind === 'string') {
+      this.next();
+      this.next();
+      if (this.eat('{')) {
+        const body: Declaration[] = [];
+        this.parseDeclarationList(context, className, body);
+        this.expect('}');
+        return body;
+      }
+      return this.parseDeclaration(context, className);
+    }
+
+    if (token.value === 'namespace') return [this.parseNamespace()];
+    if (token.value === 'template') {
+      this.next();
+      if (this.at('<')) this.skipBalanced('<', '>');
+      return this.parseDeclaration(context, className);
+    }
+    if (token.value === 'using') return [this.parseUsing()];
+    if (token.value === 'typedef') return [this.parseTypedef()];
+    if (token.value === 'static_assert') return [this.parseOpaqueUntilSemicolon()];
+
+    if (['struct', 'class', 'union'].includes(token.value) && token.kind === 'keyword') {
+      const struct = this.tryParseStruct();
+      if (struct) return [struct];
+    }
+    if (token.value === 'enum') {
+      const enumeration = this.tryParseEnum();
+      if (enumeration) return [enumeration];
+    }
+
+    if (context === 'global' && token.kind === 'identifier' && ['ISR', 'SIGNAL'].includes(token.value) && this.at('(', 1)) {
+      return [this.parseIsr()];
+    }
+
+    const special = this.tryParseConstructor(context, className);
+    if (special) return [special];
+
+    if (!this.isDeclarationStart()) {
+      if (context === 'global') {
+        this.fail(`Expected a declaration before ${this.describe(token)}: statements must be inside a function`);
+      }
+      this.fail(`Expected a member declaration before ${this.describe(token)}`);
+    }
+
+    return [this.parseSimpleDeclaration(context, className)];
+  }
+
+  private parseNamespace(): NamespaceDeclaration {
+    const start = this.next();
+    const name = this.current.kind === 'identifier' ? this.next().value : null;
+    this.expect('{');
+    const body: Declaration[] = [];
+    this.parseDeclarationList('global', null, body);
+    this.expect('}', `Expected '}' to close namespace${name ? ` '${name}'` : ''}`);
+    return { kind: 'NamespaceDeclaration', name, body, range: this.finish(start) };
+  }
+
+  private parseUsing(): Declaration {
+    const start = this.next();
+    if (this.current.kind === 'identifier' && this.at('=', 1)) {
+      const nameToken = this.next();
+      this.next();
+      const type = this.parseTypeSpec();
+      if (!type) this.fail(`Expected a type after 'using ${nameToken.value} ='`);
+      while (this.at('*') || this.at('&')) this.next();
+      this.expectSemicolon('type alias');
+      return { kind: 'TypedefDeclaration', name: nameToken.value, type, range: this.finish(start) };
+    }
+    this.pos--;
+    return this.parseOpaqueUntilSemicolon();
+  }
+
+  private parseOpaqueUntilSemicolon(): OpaqueDeclaration {
+    const start = this.current;
+    const from = this.pos;
+    let depth = 0;
+    while (!this.isEof()) {
+      if (this.at('(') || this.at('{')) depth++;
+      if (this.at(')') || this.at('}')) depth--;
+      if (depth === 0 && this.at(';')) break;
+      this.next();
+    }
+    const text = this.textBetween(from, this.pos);
+    this.expectSemicolon('declaration');
+    return { kind: 'OpaqueDeclaration', text, range: this.finish(start) };
+  }
+
+  private parseTypedef(): Declaration {
+    const start = this.next();
+
+    if ((this.at('struct') || this.at('union') || this.at('class') || this.at('enum')) && this.current.kind === 'keyword') {
+      const inner = this.at('enum') ? this.tryParseEnum(true) : this.tryParseStruct(true);
+      if (inner) {
+        const nameToken = this.current;
+        if (nameToken.kind !== 'identifier') this.fail('Expected a name for the typedef');
+        this.next();
+        this.expectSemicolon('typedef');
+        return {
+          kind: 'TypedefDeclaration',
+          name: nameToken.value,
+          type: { kind: 'Type', name: inner.name ?? nameToken.value, qualifiers: [], range: inner.range },
+          range: this.finish(start)
+        };
+      }
+    }
+
+    const type = this.parseTypeSpec();
+    if (!type) this.fail(`Expected a type after 'typedef'`);
+    while (this.at('*') || this.at('&')) this.next();
+
+    let name: string;
+    if (this.at('(') && this.at('*', 1)) {
+      // typedef void (*Callback)(int);
+      this.next();
+      this.next();
+      name = this.expectIdentifier('typedef name').value;
+      this.expect(')');
+      if (this.at('(')) this.skipBalanced('(', ')');
+    } else {
+      name = this.expectIdentifier('typedef name').value;
+      while (this.at('[')) this.skipBalanced('[', ']');
+    }
+    this.expectSemicolon('typedef');
+    return { kind: 'TypedefDeclaration', name, type, range: this.finish(start) };
+  }
+
+  private expectIdentifier(what: string): Token {
+    if (this.current.kind === 'identifier') return this.next();
+    this.fail(`Expected ${what} before ${this.describe(this.current)}`);
+  }
+
+  private tryParseStruct(inTypedef = false): StructDeclaration | null {
+    const saved = this.pos;
+    const start = this.next();
+    const keyword = start.value as StructDeclaration['keyword'];
+    this.skipAttributes();
+    const name = this.current.kind === 'identifier' ? this.next().value : null;
+    if (this.at('final')) this.next();
+
+    const bases: string[] = [];
+    if (this.at(':')) {
+      this.next();
+      while (!this.at('{') && !this.isEof()) {
+        if (this.current.kind === 'identifier' && !['public', 'private', 'protected', 'virtual'].includes(this.current.value)) {
+          bases.push(this.current.value);
+        }
+        if (this.at(';')) break;
+        this.next();
+      }
+    }
+
+    if (!this.at('{')) {
+      // Elaborated type specifier such as `struct Point p;` is a plain declaration
+      this.pos = saved;
+      return null;
+    }
+
+    this.next();
+    const members: Declaration[] = [];
+    this.parseDeclarationList('member', name, members);
+    this.expect('}', `Expected '}' to close ${keyword}${name ? ` '${name}'` : ''}`);
+
+    const instances: VariableDeclarator[] = [];
+    if (!inTypedef) {
+      const type: TypeSpec = { kind: 'Type', name: name ?? '', qualifiers: [], range: this.rangeOf(start) };
+      while (this.current.kind === 'identifier' || this.at('*')) {
+        instances.push(this.parseVariableDeclarator(type));
+        if (!this.eat(',')) break;
+      }
+      this.expectSemicolon(`${keyword} definition`);
+    }
+
+    return { kind: 'StructDeclaration', keyword, name, bases, members, instances, range: this.finish(start) };
+  }
+
+  private tryParseEnum(inTypedef = false): EnumDeclaration | null {
+    const saved = this.pos;
+    const start = this.next();
+    const scoped = this.eat('class') || this.eat('struct');
+    const name = this.current.kind === 'identifier' ? this.next().value : null;
+    if (this.eat(':')) {
+      if (!this.parseTypeSpec()) this.fail('Expected underlying type for enum');
+    }
+    if (!this.at('{')) {
+      this.pos = saved;
+      return null;
+    }
+    this.next();
+
+    const enumerators: Enumerator[] = [];
+    while (!this.at('}') && !this.isEof()) {
+      const nameToken = this.expectIdentifier('enumerator name');
+      let value: Expression | null = null;
+      if (this.eat('=')) value = this.parseConditional();
+      enumerators.push({ kind: 'Enumerator', name: nameToken.value, value, range: this.finish(nameToken) });
+      if (!this.eat(',')) break;
+    }
+    this.expect('}', `Expected '}' to close enum${name ? ` '${name}'` : ''}`);
+
+    const instances: VariableDeclarator[] = [];
+    if (!inTypedef) {
+      const type: TypeSpec = { kind: 'Type', name: name ?? 'int', qualifiers: [], range: this.rangeOf(start) };
+      while (this.current.kind === 'identifier') {
+        instances.push(this.parseVariableDeclarator(type));
+        if (!this.eat(',')) break;
+      }
+      this.expectSemicolon('enum definition');
+    }
+
+    return { kind: 'EnumDeclaration', name, scoped, enumerators, instances, range: this.finish(start) };
+  }
+
+  // ISR(TIMER1_COMPA_vect) { ... } is a macro that expands to a function definition
+  private parseIsr(): FunctionDeclaration {
+    const start = this.next();
+    const open = this.pos;
+    this.skipBalanced('(', ')');
+    const vector = this.textBetween(open + 1, this.pos - 1);
+    const body = this.parseCompound();
+    return {
+      kind: 'FunctionDeclaration',
+      returnType: null,
+      returnPointer: 0,
+      returnReference: false,
+      name: `${start.value}(${vector})`,
+      nameRange: this.rangeOf(start),
+      className: null,
+      params: [],
+      variadic: false,
+      body,
+      range: this.finish(start)
+    };
+  }
+
+  // Constructors and destructors have no return type: `Motor(int pin)`,
+  // `~Motor()`, or out of class `Motor::Motor(int pin)`
+  private tryParseConstructor(context: DeclContext, className: string | null): FunctionDeclaration | null {
+    const start = this.current;
+    let i = this.pos;
+    while (this.tokens[i]?.kind === 'keyword' && ['explicit', 'inline', 'virtual', 'constexpr'].includes(this.tokens[i].value)) i++;
+
+    let owner: string | null = null;
+    let name: Token | null = null;
+    let destructor = false;
+
+    if (context === 'member' && className) {
+      if (this.tokens[i]?.value === '~' && this.tokens[i + 1]?.value === className) {
+        destructor = true;
+        name = this.tokens[i + 1];
+        i += 2;
+      } else if (this.tokens[i]?.value === className && this.tokens[i + 1]?.value === '(') {
+        name = this.tokens[i];
+        i += 1;
+      }
+    } else if (context === 'global') {
+      const first = this.tokens[i];
+      if (first?.kind === 'identifier' && this.tokens[i + 1]?.value === '::') {
+        const tilde = this.tokens[i + 2]?.value === '~';
+        const candidate = this.tokens[i + (tilde ? 3 : 2)];
+        if (candidate?.value === first.value && this.tokens[i + (tilde ? 4 : 3)]?.value === '(') {
+          owner = first.value;
+          destructor = tilde;
+          name = candidate;
+          i += tilde ? 4 : 3;
+        }
+      }
+    }
+
+    if (!name) return null;
+    this.pos = i;
+    const { params, variadic } = this.parseParameterList();
+    while (this.at('const') || this.at('noexcept') || this.at('override')) this.next();
+
+    if (this.eat(':')) {
+      // Member initializer list: skip up to the body
+      while (!this.at('{') && !this.isEof()) {
+        if (this.at('(')) this.skipBalanced('(', ')');
+        else if (this.at('{', 1) && this.current.kind === 'identifier') {
+          this.next();
+          this.skipBalanced('{', '}');
+        } else this.next();
+      }
+    }
+
+    let body: CompoundStatement | null = null;
+    if (this.at('{')) {
+      body = this.parseCompound();
+    } else {
+      if (this.eat('=')) this.next();
+      this.expectSemicolon(destructor ? 'destructor declaration' : 'constructor declaration');
+    }
+
+    return {
+      kind: 'FunctionDeclaration',
+      returnType: null,
+      returnPointer: 0,
+      returnReference: false,
+      name: destructor ? `~${name.value}` : name.value,
+      nameRange: this.rangeOf(name),
+      className: owner ?? className,
+      params,
+      variadic,
+      body,
+      range: this.finish(start)
+    };
+  }
+
+  private looksLikeParameterList(openIndex: number): boolean {
+    const first = this.tokens[openIndex + 1];
+    if (!first) return false;
+    if (first.value === ')' || first.value === '...') return true;
+    const saved = this.pos;
+    this.pos = openIndex + 1;
+    const declStart = this.isDeclarationStart();
+    const knownType = first.kind === 'identifier' && this.isKnownType(first.value) && !this.at('(', 1);
+    this.pos = saved;
+    if (declStart || knownType) return true;
+
+    // Whatever is inside, a body after the parentheses makes it a function
+    const close = this.findClosingParen(openIndex);
+    let after = close + 1;
+    while (this.tokens[after]?.value === 'const') after++;
+    return close !== -1 && this.tokens[after]?.value === '{';
+  }
+
+  private parseSimpleDeclaration(context: DeclContext, className: string | null, inForInit = false): Declaration {
+    const start = this.current;
+    const type = this.parseTypeSpec();
+    if (!type) this.fail(`Expected a type before ${this.describe(this.current)}`);
+
+    if (this.at(';')) {
+      this.next();
+      return { kind: 'OpaqueDeclaration', text: type.name, range: this.finish(start) };
+    }
+
+    const declarators: VariableDeclarator[] = [];
+    for (;;) {
+      const declStart = this.current;
+      let pointer = 0;
+      let reference = false;
+      while (this.at('*') || this.at('&') || this.at('&&') || this.at('const')) {
+        const t = this.next().value;
+        if (t === '*') pointer++;
+        else if (t !== 'const') reference = true;
+      }
+      this.skipAttributes();
+
+      // Function pointer variable: void (*handler)(int) = nullptr;
+      if (this.at('(') && this.at('*', 1)) {
+        this.next();
+        this.next();
+        const nameToken = this.expectIdentifier('variable name');
+        this.expect(')');
+        if (this.at('(')) this.skipBalanced('(', ')');
+        let init: Expression | null = null;
+        if (this.eat('=')) init = this.parseAssignment();
+        declarators.push({
+          kind: 'VariableDeclarator', name: nameToken.value, nameRange: this.rangeOf(nameToken),
+          pointer: pointer + 1, reference, arrayDims: [], init, ctorArgs: null, range: this.finish(declStart)
+        });
+        if (this.eat(',')) continue;
+        break;
+      }
+
+      const nameToken = this.current;
+      if (nameToken.kind === 'number') {
+        this.next();
+        this.error(this.rangeOf(nameToken), `Invalid ${this.at('(') ? 'function' : 'variable'} name '${nameToken.value}'. Names must start with a letter or underscore.`, 'invalid-identifier');
+      } else if (nameToken.value === 'operator') {
+        return this.parseFunctionRest(start, type, pointer, reference, this.parseOperatorName(), className, context);
+      } else if (nameToken.kind !== 'identifier' && nameToken.value !== '~') {
+        this.fail(`Expected a name after type '${type.name}' before ${this.describe(nameToken)}`);
+      } else {
+        this.pos = this.skipName(this.pos);
+      }
+
+      const fullName = this.textBetween(this.tokens.indexOf(nameToken), this.pos).replace(/\s+/g, '');
+      this.skipAttributes();
+
+      if (declarators.length === 0 && this.at('(') && this.looksLikeParameterList(this.pos)) {
+        const separator = fullName.lastIndexOf('::');
+        const owner = separator === -1 ? className : fullName.slice(0, separator);
+        const shortName = separator === -1 ? fullName : fullName.slice(separator + 2);
+        const nameInfo = { name: shortName, range: this.rangeOf(nameToken), owner };
+        return this.parseFunctionRest(start, type, pointer, reference, nameInfo, className, context);
+      }
+
+      declarators.push(this.parseDeclaratorRest(declStart, fullName, nameToken, pointer, reference, context));
+      if (inForInit && this.at(':')) break;
+      if (!this.eat(',')) break;
+    }
+
+    const attributes = this.attributesBetween(this.tokens.indexOf(start), this.pos);
+    const declaration: VariableDeclaration = { kind: 'VariableDeclaration', type, declarators, attributes, range: this.finish(start) };
+    if (!inForInit) {
+      this.expectSemicolon(`declaration of '${declarators[declarators.length - 1]?.name ?? type.name}'`);
+      declaration.range = this.finish(start);
+    }
+    return declaration;
+  }
+
+  private parseOperatorName(): { name: string; range: SourceRange; owner: string | null } {
+    const token = this.next();
+    let name = 'operator';
+    if (this.at('(') && this.at(')', 1)) {
+      this.next();
+      this.next();
+      name += '()';
+    } else if (this.at('[')) {
+      this.next();
+      this.expect(']');
+      name += '[]';
+    } else {
+      while (!this.at('(') && !this.isEof()) name += this.next().value;
+    }
+    return { name, range: this.rangeOf(token), owner: null };
+  }
+
+  private parseFunctionRest(
+    start: Token,
+    returnType: TypeSpec,
+    returnPointer: number,
+    returnReference: boolean,
+    nameInfo: { name: string; range: SourceRange; owner: string | null },
+    className: string | null,
+    context: DeclContext
+  ): FunctionDeclaration {
+    const { params, variadic } = this.parseParameterList();
+    while (this.at('const') || this.at('noexcept') || this.at('override') || this.at('final')) this.next();
+    this.skipAttributes();
+
+    let body: CompoundStatement | null = null;
+    if (this.at('{')) {
+      if (context === 'local') {
+        this.error(this.rangeOf(this.current), `Function '${nameInfo.name}' cannot be defined inside another function`);
+      }
+      body = this.parseCompound();
+    } else {
+      if (this.eat('=')) {
+        // = 0, = default, = delete
+        this.next();
+      }
+      this.expectSemicolon(`declaration of '${nameInfo.name}()'`);
+    }
+
+    return {
+      kind: 'FunctionDeclaration',
+      returnType,
+      returnPointer,
+      returnReference,
+      name: nameInfo.name,
+      nameRange: nameInfo.range,
+      className: nameInfo.owner ?? className,
+      params,
+      variadic,
+      body,
+      range: this.finish(start)
+    };
+  }
+
+  private parseDeclaratorRest(
+    declStart: Token,
+    name: string,
+    nameToken: Token,
+    pointer: number,
+    reference: boolean,
+    context: DeclContext
+  ): VariableDeclarator {
+    const arrayDims: (Expression | null)[] = [];
+    while (this.eat('[')) {
+      arrayDims.push(this.at(']') ? null : this.parseExpression());
+      this.expect(']', `Expected ']' to close array size`);
+    }
+    this.skipAttributes();
+
+    // Bit-field width in a struct member
+    if (context === 'member' && this.eat(':')) this.parseConditional();
+
+    let init: Expression | null = null;
+    let ctorArgs: Expression[] | null = null;
+    if (this.eat('=')) {
+      init = this.at('{') ? this.parseInitializerList() : this.parseAssignment();
+    } else if (this.at('{')) {
+      init = this.parseInitializerList();
+    } else if (this.at('(')) {
+      ctorArgs = this.parseArguments();
+    }
+
+    return {
+      kind: 'VariableDeclarator',
+      name,
+      nameRange: this.rangeOf(nameToken),
+      pointer,
+      reference,
+      arrayDims,
+      init,
+      ctorArgs,
+      range: this.finish(declStart)
+    };
+  }
+
+  private parseVariableDeclarator(type: TypeSpec): VariableDeclarator {
+    const declStart = this.current;
+    let pointer = 0;
+    while (this.eat('*')) pointer++;
+    const nameToken = this.expectIdentifier(`variable name for '${type.name}'`);
+    return this.parseDeclaratorRest(declStart, nameToken.value, nameToken, pointer, false, 'global');
+  }
+
+  private parseParameterList(): { params: Parameter[]; variadic: boolean } {
+    const open = this.expect('(');
+    const params: Parameter[] = [];
+    let variadic = false;
+
+    if (this.at('void') && this.at(')', 1)) this.next();
+
+    while (!this.at(')') && !this.isEof()) {
+      if (this.eat('...')) {
+        variadic = true;
+        break;
+      }
+      params.push(this.parseParameter());
+      if (!this.eat(',')) break;
+    }
+
+    this.expect(')', `Mismatched parentheses: expected ')' to close parameter list opened on line ${open.line}`, 'mismatched-parentheses');
+    return { params, variadic };
+  }
+
+  private parseParameter(): Parameter {
+    const start = this.current;
+    const type = this.parseTypeSpec();
+    if (!type) this.fail(`Expected a parameter type before ${this.describe(this.current)}`);
+
+    let pointer = 0;
+    let reference = false;
+    while (this.at('*') || this.at('&') || this.at('&&') || this.at('const')) {
+      const t = this.next().value;
+      if (t === '*') pointer++;
+      else if (t !== 'const') reference = true;
+    }
+
+    let nameToken: Token | null = null;
+    if (this.at('(') && this.at('*', 1)) {
+      // Function pointer parameter: void (*callback)(int)
+      this.next();
+      this.next();
+      if (this.current.kind === 'identifier') nameToken = this.next();
+      this.expect(')');
+      if (this.at('(')) this.skipBalanced('(', ')');
+      pointer++;
+    } else if (this.current.kind === 'identifier') {
+      nameToken = this.next();
+    }
+
+    const arrayDims: (Expression | null)[] = [];
+    while (this.eat('[')) {
+      arrayDims.push(this.at(']') ? null : this.parseExpression());
+      this.expect(']');
+    }
+
+    let defaultValue: Expression | null = null;
+    if (this.eat('=')) defaultValue = this.parseAssignment();
+
+    return {
+      kind: 'Parameter',
+      type,
+      name: nameToken?.value ?? null,
+      nameRange: nameToken ? this.rangeOf(nameToken) : null,
+      pointer,
+      reference,
+      arrayDims,
+      defaultValue,
+      range: this.finish(start)
+    };
+  }
+
+  // `digitalWrite 13, HIGH;` becomes `digitalWrite(13, HIGH);` when the arguments end the line with `;`
+  private callParenFix(): QuickFix[] | undefined {
+    const first = this.current;
+    let end = this.pos;
+    while (end < this.tokens.length && this.tokens[end].line === first.line && !(this.tokens[end].value === ';' && this.tokens[end].kind === 'punctuator')) end++;
+    if (this.tokens[end]?.value !== ';' || end === this.pos) return undefined;
+    return [{
+      title: 'Add parentheses around the arguments',
+      edits: [this.replaceBetween(this.previous, first, '('), this.insertAfter(this.tokens[end - 1], ')')]
+    }];
+  }
+
+  // ---------------------------------------------------------------- statements
+
+  private parseCompound(): CompoundStatement {
+    const open = this.expect('{');
+    const body: Statement[] = [];
+
+    while (!this.at('}') && !this.isEof()) {
+      // A function definition starting in column 1 means this block was never closed
+      if (this.current.firstOnLine && this.current.column === 1 && this.looksLikeFunctionDefinition()) {
+        const next = this.current;
+        this.error(this.rangeOf(open), `Expected '}' to close this block before ${this.describe(next)} (1 unclosed brace)`, 'unclosed-brace', [
+          { title: "Insert missing '}'", edits: [{ line: next.line, column: 1, endLine: next.line, endColumn: 1, text: '}\n\n' }] }
+        ]);
+        return { kind: 'CompoundStatement', body, range: this.finish(open) };
+      }
+
+      const before = this.pos;
+      try {
+        body.push(this.parseStatement());
+      } catch (e) {
+        if (!(e instanceof ParseAbort)) throw e;
+        this.synchronize(false);
+      }
+      if (this.pos === before) this.next();
+    }
+
+    if (this.isEof()) {
+      this.error(this.rangeOf(open), `Expected '}' to close this block at end of file (1 unclosed brace)`, 'unclosed-brace', [
+        { title: "Insert missing '}'", edits: [this.insertAfter(this.previous, '\n}')] }
+      ]);
+      return { kind: 'CompoundStatement', body, range: this.finish(open) };
+    }
+
+    this.next();
+    return { kind: 'CompoundStatement', body, range: this.finish(open) };
+  }
+
+  private parseStatement(): Statement {
+    const token = this.current;
+    const start = token;
+
+    if (token.kind === 'keyword') {
+      switch (token.value) {
+        case 'if': {
+          this.next();
+          const test = this.parseCondition('if');
+          const consequent = this.parseStatement();
+          let alternate: Statement | null = null;
+          if (this.eat('else')) alternate = this.parseStatement();
+          return { kind: 'IfStatement', test, consequent, alternate, range: this.finish(start) };
+        }
+        case 'while': {
+          this.next();
+          const test = this.parseCondition('while');
+          const body = this.parseStatement();
+          return { kind: 'WhileStatement', test, body, range: this.finish(start) };
+        }
+        case 'do': {
+          this.next();
+          const body = this.parseStatement();
+          this.expect('while', `Expected 'while' after do-block`);
+          const test = this.parseCondition('do-while');
+          this.expectSemicolon('do-while loop');
+          return { kind: 'DoWhileStatement', body, test, range: this.finish(start) };
+        }
+        case 'for':
+          return this.parseFor();
+        case 'switch': {
+          this.next();
+          const discriminant = this.parseCondition('switch');
+          const body = this.parseStatement();
+          return { kind: 'SwitchStatement', discriminant, body, range: this.finish(start) };
+        }
+        case 'case': {
+          this.next();
+          const test = this.parseConditional();
+          if (this.eat('...')) this.parseConditional();
+          this.expect(':', `Expected ':' after case label`);
+          const label: CaseLabel = { kind: 'CaseLabel', test, range: this.finish(start) };
+          return label;
+        }
+        case 'default':
+          this.next();
+          this.expect(':', `Expected ':' after 'default'`);
+          return { kind: 'CaseLabel', test: null, range: this.finish(start) };
+        case 'break':
+          this.next();
+          this.expectSemicolon("'break'");
+          return { kind: 'BreakStatement', range: this.finish(start) };
+        case 'continue':
+          this.next();
+          this.expectSemicolon("'continue'");
+          return { kind: 'ContinueStatement', range: this.finish(start) };
+        case 'return': {
+          this.next();
+          const argument = this.at(';') || this.at('}') ? null : this.parseExpression();
+          this.expectSemicolon('return statement');
+          return { kind: 'ReturnStatement', argument, range: this.finish(start) };
+        }
+        case 'goto': {
+          this.next();
+          const label = this.expectIdentifier('label').value;
+          this.expectSemicolon('goto');
+          return { kind: 'GotoStatement', label, range: this.finish(start) };
+        }
+        case 'else':
+          this.next();
+          this.fail(`'else' without a previous 'if'`, token);
+      }
+    }
+
+    if (token.value === '{') return this.parseCompound();
+    if (token.value === ';') {
+      this.next();
+      return { kind: 'EmptyStatement', range: this.finish(start) };
+    }
+
+    if (token.kind === 'identifier' && this.at(':', 1)) {
+      this.next();
+      this.next();
+      return { kind: 'LabelStatement', label: token.value, range: this.finish(start) };
+    }
+
+    if (this.isDeclarationStart()) {
+      const [declaration] = this.parseDeclaration('local', null);
+      return declaration ?? { kind: 'EmptyStatement', range: this.finish(start) };
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  private parseExpressionStatement(): Statement {
+    const start = this.current;
+    const expression = this.parseExpression();
+
+    // `pinMode 13, OUTPUT;` - a bare function name followed by its arguments
+    if (expression.kind === 'Identifier' && !this.at(';') && this.current.line === this.previous.endLine && this.startsExpression(this.current)) {
+      this.fail(`Expected '(' after '${expression.name}' to call it`, start, 'missing-call-parentheses', this.callParenFix());
+    }
+
+    this.expectSemicolon('statement');
+    return { kind: 'ExpressionStatement', expression, range: this.finish(start) };
+  }
+
+  private startsExpression(token: Token): boolean {
+    return ['identifier', 'number', 'string', 'char'].includes(token.kind) || ['(', '!', '~', '-', '+', '&', '*'].includes(token.value);
+  }
+
+  private parseCondition(keyword: string): Expression {
+    const open = this.expect('(', `Expected '(' after '${keyword}'`);
+    const test = this.parseExpression();
+    this.expect(')', `Mismatched parentheses: expected ')' to close '${keyword}' condition opened on line ${open.line}`, 'mismatched-parentheses');
+    return test;
+  }
+
+  private parseFor(): ForStatement | ForRangeStatement {
+    const start = this.next();
+    const open = this.expect('(', `Expected '(' after 'for'`);
+
+    let init: VariableDeclaration | Expression | null = null;
+    if (!this.at(';')) {
+      if (this.isDeclarationStart()) {
+        const declaration = this.parseSimpleDeclaration('local', null, true);
+        if (declaration.kind !== 'VariableDeclaration') this.fail('Expected a variable declaration in for loop');
+        if (this.eat(':')) {
+          const iterable = this.parseExpression();
+          this.expect(')', `Mismatched parentheses: expected ')' to close 'for' opened on line ${open.line}`, 'mismatched-parentheses');
+          const body = this.parseStatement();
+          return { kind: 'ForRangeStatement', declaration, iterable, body, range: this.finish(start) };
+        }
+        init = declaration;
+      } else {
+        init = this.parseExpression();
+      }
+    }
+    this.expect(';', `Expected ';' after for-loop initializer`);
+    const test = this.at(';') ? null : this.parseExpression();
+    this.expect(';', `Expected ';' after for-loop condition`);
+    const update = this.at(')') ? null : this.parseExpression();
+    this.expect(')', `Mismatched parentheses: expected ')' to close 'for' opened on line ${open.line}`, 'mismatched-parentheses');
+    const body = this.parseStatement();
+    return { kind: 'ForStatement', init, test, update, body, range: this.finish(start) };
+  }
+
+  // ---------------------------------------------------------------- expressions
+
+  private parseExpression(): Expression {
+    const start = this.current;
+    const first = this.parseAssignment();
+    if (!this.at(',')) return first;
+    const expressions = [first];
+    while (this.eat(',')) expressions.push(this.parseAssignment());
+    return { kind: 'SequenceExpression', expressions, range: this.finish(start) };
+  }
+
+  private parseAssignment(): Expression {
+    const start = this.current;
+    const left = this.parseConditional();
+    if (ASSIGNMENT_OPERATORS.has(this.current.value) && this.current.kind === 'punctuator') {
+      const operator = this.next().value;
+      const right = this.at('{') ? this.parseInitializerList() : this.parseAssignment();
+      return { kind: 'AssignmentExpression', operator, left, right, range: this.finish(start) };
+    }
+    return left;
+  }
+
+  private parseConditional(): Expression {
+    const start = this.current;
+    const test = this.parseBinary(1);
+    if (!this.eat('?')) return test;
+    const consequent = this.parseAssignment();
+    this.expect(':', `Expected ':' in conditional expression`);
+    const alternate = this.parseAssignment();
+    return { kind: 'ConditionalExpression', test, consequent, alternate, range: this.finish(start) };
+  }
+
+  private parseBinary(minPrecedence: number): Expression {
+    const start = this.current;
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.current;
+      const precedence = token.kind === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'BinaryExpression', operator: token.value, left, right, range: this.finish(start) };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const start = this.current;
+    const token = this.current;
+
+    if (token.kind === 'punctuator' && ['!', '~', '-', '+', '++', '--', '*', '&'].includes(token.value)) {
+      this.next();
+      const argument = this.parseUnary();
+      return { kind: 'UnaryExpression', operator: token.value, argument, prefix: true, range: this.finish(start) };
+    }
+
+    if (token.value === 'sizeof') {
+      this.next();
+      if (this.at('(') && this.isTypeAhead(1)) {
+        this.next();
+        const type = this.parseTypeSpec()!;
+        while (this.eat('*') || this.eat('&'));
+        this.expect(')');
+        return { kind: 'SizeofExpression', argument: type, range: this.finish(start) };
+      }
+      const argument = this.parseUnary();
+      return { kind: 'SizeofExpression', argument, range: this.finish(start) };
+    }
+
+    if (token.value === 'new') {
+      this.next();
+      const type = this.parseTypeSpec();
+      if (!type) this.fail(`Expected a type after 'new'`);
+      while (this.eat('*'));
+      let arraySize: Expression | null = null;
+      let args: Expression[] = [];
+      if (this.eat('[')) {
+        arraySize = this.parseExpression();
+        this.expect(']');
+      } else if (this.at('(')) {
+        args = this.parseArguments();
+      }
+      return { kind: 'NewExpression', type, arguments: args, arraySize, range: this.finish(start) };
+    }
+
+    if (token.value === 'delete') {
+      this.next();
+      const isArray = this.eat('[') && this.eat(']');
+      const argument = this.parseUnary();
+      return { kind: 'DeleteExpression', argument, isArray, range: this.finish(start) };
+    }
+
+    // C-style cast: (unsigned long) value
+    if (token.value === '(' && this.isTypeAhead(1)) {
+      const saved = this.pos;
+      this.next();
+      const type = this.parseTypeSpec();
+      let pointer = 0;
+      while (this.at('*') || this.at('&')) {
+        if (this.next().value === '*') pointer++;
+      }
+      if (type && this.eat(')')) {
+        const argument = this.parseUnary();
+        return { kind: 'CastExpression', type, pointer, argument, range: this.finish(start) };
+      }
+      this.pos = saved;
+    }
+
+    if (['static_cast', 'reinterpret_cast', 'const_cast', 'dynamic_cast'].includes(token.value)) {
+      this.next();
+      this.expect('<', `Expected '<' after '${token.value}'`);
+      const type = this.parseTypeSpec();
+      if (!type) this.fail(`Expected a type in '${token.value}'`);
+      let pointer = 0;
+      while (this.at('*') || this.at('&')) {
+        if (this.next().value === '*') pointer++;
+      }
+      this.expect('>', `Expected '>' to close '${token.value}'`);
+      this.expect('(');
+      const argument = this.parseExpression();
+      this.expect(')');
+      return this.parsePostfix(start, { kind: 'CastExpression', type, pointer, argument, range: this.finish(start) });
+    }
+
+    return this.parsePostfix(start, this.parsePrimary());
+  }
+
+  // True when the tokens at `ahead` form a type followed by `)`, i.e. a cast
+  private isTypeAhead(ahead: number): boolean {
+    let i = this.pos + ahead;
+    const first = this.tokens[i];
+    if (!first) return false;
+    if (first.kind === 'keyword') {
+      if (!BUILTIN_TYPES.has(first.value) && !['const', 'volatile', 'struct', 'enum'].includes(first.value)) return false;
+    } else if (first.kind !== 'identifier' || !this.knownTypes.has(first.value)) {
+      return false;
+    }
+    i = first.kind === 'identifier' ? this.skipName(i) : i + 1;
+    while (this.tokens[i] && (BUILTIN_TYPES.has(this.tokens[i].value) || ['const', 'volatile', '*', '&'].includes(this.tokens[i].value))) i++;
+    return this.tokens[i]?.value === ')';
+  }
+
+  private parsePostfix(start: Token, expression: Expression): Expression {
+    let result = expression;
+    for (;;) {
+      if (this.at('(')) {
+        const args = this.parseArguments();
+        result = { kind: 'CallExpression', callee: result, arguments: args, range: this.finish(start) };
+      } else if (this.at('[')) {
+        const open = this.next();
+        const index = this.parseExpression();
+        this.expect(']', `Expected ']' to close '[' opened on line ${open.line}`);
+        result = { kind: 'IndexExpression', object: result, index, range: this.finish(start) };
+      } else if (this.at('.') || this.at('->')) {
+        const arrow = this.next().value === '->';
+        const property = this.current;
+        if (property.kind !== 'identifier' && property.kind !== 'keyword') {
+          this.fail(`Expected a member name after '${arrow ? '->' : '.'}'`);
+        }
+        this.next();
+        result = {
+          kind: 'MemberExpression',
+          object: result,
+          property: property.value,
+          propertyRange: this.rangeOf(property),
+          arrow,
+          range: this.finish(start)
+        };
+      } else if (this.at('++') || this.at('--')) {
+        const operator = this.next().value;
+        result = { kind: 'UnaryExpression', operator, argument: result, prefix: false, range: this.finish(start) };
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private parseArguments(): Expression[] {
+    const open = this.expect('(');
+    const args: Expression[] = [];
+    while (!this.at(')') && !this.isEof()) {
+      args.push(this.at('{') ? this.parseInitializerList() : this.parseAssignment());
+      if (!this.eat(',')) break;
+    }
+    if (!this.at(')')) {
+      // `pinMode(13 OUTPUT)`: two arguments with the comma left out
+      if (args.length > 0 && this.current.line === this.previous.endLine && this.startsExpression(this.current)) {
+        this.fail(`Expected ',' between arguments before ${this.describe(this.current)}`, this.current, 'missing-comma', [
+          { title: "Insert missing ','", edits: [this.replaceBetween(this.previous, this.current, ', ')] }
+        ]);
+      }
+      this.fail(
+        `Mismatched parentheses: expected ')' to close '(' opened on line ${open.line}, found ${this.describe(this.current)}`,
+        this.at(';') ? open : this.current,
+        'mismatched-parentheses',
+        this.closeParenFix()
+      );
+    }
+    this.next();
+    return args;
+  }
+
+  private parseInitializerList(): Expression {
+    const start = this.expect('{');
+    const elements: Expression[] = [];
+    while (!this.at('}') && !this.isEof()) {
+      // Designated initializers: { .x = 1 }
+      if (this.at('.') && this.peek(1).kind === 'identifier' && this.at('=', 2)) {
+        this.next();
+        this.next();
+        this.next();
+      }
+      elements.push(this.at('{') ? this.parseInitializerList() : this.parseAssignment());
+      if (!this.eat(',')) break;
+    }
+    this.expect('}', `Expected '}' to close initializer list opened on line ${start.line}`);
+    return { kind: 'InitializerList', elements, range: this.finish(start) };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.current;
+    const start = token;
+
+    switch (token.kind) {
+      case 'number': {
+        this.next();
+        if (!isValidNumber(token.value)) {
+          this.error(this.rangeOf(token), `Invalid numeric literal '${token.value}'`, 'invalid-number');
+        }
+        return { kind: 'NumberLiteral', raw: token.value, ...parseNumber(token.value), range: this.rangeOf(token) };
+      }
+      case 'string': {
+        let raw = '';
+        let value = '';
+        while (this.current.kind === 'string') {
+          const part = this.next().value;
+          raw += (raw ? ' ' : '') + part;
+          value += unquoteString(part);
+        }
+        return { kind: 'StringLiteral', raw, value, range: this.finish(start) };
+      }
+      case 'char':
+        this.next();
+        return { kind: 'CharLiteral', raw: token.value, value: parseCharLiteral(token.value), range: this.rangeOf(token) };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          this.next();
+          return { kind: 'BooleanLiteral', value: token.value === 'true', range: this.rangeOf(token) };
+        }
+        if (token.value === 'nullptr') {
+          this.next();
+          return { kind: 'NullLiteral', range: this.rangeOf(token) };
+        }
+        if (token.value === 'this') {
+          this.next();
+          return { kind: 'ThisExpression', range: this.rangeOf(token) };
+        }
+        if (BUILTIN_TYPES.has(token.value) && this.at('(', 1)) {
+          // Functional cast: int(x), float(reading)
+          const type = this.parseTypeSpec()!;
+          this.next();
+          const argument = this.at(')') ? ({ kind: 'NumberLiteral', raw: '0', value: 0, isFloat: false, isUnsigned: false, isLong: false, range: this.rangeOf(this.current) } as Expression) : this.parseExpression();
+          this.expect(')');
+          return { kind: 'CastExpression', type, pointer: 0, argument, range: this.finish(start) };
+        }
+        break;
+      case 'identifier':
+        return this.parseIdentifier();
+      case 'punctuator':
+        if (token.value === '::') return this.parseIdentifier();
+        if (token.value === '(') {
+          const open = this.next();
+          const inner = this.parseExpression();
+          this.expect(')', `Mismatched parentheses: expected ')' to close '(' opened on line ${open.line}`, 'mismatched-parentheses');
+          return { ...inner, range: this.finish(start) } as Expression;
+        }
+        if (token.value === '{') return this.parseInitializerList();
+        if (token.value === '[') return this.parseLambda();
+        break;
+    }
+
+    if (token.kind === 'eof') this.fail('Unexpected end of file: expected an expression', this.previous);
+    this.fail(`Expected an expression before ${this.describe(token)}`);
+  }
+
+  private parseIdentifier(): Identifier {
+    const start = this.current;
+    let name = '';
+    if (this.eat('::')) name = '::';
+    name += this.expectIdentifier('identifier').value;
+    while (this.at('::') && (this.peek(1).kind === 'identifier' || this.peek(1).value === '~')) {
+      this.next();
+      name += '::' + this.next().value;
+    }
+    return { kind: 'Identifier', name, range: this.finish(start) };
+  }
+
+  private parseLambda(): Expression {
+    const start = this.current;
+    this.skipBalanced('[', ']');
+    const { params } = this.at('(') ? this.parseParameterList() : { params: [] };
+    while (this.at('mutable') || this.at('noexcept')) this.next();
+    if (this.eat('->')) this.parseTypeSpec();
+    const body = this.parseCompound();
+    return { kind: 'LambdaExpression', params, body, range: this.finish(start) };
+  }
+}
+
+function normalizeBuiltin(words: string[]): string {
+  const unsigned = words.includes('unsigned');
+  const longCount = words.filter(w => w === 'long').length;
+  const base = words.find(w => ['void', 'bool', 'char', 'int', 'float', 'double', 'auto'].includes(w));
+  const short = words.includes('short');
+
+  if (base === 'char') return unsigned ? 'unsigned char' : words.includes('signed') ? 'signed char' : 'char';
+  if (base === 'double') return longCount > 0 ? 'long double' : 'double';
+  if (base && base !== 'int') return base;
+
+  let name = short ? 'short' : longCount >= 2 ? 'long long' : longCount === 1 ? 'long' : 'int';
+  if (unsigned) name = name === 'int' ? 'unsigned int' : `unsigned ${name}`;
+  return name;
+}
+
+function parseNumber(raw: string): { value: number; isFloat: boolean; isUnsigned: boolean; isLong: boolean } {
+  const text = raw.replace(/'/g, '');
+  const isHex = /^0[xX]/.test(text);
+  const suffix = (isHex ? text.match(/[uUlL]+$/) : text.match(/[uUlLfF]+$/))?.[0] ?? '';
+  const body = text.slice(0, text.length - suffix.length);
+  const isUnsigned = /[uU]/.test(suffix);
+  const isLong = /[lL]/.test(suffix);
+
+  if (isHex) return { value: parseInt(body.slice(2), 16) || 0, isFloat: false, isUnsigned, isLong };
+  if (/^0[bB]/.test(body)) return { value: parseInt(body.slice(2), 2) || 0, isFloat: false, isUnsigned, isLong };
+  if (/[.eE]/.test(body) || /[fF]/.test(suffix)) return { value: parseFloat(body) || 0, isFloat: true, isUnsigned, isLong };
+  if (/^0\d/.test(body)) return { value: parseInt(body, 8) || 0, isFloat: false, isUnsigned, isLong };
+  return { value: parseInt(body, 10) || 0, isFloat: false, isUnsigned, isLong };
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '0': '\0', a: '\x07', b: '\b', f: '\f', v: '\v', '\\': '\\', "'": "'", '"': '"', '?': '?'
+};
+
+function unescape(text: string): string {
+  return text.replace(/\\(x[0-9a-fA-F]+|[0-7]{1,3}|.)/g, (_, seq: string) => {
+    if (seq[0] === 'x') return String.fromCharCode(parseInt(seq.slice(1), 16));
+    if (/^[0-7]+$/.test(seq)) return String.fromCharCode(parseInt(seq, 8));
+    return SIMPLE_ESCAPES[seq] ?? seq;
+  });
+}
+
+export function unquoteString(raw: string): string {
+  const rawMatch = raw.match(/^(?:u8|u|U|L)?R"([^(]*)\(([\s\S]*)\)\1"$/);
+  if (rawMatch) return rawMatch[2];
+  const quoted = raw.replace(/^(?:u8|u|U|L)?"/, '').replace(/"$/, '');
+  return unescape(quoted);
+}
+
+function parseCharLiteral(raw: string): number {
+  const inner = unescape(raw.replace(/^(?:u8|u|U|L)?'/, '').replace(/'$/, ''));
+  return inner.length > 0 ? inner.charCodeAt(0) : 0;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { GccOutputParser } from './gccOutputParser';
+
+const parse = (lines: string[]) => GccOutputParser.parse(lines.join('\n'));
+
+describe('GccOutputParser', () => {
+  it('reads diagnostics, mapping the generated .ino.cpp back to the tab', () => {
+    const { errors } = parse([
+      "/tmp/arduino/sketches/A1/sketch/blink.ino.cpp:12:5: error: 'ledd' was not declared in this scope",
+      'C:\\Users\\me\\blink\\util.cpp:3: warning: unused variable ‘x’'
+    ]);
+    expect(errors).toEqual([
+      { line: 12, column: 5, message: "'ledd' was not declared in this scope", severity: 'error', ruleId: 'compiler', file: 'blink.ino', notes: undefined },
+      { line: 3, column: 0, message: "unused variable 'x'", severity: 'warning', ruleId: 'compiler', file: 'util.cpp', notes: undefined }
+    ]);
+  });
+
+  it('attaches the function scope to the diagnostics of that file only', () => {
+    const { errors } = parse([
+      "/tmp/sketch/blink.ino: In function 'void loop()':",
+      '/tmp/sketch/blink.ino:8:3: error: expected ; before }',
+      '/tmp/sketch/blink.ino:9:1: warning: comparison of integer expressions',
+      '/tmp/sketch/motor.cpp:4:1: error: stray character'
+    ]);
+    expect(errors.map(e => e.notes)).toEqual([
+      ["blink.ino: In function 'void loop()'"],
+      ["blink.ino: In function 'void loop()'"],
+      undefined
+    ]);
+  });
+
+  it('replaces the scope at the next context line', () => {
+    const { errors } = parse([
+      "blink.ino: In function 'void setup()':",
+      'blink.ino:2:1: error: one',
+      'blink.ino: At global scope:',
+      'blink.ino:20:1: error: two'
+    ]);
+    expect(errors.map(e => e.notes)).toEqual([["blink.ino: In function 'void setup()'"], ['blink.ino: At global scope']]);
+  });
+
+  it('attaches notes to the diagnostic before them and include chains to the one after', () => {
+    const { errors } = parse([
+      'In file included from /tmp/sketch/blink.ino:1:0:',
+      '/tmp/sketch/util.h:3:10: error: redefinition of int x',
+      '/tmp/sketch/util.h:2:5: note: int x previously declared here'
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ file: 'util.h', line: 3 });
+    expect(errors[0].notes).toEqual(['Included from blink.ino:1', 'util.h:2: note: int x previously declared here']);
+  });
+
+  it('keeps template backtraces with the error they lead to', () => {
+    const { errors } = parse([
+      "blink.ino: In instantiation of 'void show(T) [with T = int]':",
+      'blink.ino:12:9:   required from here',
+      "blink.ino:5:3: error: no matching function for call to 'print(int)'"
+    ]);
+    expect(errors[0].notes).toEqual(["blink.ino: In instantiation of 'void show(T) [with T = int]'", 'blink.ino:12: required from here']);
+  });
+
+  it('keeps linker function context off compiler errors and compiler scope off linker errors', () => {
+    const { errors } = parse([
+      "/tmp/sketch/blink.ino: In function 'void loop()':",
+      '/tmp/sketch/blink.ino:8:3: warning: unused variable',
+      "/tmp/build/sketch/blink.ino.cpp.o: In function 'loop':",
+      "blink.ino.cpp.o:(.text.loop+0x8): undefined reference to 'go()'",
+      "/usr/bin/avr/ld: motor.cpp.o: in function 'spin':",
+      "motor.cpp:14: undefined reference to 'step()'",
+      '/tmp/sketch/motor.cpp:20:1: error: expected declaration',
+      'collect2: error: ld returned 1 exit status'
+    ]);
+    expect(errors.map(e => [e.ruleId, e.file, e.line, e.notes])).toEqual([
+      ['compiler', 'blink.ino', 8, ["blink.ino: In function 'void loop()'"]],
+      ['linker', undefined, 1, ["blink.ino.cpp.o: In function 'loop'"]],
+      ['linker', 'motor.cpp', 14, ["motor.cpp.o: in function 'spin'"]],
+      ['compiler', 'motor.cpp', 20, undefined]
+    ]);
+  });
+
+  it('notes where a multiply defined symbol was first defined', () => {
+    const { errors } = parse([
+      "/tmp/build/util.cpp.o:(.bss.counter+0x0): multiple definition of 'counter'",
+      '/tmp/build/sketch/blink.ino.cpp.o:(.bss.counter+0x0): first defined here'
+    ]);
+    expect(errors).toMatchObject([{ ruleId: 'linker', notes: ['blink.ino.cpp.o: first defined here'] }]);
+  });
+
+  it('reports a failed link with no linker line it understands', () => {
+    const { errors } = parse(['collect2: error: ld returned 1 exit status']);
+    expect(errors).toEqual([{ line: 1, column: 0, message: 'Linking failed (ld returned a non-zero exit status)', severity: 'error', ruleId: 'linker' }]);
+  });
+
+  it('reads the size summary', () => {
+    const { size, errors } = parse([
+      'Sketch uses 924 bytes (2%) of program storage space. Maximum is 32256 bytes.',
+      'Global variables use 9 bytes (0%) of dynamic memory, leaving 2039 bytes for local variables. Maximum is 2048 bytes.'
+    ]);
+    expect(errors).toEqual([]);
+    expect(size).toEqual({ flashBytes: 924, sramBytes: 9, maxFlashBytes: 32256, maxSramBytes: 2048 });
+  });
+});
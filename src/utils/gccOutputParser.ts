@@ -0,0 +1,149 @@
+import { CompilationError } from '../types';
+import type { MemoryEstimate } from './memoryEstimator';
+
+export interface BuildSize extends MemoryEstimate {
+  maxFlashBytes?: number;
+  maxSramBytes?: number;
+}
+
+export interface BuildLog {
+  errors: CompilationError[];
+  size?: BuildSize;
+}
+
+// `file:line:col: error: message`, with the column missing on some toolchains.
+// The lazy path keeps Windows drive letters (`C:\...`) in the file name.
+const DIAGNOSTIC = /^(.*?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+// `file: In function 'void loop()':`, `file: In instantiation of '...':`, `file: At global scope:`;
+// newer linkers write `ld: file.o: in function 'main':`
+const CONTEXT = /^(.*?):\s*((?:In|in|At) .*?):?$/;
+// Template backtraces and include chains: `file:line:col:   required from here`, `In file included from file:3:0:`
+const BACKTRACE = /^(.*?):(\d+)(?::(\d+))?:\s+(required from .*|required by .*|recursively required .*)$/;
+const INCLUDED_FROM = /^(?:In file included from|\s+from)\s+(.*?):(\d+)(?::\d+)?[:,]$/;
+// `blink.ino:12: undefined reference to `foo()'` (with debug info) or
+// `sketch.ino.cpp.o:(.text.loop+0x8): undefined reference to ...` (without)
+const LINKER = /^(?:.*?ld(?:\.exe)?:\s+)?(.*?):(?:(\d+)|\([^)]*\)):\s*((?:undefined reference to|multiple definition of|first defined here).*)$/;
+// The object files and archives linker context lines name, and the ld prefix newer linkers add
+const OBJECT_FILE = /\.(?:o|a)$/;
+const LD_PREFIX = /^.*?ld(?:\.exe)?:\s+/;
+const LINK_FAILED = /collect2(?:\.exe)?: error: ld returned \d+ exit status/;
+const FLASH_SIZE = /Sketch uses (\d+) bytes \(\d+%\) of program storage space\.(?: Maximum is (\d+) bytes\.)?/;
+const SRAM_SIZE = /Global variables use (\d+) bytes \(\d+%\) of dynamic memory(?:, leaving \d+ bytes for local variables\. Maximum is (\d+) bytes\.)?/;
+// Colour codes from -fdiagnostics-color
+const ANSI_COLOR = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+const TOO_BIG = /^(Sketch too big|Not enough memory|text section exceeds available space).*$/i;
+
+// arduino-cli builds `blink.ino` as `.../sketch/blink.ino.cpp`; report the tab the user knows
+function projectFileName(path: string): string {
+  return path.split(/[\\/]/).pop()!.replace(/\.ino\.cpp$/, '.ino');
+}
+
+function unquote(text: string): string {
+  // GCC quotes with ‘’ in UTF-8 locales and with `' elsewhere
+  return text.replace(/[‘’`]/g, "'");
+}
+
+export class GccOutputParser {
+  static parse(output: string): BuildLog {
+    const errors: CompilationError[] = [];
+    // `In function ...` holds for the diagnostics in its file until the next such
+    // line, and the linker's `x.o: In function ...` only for the linker errors
+    // after it; include chains and backtraces belong to the one diagnostic that
+    // follows them
+    let scope: { file: string; note: string; linker: boolean } | null = null;
+    let context: string[] = [];
+    let previous: CompilationError | null = null;
+    let linkFailed = false;
+    let flash: RegExpMatchArray | null = null;
+    let sram: RegExpMatchArray | null = null;
+    const takeContext = (file: string | null): string[] | undefined => {
+      // A null file is a linker error
+      if (scope && (file === null ? !scope.linker : scope.linker || scope.file !== file)) scope = null;
+      const notes = [...(scope ? [scope.note] : []), ...context];
+      context = [];
+      return notes.length > 0 ? notes : undefined;
+    };
+
+    output
+      .replace(ANSI_COLOR, '')
+      .split(/\r?\n/)
+      .forEach(rawLine => {
+        const line = unquote(rawLine.trimEnd());
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(DIAGNOSTIC))) {
+          const [, path, lineNumber, column, kind, message] = match;
+          const location = `${projectFileName(path)}:${lineNumber}`;
+          if (kind === 'note') {
+            if (previous) (previous.notes ??= []).push(`${location}: note: ${message}`);
+            else context.push(`${location}: note: ${message}`);
+            return;
+          }
+          previous = {
+            line: parseInt(lineNumber, 10),
+            column: column ? parseInt(column, 10) : 0,
+            message,
+            severity: kind === 'warning' ? 'warning' : 'error',
+            ruleId: 'compiler',
+            file: projectFileName(path),
+            notes: takeContext(projectFileName(path))
+          };
+          errors.push(previous);
+        } else if ((match = line.match(INCLUDED_FROM))) {
+          if (!/^\s/.test(line)) scope = null;
+          context.push(`Included from ${projectFileName(match[1])}:${match[2]}`);
+        } else if ((match = line.match(BACKTRACE))) {
+          context.push(`${projectFileName(match[1])}:${match[2]}: ${match[4]}`);
+          previous = null;
+        } else if ((match = line.match(LINKER))) {
+          const [, path, lineNumber, message] = match;
+          const file = projectFileName(path);
+          if (/first defined here/.test(message)) {
+            if (previous) (previous.notes ??= []).push(`${file}${lineNumber ? `:${lineNumber}` : ''}: ${message}`);
+            return;
+          }
+          previous = {
+            // Without debug info the linker only knows the object file
+            line: lineNumber ? parseInt(lineNumber, 10) : 1,
+            column: 0,
+            message,
+            severity: 'error',
+            ruleId: 'linker',
+            file: lineNumber ? file : undefined,
+            notes: takeContext(null)
+          };
+          errors.push(previous);
+        } else if ((match = line.match(CONTEXT))) {
+          const path = match[1].replace(LD_PREFIX, '');
+          const file = projectFileName(path);
+          const note = `${file}: ${match[2]}`;
+          if (/^In instantiation/.test(match[2])) context.push(note);
+          else scope = { file, note, linker: OBJECT_FILE.test(path) || path !== match[1] };
+          previous = null;
+        } else if (LINK_FAILED.test(line)) {
+          linkFailed = true;
+        } else if ((match = line.match(TOO_BIG))) {
+          errors.push({ line: 1, column: 0, message: match[0], severity: 'error', ruleId: 'compiler' });
+        } else {
+          flash = line.match(FLASH_SIZE) ?? flash;
+          sram = line.match(SRAM_SIZE) ?? sram;
+        }
+      });
+
+    if (linkFailed && !errors.some(e => e.ruleId === 'linker')) {
+      errors.push({ line: 1, column: 0, message: 'Linking failed (ld returned a non-zero exit status)', severity: 'error', ruleId: 'linker' });
+    }
+
+    return {
+      errors,
+      size: flash
+        ? {
+            flashBytes: parseInt(flash[1], 10),
+            sramBytes: sram ? parseInt(sram[1], 10) : 0,
+            maxFlashBytes: flash[2] ? parseInt(flash[2], 10) : undefined,
+            maxSramBytes: sram?.[2] ? parseInt(sram[2], 10) : undefined
+          }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CppLexer } from './cppLexer';
+import { CppParser } from './cppParser';
+import { IncrementalParser } from './incrementalParser';
+
+const MAIN = `int speed = 3;
+
+void setup() {
+  Serial.begin(9600);
+  pinMode(13, OUTPUT);
+}
+
+void loop() {
+  int unused = 1;
+  digitalWrite(13, HIGH);
+  delay(speed * 100);
+}
+`;
+
+describe('IncrementalParser', () => {
+  const parse = (parser: IncrementalParser, code: string) => parser.parse(CppLexer.tokenize(code).tokens);
+
+  it('reparses only the declarations that changed', () => {
+    const parser = new IncrementalParser();
+    parse(parser, MAIN);
+    expect(parser.lastParsed).toBe(3);
+
+    const edited = MAIN.replace('delay(speed * 100);', 'delay(speed * 200);');
+    const result = parse(parser, edited);
+    expect(parser.lastParsed).toBe(1);
+    expect(result).toEqual(CppParser.parse(CppLexer.tokenize(edited).tokens));
+  });
+
+  it('shifts cached declarations that only moved', () => {
+    const parser = new IncrementalParser();
+    parse(parser, MAIN);
+    const moved = `// header comment\n\n${MAIN}`;
+    const result = parse(parser, moved);
+    expect(parser.lastParsed).toBe(0);
+    expect(result).toEqual(CppParser.parse(CppLexer.tokenize(moved).tokens));
+  });
+
+  it('starts over when a new type name appears', () => {
+    const parser = new IncrementalParser();
+    parse(parser, MAIN);
+    parse(parser, `struct Speed { int v; };\n${MAIN}`);
+    expect(parser.lastParsed).toBe(4);
+  });
+
+  it('falls back to a full parse while braces do not balance', () => {
+    const parser = new IncrementalParser();
+    const broken = MAIN.replace('void loop() {', 'void loop() {{');
+    expect(parse(parser, broken)).toEqual(CppParser.parse(CppLexer.tokenize(broken).tokens));
+  });
+});
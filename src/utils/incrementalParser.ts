@@ -0,0 +1,130 @@
+import { CompilationError } from '../types';
+import { Declaration, TranslationUnit } from './cppAst';
+import { Token } from './cppLexer';
+import { CppParser, ParseResult } from './cppParser';
+
+interface CachedDeclaration {
+  line: number;
+  body: Declaration[];
+  errors: CompilationError[];
+}
+
+const OPENERS = new Set(['{', '(', '[']);
+const CLOSERS = new Set(['}', ')', ']']);
+
+function isPunctuation(token: Token, value: string): boolean {
+  return token.value === value && token.kind !== 'string' && token.kind !== 'char';
+}
+
+// Splits a file into its top-level declarations: everything up to a `;` or up to
+// the `}` that closes a function or namespace body. Returns null when the braces
+// do not balance, since the parser's recovery then depends on the whole file.
+function splitTopLevel(tokens: Token[]): Token[][] | null {
+  const chunks: Token[][] = [];
+  let chunk: Token[] = [];
+  let depth = 0;
+  let sawParen = false;
+  let sawAssign = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    chunk.push(token);
+    if (OPENERS.has(token.value) && token.kind !== 'string' && token.kind !== 'char') depth++;
+    if (CLOSERS.has(token.value) && token.kind !== 'string' && token.kind !== 'char') {
+      if (--depth < 0) return null;
+      if (depth === 0 && token.value === ')') sawParen = true;
+    }
+    if (depth > 0) continue;
+    if (isPunctuation(token, '=')) sawAssign = true;
+
+    let ends = isPunctuation(token, ';');
+    if (isPunctuation(token, '}')) {
+      // `struct S { ... } s;` and `int a[] = { ... };` go on past the brace
+      const next = tokens[i + 1];
+      const functionBody = sawParen && !sawAssign;
+      ends = !next || !(isPunctuation(next, ';') || isPunctuation(next, ',') || (next.kind === 'identifier' && !functionBody));
+    }
+    if (ends) {
+      chunks.push(chunk);
+      chunk = [];
+      sawParen = false;
+      sawAssign = false;
+    }
+  }
+
+  if (depth !== 0) return null;
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+// Text and layout of a declaration relative to its first line, so a declaration
+// that only moved up or down still hits the cache
+function chunkKey(tokens: Token[]): string {
+  const first = tokens[0].line;
+  return tokens.map(t => `${t.line - first}:${t.column}:${t.value}`).join('\u0000');
+}
+
+function shiftLines<T>(value: T, delta: number): T {
+  if (delta === 0 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(item => shiftLines(item, delta)) as T;
+  const copy: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+    copy[key] = (key === 'line' || key === 'endLine') && typeof field === 'number' ? field + delta : shiftLines(field, delta);
+  });
+  return copy as T;
+}
+
+// Parses a file declaration by declaration and keeps the results, so after an
+// edit only the declarations whose tokens changed (usually one function body)
+// are parsed again. Errors stay within the declaration they occur in.
+export class IncrementalParser {
+  // One cache per translation unit, holding only the declarations it had last time
+  private readonly units = new Map<string, { names: string; cache: Map<string, CachedDeclaration> }>();
+  // Declarations parsed by the last call, for diagnostics
+  lastParsed = 0;
+
+  parse(tokens: Token[], unit = ''): ParseResult {
+    const significant = tokens.filter(t => t.kind !== 'comment' && t.kind !== 'preprocessor' && t.kind !== 'eof');
+    const chunks = significant.length > 0 ? splitTopLevel(significant) : null;
+    if (!chunks) {
+      this.units.delete(unit);
+      this.lastParsed = 1;
+      return CppParser.parse(tokens);
+    }
+
+    // A new type name changes how every declaration parses
+    const options = CppParser.scanNames(significant);
+    const names = `${options.knownTypes.sort().join(',')}|${options.knownFunctions.sort().join(',')}`;
+    const previous = this.units.get(unit);
+    const previousCache = previous?.names === names ? previous.cache : new Map<string, CachedDeclaration>();
+
+    const cache = new Map<string, CachedDeclaration>();
+    const body: Declaration[] = [];
+    const errors: CompilationError[] = [];
+    this.lastParsed = 0;
+
+    chunks.forEach(chunk => {
+      const key = chunkKey(chunk);
+      let cached = previousCache.get(key) ?? cache.get(key);
+      if (!cached) {
+        const result = CppParser.parse(chunk, options);
+        cached = { line: chunk[0].line, body: result.ast.body, errors: result.errors };
+        this.lastParsed++;
+      }
+      cache.set(key, cached);
+      const delta = chunk[0].line - cached.line;
+      body.push(...shiftLines(cached.body, delta));
+      errors.push(...shiftLines(cached.errors, delta));
+    });
+    this.units.set(unit, { names, cache });
+
+    const first = significant[0];
+    const last = significant[significant.length - 1];
+    const ast: TranslationUnit = {
+      kind: 'TranslationUnit',
+      body,
+      range: { line: first.line, column: first.column, endLine: last.endLine, endColumn: last.endColumn }
+    };
+    return { ast, errors };
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseIntelHex } from './intelHex';
+
+// Builds a record with its length and checksum filled in
+function record(type: number, address: number, data: number[]): string {
+  const bytes = [data.length, address >> 8, address & 0xff, type, ...data];
+  const checksum = -bytes.reduce((sum, b) => sum + b, 0) & 0xff;
+  return ':' + [...bytes, checksum].map(b => b.toString(16).toUpperCase().padStart(2, '0')).join('');
+}
+
+const EOF = ':00000001FF';
+
+describe('parseIntelHex', () => {
+  it('places data records at their addresses and pads to whole words with 0xFF', () => {
+    const image = parseIntelHex([record(0, 0, [0x0c, 0x94]), record(0, 4, [0x11]), EOF, ''].join('\r\n'));
+    expect([...image]).toEqual([0x0c, 0x94, 0xff, 0xff, 0x11, 0xff]);
+  });
+
+  it('applies extended segment and linear address records', () => {
+    const segment = parseIntelHex([record(2, 0, [0x00, 0x01]), record(0, 0, [0xaa, 0xbb]), EOF].join('\n'));
+    expect(segment.length).toBe(0x12);
+    expect([...segment.slice(0x10)]).toEqual([0xaa, 0xbb]);
+
+    const linear = parseIntelHex([record(4, 0, [0x00, 0x01]), record(0, 2, [0x01, 0x02]), EOF].join('\n'));
+    expect(linear.length).toBe(0x10004);
+    expect([...linear.slice(0x10002)]).toEqual([0x01, 0x02]);
+  });
+
+  it('ignores anything after the end-of-file record', () => {
+    expect([...parseIntelHex([record(0, 0, [1, 2]), EOF, 'garbage'].join('\n'))]).toEqual([1, 2]);
+  });
+
+  it('names the line of a broken record', () => {
+    expect(() => parseIntelHex([record(0, 0, [1, 2]), 'hello', EOF].join('\n'))).toThrow('Line 2 of the HEX file: not an Intel HEX record');
+    expect(() => parseIntelHex([':0200000001020A', EOF].join('\n'))).toThrow('Line 1 of the HEX file: bad checksum');
+    expect(() => parseIntelHex([':030000000102FA', EOF].join('\n'))).toThrow('the record says 3 data bytes but has 2');
+    expect(() => parseIntelHex([record(6, 0, []), EOF].join('\n'))).toThrow('unknown record type 6');
+  });
+
+  it('rejects a file that is cut short or empty', () => {
+    expect(() => parseIntelHex(record(0, 0, [1, 2]))).toThrow('no end-of-file record');
+    expect(() => parseIntelHex(EOF)).toThrow('The HEX file holds no data');
+  });
+});
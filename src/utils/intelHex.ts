@@ -0,0 +1,56 @@
+// Intel HEX as avr-objcopy and arduino-cli write it: data records, optional
+// extended segment or linear address records and an end-of-file record.
+// Returns the flash image with unprogrammed bytes left at 0xFF.
+export function parseIntelHex(text: string): Uint8Array {
+  const chunks: { address: number; bytes: number[] }[] = [];
+  let base = 0;
+  let ended = false;
+  let size = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || ended) return;
+    const fail = (message: string): never => {
+      throw new Error(`Line ${index + 1} of the HEX file: ${message}`);
+    };
+    if (!/^:([0-9a-f]{2})+$/i.test(line)) fail('not an Intel HEX record');
+
+    const bytes = (line.slice(1).match(/../g) ?? []).map(pair => parseInt(pair, 16));
+    const [length, high, low, type] = bytes;
+    if (bytes.length !== length + 5) fail(`the record says ${length} data bytes but has ${bytes.length - 5}`);
+    if (bytes.reduce((sum, b) => sum + b, 0) & 0xff) fail('bad checksum');
+    const data = bytes.slice(4, 4 + length);
+
+    switch (type) {
+      case 0x00: {
+        const address = base + ((high << 8) | low);
+        chunks.push({ address, bytes: data });
+        size = Math.max(size, address + length);
+        break;
+      }
+      case 0x01:
+        ended = true;
+        break;
+      case 0x02:
+        base = ((data[0] << 8) | data[1]) << 4;
+        break;
+      case 0x04:
+        base = ((data[0] << 8) | data[1]) << 16;
+        break;
+      // Start address records only matter to loaders for other CPUs
+      case 0x03:
+      case 0x05:
+        break;
+      default:
+        fail(`unknown record type ${type}`);
+    }
+  });
+
+  if (!ended) throw new Error('The HEX file has no end-of-file record; it may be cut short');
+  if (chunks.length === 0) throw new Error('The HEX file holds no data');
+
+  // Whole 16-bit words, since AVR fetches instructions a word at a time
+  const image = new Uint8Array(size + (size & 1)).fill(0xff);
+  chunks.forEach(chunk => image.set(chunk.bytes, chunk.address));
+  return image;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { analyzeInterrupts } from './interruptUsage';
+
+function analyze(code: string, boardId = 'uno') {
+  const { ast, tokens } = CppParser.parseSource(code);
+  return analyzeInterrupts(ast, tokens, getBoard(boardId));
+}
+
+const COUNTER = `volatile unsigned long pulses = 0;
+void count() { pulses++; }
+void setup() { attachInterrupt(digitalPinToInterrupt(2), count, RISING); }
+void loop() {
+  noInterrupts();
+  unsigned long copy = pulses;
+  interrupts();
+  Serial.println(pulses);
+  pulses = 0;
+}
+`;
+
+describe('analyzeInterrupts', () => {
+  it('finds attached handlers, lambdas and ISR() blocks with the functions they call', () => {
+    const { handlers } = analyze(`
+      void bump() {}
+      void count() { bump(); }
+      ISR(TIMER1_COMPA_vect) {}
+      void setup() {
+        attachInterrupt(0, count, RISING);
+        attachInterrupt(1, []() { bump(); }, FALLING);
+      }
+      void loop() {}
+    `);
+    expect(handlers.map(h => [h.name, h.bodies.length])).toEqual([
+      ['ISR(TIMER1_COMPA_vect)', 1],
+      ['count', 2],
+      ['lambda', 2]
+    ]);
+  });
+
+  it('finds globals a handler writes and loop() uses, with their size on the board', () => {
+    const [shared] = analyze(COUNTER).shared;
+    expect(shared).toMatchObject({ name: 'pulses', volatile: true, size: 4, handler: 'count' });
+    expect(shared.accesses.map(a => [a.range.line, a.guarded, a.write])).toEqual([
+      [6, true, false],
+      [8, false, false],
+      [9, false, true]
+    ]);
+  });
+
+  it('does not mistake a local of the same name for the shared global', () => {
+    const code = 'int level;\nvoid hit() { level = 1; }\nvoid setup() { attachInterrupt(0, hit, RISING); }\nvoid loop() { int level = 2; Serial.print(level); }\n';
+    expect(analyze(code).shared).toEqual([]);
+  });
+
+  it('has nothing to share without handlers', () => {
+    expect(analyze('int n;\nvoid setup() {}\nvoid loop() { n++; }\n')).toEqual({ handlers: [], shared: [] });
+  });
+});
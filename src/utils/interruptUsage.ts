@@ -0,0 +1,185 @@
+import { BoardProfile } from './boards';
+import {
+  AstNode,
+  CallExpression,
+  CompoundStatement,
+  Expression,
+  SourceRange,
+  Statement,
+  TranslationUnit,
+  VariableDeclaration,
+  VariableDeclarator,
+  calleeName,
+  containsRange,
+  walk
+} from './cppAst';
+import { Token } from './cppLexer';
+import type { LibraryInfo } from './libraryCatalog';
+import { typeSize } from './memoryEstimator';
+import { collectFunctions, reachableFunctions } from './rules/sketch';
+import { SymbolTable } from './symbolTable';
+
+export interface InterruptHandler {
+  // The function name, `ISR(TIMER1_COMPA_vect)` for AVR vector blocks or 'lambda'
+  name: string;
+  // The attachInterrupt() call; null for ISR() blocks
+  attach: CallExpression | null;
+  // Bodies that run inside the interrupt: the handler and everything it calls
+  bodies: AstNode[];
+}
+
+export interface SharedAccess {
+  range: SourceRange;
+  // A plain `x = value;` store; `x++` and `x += 1` count as reads
+  write: boolean;
+  // Inside a noInterrupts()/interrupts() section
+  guarded: boolean;
+  // The innermost statement of a block holding the access, for rewrites
+  statement: Statement | null;
+}
+
+export interface SharedVariable {
+  name: string;
+  declaration: VariableDeclaration;
+  declarator: VariableDeclarator;
+  volatile: boolean;
+  // Bytes read by one access, e.g. 2 for an `int` on AVR
+  size: number;
+  // The handler that writes it
+  handler: string;
+  // Accesses from code run by loop()
+  accesses: SharedAccess[];
+}
+
+export interface InterruptAnalysis {
+  handlers: InterruptHandler[];
+  shared: SharedVariable[];
+}
+
+const INTERRUPTS_OFF = new Set(['noInterrupts', 'cli']);
+const INTERRUPTS_ON = new Set(['interrupts', 'sei']);
+
+const before = (a: SourceRange, b: SourceRange): boolean => a.line < b.line || (a.line === b.line && a.column < b.column);
+
+function collectHandlers(ast: TranslationUnit): InterruptHandler[] {
+  const functions = collectFunctions(ast.body).filter(fn => fn.body && fn.className === null);
+  const handlers: InterruptHandler[] = functions
+    .filter(fn => fn.name.startsWith('ISR('))
+    .map(fn => ({ name: fn.name, attach: null, bodies: reachableFunctions(ast, [fn]) }));
+
+  walk(ast, node => {
+    if (node.kind !== 'CallExpression' || calleeName(node) !== 'attachInterrupt' || node.arguments.length < 2) return;
+    let handler: Expression = node.arguments[1];
+    if (handler.kind === 'UnaryExpression' && handler.operator === '&') handler = handler.argument;
+    if (handler.kind === 'LambdaExpression') {
+      handlers.push({ name: 'lambda', attach: node, bodies: [handler.body, ...reachableFunctions(ast, [handler.body])] });
+    } else if (handler.kind === 'Identifier') {
+      const name = handler.name;
+      const roots = functions.filter(fn => fn.name === name);
+      handlers.push({ name, attach: node, bodies: reachableFunctions(ast, roots) });
+    }
+  });
+  return handlers;
+}
+
+// Assignment targets and ++/-- operands, by the range of their identifier
+function writesIn(node: AstNode): SourceRange[] {
+  const writes: SourceRange[] = [];
+  walk(node, child => {
+    if (child.kind === 'AssignmentExpression') writes.push(child.left.range);
+    if (child.kind === 'UnaryExpression' && (child.operator === '++' || child.operator === '--')) writes.push(child.argument.range);
+  });
+  return writes;
+}
+
+// noInterrupts()/interrupts() calls of one function in source order
+function guardsIn(node: AstNode): { range: SourceRange; off: boolean }[] {
+  const guards: { range: SourceRange; off: boolean }[] = [];
+  walk(node, child => {
+    if (child.kind !== 'CallExpression') return;
+    const name = calleeName(child) ?? '';
+    if (INTERRUPTS_OFF.has(name) || INTERRUPTS_ON.has(name)) guards.push({ range: child.range, off: INTERRUPTS_OFF.has(name) });
+  });
+  return guards;
+}
+
+function statementOf(node: AstNode, range: SourceRange): Statement | null {
+  let found: Statement | null = null;
+  walk(node, child => {
+    if (!containsRange(child.range, range)) return false;
+    if (child.kind === 'CompoundStatement') {
+      found = (child as CompoundStatement).body.find(s => containsRange(s.range, range)) ?? found;
+    }
+  });
+  return found;
+}
+
+// Finds interrupt handlers and the global variables they share with loop().
+// References are matched through the symbol table, so locals that shadow a
+// global are not mistaken for it.
+export function analyzeInterrupts(ast: TranslationUnit, tokens: Token[], board: BoardProfile, imported: LibraryInfo[] = []): InterruptAnalysis {
+  const handlers = collectHandlers(ast);
+  if (handlers.length === 0) return { handlers, shared: [] };
+
+  const isrBodies = handlers.flatMap(handler => handler.bodies.map(body => ({ handler: handler.name, body })));
+  const inIsr = (range: SourceRange) => isrBodies.find(({ body }) => containsRange(body.range, range));
+  const loops = collectFunctions(ast.body).filter(fn => fn.body && fn.className === null && fn.name === 'loop');
+  const mainFunctions = reachableFunctions(ast, loops).filter(fn => !inIsr(fn.range));
+  const isrWrites = isrBodies.flatMap(({ handler, body }) => writesIn(body).map(range => ({ handler, range })));
+  const mainWrites = mainFunctions.flatMap(fn => {
+    const plain: SourceRange[] = [];
+    walk(fn, node => {
+      if (node.kind === 'AssignmentExpression' && node.operator === '=') plain.push(node.left.range);
+    });
+    return plain;
+  });
+
+  const declarations = new Map<string, { declaration: VariableDeclaration; declarator: VariableDeclarator }>();
+  ast.body.forEach(decl => {
+    if (decl.kind !== 'VariableDeclaration') return;
+    decl.declarators.forEach(declarator => {
+      declarations.set(`${declarator.nameRange.line}:${declarator.nameRange.column}`, { declaration: decl, declarator });
+    });
+  });
+
+  const same = (a: SourceRange, b: SourceRange) => a.line === b.line && a.column === b.column;
+  const table = SymbolTable.build(ast, tokens, imported);
+  const shared: SharedVariable[] = [];
+
+  table.symbols.forEach(symbol => {
+    if (symbol.kind !== 'variable' || symbol.scope !== table.global || !symbol.declaration) return;
+    const found = declarations.get(`${symbol.declaration.line}:${symbol.declaration.column}`);
+    const writer = isrWrites.find(write => symbol.references.some(ref => same(ref, write.range)));
+    if (!found || !writer) return;
+
+    const accesses: SharedAccess[] = [];
+    mainFunctions.forEach(fn => {
+      const guards = guardsIn(fn);
+      symbol.references
+        .filter(ref => containsRange(fn.range, ref))
+        .forEach(range => {
+          const last = guards.filter(guard => before(guard.range, range)).pop();
+          accesses.push({
+            range,
+            write: mainWrites.some(write => same(write, range)),
+            guarded: last?.off ?? false,
+            statement: statementOf(fn.body!, range)
+          });
+        });
+    });
+    if (accesses.length === 0) return;
+
+    const { declaration, declarator } = found;
+    shared.push({
+      name: symbol.name,
+      declaration,
+      declarator,
+      volatile: declaration.type.qualifiers.includes('volatile'),
+      size: declarator.pointer > 0 ? board.pointerSize : typeSize(declaration.type, board),
+      handler: writer.handler,
+      accesses
+    });
+  });
+
+  return { handlers, shared };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { LibraryInfo, acceptsArguments, findLibrary, librarySymbols, parseSignature } from './libraryCatalog';
+
+const imported: LibraryInfo = {
+  name: 'My Servo',
+  headers: ['Servo.h'],
+  description: 'A patched copy',
+  classes: [{ name: 'Servo', constructors: ['Servo()'], methods: ['void sweep()'], complete: false }],
+  objects: {},
+  functions: [],
+  constants: []
+};
+
+describe('parseSignature', () => {
+  it('splits the return type, name and parameters', () => {
+    expect(parseSignature('uint8_t attach(int pin, int min = 544, int max = 2400)')).toMatchObject({
+      returns: 'uint8_t',
+      name: 'attach',
+      params: [
+        { type: 'int', name: 'pin', optional: false },
+        { type: 'int', name: 'min', optional: true },
+        { type: 'int', name: 'max', optional: true }
+      ],
+      variadic: false
+    });
+  });
+
+  it('reads constructors, statics, arrays, function pointers and `...`', () => {
+    expect(parseSignature('LiquidCrystal(uint8_t rs, uint8_t enable)')).toMatchObject({ returns: '', name: 'LiquidCrystal' });
+    expect(parseSignature('static uint32_t Color(uint8_t r, uint8_t g, uint8_t b)')).toMatchObject({ returns: 'uint32_t', name: 'Color' });
+    expect(parseSignature('void createChar(uint8_t location, uint8_t charmap[])').params[1]).toMatchObject({ name: 'charmap', optional: false });
+    expect(parseSignature('void onReceive(void (*handler)(int))').params).toEqual([{ type: 'void (*)(int)', name: 'handler', optional: false }]);
+    expect(parseSignature('size_t printf(const char *format, ...)')).toMatchObject({ variadic: true, params: [{ type: 'const char *', name: 'format' }] });
+  });
+});
+
+describe('acceptsArguments', () => {
+  it('counts required, optional and variadic parameters', () => {
+    const attach = parseSignature('uint8_t attach(int pin, int min = 544)');
+    expect([0, 1, 2, 3].map(count => acceptsArguments(attach, count))).toEqual([false, true, true, false]);
+    expect(acceptsArguments(parseSignature('size_t printf(const char *format, ...)'), 5)).toBe(true);
+  });
+});
+
+describe('findLibrary', () => {
+  it('finds a library by header, preferring an imported copy', () => {
+    expect(findLibrary('Servo.h')?.name).toBe('Servo');
+    expect(findLibrary('Servo.h', [imported])).toBe(imported);
+    expect(findLibrary('Nothing.h')).toBeUndefined();
+  });
+
+  it('lists the names a header makes visible', () => {
+    expect(librarySymbols('Servo.h')).toEqual(['Servo', 'MIN_PULSE_WIDTH', 'MAX_PULSE_WIDTH', 'DEFAULT_PULSE_WIDTH', 'MAX_SERVOS']);
+    expect(librarySymbols('Nothing.h')).toBeUndefined();
+  });
+});
@@ -0,0 +1,643 @@
+// An offline catalog of common Arduino libraries: the headers that pull them in,
+// their classes with the signatures of their constructors and methods, the
+// global objects they declare and their constants. Signatures are written the
+// way they read in the library headers and parsed on first use.
+
+export interface LibraryParam {
+  type: string;
+  name: string;
+  // Has a default value
+  optional: boolean;
+}
+
+export interface LibrarySignature {
+  // Empty for constructors
+  returns: string;
+  name: string;
+  params: LibraryParam[];
+  // Ends in `...`, as printf does
+  variadic: boolean;
+  // As written in the catalog
+  text: string;
+}
+
+export interface LibraryClass {
+  name: string;
+  constructors: string[];
+  methods: string[];
+  // False when only the common methods are listed, so a missing one proves nothing
+  complete: boolean;
+}
+
+export interface LibraryInfo {
+  name: string;
+  headers: string[];
+  description: string;
+  classes: LibraryClass[];
+  // Global instances the header declares, by the name of their class
+  objects: Record<string, string>;
+  // Signatures of free functions, and function-like macros as `name(a, b)`
+  functions: string[];
+  constants: string[];
+}
+
+const PRINT_METHODS = [
+  'size_t write(uint8_t value)',
+  'size_t write(const char *text)',
+  'size_t write(const uint8_t *buffer, size_t size)',
+  'size_t print(T value)',
+  'size_t print(T value, int format)',
+  'size_t println()',
+  'size_t println(T value)',
+  'size_t println(T value, int format)',
+  'size_t printf(const char *format, ...)',
+  'int availableForWrite()',
+  'int getWriteError()',
+  'void clearWriteError()',
+  'void flush()'
+];
+
+const STREAM_METHODS = [
+  ...PRINT_METHODS,
+  'int available()',
+  'int read()',
+  'int peek()',
+  'void setTimeout(unsigned long timeout)',
+  'unsigned long getTimeout()',
+  'bool find(const char *target)',
+  'bool find(const char *target, size_t length)',
+  'bool findUntil(const char *target, const char *terminator)',
+  'long parseInt()',
+  'long parseInt(LookaheadMode lookahead, char ignore = NO_IGNORE_CHAR)',
+  'float parseFloat()',
+  'float parseFloat(LookaheadMode lookahead, char ignore = NO_IGNORE_CHAR)',
+  'size_t readBytes(char *buffer, size_t length)',
+  'size_t readBytesUntil(char terminator, char *buffer, size_t length)',
+  'String readString()',
+  'String readStringUntil(char terminator)'
+];
+
+const LCD_METHODS = [
+  ...PRINT_METHODS,
+  'void begin(uint8_t cols, uint8_t rows, uint8_t charsize = LCD_5x8DOTS)',
+  'void clear()',
+  'void home()',
+  'void setCursor(uint8_t col, uint8_t row)',
+  'void noDisplay()',
+  'void display()',
+  'void noCursor()',
+  'void cursor()',
+  'void noBlink()',
+  'void blink()',
+  'void scrollDisplayLeft()',
+  'void scrollDisplayRight()',
+  'void leftToRight()',
+  'void rightToLeft()',
+  'void autoscroll()',
+  'void noAutoscroll()',
+  'void createChar(uint8_t location, uint8_t charmap[])',
+  'void command(uint8_t value)'
+];
+
+// Methods a library class inherits when it derives from one of the core's stream classes
+export const CORE_CLASS_METHODS: Record<string, string[]> = { Print: PRINT_METHODS, Stream: STREAM_METHODS };
+
+const WIFI_LIBRARY: Omit<LibraryInfo, 'name' | 'headers'> = {
+  description: 'Connects an ESP board to a WiFi network or runs it as an access point.',
+  classes: [
+    {
+      name: 'WiFiClass',
+      constructors: [],
+      methods: [
+        'wl_status_t begin(const char *ssid, const char *passphrase = NULL)',
+        'bool disconnect(bool wifioff = false)',
+        'wl_status_t status()',
+        'bool mode(WiFiMode_t mode)',
+        'IPAddress localIP()',
+        'String macAddress()',
+        'String SSID()',
+        'int32_t RSSI()',
+        'int8_t scanNetworks()',
+        'String SSID(uint8_t networkItem)',
+        'int32_t RSSI(uint8_t networkItem)',
+        'bool softAP(const char *ssid, const char *passphrase = NULL)',
+        'IPAddress softAPIP()',
+        'bool setHostname(const char *hostname)',
+        'bool setAutoReconnect(bool autoReconnect)',
+        'bool config(IPAddress local_ip, IPAddress gateway, IPAddress subnet)'
+      ],
+      complete: false
+    },
+    {
+      name: 'WiFiClient',
+      constructors: ['WiFiClient()'],
+      methods: [
+        ...STREAM_METHODS,
+        'int connect(const char *host, uint16_t port)',
+        'int connect(IPAddress ip, uint16_t port)',
+        'uint8_t connected()',
+        'void stop()',
+        'IPAddress remoteIP()'
+      ],
+      complete: false
+    },
+    {
+      name: 'WiFiServer',
+      constructors: ['WiFiServer(uint16_t port)'],
+      methods: ['void begin()', 'WiFiClient available()', 'void stop()', 'bool hasClient()'],
+      complete: false
+    },
+    {
+      name: 'WiFiUDP',
+      constructors: ['WiFiUDP()'],
+      methods: [
+        ...STREAM_METHODS,
+        'uint8_t begin(uint16_t port)',
+        'void stop()',
+        'int beginPacket(const char *host, uint16_t port)',
+        'int beginPacket(IPAddress ip, uint16_t port)',
+        'int endPacket()',
+        'int parsePacket()',
+        'int read(unsigned char *buffer, size_t length)',
+        'IPAddress remoteIP()',
+        'uint16_t remotePort()'
+      ],
+      complete: false
+    }
+  ],
+  objects: { WiFi: 'WiFiClass' },
+  functions: [],
+  constants: [
+    'WL_CONNECTED', 'WL_IDLE_STATUS', 'WL_DISCONNECTED', 'WL_CONNECT_FAILED', 'WL_CONNECTION_LOST', 'WL_NO_SSID_AVAIL',
+    'WIFI_STA', 'WIFI_AP', 'WIFI_AP_STA', 'WIFI_OFF'
+  ]
+};
+
+export const LIBRARY_CATALOG: LibraryInfo[] = [
+  {
+    name: 'Servo',
+    headers: ['Servo.h'],
+    description: 'Drives hobby servo motors from a timer interrupt.',
+    classes: [
+      {
+        name: 'Servo',
+        constructors: ['Servo()'],
+        methods: [
+          'uint8_t attach(int pin)',
+          'uint8_t attach(int pin, int min, int max)',
+          'void detach()',
+          'void write(int value)',
+          'void writeMicroseconds(int value)',
+          'int read()',
+          'int readMicroseconds()',
+          'bool attached()'
+        ],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: ['MIN_PULSE_WIDTH', 'MAX_PULSE_WIDTH', 'DEFAULT_PULSE_WIDTH', 'MAX_SERVOS']
+  },
+  {
+    name: 'Wire',
+    headers: ['Wire.h'],
+    description: 'Talks to I2C devices as a controller or a peripheral.',
+    classes: [
+      {
+        name: 'TwoWire',
+        constructors: [],
+        methods: [
+          ...STREAM_METHODS,
+          'void begin()',
+          'void begin(uint8_t address)',
+          'void begin(int sda, int scl)',
+          'void end()',
+          'void setClock(uint32_t clock)',
+          'void setWireTimeout(uint32_t timeout = 25000, bool resetWithTimeout = false)',
+          'void beginTransmission(uint8_t address)',
+          'uint8_t endTransmission()',
+          'uint8_t endTransmission(bool sendStop)',
+          'uint8_t requestFrom(uint8_t address, uint8_t quantity)',
+          'uint8_t requestFrom(uint8_t address, uint8_t quantity, bool sendStop)',
+          'void onReceive(void (*handler)(int))',
+          'void onRequest(void (*handler)())'
+        ],
+        complete: true
+      }
+    ],
+    objects: { Wire: 'TwoWire' },
+    functions: [],
+    constants: []
+  },
+  {
+    name: 'SPI',
+    headers: ['SPI.h'],
+    description: 'Talks to SPI devices over the hardware SPI bus.',
+    classes: [
+      {
+        name: 'SPIClass',
+        constructors: [],
+        methods: [
+          'void begin()',
+          'void end()',
+          'void beginTransaction(SPISettings settings)',
+          'void endTransaction()',
+          'uint8_t transfer(uint8_t data)',
+          'void transfer(void *buffer, size_t count)',
+          'uint16_t transfer16(uint16_t data)',
+          'void usingInterrupt(uint8_t interruptNumber)',
+          'void setBitOrder(uint8_t bitOrder)',
+          'void setDataMode(uint8_t dataMode)',
+          'void setClockDivider(uint8_t clockDiv)'
+        ],
+        complete: true
+      },
+      {
+        name: 'SPISettings',
+        constructors: ['SPISettings()', 'SPISettings(uint32_t clock, uint8_t bitOrder, uint8_t dataMode)'],
+        methods: [],
+        complete: true
+      }
+    ],
+    objects: { SPI: 'SPIClass' },
+    functions: [],
+    constants: [
+      'SPI_MODE0', 'SPI_MODE1', 'SPI_MODE2', 'SPI_MODE3', 'SPI_CLOCK_DIV2', 'SPI_CLOCK_DIV4', 'SPI_CLOCK_DIV8',
+      'SPI_CLOCK_DIV16', 'SPI_CLOCK_DIV32', 'SPI_CLOCK_DIV64', 'SPI_CLOCK_DIV128'
+    ]
+  },
+  {
+    name: 'EEPROM',
+    headers: ['EEPROM.h'],
+    description: 'Reads and writes the non-volatile EEPROM, or its flash emulation on ESP boards.',
+    classes: [
+      {
+        name: 'EEPROMClass',
+        constructors: [],
+        methods: [
+          'uint8_t read(int address)',
+          'void write(int address, uint8_t value)',
+          'void update(int address, uint8_t value)',
+          'T &get(int address, T &value)',
+          'const T &put(int address, const T &value)',
+          'uint16_t length()',
+          'void begin(size_t size)',
+          'bool commit()',
+          'void end()'
+        ],
+        complete: true
+      }
+    ],
+    objects: { EEPROM: 'EEPROMClass' },
+    functions: [],
+    constants: []
+  },
+  {
+    name: 'LiquidCrystal',
+    headers: ['LiquidCrystal.h'],
+    description: 'Drives character LCDs based on the HD44780 controller over 4 or 8 data lines.',
+    classes: [
+      {
+        name: 'LiquidCrystal',
+        constructors: [
+          'LiquidCrystal(uint8_t rs, uint8_t enable, uint8_t d4, uint8_t d5, uint8_t d6, uint8_t d7)',
+          'LiquidCrystal(uint8_t rs, uint8_t rw, uint8_t enable, uint8_t d4, uint8_t d5, uint8_t d6, uint8_t d7)',
+          'LiquidCrystal(uint8_t rs, uint8_t enable, uint8_t d0, uint8_t d1, uint8_t d2, uint8_t d3, uint8_t d4, uint8_t d5, uint8_t d6, uint8_t d7)',
+          'LiquidCrystal(uint8_t rs, uint8_t rw, uint8_t enable, uint8_t d0, uint8_t d1, uint8_t d2, uint8_t d3, uint8_t d4, uint8_t d5, uint8_t d6, uint8_t d7)'
+        ],
+        methods: LCD_METHODS,
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: ['LCD_5x8DOTS', 'LCD_5x10DOTS']
+  },
+  {
+    name: 'LiquidCrystal I2C',
+    headers: ['LiquidCrystal_I2C.h'],
+    description: 'Drives HD44780 character LCDs through a PCF8574 I2C backpack.',
+    classes: [
+      {
+        name: 'LiquidCrystal_I2C',
+        constructors: ['LiquidCrystal_I2C(uint8_t address, uint8_t cols, uint8_t rows)'],
+        methods: [
+          ...LCD_METHODS,
+          'void init()',
+          'void backlight()',
+          'void noBacklight()',
+          'void setBacklight(uint8_t value)'
+        ],
+        complete: false
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: ['LCD_5x8DOTS', 'LCD_5x10DOTS']
+  },
+  {
+    name: 'SoftwareSerial',
+    headers: ['SoftwareSerial.h'],
+    description: 'Serial communication on any pair of digital pins, bit-banged in software.',
+    classes: [
+      {
+        name: 'SoftwareSerial',
+        constructors: ['SoftwareSerial(uint8_t receivePin, uint8_t transmitPin, bool inverseLogic = false)'],
+        methods: [
+          ...STREAM_METHODS,
+          'void begin(long speed)',
+          'void end()',
+          'bool listen()',
+          'bool isListening()',
+          'bool stopListening()',
+          'bool overflow()'
+        ],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: []
+  },
+  {
+    name: 'Adafruit NeoPixel',
+    headers: ['Adafruit_NeoPixel.h'],
+    description: 'Drives WS2812 and SK6812 addressable RGB and RGBW LEDs.',
+    classes: [
+      {
+        name: 'Adafruit_NeoPixel',
+        constructors: ['Adafruit_NeoPixel()', 'Adafruit_NeoPixel(uint16_t n, int16_t pin = 6, neoPixelType type = NEO_GRB + NEO_KHZ800)'],
+        methods: [
+          'void begin()',
+          'void show()',
+          'bool canShow()',
+          'void setPin(int16_t pin)',
+          'void setPixelColor(uint16_t n, uint8_t r, uint8_t g, uint8_t b)',
+          'void setPixelColor(uint16_t n, uint8_t r, uint8_t g, uint8_t b, uint8_t w)',
+          'void setPixelColor(uint16_t n, uint32_t color)',
+          'void fill(uint32_t color = 0, uint16_t first = 0, uint16_t count = 0)',
+          'void setBrightness(uint8_t brightness)',
+          'uint8_t getBrightness()',
+          'void clear()',
+          'void updateLength(uint16_t n)',
+          'void updateType(neoPixelType type)',
+          'uint16_t numPixels()',
+          'uint32_t getPixelColor(uint16_t n)',
+          'int16_t getPin()',
+          'uint8_t *getPixels()',
+          'void rainbow(uint16_t first_hue = 0, int8_t reps = 1, uint8_t saturation = 255, uint8_t brightness = 255, bool gammify = true)',
+          'static uint32_t Color(uint8_t r, uint8_t g, uint8_t b)',
+          'static uint32_t Color(uint8_t r, uint8_t g, uint8_t b, uint8_t w)',
+          'static uint32_t ColorHSV(uint16_t hue, uint8_t sat = 255, uint8_t val = 255)',
+          'static uint32_t gamma32(uint32_t color)',
+          'static uint8_t gamma8(uint8_t x)',
+          'static uint8_t sine8(uint8_t x)'
+        ],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: [
+      'NEO_RGB', 'NEO_RBG', 'NEO_GRB', 'NEO_GBR', 'NEO_BRG', 'NEO_BGR', 'NEO_RGBW', 'NEO_GRBW', 'NEO_WRGB',
+      'NEO_KHZ800', 'NEO_KHZ400'
+    ]
+  },
+  {
+    name: 'DHT sensor library',
+    headers: ['DHT.h'],
+    description: 'Reads DHT11, DHT21 and DHT22 temperature and humidity sensors.',
+    classes: [
+      {
+        name: 'DHT',
+        constructors: ['DHT(uint8_t pin, uint8_t type, uint8_t count = 6)'],
+        methods: [
+          'void begin(uint8_t usec = 55)',
+          'float readTemperature(bool S = false, bool force = false)',
+          'float readHumidity(bool force = false)',
+          'float convertCtoF(float celsius)',
+          'float convertFtoC(float fahrenheit)',
+          'float computeHeatIndex(bool isFahrenheit = true)',
+          'float computeHeatIndex(float temperature, float percentHumidity, bool isFahrenheit = true)',
+          'bool read(bool force = false)'
+        ],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: ['DHT11', 'DHT12', 'DHT21', 'DHT22', 'AM2301']
+  },
+  {
+    name: 'Stepper',
+    headers: ['Stepper.h'],
+    description: 'Drives unipolar and bipolar stepper motors through an H-bridge.',
+    classes: [
+      {
+        name: 'Stepper',
+        constructors: [
+          'Stepper(int numberOfSteps, int motorPin1, int motorPin2)',
+          'Stepper(int numberOfSteps, int motorPin1, int motorPin2, int motorPin3, int motorPin4)',
+          'Stepper(int numberOfSteps, int motorPin1, int motorPin2, int motorPin3, int motorPin4, int motorPin5)'
+        ],
+        methods: ['void setSpeed(long whatSpeed)', 'void step(int numberOfSteps)', 'int version()'],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: []
+  },
+  {
+    name: 'SD',
+    headers: ['SD.h'],
+    description: 'Reads and writes files on SD cards over SPI.',
+    classes: [
+      {
+        name: 'SDClass',
+        constructors: [],
+        methods: [
+          'bool begin(uint8_t csPin = SS)',
+          'bool begin(uint32_t clock, uint8_t csPin)',
+          'void end()',
+          'File open(const char *filepath, uint8_t mode = FILE_READ)',
+          'bool exists(const char *filepath)',
+          'bool mkdir(const char *filepath)',
+          'bool remove(const char *filepath)',
+          'bool rmdir(const char *filepath)'
+        ],
+        complete: true
+      },
+      {
+        name: 'File',
+        constructors: ['File()'],
+        methods: [
+          ...STREAM_METHODS,
+          'int read(void *buffer, uint16_t length)',
+          'bool seek(uint32_t pos)',
+          'uint32_t position()',
+          'uint32_t size()',
+          'void close()',
+          'char *name()',
+          'bool isDirectory()',
+          'File openNextFile(uint8_t mode = O_RDONLY)',
+          'void rewindDirectory()'
+        ],
+        complete: true
+      }
+    ],
+    objects: { SD: 'SDClass' },
+    functions: [],
+    constants: ['FILE_READ', 'FILE_WRITE', 'O_RDONLY']
+  },
+  {
+    name: 'OneWire',
+    headers: ['OneWire.h'],
+    description: 'Talks to Dallas/Maxim 1-Wire devices such as the DS18B20.',
+    classes: [
+      {
+        name: 'OneWire',
+        constructors: ['OneWire()', 'OneWire(uint8_t pin)'],
+        methods: [
+          'void begin(uint8_t pin)',
+          'uint8_t reset()',
+          'void select(const uint8_t rom[8])',
+          'void skip()',
+          'void write(uint8_t value, uint8_t power = 0)',
+          'void write_bytes(const uint8_t *buffer, uint16_t count, bool power = 0)',
+          'uint8_t read()',
+          'void read_bytes(uint8_t *buffer, uint16_t count)',
+          'void depower()',
+          'void reset_search()',
+          'void target_search(uint8_t family_code)',
+          'bool search(uint8_t *newAddr, bool search_mode = true)',
+          'static uint8_t crc8(const uint8_t *addr, uint8_t len)'
+        ],
+        complete: true
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: []
+  },
+  {
+    name: 'DallasTemperature',
+    headers: ['DallasTemperature.h'],
+    description: 'Reads DS18B20 and other Dallas temperature sensors on a 1-Wire bus.',
+    classes: [
+      {
+        name: 'DallasTemperature',
+        constructors: ['DallasTemperature()', 'DallasTemperature(OneWire *oneWire)'],
+        methods: [
+          'void begin()',
+          'void setOneWire(OneWire *oneWire)',
+          'uint8_t getDeviceCount()',
+          'bool getAddress(uint8_t *deviceAddress, uint8_t index)',
+          'bool isConnected(const uint8_t *deviceAddress)',
+          'uint8_t getResolution()',
+          'bool setResolution(uint8_t newResolution)',
+          'bool setResolution(const uint8_t *deviceAddress, uint8_t newResolution)',
+          'void setWaitForConversion(bool flag)',
+          'bool isConversionComplete()',
+          'void requestTemperatures()',
+          'bool requestTemperaturesByIndex(uint8_t index)',
+          'float getTempC(const uint8_t *deviceAddress)',
+          'float getTempF(const uint8_t *deviceAddress)',
+          'float getTempCByIndex(uint8_t index)',
+          'float getTempFByIndex(uint8_t index)'
+        ],
+        complete: false
+      }
+    ],
+    objects: {},
+    functions: [],
+    constants: ['DEVICE_DISCONNECTED_C', 'DEVICE_DISCONNECTED_F']
+  },
+  { name: 'WiFi', headers: ['WiFi.h'], ...WIFI_LIBRARY },
+  { name: 'ESP8266WiFi', headers: ['ESP8266WiFi.h'], ...WIFI_LIBRARY }
+];
+
+const signatures = new Map<string, LibrarySignature>();
+
+// `imported` are the libraries the user imported, indexed from their headers.
+// They are looked up before the built-in ones, so an imported copy replaces a
+// bundled library.
+export function allLibraries(imported: LibraryInfo[] = []): LibraryInfo[] {
+  return [...imported, ...LIBRARY_CATALOG];
+}
+
+export function findLibrary(header: string, imported: LibraryInfo[] = []): LibraryInfo | undefined {
+  return allLibraries(imported).find(library => library.headers.includes(header));
+}
+
+// Names a header makes visible, for the symbol table
+export function librarySymbols(header: string, imported: LibraryInfo[] = []): string[] | undefined {
+  const library = findLibrary(header, imported);
+  if (!library) return undefined;
+  return [
+    ...library.classes.map(c => c.name),
+    ...Object.keys(library.objects),
+    ...library.functions.map(text => parseSignature(text).name),
+    ...library.constants
+  ];
+}
+
+export function methodSignatures(cls: LibraryClass, name: string): LibrarySignature[] {
+  return cls.methods.map(parseSignature).filter(signature => signature.name === name);
+}
+
+export function parseSignature(text: string): LibrarySignature {
+  const cached = signatures.get(text);
+  if (cached) return cached;
+
+  const open = text.indexOf('(');
+  const head = text.slice(0, open).trim().replace(/^static\s+/, '');
+  const name = /([A-Za-z_]\w*)$/.exec(head)?.[1] ?? head;
+  const returns = head.slice(0, head.length - name.length).trim();
+  const list = text.slice(open + 1, text.lastIndexOf(')'));
+
+  const params: LibraryParam[] = [];
+  let variadic = false;
+  splitTopLevel(list).forEach(part => {
+    if (part === '...') {
+      variadic = true;
+      return;
+    }
+    const [declaration, defaultValue] = part.split('=').map(s => s.trim());
+    // `void (*handler)(int)` names its parameter inside the parentheses
+    const pointer = /\(\s*\*\s*(\w+)\s*\)/.exec(declaration);
+    const plain = /(\w+)(\[\d*\])?$/.exec(declaration);
+    const type = pointer
+      ? declaration.replace(pointer[0], '(*)')
+      : declaration.slice(0, plain?.index ?? declaration.length) + (plain?.[2] ?? '');
+    params.push({ type: type.trim(), name: pointer?.[1] ?? plain?.[1] ?? '', optional: defaultValue !== undefined });
+  });
+
+  const signature = { returns, name, params, variadic, text };
+  signatures.set(text, signature);
+  return signature;
+}
+
+export function acceptsArguments(signature: LibrarySignature, count: number): boolean {
+  const required = signature.params.filter(p => !p.optional).length;
+  return count >= required && (signature.variadic || count <= signature.params.length);
+}
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of list) {
+    if (ch === '(' || ch === '[') depth++;
+    if (ch === ')' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
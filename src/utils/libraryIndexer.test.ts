@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ImportedLibrary } from '../types';
+import { Analyzer } from './analyzer';
+import { getBoard } from './boards';
+import { indexLibrary, unpackLibrary } from './libraryIndexer';
+import { libraryCompletions } from './libraryUsage';
+
+const encoder = new TextEncoder();
+const entry = (name: string, content: string) => ({ name, data: encoder.encode(content) });
+
+const HEADER = `#pragma once
+#include <Arduino.h>
+#define GIZMO_MAX 10
+class Gizmo {
+ public:
+  Gizmo(int pin);
+  void spin(int speed);
+ private:
+  void secret();
+};
+extern Gizmo defaultGizmo;
+`;
+
+function gizmo(): ImportedLibrary {
+  const unpacked = unpackLibrary([
+    entry('Gizmo-1.2.0/library.properties', 'name=Gizmo\nversion=1.2.0\nsentence=Spins things.\n'),
+    entry('Gizmo-1.2.0/src/Gizmo.h', HEADER),
+    entry('Gizmo-1.2.0/src/Gizmo.cpp', '#include "Gizmo.h"\n'),
+    entry('Gizmo-1.2.0/examples/Spin/Spin.ino', 'void setup() {}\n')
+  ], 'Gizmo-1.2.0.zip');
+  return { ...unpacked, id: 'gizmo', projectId: null, importedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('unpackLibrary', () => {
+  it('takes the sources from src/ and the details from library.properties', () => {
+    const library = gizmo();
+    expect(library).toMatchObject({ name: 'Gizmo', version: '1.2.0', description: 'Spins things.' });
+    expect(library.files.map(f => f.name)).toEqual(['Gizmo.h', 'Gizmo.cpp']);
+  });
+
+  it('rejects an archive without headers', () => {
+    expect(() => unpackLibrary([entry('readme.txt', 'hi')], 'x.zip')).toThrow('No header files found');
+  });
+});
+
+describe('indexLibrary', () => {
+  it('lists the public members, global objects and macros of the headers', () => {
+    const info = indexLibrary(gizmo(), getBoard('uno'));
+    expect(info.headers).toEqual(['Gizmo.h']);
+    expect(info.classes[0]).toMatchObject({ name: 'Gizmo', constructors: ['Gizmo(int pin)'], methods: ['void spin(int speed)'] });
+    expect(info.objects).toEqual({ defaultGizmo: 'Gizmo' });
+    expect(info.constants).toContain('GIZMO_MAX');
+  });
+
+  it('reaches the analyzer and completion through their options', () => {
+    const libraries = [indexLibrary(gizmo(), getBoard('uno'))];
+    const code = '#include <Gizmo.h>\nGizmo g(3);\nvoid setup() { g.spin(); }\nvoid loop() {}\n';
+    const ruleIds = (options: Parameters<typeof Analyzer.analyze>[1]) => Analyzer.analyze(code, { boardId: 'uno', ...options }).map(e => e.ruleId);
+
+    expect(ruleIds({})).toContain('unknown-library');
+    expect(ruleIds({ libraries })).toEqual(['library-arguments']);
+    expect(libraryCompletions(code, '  g.', libraries).items.map(i => i.label)).toEqual(['spin']);
+    expect(libraryCompletions(code, '  g.').items).toEqual([]);
+  });
+});
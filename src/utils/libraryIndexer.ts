@@ -0,0 +1,216 @@
+import { ImportedLibrary } from '../types';
+import { BoardProfile } from './boards';
+import { Declaration, FunctionDeclaration, Parameter, SourceRange, StructDeclaration } from './cppAst';
+import { CppLexer } from './cppLexer';
+import { CppParser } from './cppParser';
+import { CORE_CLASS_METHODS, LibraryClass, LibraryInfo } from './libraryCatalog';
+import { Preprocessor } from './preprocessor';
+import type { ZipEntry } from './zipArchive';
+
+export type UnpackedLibrary = Pick<ImportedLibrary, 'name' | 'version' | 'description' | 'files'>;
+
+const SOURCE_FILE = /\.(h|hpp|c|cpp)$/i;
+const HEADER_FILE = /\.(h|hpp)$/i;
+// Folders of the 1.0 layout that are not part of the library's code
+const NON_SOURCE_FOLDERS = /^(examples|extras|test|tests|docs)\//i;
+
+// Finds the library inside an archive from the Arduino Library Manager or GitHub:
+// library.properties and src/ in a top-level folder, or the old flat layout with
+// the sources next to library.properties
+export function unpackLibrary(entries: ZipEntry[], archiveName: string): UnpackedLibrary {
+  const decoder = new TextDecoder();
+  const propertiesEntry = entries
+    .filter(entry => entry.name.split('/').pop() === 'library.properties')
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+  const topFolders = new Set(entries.map(entry => entry.name.split('/')[0]));
+  const root = propertiesEntry
+    ? propertiesEntry.name.slice(0, propertiesEntry.name.length - 'library.properties'.length)
+    : topFolders.size === 1 && entries.every(entry => entry.name.includes('/')) ? `${[...topFolders][0]}/` : '';
+
+  const inRoot = entries.filter(entry => entry.name.startsWith(root)).map(entry => ({ ...entry, name: entry.name.slice(root.length) }));
+  const hasSrc = inRoot.some(entry => entry.name.startsWith('src/') && SOURCE_FILE.test(entry.name));
+  const files = inRoot
+    .filter(entry => SOURCE_FILE.test(entry.name) && (hasSrc ? entry.name.startsWith('src/') : !NON_SOURCE_FOLDERS.test(entry.name)))
+    .map(entry => ({ name: hasSrc ? entry.name.slice('src/'.length) : entry.name, content: decoder.decode(entry.data) }));
+  if (!files.some(file => HEADER_FILE.test(file.name))) {
+    throw new Error('No header files found; is this an Arduino library?');
+  }
+
+  const properties = new Map<string, string>();
+  if (propertiesEntry) {
+    decoder.decode(propertiesEntry.data).split(/\r?\n/).forEach(line => {
+      const match = /^\s*([\w.]+)\s*=(.*)$/.exec(line);
+      if (match) properties.set(match[1], match[2].trim());
+    });
+  }
+
+  return {
+    name: properties.get('name') || root.replace(/\/$/, '') || archiveName.replace(/\.zip$/i, ''),
+    version: properties.get('version') ?? '',
+    description: properties.get('sentence') ?? '',
+    files
+  };
+}
+
+const cache = new Map<string, LibraryInfo>();
+
+// Reads the declarations of an imported library's headers into the same shape
+// as the built-in catalog, so includes, signature checks and completion treat
+// both alike. Only public members are listed.
+export function indexLibrary(library: ImportedLibrary, board: BoardProfile): LibraryInfo {
+  const key = `${library.id}:${library.importedAt}:${board.id}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const info: LibraryInfo = {
+    name: library.name,
+    headers: library.files.filter(file => HEADER_FILE.test(file.name)).map(file => file.name),
+    description: library.description,
+    classes: [],
+    objects: {},
+    functions: [],
+    constants: []
+  };
+  const bases = new Map<LibraryClass, string[]>();
+
+  library.files.filter(file => HEADER_FILE.test(file.name)).forEach(file => {
+    const lines = file.content.split('\n');
+    const { tokens, macros } = Preprocessor.process(file.content, { board, fileName: file.name });
+    const { ast } = CppParser.parse(tokens);
+    const access = accessLabels(file.content);
+
+    macros.forEach(macro => {
+      // Include guards and other empty markers declare nothing
+      if (macro.line === null || macro.body.length === 0) return;
+      if (macro.params) {
+        info.functions.push(`${macro.name}(${[...macro.params, ...(macro.variadic ? ['...'] : [])].join(', ')})`);
+      } else {
+        info.constants.push(macro.name);
+      }
+    });
+
+    const visit = (declarations: Declaration[]) => declarations.forEach(decl => {
+      switch (decl.kind) {
+        case 'NamespaceDeclaration':
+          visit(decl.body);
+          break;
+        case 'StructDeclaration':
+          if (decl.name && decl.members.length > 0) {
+            const cls = indexClass(decl, lines, access);
+            info.classes.push(cls);
+            bases.set(cls, decl.bases);
+          }
+          break;
+        case 'FunctionDeclaration':
+          if (decl.className === null && !decl.name.startsWith('operator')) info.functions.push(signatureText(decl, lines));
+          break;
+        case 'VariableDeclaration':
+          decl.declarators.forEach(d => {
+            if (decl.type.qualifiers.includes('extern')) {
+              info.objects[d.name] = decl.type.name;
+            } else if (decl.type.qualifiers.some(q => q === 'const' || q === 'constexpr')) {
+              info.constants.push(d.name);
+            }
+          });
+          break;
+        case 'EnumDeclaration':
+          if (!decl.scoped) decl.enumerators.forEach(e => info.constants.push(e.name));
+          break;
+      }
+    });
+    visit(ast.body);
+  });
+
+  // Inherited methods come from base classes of the library itself or from Print and
+  // Stream; a class with any other base may have members we cannot list
+  const inherit = (cls: LibraryClass, seen: Set<LibraryClass>) => {
+    if (seen.has(cls)) return;
+    seen.add(cls);
+    (bases.get(cls) ?? []).forEach(baseName => {
+      const base = info.classes.find(c => c.name === baseName);
+      if (base) {
+        inherit(base, seen);
+        cls.methods.push(...base.methods);
+        cls.complete = cls.complete && base.complete;
+      } else if (CORE_CLASS_METHODS[baseName]) {
+        cls.methods.push(...CORE_CLASS_METHODS[baseName]);
+      } else {
+        cls.complete = false;
+      }
+    });
+  };
+  info.classes.forEach(cls => inherit(cls, new Set()));
+
+  cache.set(key, info);
+  return info;
+}
+
+interface AccessLabel {
+  line: number;
+  column: number;
+  access: string;
+}
+
+// `public:` and friends, which the parser skips over
+function accessLabels(content: string): AccessLabel[] {
+  const tokens = CppLexer.significant(CppLexer.tokenize(content).tokens);
+  return tokens.flatMap((token, i) =>
+    ['public', 'private', 'protected'].includes(token.value) && tokens[i + 1]?.value === ':'
+      ? [{ line: token.line, column: token.column, access: token.value }]
+      : []
+  );
+}
+
+function before(label: AccessLabel, range: SourceRange): boolean {
+  return label.line < range.line || (label.line === range.line && label.column < range.column);
+}
+
+function indexClass(decl: StructDeclaration, lines: string[], labels: AccessLabel[]): LibraryClass {
+  const name = decl.name ?? '';
+  const own = labels.filter(label => !before(label, decl.range) && before(label, { ...decl.range, line: decl.range.endLine, column: decl.range.endColumn }));
+  const accessOf = (range: SourceRange) =>
+    [...own].reverse().find(label => before(label, range))?.access ?? (decl.keyword === 'class' ? 'private' : 'public');
+
+  const cls: LibraryClass = { name, constructors: [], methods: [], complete: true };
+  decl.members.forEach(member => {
+    if (member.kind !== 'FunctionDeclaration' || accessOf(member.range) !== 'public') return;
+    if (member.name.startsWith('~') || member.name.startsWith('operator')) return;
+    if (member.name === name) {
+      cls.constructors.push(signatureText(member, lines));
+    } else {
+      cls.methods.push(signatureText(member, lines));
+    }
+  });
+  // A class that declares no constructor still has the implicit default one
+  if (cls.constructors.length === 0) cls.constructors.push(`${name}()`);
+  return cls;
+}
+
+function signatureText(fn: FunctionDeclaration, lines: string[]): string {
+  const params = fn.params.map(param => paramText(param, lines));
+  if (fn.variadic) params.push('...');
+  const head = fn.returnType
+    ? `${fn.returnType.qualifiers.includes('static') ? 'static ' : ''}${typeText(fn.returnType.qualifiers, fn.returnType.name, fn.returnType.templateArgs)} ` +
+      `${'*'.repeat(fn.returnPointer)}${fn.returnReference ? '&' : ''}`
+    : '';
+  return `${head}${fn.name}(${params.join(', ')})`;
+}
+
+function paramText(param: Parameter, lines: string[]): string {
+  const declarator = `${'*'.repeat(param.pointer)}${param.reference ? '&' : ''}${param.name ?? ''}${param.arrayDims.map(() => '[]').join('')}`;
+  const text = `${typeText(param.type.qualifiers, param.type.name, param.type.templateArgs)} ${declarator}`.trim();
+  return param.defaultValue ? `${text} = ${sourceText(lines, param.defaultValue.range)}` : text;
+}
+
+function typeText(qualifiers: string[], name: string, templateArgs: string | undefined): string {
+  return `${qualifiers.includes('const') ? 'const ' : ''}${name}${templateArgs ? `<${templateArgs}>` : ''}`;
+}
+
+function sourceText(lines: string[], range: SourceRange): string {
+  if (range.line === range.endLine) return lines[range.line - 1]?.slice(range.column - 1, range.endColumn - 1) ?? '';
+  return [
+    lines[range.line - 1]?.slice(range.column - 1),
+    ...lines.slice(range.line, range.endLine - 1),
+    lines[range.endLine - 1]?.slice(0, range.endColumn - 1)
+  ].join(' ').replace(/\s+/g, ' ').trim();
+}
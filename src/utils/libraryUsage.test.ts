@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CppParser } from './cppParser';
+import { analyzeLibraries, libraryCompletions } from './libraryUsage';
+
+function calls(code: string) {
+  const { ast, tokens } = CppParser.parseSource(code);
+  return analyzeLibraries(ast, tokens).calls.map(call => `${call.object}.${call.method ?? '<init>'}/${call.argumentCount} ${call.overloads.length}`);
+}
+
+describe('analyzeLibraries', () => {
+  it('finds the includes and the library they belong to', () => {
+    const { tokens, ast } = CppParser.parseSource('#include <Servo.h>\n#include "config.h"\nvoid setup() {}\n');
+    expect(analyzeLibraries(ast, tokens).includes.map(i => [i.header, i.library?.name ?? null, i.angled, i.range.column])).toEqual([
+      ['Servo.h', 'Servo', true, 11],
+      ['config.h', null, false, 11]
+    ]);
+  });
+
+  it('finds constructors and method calls on library objects, arrays, pointers and parameters', () => {
+    const code = `#include <Servo.h>
+Servo arm;
+Servo legs[4];
+Servo *spare;
+void park(Servo &s) { s.write(90); }
+void setup() {
+  arm.attach(9, 1000, 2000);
+  legs[0].atach(3);
+  spare->detach();
+}
+`;
+    expect(calls(code)).toEqual(['arm.<init>/0 1', 's.write/1 1', 'arm.attach/3 2', 'legs.atach/1 0', 'spare.detach/0 1']);
+  });
+
+  it('finds global objects, static methods and free functions', () => {
+    const code = '#include <Wire.h>\n#include <Adafruit_NeoPixel.h>\nvoid setup() {\n  Wire.begin();\n  uint32_t c = Adafruit_NeoPixel::Color(1, 2, 3);\n}\n';
+    expect(calls(code)).toEqual(['Wire.begin/0 3', 'Adafruit_NeoPixel.Color/3 2']);
+  });
+
+  it('leaves the sketch\'s own classes and functions of the same name alone', () => {
+    expect(calls('#include <Servo.h>\nstruct Servo { void attach(int p); };\nServo arm;\nvoid setup() { arm.attach(1, 2, 3, 4); }\n')).toEqual([]);
+  });
+});
+
+describe('libraryCompletions', () => {
+  it('completes headers in an #include', () => {
+    const { items, exclusive } = libraryCompletions('', '#include <Ser');
+    expect(exclusive).toBe(true);
+    expect(items.map(i => i.label)).toContain('Servo.h');
+  });
+
+  it('completes the methods of a library object with snippets of the required parameters', () => {
+    const code = '#include <Servo.h>\nServo arm;\nvoid setup() {\n  arm.\n}\n';
+    const { items, exclusive } = libraryCompletions(code, '  arm.');
+    expect(exclusive).toBe(true);
+    expect(items.find(i => i.label === 'attach')).toEqual({
+      label: 'attach',
+      kind: 'method',
+      detail: 'uint8_t attach(int pin)',
+      insertText: 'attach(${1:pin})',
+      snippet: true
+    });
+  });
+
+  it('offers the classes and constants of the included libraries', () => {
+    const { items, exclusive } = libraryCompletions('#include <Servo.h>\n', 'Ser');
+    expect(exclusive).toBe(false);
+    expect(items.map(i => `${i.kind} ${i.label}`)).toEqual(expect.arrayContaining(['class Servo', 'constant MAX_SERVOS']));
+  });
+});
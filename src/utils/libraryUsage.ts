@@ -0,0 +1,199 @@
+import { SourceRange, TranslationUnit, walk } from './cppAst';
+import { CppLexer, Token } from './cppLexer';
+import { LibraryClass, LibraryInfo, LibrarySignature, allLibraries, findLibrary, methodSignatures, parseSignature } from './libraryCatalog';
+
+export interface LibraryInclude {
+  header: string;
+  // The header name inside the directive, without its brackets
+  range: SourceRange;
+  library: LibraryInfo | null;
+  // `#include <...>`; a quoted include only gets here when no project file matched it
+  angled: boolean;
+}
+
+export interface LibraryCall {
+  // The object as written, e.g. 'myServo', the declared variable for constructors,
+  // or '' for free functions
+  object: string;
+  cls: LibraryClass | null;
+  // Null for a constructor
+  method: string | null;
+  // The method name, or the name of the variable being constructed
+  nameRange: SourceRange;
+  argumentCount: number;
+  // What the call can resolve to; empty when the class has no member of that name
+  overloads: LibrarySignature[];
+}
+
+export interface LibraryAnalysis {
+  includes: LibraryInclude[];
+  calls: LibraryCall[];
+}
+
+export interface LibraryCompletion {
+  label: string;
+  kind: 'method' | 'function' | 'class' | 'object' | 'constant' | 'header';
+  detail: string;
+  insertText: string;
+  // insertText has ${1:placeholders}
+  snippet: boolean;
+}
+
+export function libraryIncludes(tokens: Token[], imported: LibraryInfo[] = []): LibraryInclude[] {
+  return tokens.flatMap(token => {
+    if (token.kind !== 'preprocessor') return [];
+    const match = /^#\s*include\s*([<"])([^>"]+)[>"]/.exec(token.value);
+    if (!match) return [];
+    const header = match[2].trim();
+    const column = token.column + match[0].lastIndexOf(header);
+    return [{
+      header,
+      range: { line: token.line, column, endLine: token.line, endColumn: column + header.length },
+      library: findLibrary(header, imported) ?? null,
+      angled: match[1] === '<'
+    }];
+  });
+}
+
+interface VisibleNames {
+  classes: Map<string, LibraryClass>;
+  objects: Map<string, LibraryClass>;
+  functions: Map<string, LibrarySignature[]>;
+}
+
+// Classes, global objects and free functions of the included libraries, by name
+function visibleNames(includes: LibraryInclude[]): VisibleNames {
+  const classes = new Map<string, LibraryClass>();
+  const objects = new Map<string, LibraryClass>();
+  const functions = new Map<string, LibrarySignature[]>();
+  includes.forEach(({ library }) => library?.classes.forEach(cls => classes.set(cls.name, cls)));
+  includes.forEach(({ library }) => library?.functions.forEach(text => {
+    const signature = parseSignature(text);
+    functions.set(signature.name, [...(functions.get(signature.name) ?? []), signature]);
+  }));
+  includes.forEach(({ library }) => {
+    Object.entries(library?.objects ?? {}).forEach(([name, className]) => {
+      const cls = classes.get(className);
+      if (cls) objects.set(name, cls);
+    });
+  });
+  return { classes, objects, functions };
+}
+
+// Calls into the classes and functions of libraries the sketch includes, so
+// rules can hold them against the signatures in the catalog
+export function analyzeLibraries(ast: TranslationUnit, tokens: Token[], imported: LibraryInfo[] = []): LibraryAnalysis {
+  const includes = libraryIncludes(tokens, imported);
+  const { classes, objects, functions } = visibleNames(includes);
+  const calls: LibraryCall[] = [];
+  if (classes.size === 0 && functions.size === 0) return { includes, calls };
+
+  // A class or function of the sketch's own that happens to share a library's name is not the library's
+  walk(ast, node => {
+    if (node.kind === 'StructDeclaration' && node.name) classes.delete(node.name);
+    if (node.kind === 'FunctionDeclaration' && node.className === null) functions.delete(node.name);
+  });
+
+  // Scopes are not tracked; a name declared with two different types is left alone
+  const types = new Map<string, LibraryClass | null>(objects);
+  const declare = (name: string, type: string) => {
+    const cls = classes.get(type) ?? null;
+    types.set(name, types.has(name) && types.get(name) !== cls ? null : cls);
+  };
+
+  walk(ast, (node, parent) => {
+    if (node.kind === 'Parameter' && node.name) declare(node.name, node.type.name);
+    if (node.kind !== 'VariableDeclaration') return;
+    const cls = classes.get(node.type.name);
+    node.declarators.forEach(d => {
+      declare(d.name, node.type.name);
+      // Members are built by their class's constructor, pointers and references not at all
+      const constructed = parent?.kind !== 'StructDeclaration' && !node.type.qualifiers.includes('extern') &&
+        d.pointer === 0 && !d.reference && d.arrayDims.length === 0 && !d.init;
+      if (cls && constructed) {
+        const overloads = cls.constructors.map(parseSignature);
+        calls.push({ object: d.name, cls, method: null, nameRange: d.nameRange, argumentCount: d.ctorArgs?.length ?? 0, overloads });
+      }
+    });
+  });
+
+  walk(ast, node => {
+    if (node.kind !== 'CallExpression') return;
+    const { callee } = node;
+    const argumentCount = node.arguments.length;
+    if (callee.kind === 'Identifier' && callee.name.includes('::')) {
+      // Static methods such as Adafruit_NeoPixel::Color(r, g, b)
+      const [className, method] = callee.name.split('::');
+      const cls = classes.get(className);
+      if (cls) calls.push({ object: className, cls, method, nameRange: callee.range, argumentCount, overloads: methodSignatures(cls, method) });
+      return;
+    }
+    if (callee.kind === 'Identifier') {
+      const overloads = functions.get(callee.name);
+      if (overloads) calls.push({ object: '', cls: null, method: callee.name, nameRange: callee.range, argumentCount, overloads });
+      return;
+    }
+    if (callee.kind !== 'MemberExpression') return;
+    // `servos[i].attach(pin)` calls the element's method
+    const object = callee.object.kind === 'IndexExpression' ? callee.object.object : callee.object;
+    const cls = object.kind === 'Identifier' ? types.get(object.name) : null;
+    if (cls && object.kind === 'Identifier') {
+      const overloads = methodSignatures(cls, callee.property);
+      calls.push({ object: object.name, cls, method: callee.property, nameRange: callee.propertyRange, argumentCount, overloads });
+    }
+  });
+
+  return { includes, calls };
+}
+
+// Suggestions for the text before the cursor. They come from the tokens alone,
+// since a sketch being typed rarely parses. `exclusive` is set after `object.`
+// and in an #include, where the general suggestions do not fit.
+export function libraryCompletions(code: string, linePrefix: string, imported: LibraryInfo[] = []): { items: LibraryCompletion[]; exclusive: boolean } {
+  if (/^\s*#\s*include\s*[<"][\w/.]*$/.test(linePrefix)) {
+    const items = allLibraries(imported).flatMap(library =>
+      library.headers.map(header => ({ label: header, kind: 'header' as const, detail: library.description, insertText: header, snippet: false }))
+    );
+    return { items, exclusive: true };
+  }
+
+  const tokens = CppLexer.tokenize(code).tokens;
+  const includes = libraryIncludes(tokens, imported);
+  const { classes, objects } = visibleNames(includes);
+
+  const member = /([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*(?:\.|->)\s*\w*$/.exec(linePrefix);
+  const scoped = /([A-Za-z_]\w*)::\w*$/.exec(linePrefix);
+  if (member || scoped) {
+    const cls = member ? objects.get(member[1]) ?? declaredClass(CppLexer.significant(tokens), member[1], classes) : classes.get(scoped?.[1] ?? '');
+    const methods = (cls?.methods ?? []).filter(text => member || text.startsWith('static '));
+    return { items: methods.map(text => callCompletion(parseSignature(text), 'method')), exclusive: true };
+  }
+
+  const items: LibraryCompletion[] = [];
+  includes.forEach(({ library }) => {
+    if (!library) return;
+    library.classes.forEach(cls => items.push({ label: cls.name, kind: 'class', detail: library.name, insertText: cls.name, snippet: false }));
+    Object.entries(library.objects).forEach(([name, cls]) => items.push({ label: name, kind: 'object', detail: cls, insertText: name, snippet: false }));
+    library.functions.forEach(text => items.push(callCompletion(parseSignature(text), 'function')));
+    library.constants.forEach(name => items.push({ label: name, kind: 'constant', detail: library.name, insertText: name, snippet: false }));
+  });
+  return { items, exclusive: false };
+}
+
+// The library class in `Servo myServo;` or `Servo *servos[4];` for 'myServo' / 'servos'
+function declaredClass(tokens: Token[], name: string, classes: Map<string, LibraryClass>): LibraryClass | undefined {
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].kind !== 'identifier' || tokens[i].value !== name) continue;
+    let j = i - 1;
+    while (j > 0 && (tokens[j].value === '*' || tokens[j].value === '&')) j--;
+    const cls = tokens[j].kind === 'identifier' ? classes.get(tokens[j].value) : undefined;
+    if (cls) return cls;
+  }
+  return undefined;
+}
+
+function callCompletion(signature: LibrarySignature, kind: 'method' | 'function'): LibraryCompletion {
+  const required = signature.params.filter(param => !param.optional);
+  const args = required.map((param, i) => `\${${i + 1}:${param.name}}`).join(', ');
+  return { label: signature.name, kind, detail: signature.text, insertText: `${signature.name}(${args})`, snippet: true };
+}
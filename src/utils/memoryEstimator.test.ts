@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from './analyzer';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { MemoryEstimator } from './memoryEstimator';
+
+function globals(code: string, boardId = 'uno') {
+  const { ast } = CppParser.parseSource(code);
+  return MemoryEstimator.estimate(ast, getBoard(boardId)).contributors!.filter(c => c.category === 'global');
+}
+
+describe('MemoryEstimator', () => {
+  it('counts globals in SRAM and their initial values in flash', () => {
+    expect(globals('int table[100] = {1};\nlong count;\n')).toMatchObject([
+      { name: 'table', sramBytes: 200, flashBytes: 200 },
+      { name: 'count', sramBytes: 4, flashBytes: 0 }
+    ]);
+  });
+
+  it('keeps PROGMEM data in flash only', () => {
+    const sources = [
+      'const char big[1600] PROGMEM = "x";',
+      'const PROGMEM char big[1600] = "x";',
+      'const char big[1600] __attribute__((section(".progmem.data"))) = "x";'
+    ];
+    sources.forEach(source => expect(globals(source), source).toMatchObject([{ name: 'big', sramBytes: 0, flashBytes: 1600 }]));
+  });
+
+  it('keeps const tables in flash only on ESP boards', () => {
+    expect(globals('const int table[100] = {1};', 'esp32')[0].sramBytes).toBe(0);
+    expect(globals('const int table[100] = {1};', 'uno')[0].sramBytes).toBe(200);
+  });
+
+  it('does not warn about low memory for a large PROGMEM table', () => {
+    const code = 'const char big[1600] PROGMEM = "x";\nvoid setup() { Serial.begin(9600); Serial.println(big[0]); }\nvoid loop() {}\n';
+    expect(Analyzer.analyze(code, { boardId: 'uno' }).map(e => e.ruleId)).not.toContain('low-memory');
+  });
+});
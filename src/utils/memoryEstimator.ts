@@ -0,0 +1,226 @@
+import { SourceLocation } from '../types';
+import { Declaration, Expression, TranslationUnit, TypeSpec, VariableDeclarator, walk } from './cppAst';
+import { BoardProfile } from './boards';
+
+export type SizeCategory = 'core' | 'library' | 'global' | 'heap' | 'string' | 'code';
+
+export interface SizeContributor {
+  name: string;
+  category: SizeCategory;
+  flashBytes: number;
+  sramBytes: number;
+  // Where the symbol is declared; the core and libraries have no location
+  location?: SourceLocation;
+}
+
+export interface MemoryEstimate {
+  flashBytes: number;
+  sramBytes: number;
+  // What the totals are made of, largest SRAM users first; only estimates have these
+  contributors?: SizeContributor[];
+}
+
+// avr-libc's malloc keeps the block size in front of every allocation
+const MALLOC_OVERHEAD = 2;
+
+// Matches the threshold at which the Arduino IDE starts warning about stack space
+export const LOW_MEMORY_RATIO = 0.75;
+
+export interface SizeUsage {
+  used: number;
+  max: number;
+  ratio: number;
+}
+
+// Real builds report their own maximums; estimates use the board profile
+export function sizeUsage(
+  size: MemoryEstimate & { maxFlashBytes?: number; maxSramBytes?: number },
+  board: BoardProfile
+): { flash: SizeUsage; sram: SizeUsage } {
+  const usage = (used: number, max: number) => ({ used, max, ratio: used / max });
+  return {
+    flash: usage(size.flashBytes, size.maxFlashBytes ?? board.flashBytes),
+    sram: usage(size.sramBytes, size.maxSramBytes ?? board.sramBytes)
+  };
+}
+
+// Rough cost of one AST node of function code once compiled; good enough to
+// make the numbers move with the sketch, not to predict avr-size exactly
+const FLASH_PER_NODE: Record<BoardProfile['architecture'], number> = {
+  avr: 4,
+  esp32: 6,
+  esp8266: 6
+};
+
+// Core objects that pull in code and buffers the first time they are used
+const CORE_OBJECT_COST: Record<string, { avr: MemoryEstimate; esp: MemoryEstimate }> = {
+  Serial: { avr: { flashBytes: 1000, sramBytes: 175 }, esp: { flashBytes: 2000, sramBytes: 300 } },
+  Serial1: { avr: { flashBytes: 600, sramBytes: 157 }, esp: { flashBytes: 500, sramBytes: 300 } },
+  Serial2: { avr: { flashBytes: 600, sramBytes: 157 }, esp: { flashBytes: 500, sramBytes: 300 } },
+  Serial3: { avr: { flashBytes: 600, sramBytes: 157 }, esp: { flashBytes: 500, sramBytes: 300 } },
+  String: { avr: { flashBytes: 1200, sramBytes: 0 }, esp: { flashBytes: 1500, sramBytes: 0 } }
+};
+
+export function typeSize(type: TypeSpec, board: BoardProfile): number {
+  switch (type.name) {
+    case 'bool':
+    case 'boolean':
+    case 'char':
+    case 'signed char':
+    case 'unsigned char':
+    case 'byte':
+    case 'int8_t':
+    case 'uint8_t':
+      return 1;
+    case 'short':
+    case 'unsigned short':
+    case 'int16_t':
+    case 'uint16_t':
+      return 2;
+    case 'int':
+    case 'unsigned int':
+      return board.intSize;
+    case 'word':
+      return board.intSize;
+    case 'long':
+    case 'unsigned long':
+    case 'int32_t':
+    case 'uint32_t':
+    case 'float':
+      return 4;
+    case 'long long':
+    case 'unsigned long long':
+    case 'int64_t':
+    case 'uint64_t':
+      return 8;
+    case 'double':
+    case 'long double':
+      return board.doubleSize;
+    case 'String':
+      return board.pointerSize + 2 * board.intSize;
+    default:
+      return board.intSize;
+  }
+}
+
+function elementCount(dims: (Expression | null)[], init: Expression | null): number {
+  return dims.reduce((count: number, dim, index) => {
+    if (dim?.kind === 'NumberLiteral') return count * dim.value;
+    // `int pins[] = {2, 3, 4};` sizes the array from its initializer
+    if (!dim && index === 0 && init?.kind === 'InitializerList') return count * init.elements.length;
+    if (!dim && index === 0 && init?.kind === 'StringLiteral') return count * (init.value.length + 1);
+    return count;
+  }, 1);
+}
+
+export function declaratorSize(type: TypeSpec, declarator: VariableDeclarator, board: BoardProfile): number {
+  const base = declarator.pointer > 0 || declarator.reference ? board.pointerSize : typeSize(type, board);
+  return base * elementCount(declarator.arrayDims, declarator.init);
+}
+
+// PROGMEM is avr-libc's `__attribute__((section(".progmem.data")))`
+function isFlashAttribute(attribute: string): boolean {
+  return attribute === 'PROGMEM' || /section\s*\(\s*"\.progmem/.test(attribute);
+}
+
+function declarationName(decl: Declaration): string {
+  switch (decl.kind) {
+    case 'FunctionDeclaration':
+      return `${decl.className ? `${decl.className}::` : ''}${decl.name}()`;
+    case 'StructDeclaration':
+      return `${decl.keyword} ${decl.name ?? '(anonymous)'}`;
+    case 'NamespaceDeclaration':
+      return `namespace ${decl.name ?? '(anonymous)'}`;
+    case 'EnumDeclaration':
+      return `enum ${decl.name ?? '(anonymous)'}`;
+    case 'TypedefDeclaration':
+      return decl.name;
+    default:
+      return 'other declarations';
+  }
+}
+
+export class MemoryEstimator {
+  // `locate` turns a line of a top-level declaration into a project location,
+  // for programs put together from several files
+  static estimate(
+    ast: TranslationUnit,
+    board: BoardProfile,
+    locate: (line: number, decl: Declaration) => SourceLocation = line => ({ line })
+  ): MemoryEstimate {
+    const isAvr = board.architecture === 'avr';
+    const usedObjects = new Set<string>();
+    const contributors: SizeContributor[] = [
+      { name: 'Arduino core', category: 'core', flashBytes: board.baseFlashBytes, sramBytes: board.baseSramBytes }
+    ];
+
+    // String literals are copied to SRAM on AVR unless wrapped in F()
+    const literal = (value: string) => ({ flashBytes: value.length + 1, sramBytes: isAvr ? value.length + 1 : 0 });
+
+    ast.body.forEach(decl => {
+      // Globals live in SRAM for the whole run; initialised ones also keep their
+      // initial value in flash. PROGMEM data, and const tables on ESP, stay in flash only.
+      if (decl.kind === 'VariableDeclaration') {
+        if (CORE_OBJECT_COST[decl.type.name]) usedObjects.add(decl.type.name);
+        const inFlashOnly = decl.attributes.some(isFlashAttribute) || (!isAvr && decl.type.qualifiers.includes('const'));
+        decl.declarators.forEach(declarator => {
+          const size = declaratorSize(decl.type, declarator, board);
+          const location = locate(declarator.nameRange.line, decl);
+          contributors.push({
+            name: declarator.name,
+            category: 'global',
+            flashBytes: declarator.init || inFlashOnly ? size : 0,
+            sramBytes: inFlashOnly ? 0 : size,
+            location
+          });
+
+          const init = declarator.init;
+          if (init?.kind !== 'StringLiteral' || declarator.arrayDims.length > 0) return;
+          if (decl.type.name === 'String' && declarator.pointer === 0) {
+            // The String object only holds a pointer; its text is on the heap
+            contributors.push({ name: `${declarator.name} (text)`, category: 'heap', flashBytes: 0, sramBytes: init.value.length + 1 + MALLOC_OVERHEAD, location });
+          } else if (declarator.pointer > 0) {
+            contributors.push({ name: `"${init.value}"`, category: 'string', ...literal(init.value), location });
+          }
+        });
+        return;
+      }
+
+      let nodes = 0;
+      const strings = { flashBytes: 0, sramBytes: 0 };
+      walk(decl, node => {
+        nodes++;
+
+        if (node.kind === 'Identifier' && CORE_OBJECT_COST[node.name]) usedObjects.add(node.name);
+        if (node.kind === 'Type' && CORE_OBJECT_COST[node.name]) usedObjects.add(node.name);
+
+        if (node.kind === 'CallExpression' && node.callee.kind === 'Identifier' && node.callee.name === 'F') {
+          const text = node.arguments[0];
+          if (text?.kind === 'StringLiteral') strings.flashBytes += text.value.length + 1;
+          return false;
+        }
+        if (node.kind === 'StringLiteral') {
+          const cost = literal(node.value);
+          strings.flashBytes += cost.flashBytes;
+          strings.sramBytes += cost.sramBytes;
+        }
+      });
+
+      const name = declarationName(decl);
+      const location = locate(decl.range.line, decl);
+      contributors.push({ name, category: 'code', flashBytes: nodes * FLASH_PER_NODE[board.architecture], sramBytes: 0, location });
+      if (strings.flashBytes > 0) contributors.push({ name: `string literals in ${name}`, category: 'string', ...strings, location });
+    });
+
+    usedObjects.forEach(name => {
+      contributors.push({ name, category: 'library', ...CORE_OBJECT_COST[name][isAvr ? 'avr' : 'esp'] });
+    });
+
+    const used = contributors.filter(c => c.flashBytes > 0 || c.sramBytes > 0);
+    return {
+      flashBytes: used.reduce((sum, c) => sum + c.flashBytes, 0),
+      sramBytes: used.reduce((sum, c) => sum + c.sramBytes, 0),
+      contributors: used.sort((a, b) => b.sramBytes - a.sramBytes || b.flashBytes - a.flashBytes)
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from './analyzer';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { analyzePins, buildPinMap } from './pinUsage';
+
+const uno = getBoard('uno');
+
+function usages(code: string) {
+  const { ast, tokens } = CppParser.parseSource(code);
+  return analyzePins(ast, tokens, uno).usages.map(u => `${u.fn} ${u.pin}`);
+}
+
+const sketch = (name: string, content: string) => ({ id: name, name, content });
+
+describe('analyzePins', () => {
+  it('finds pins given as numbers, aliases, #defines and constants', () => {
+    expect(usages('#define LED 13\nconst int button = 2;\nvoid setup() { pinMode(LED, OUTPUT); digitalRead(button); analogRead(A1); analogRead(0); }\n')).toEqual([
+      'pinMode 13',
+      'digitalRead 2',
+      'analogRead 15',
+      'analogRead 14'
+    ]);
+  });
+
+  it('skips pins only known at run time', () => {
+    expect(usages('void setup() { for (int i = 2; i < 6; i++) pinMode(i, OUTPUT); }\n')).toEqual([]);
+  });
+
+  it('includes tone, pulseIn, shift registers and servos', () => {
+    const code = `
+      #include <Servo.h>
+      Servo arm;
+      void setup() {
+        tone(8, 440);
+        noTone(8);
+        pulseIn(7, HIGH);
+        shiftOut(11, 12, MSBFIRST, 0x55);
+        shiftIn(4, 5, LSBFIRST);
+        arm.attach(9);
+      }
+    `;
+    expect(usages(code)).toEqual([
+      'tone 8',
+      'noTone 8',
+      'pulseIn 7',
+      'shiftOut 11',
+      'shiftOut 12',
+      'shiftIn 4',
+      'shiftIn 5',
+      'Servo.attach 9'
+    ]);
+  });
+
+  it('leaves attach() on other objects alone', () => {
+    expect(usages('struct Motor { void attach(int pin); };\nMotor m;\nvoid setup() { m.attach(3); }\n')).toEqual([]);
+  });
+
+  it('reports pins the new calls cannot use', () => {
+    const ruleIds = Analyzer.analyze('void setup() { tone(40, 440); }\nvoid loop() {}\n', { boardId: 'uno' }).map(e => e.ruleId);
+    expect(ruleIds).toContain('invalid-pin');
+  });
+});
+
+describe('buildPinMap', () => {
+  it('resolves names defined in another tab and maps lines back to their tab', () => {
+    const map = buildPinMap(
+      [
+        sketch('main.ino', '#define LED 13\nvoid setup() { pinMode(LED, OUTPUT); }\n'),
+        sketch('blink.ino', 'void blink() {\n  digitalWrite(LED, LOW);\n}\n')
+      ],
+      uno
+    );
+    expect(map).toEqual([
+      {
+        pin: 13,
+        names: ['LED'],
+        modes: ['OUTPUT'],
+        functions: ['pinMode', 'digitalWrite'],
+        references: [
+          { sketchId: 'main.ino', sketchName: 'main.ino', line: 2, fn: 'pinMode' },
+          { sketchId: 'blink.ino', sketchName: 'blink.ino', line: 2, fn: 'digitalWrite' }
+        ]
+      }
+    ]);
+  });
+
+  it('resolves names from included headers and reads .cpp files on their own', () => {
+    const map = buildPinMap(
+      [
+        sketch('main.ino', '#include "pins.h"\nvoid setup() { pinMode(BUZZER, OUTPUT); tone(SPEAKER, 440); }\n'),
+        sketch('pins.h', '#define BUZZER 6\nconst int SPEAKER = 5;\n'),
+        sketch('servo.cpp', '#include <Servo.h>\nServo s;\nvoid go() {\n  s.attach(9);\n}\n')
+      ],
+      uno
+    );
+    expect(map.map(e => [e.pin, e.names, e.functions, e.references.map(r => `${r.sketchName}:${r.line}`)])).toEqual([
+      [5, ['SPEAKER'], ['tone'], ['main.ino:2']],
+      [6, ['BUZZER'], ['pinMode'], ['main.ino:2']],
+      [9, [], ['Servo.attach'], ['servo.cpp:4']]
+    ]);
+  });
+});
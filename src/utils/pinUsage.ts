@@ -0,0 +1,258 @@
+import { isSketchFile, joinTabs } from './analyzer';
+import { BoardProfile, resolvePin } from './boards';
+import { AstNode, Expression, Identifier, SourceRange, TranslationUnit, walk } from './cppAst';
+import { Token } from './cppLexer';
+import { CppParser } from './cppParser';
+import { Preprocessor } from './preprocessor';
+
+export type PinFunction =
+  | 'pinMode'
+  | 'digitalWrite'
+  | 'digitalRead'
+  | 'analogWrite'
+  | 'analogRead'
+  | 'digitalPinToInterrupt'
+  | 'tone'
+  | 'noTone'
+  | 'pulseIn'
+  | 'shiftOut'
+  | 'shiftIn'
+  | 'Servo.attach';
+
+// Which arguments of each call are pins; shiftOut() and shiftIn() take a data and a clock pin
+const PIN_ARGUMENTS: Record<string, number[]> = {
+  pinMode: [0],
+  digitalWrite: [0],
+  digitalRead: [0],
+  analogWrite: [0],
+  analogRead: [0],
+  digitalPinToInterrupt: [0],
+  tone: [0],
+  noTone: [0],
+  pulseIn: [0],
+  shiftOut: [0, 1],
+  shiftIn: [0, 1]
+};
+
+export interface PinUsage {
+  fn: PinFunction;
+  pin: number;
+  // The pin argument as written, e.g. 'A0' or 'ledPin', for messages
+  label: string;
+  // Named constant or macro the pin was given through, if any
+  name: string | null;
+  range: SourceRange;
+  // pinMode's mode or digitalWrite's value when it is a plain identifier
+  mode: string | null;
+}
+
+export interface PinAnalysis {
+  usages: PinUsage[];
+  // Hardware UARTs the sketch calls begin() on, e.g. ['Serial', 'Serial1']
+  serialPorts: string[];
+}
+
+// Simple object-like macros such as `#define LED_PIN 13`; anything with
+// parameters or an expression body is left to the compiler
+function collectDefines(tokens: Token[]): Map<string, string> {
+  const defines = new Map<string, string>();
+  tokens.forEach(token => {
+    if (token.kind !== 'preprocessor') return;
+    const match = /^#\s*define\s+([A-Za-z_]\w*)\s+([A-Za-z_]\w*|\d+)\s*(?:\/\/.*)?$/.exec(token.value);
+    if (match) defines.set(match[1], match[2]);
+  });
+  return defines;
+}
+
+function isWrite(node: AstNode): string | null {
+  if (node.kind === 'AssignmentExpression' && node.left.kind === 'Identifier') return node.left.name;
+  if (node.kind === 'UnaryExpression' && (node.operator === '++' || node.operator === '--') && node.argument.kind === 'Identifier') {
+    return node.argument.name;
+  }
+  return null;
+}
+
+// Variables declared exactly once with a literal initialiser and never written
+// afterwards; loop counters and pins chosen at run time are skipped
+export function collectConstants(ast: TranslationUnit): Map<string, Expression> {
+  const declared = new Map<string, Expression | null>();
+  const written = new Set<string>();
+
+  walk(ast, node => {
+    if (node.kind === 'VariableDeclarator') {
+      const single = node.pointer === 0 && node.arrayDims.length === 0 && !node.reference;
+      declared.set(node.name, declared.has(node.name) || !single ? null : node.init);
+    }
+    const target = isWrite(node);
+    if (target) written.add(target);
+  });
+
+  const constants = new Map<string, Expression>();
+  declared.forEach((init, name) => {
+    if (init && !written.has(name)) constants.set(name, init);
+  });
+  return constants;
+}
+
+// Resolves a pin argument written as a number, an alias like A0, a #define or
+// a constant variable; null when the pin is only known at run time
+export function pinResolver(ast: TranslationUnit, tokens: Token[], board: BoardProfile): (expression: Expression) => number | null {
+  const defines = collectDefines(tokens);
+  const constants = collectConstants(ast);
+
+  const resolveName = (name: string, depth: number): number | null => {
+    const pin = resolvePin(board, name);
+    if (pin !== null || depth > 8) return pin;
+    const define = defines.get(name);
+    if (define !== undefined) return resolveName(define, depth + 1);
+    const init = constants.get(name);
+    return init ? resolveExpression(init, depth + 1) : null;
+  };
+
+  const resolveExpression = (expression: Expression, depth: number): number | null => {
+    if (expression.kind === 'NumberLiteral') return expression.isFloat ? null : expression.value;
+    if (expression.kind === 'Identifier') return resolveName(expression.name, depth);
+    return null;
+  };
+
+  return expression => resolveExpression(expression, 0);
+}
+
+export function analyzePins(ast: TranslationUnit, tokens: Token[], board: BoardProfile): PinAnalysis {
+  const resolveExpression = pinResolver(ast, tokens, board);
+
+  // 'A0' speaks for itself; 'ledPin' reads better with the number it stands for
+  const describeName = (name: string, pin: number): string => (name in board.analogPins ? name : `${name} (${pin})`);
+
+  const usages: PinUsage[] = [];
+  const serialPorts = new Set<string>();
+
+  // servo.attach(9) puts a servo signal on the pin
+  const servos = new Set<string>();
+  walk(ast, node => {
+    if (node.kind === 'VariableDeclaration' && node.type.name === 'Servo') {
+      node.declarators.forEach(d => {
+        if (d.arrayDims.length === 0 && d.pointer === 0) servos.add(d.name);
+      });
+    }
+  });
+
+  walk(ast, node => {
+    if (node.kind !== 'CallExpression') return;
+    const callee = node.callee;
+
+    if (callee.kind === 'MemberExpression' && callee.property === 'begin' && callee.object.kind === 'Identifier' && callee.object.name in board.serialPins) {
+      serialPorts.add(callee.object.name);
+      return;
+    }
+
+    let fn: PinFunction;
+    let pinArguments: number[];
+    if (callee.kind === 'MemberExpression' && callee.property === 'attach' && callee.object.kind === 'Identifier' && servos.has(callee.object.name)) {
+      fn = 'Servo.attach';
+      pinArguments = [0];
+    } else if (callee.kind === 'Identifier' && Object.prototype.hasOwnProperty.call(PIN_ARGUMENTS, callee.name)) {
+      fn = callee.name as PinFunction;
+      pinArguments = PIN_ARGUMENTS[callee.name];
+    } else {
+      return;
+    }
+
+    pinArguments.forEach(index => {
+      const argument = node.arguments[index];
+      if (!argument) return;
+      let pin = resolveExpression(argument);
+      if (pin === null) return;
+
+      // On AVR and the ESP8266 analogRead(0) means channel A0, not digital pin 0
+      const aliases = Object.keys(board.analogPins).length;
+      if (fn === 'analogRead' && board.architecture !== 'esp32' && argument.kind === 'NumberLiteral' && pin < aliases) {
+        pin = board.analogPins[`A${pin}`] ?? pin;
+      }
+
+      const second = node.arguments[1];
+      usages.push({
+        fn,
+        pin,
+        label: argument.kind === 'NumberLiteral' ? argument.raw : describeName((argument as Identifier).name, pin),
+        name: argument.kind === 'Identifier' && !(argument.name in board.analogPins) ? argument.name : null,
+        range: argument.range,
+        mode: (fn === 'pinMode' || fn === 'digitalWrite') && second?.kind === 'Identifier' ? second.name : null
+      });
+    });
+  });
+
+  return { usages, serialPorts: [...serialPorts] };
+}
+
+export interface PinReference {
+  sketchId: string;
+  sketchName: string;
+  line: number;
+  fn: PinFunction;
+}
+
+export interface PinMapEntry {
+  pin: number;
+  names: string[];
+  modes: string[];
+  functions: PinFunction[];
+  references: PinReference[];
+}
+
+// Every pin touched by any sketch of a project, ordered by pin number. The
+// tabs are joined and preprocessed as the analyzer sees them, so a pin named
+// by a #define in another tab or in an included header is still found; .cpp
+// files are read on their own, as they are compiled.
+export function buildPinMap(sketches: { id: string; name: string; content: string }[], board: BoardProfile): PinMapEntry[] {
+  const entries = new Map<number, PinMapEntry>();
+  const files = sketches.map(sketch => ({ name: sketch.name, content: sketch.content }));
+  const byName = new Map(sketches.map(sketch => [sketch.name, sketch]));
+  const tabs = files.filter(file => isSketchFile(file.name));
+  const sources = files.filter(file => /\.(c|cpp)$/i.test(file.name));
+
+  const units = sources.map(source => ({ name: source.name, code: source.content, segments: [{ name: source.name, startLine: 1, lineCount: Infinity }] }));
+  if (tabs.length > 0) units.unshift({ name: tabs[0].name, ...joinTabs(tabs) });
+
+  units.forEach(unit => {
+    const preprocessed = Preprocessor.process(unit.code, { board, files, fileName: unit.name });
+    const { ast } = CppParser.parse(preprocessed.tokens);
+    const includeLines = new Set(preprocessed.includeLines);
+    const lines = unit.code.split('\n');
+
+    analyzePins(ast, preprocessed.tokens, board).usages.forEach(usage => {
+      // Calls inside an included header all sit on the #include line
+      if (includeLines.has(usage.range.line)) return;
+      const segment = [...unit.segments].reverse().find(s => s.startLine <= usage.range.line) ?? unit.segments[0];
+      const sketch = byName.get(segment.name);
+      if (!sketch) return;
+
+      let entry = entries.get(usage.pin);
+      if (!entry) {
+        entry = { pin: usage.pin, names: [], modes: [], functions: [], references: [] };
+        entries.set(usage.pin, entry);
+      }
+      const name = usage.name ?? macroName(lines, usage.range, board);
+      if (name && !entry.names.includes(name)) entry.names.push(name);
+      if (usage.fn === 'pinMode' && usage.mode && !entry.modes.includes(usage.mode)) entry.modes.push(usage.mode);
+      if (!entry.functions.includes(usage.fn)) entry.functions.push(usage.fn);
+      entry.references.push({ sketchId: sketch.id, sketchName: sketch.name, line: usage.range.line - segment.startLine + 1, fn: usage.fn });
+    });
+  });
+
+  return [...entries.values()].sort((a, b) => a.pin - b.pin);
+}
+
+// The preprocessor has already replaced `LED` with 13, but the argument still
+// covers the macro name in the source
+function macroName(lines: string[], range: SourceRange, board: BoardProfile): string | null {
+  if (range.line !== range.endLine) return null;
+  const text = lines[range.line - 1]?.slice(range.column - 1, range.endColumn - 1) ?? '';
+  return /^[A-Za-z_]\w*$/.test(text) && !(text in board.analogPins) ? text : null;
+}
+
+// 'A0' for analog header pins, the plain number otherwise
+export function pinLabel(board: BoardProfile, pin: number): string {
+  const alias = Object.entries(board.analogPins).find(([, value]) => value === pin);
+  return alias && board.architecture !== 'esp32' ? alias[0] : String(pin);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getBoard } from './boards';
+import { Preprocessor } from './preprocessor';
+
+const code = (source: string, options: Parameters<typeof Preprocessor.process>[1] = {}) =>
+  Preprocessor.process(source, options).tokens.filter(t => t.kind !== 'comment' && t.kind !== 'eof').map(t => t.value).join(' ');
+
+describe('Preprocessor', () => {
+  it('evaluates conditionals against the board macros', () => {
+    const source = '#if defined(__AVR__)\nint avr;\n#else\nint other;\n#endif\n';
+    expect(code(source, { board: getBoard('uno') })).toContain('avr');
+    expect(code(source, { board: getBoard('uno') })).not.toContain('other');
+    expect(code(source, { board: getBoard('esp32') })).toContain('other');
+  });
+
+  it('expands macros where they are used', () => {
+    const { tokens } = Preprocessor.process('#define LED 13\n#define SQ(x) ((x) * (x))\nint a = SQ(LED);\n');
+    const expanded = tokens.filter(t => t.line === 3 && t.kind !== 'preprocessor');
+    expect(expanded.map(t => t.value).join(' ')).toBe('int a = ( ( 13 ) * ( 13 ) ) ;');
+  });
+
+  describe('#include of project files', () => {
+    const files = [
+      { name: 'config.h', content: '#pragma once\n#include "pins.h"\nconst int speed = 9600;\n' },
+      { name: 'pins.h', content: '#pragma once\nconst int led = 13;\n' }
+    ];
+
+    it('places the included code on the #include line', () => {
+      const result = Preprocessor.process('// main\n#include "config.h"\nint x;\n', { files, fileName: 'main.ino' });
+      expect(result.includeLines).toEqual([2]);
+      const led = result.tokens.find(t => t.value === 'led')!;
+      const speed = result.tokens.find(t => t.value === 'speed')!;
+      expect([led.line, speed.line]).toEqual([2, 2]);
+      expect(result.tokens.find(t => t.value === 'x')!.line).toBe(3);
+    });
+
+    it('lists every project file spliced in, including nested ones', () => {
+      const result = Preprocessor.process('#include "config.h"\n', { files, fileName: 'main.ino' });
+      expect(result.includedFiles.sort()).toEqual(['config.h', 'pins.h']);
+    });
+
+    it('includes a #pragma once file only once', () => {
+      const result = Preprocessor.process('#include "pins.h"\n#include "pins.h"\n', { files, fileName: 'main.ino' });
+      expect(result.tokens.filter(t => t.value === 'led')).toHaveLength(1);
+    });
+
+    it('leaves library headers alone', () => {
+      const result = Preprocessor.process('#include <Servo.h>\n', { files, fileName: 'main.ino' });
+      expect(result.includeLines).toEqual([]);
+      expect(result.tokens[0].kind).toBe('preprocessor');
+    });
+
+    it('reports a file that includes itself', () => {
+      const loop = [{ name: 'a.h', content: '#include "a.h"\n' }];
+      const { errors } = Preprocessor.process('#include "a.h"\n', { files: loop, fileName: 'main.ino' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ line: 1, message: '#include "a.h" includes itself' });
+    });
+  });
+
+  it('reports an unterminated #if', () => {
+    const { errors } = Preprocessor.process('#ifdef DEBUG\nint x;\n');
+    expect(errors[0]).toMatchObject({ line: 1, ruleId: 'preprocessor' });
+  });
+});
@@ -0,0 +1,590 @@
+import { CompilationError } from '../types';
+import { BoardProfile } from './boards';
+import { CppLexer, Token } from './cppLexer';
+
+// Runs the C preprocessor over a sketch before it is parsed: conditionals are
+// evaluated against the board's predefined macros, macros are expanded and
+// quoted includes of other project files are spliced in. Every produced token
+// keeps a position in the original file, so diagnostics land on real lines.
+
+export interface MacroDefinition {
+  name: string;
+  // null for object-like macros
+  params: string[] | null;
+  variadic: boolean;
+  body: Token[];
+  // Line of the #define; null for macros predefined by the board
+  line: number | null;
+}
+
+export interface SourceFile {
+  name: string;
+  content: string;
+}
+
+export interface PreprocessOptions {
+  board?: BoardProfile;
+  // Other files of the project that `#include "name"` can resolve to
+  files?: SourceFile[];
+  fileName?: string;
+}
+
+export interface PreprocessResult {
+  // Code, comments and the directives that were active, in source order
+  tokens: Token[];
+  errors: CompilationError[];
+  macros: Map<string, MacroDefinition>;
+  // Lines of #include directives whose file was spliced in; tokens from the
+  // included file are placed on that line
+  includeLines: number[];
+  // Project files spliced in by #include, directly or from another header
+  includedFiles: string[];
+}
+
+interface Conditional {
+  directive: Token;
+  // The enclosing region is active
+  parentActive: boolean;
+  active: boolean;
+  // A branch of this #if chain has already been taken
+  taken: boolean;
+  sawElse: boolean;
+}
+
+const MAX_INCLUDE_DEPTH = 16;
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '|': 3,
+  '^': 4,
+  '&': 5,
+  '==': 6, '!=': 6,
+  '<': 7, '>': 7, '<=': 7, '>=': 7,
+  '<<': 8, '>>': 8,
+  '+': 9, '-': 9,
+  '*': 10, '/': 10, '%': 10
+};
+
+export function predefinedMacros(board: BoardProfile): Record<string, string> {
+  return {
+    ARDUINO: '10819',
+    F_CPU: `${board.clockHz}L`,
+    [`ARDUINO_ARCH_${board.architecture.toUpperCase()}`]: '1',
+    ...(board.architecture === 'avr' ? { __AVR__: '1' } : {}),
+    __cplusplus: '201103L',
+    __GNUC__: '7',
+    ...board.macros
+  };
+}
+
+// Places a token produced by expansion or inclusion at `site`
+function relocate(token: Token, site: Token, first = false): Token {
+  return {
+    ...token,
+    line: site.line,
+    column: site.column,
+    endLine: site.endLine,
+    endColumn: site.endColumn,
+    offset: site.offset,
+    end: site.end,
+    firstOnLine: first && site.firstOnLine,
+    spaceBefore: first ? site.spaceBefore : token.spaceBefore
+  };
+}
+
+function lex(text: string): Token[] {
+  return CppLexer.tokenize(text).tokens.filter(t => t.kind !== 'comment' && t.kind !== 'eof');
+}
+
+function spell(tokens: Token[]): string {
+  return tokens.map((t, i) => (i > 0 && t.spaceBefore ? ' ' : '') + t.value).join('');
+}
+
+function parseInteger(value: string): number {
+  const text = value.replace(/'/g, '').replace(/[uUlL]+$/, '');
+  if (/^0[xX]/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0[bB]/.test(text)) return parseInt(text.slice(2), 2);
+  if (/^0\d/.test(text)) return parseInt(text, 8);
+  return Number(text);
+}
+
+export class Preprocessor {
+  private readonly macros = new Map<string, MacroDefinition>();
+  private readonly output: Token[] = [];
+  private readonly errors: CompilationError[] = [];
+  private readonly includeLines = new Set<number>();
+  private readonly includedFiles = new Set<string>();
+  private readonly onceFiles = new Set<string>();
+  private readonly includeStack: string[] = [];
+
+  private constructor(private readonly options: PreprocessOptions) {}
+
+  static process(source: string, options: PreprocessOptions = {}): PreprocessResult {
+    const preprocessor = new Preprocessor(options);
+    if (options.board) {
+      Object.entries(predefinedMacros(options.board)).forEach(([name, value]) => {
+        preprocessor.macros.set(name, { name, params: null, variadic: false, body: lex(value), line: null });
+      });
+    }
+
+    const lexed = CppLexer.tokenize(source);
+    const inactive = preprocessor.run(lexed.tokens, options.fileName ?? null, null);
+    // Stray characters inside `#if 0` blocks are not errors
+    const lexErrors = lexed.errors.filter(e => !inactive.some(([from, to]) => e.line >= from && e.line <= to));
+
+    return {
+      tokens: preprocessor.output,
+      errors: [...lexErrors, ...preprocessor.errors],
+      macros: preprocessor.macros,
+      includeLines: [...preprocessor.includeLines],
+      includedFiles: [...preprocessor.includedFiles]
+    };
+  }
+
+  private error(token: Token, message: string, ruleId = 'preprocessor', severity: 'error' | 'warning' = 'error'): void {
+    this.errors.push({
+      line: token.line,
+      column: token.column,
+      endLine: token.endLine,
+      endColumn: token.endColumn,
+      message,
+      severity,
+      ruleId
+    });
+  }
+
+  // Processes one file. `site` is the #include directive in the main file when
+  // this is an included file; all of its tokens are then placed on that line.
+  // Returns the line ranges skipped by conditionals.
+  private run(tokens: Token[], fileName: string | null, site: Token | null): [number, number][] {
+    const conditionals: Conditional[] = [];
+    const inactive: [number, number][] = [];
+    let inactiveFrom = 0;
+    let pending: Token[] = [];
+
+    const isActive = () => conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+    const flush = () => {
+      this.output.push(...this.expand(pending, new Set()));
+      pending = [];
+    };
+
+    if (fileName) this.includeStack.push(fileName);
+
+    tokens.forEach(raw => {
+      const token = site ? relocate(raw, site) : raw;
+      if (raw.kind === 'eof') {
+        if (!site) {
+          flush();
+          this.output.push(token);
+        }
+        return;
+      }
+
+      if (raw.kind === 'preprocessor') {
+        const wasActive = isActive();
+        if (wasActive) flush();
+        this.directive(raw, token, conditionals, fileName, site);
+        const nowActive = isActive();
+        if (wasActive && !nowActive) inactiveFrom = raw.endLine + 1;
+        if (!wasActive && nowActive) inactive.push([inactiveFrom, raw.line - 1]);
+        return;
+      }
+
+      if (!isActive()) return;
+      // Comments stay out of `pending` so a macro call may span one; the parser ignores them anyway
+      if (raw.kind === 'comment') {
+        if (!site) this.output.push(token);
+        return;
+      }
+      pending.push(token);
+    });
+
+    flush();
+    if (!isActive()) inactive.push([inactiveFrom, Infinity]);
+    conditionals.forEach(c => this.error(c.directive, `Unterminated #${this.directiveName(c.directive)}: missing #endif`));
+    if (fileName) this.includeStack.pop();
+    return inactive;
+  }
+
+  private directiveName(token: Token): string {
+    return /^#\s*(\w*)/.exec(token.value)?.[1] ?? '';
+  }
+
+  private directive(raw: Token, token: Token, conditionals: Conditional[], fileName: string | null, site: Token | null): void {
+    const text = raw.value.replace(/\\\r?\n/g, ' ');
+    const words = lex(text.slice(text.indexOf('#') + 1));
+    const name = words[0]?.value ?? '';
+    const top = conditionals[conditionals.length - 1];
+    const active = !top || top.active;
+
+    switch (name) {
+      case 'if':
+      case 'ifdef':
+      case 'ifndef': {
+        let value = false;
+        if (active) {
+          if (name === 'if') {
+            value = this.evaluate(words.slice(1), token);
+          } else {
+            value = this.macros.has(words[1]?.value ?? '') === (name === 'ifdef');
+          }
+        }
+        conditionals.push({ directive: token, parentActive: active, active: value, taken: value, sawElse: false });
+        return;
+      }
+      case 'elif':
+      case 'else': {
+        if (!top) {
+          this.error(token, `#${name} without #if`);
+          return;
+        }
+        if (top.sawElse) {
+          this.error(token, `#${name} after #else`);
+          return;
+        }
+        if (name === 'else') top.sawElse = true;
+        const value = top.parentActive && !top.taken && (name === 'else' || this.evaluate(words.slice(1), token));
+        top.active = value;
+        top.taken ||= value;
+        return;
+      }
+      case 'endif':
+        if (!top) {
+          this.error(token, '#endif without #if');
+        } else {
+          conditionals.pop();
+        }
+        return;
+    }
+
+    if (!active) return;
+
+    switch (name) {
+      case 'define':
+        this.define(words, token);
+        this.output.push(token);
+        return;
+      case 'undef':
+        this.macros.delete(words[1]?.value ?? '');
+        this.output.push(token);
+        return;
+      case 'include':
+        this.include(words, raw, token, site);
+        return;
+      case 'pragma':
+        if (words[1]?.value === 'once' && fileName) this.onceFiles.add(fileName);
+        return;
+      case 'error':
+        this.error(token, `#error ${spell(words.slice(1))}`.trim(), 'preprocessor-error');
+        return;
+      case 'warning':
+        this.error(token, `#warning ${spell(words.slice(1))}`.trim(), 'preprocessor-warning', 'warning');
+        return;
+      case 'line':
+      case '':
+        return;
+      default:
+        this.error(token, `Invalid preprocessing directive #${name}`);
+    }
+  }
+
+  private define(words: Token[], token: Token): void {
+    const nameToken = words[1];
+    if (!nameToken || (nameToken.kind !== 'identifier' && nameToken.kind !== 'keyword')) {
+      this.error(token, 'Macro name missing after #define');
+      return;
+    }
+
+    // `#define F(x)` is function-like only when the parenthesis touches the name
+    if (words[2]?.value === '(' && !words[2].spaceBefore) {
+      const params: string[] = [];
+      let variadic = false;
+      let i = 3;
+      for (; i < words.length && words[i].value !== ')'; i++) {
+        const word = words[i];
+        if (word.value === ',') continue;
+        if (word.value === '...') {
+          variadic = true;
+        } else if (word.kind === 'identifier') {
+          params.push(word.value);
+        } else {
+          this.error(token, `Invalid parameter '${word.value}' in macro '${nameToken.value}'`);
+          return;
+        }
+      }
+      if (i >= words.length) {
+        this.error(token, `Missing ')' in parameter list of macro '${nameToken.value}'`);
+        return;
+      }
+      this.macros.set(nameToken.value, { name: nameToken.value, params, variadic, body: words.slice(i + 1), line: token.line });
+      return;
+    }
+
+    this.macros.set(nameToken.value, { name: nameToken.value, params: null, variadic: false, body: words.slice(2), line: token.line });
+  }
+
+  private include(words: Token[], raw: Token, token: Token, site: Token | null): void {
+    const target = words[1];
+    // Only quoted includes can name project files; <...> headers come from libraries
+    if (target?.kind !== 'string') {
+      this.output.push(token);
+      return;
+    }
+
+    const name = target.value.slice(1, -1);
+    const file = this.options.files?.find(f => f.name === name || f.name === name.split('/').pop());
+    if (!file) {
+      this.output.push(token);
+      return;
+    }
+    if (this.onceFiles.has(file.name)) return;
+    if (this.includeStack.includes(file.name)) {
+      this.error(token, `#include "${name}" includes itself`);
+      return;
+    }
+    if (this.includeStack.length >= MAX_INCLUDE_DEPTH) {
+      this.error(token, `#include nested too deeply at "${name}"`);
+      return;
+    }
+
+    const includeSite = site ?? raw;
+    if (!site) this.includeLines.add(raw.line);
+    this.includedFiles.add(file.name);
+    this.run(CppLexer.tokenize(file.content).tokens, file.name, includeSite);
+  }
+
+  // ---------------------------------------------------------------- expansion
+
+  private expand(tokens: Token[], disabled: Set<string>): Token[] {
+    const out: Token[] = [];
+    let i = 0;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+      if (token.kind !== 'identifier' && token.kind !== 'keyword') {
+        out.push(token);
+        i++;
+        continue;
+      }
+
+      if (token.value === '__LINE__') {
+        out.push({ ...token, kind: 'number', value: String(token.line) });
+        i++;
+        continue;
+      }
+      if (token.value === '__FILE__') {
+        out.push({ ...token, kind: 'string', value: JSON.stringify(this.options.fileName ?? 'sketch.ino') });
+        i++;
+        continue;
+      }
+
+      const macro = this.macros.get(token.value);
+      if (!macro || disabled.has(macro.name)) {
+        out.push(token);
+        i++;
+        continue;
+      }
+
+      const nested = new Set(disabled).add(macro.name);
+
+      if (macro.params === null) {
+        out.push(...this.expand(macro.body.map((t, index) => relocate(t, token, index === 0)), nested));
+        i++;
+        continue;
+      }
+
+      // A function-like macro name without arguments is left alone, as in C
+      if (tokens[i + 1]?.value !== '(') {
+        out.push(token);
+        i++;
+        continue;
+      }
+
+      const call = this.collectArguments(tokens, i + 1);
+      if (!call) {
+        this.error(token, `Unterminated argument list invoking macro '${macro.name}'`);
+        out.push(token);
+        i++;
+        continue;
+      }
+
+      const args = call.args.length === 1 && call.args[0].length === 0 && macro.params.length === 0 ? [] : call.args;
+      if (args.length < macro.params.length || (args.length > macro.params.length && !macro.variadic)) {
+        this.error(token, `Macro '${macro.name}' expects ${macro.params.length} argument(s), but ${args.length} were given`);
+      }
+
+      // The expansion covers the macro name through the closing parenthesis
+      const closing = tokens[call.end - 1];
+      const site: Token = { ...token, endLine: closing.endLine, endColumn: closing.endColumn, end: closing.end };
+      out.push(...this.expand(this.substitute(macro, args, site, disabled), nested));
+      i = call.end;
+    }
+
+    return out;
+  }
+
+  // Splits `( a, (b, c), d )` into top-level arguments; `end` is the index after `)`
+  private collectArguments(tokens: Token[], open: number): { args: Token[][]; end: number } | null {
+    const args: Token[][] = [[]];
+    let depth = 0;
+    for (let i = open + 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.value === '(') depth++;
+      if (token.value === ')') {
+        if (depth === 0) return { args, end: i + 1 };
+        depth--;
+      }
+      if (token.value === ',' && depth === 0) {
+        args.push([]);
+      } else {
+        args[args.length - 1].push(token);
+      }
+    }
+    return null;
+  }
+
+  private substitute(macro: MacroDefinition, args: Token[][], site: Token, disabled: Set<string>): Token[] {
+    const params = macro.params ?? [];
+    const values = new Map<string, Token[]>();
+    params.forEach((param, index) => values.set(param, args[index] ?? []));
+    if (macro.variadic) {
+      const rest = args.slice(params.length);
+      values.set('__VA_ARGS__', rest.flatMap((arg, index) => (index === 0 ? arg : [{ ...site, kind: 'punctuator' as const, value: ',' }, ...arg])));
+    }
+
+    const result: Token[] = [];
+    const body = macro.body;
+    for (let i = 0; i < body.length; i++) {
+      const token = body[i];
+
+      if (token.value === '#' && values.has(body[i + 1]?.value)) {
+        const text = spell(values.get(body[i + 1].value)!).replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+        result.push(relocate({ ...token, kind: 'string', value: `"${text}"` }, site, result.length === 0));
+        i++;
+        continue;
+      }
+
+      if (token.value === '##') {
+        const next = body[i + 1];
+        const right = next ? values.get(next.value) ?? [next] : [];
+        const left = result.pop();
+        const pasted = lex((left?.value ?? '') + (right[0]?.value ?? ''));
+        result.push(...pasted.map(t => relocate(t, site)), ...right.slice(1));
+        i++;
+        continue;
+      }
+
+      const arg = values.get(token.value);
+      if (arg) {
+        // Operands of ## are pasted unexpanded; everything else is expanded first
+        result.push(...(body[i + 1]?.value === '##' ? arg : this.expand(arg, disabled)));
+      } else {
+        result.push(relocate(token, site, result.length === 0));
+      }
+    }
+    return result;
+  }
+
+  // ---------------------------------------------------------------- #if expressions
+
+  private evaluate(words: Token[], directive: Token): boolean {
+    const resolved: Token[] = [];
+    for (let i = 0; i < words.length; i++) {
+      if (words[i].value !== 'defined') {
+        resolved.push(words[i]);
+        continue;
+      }
+      const parenthesized = words[i + 1]?.value === '(';
+      const name = words[parenthesized ? i + 2 : i + 1]?.value ?? '';
+      resolved.push({ ...words[i], kind: 'number', value: this.macros.has(name) ? '1' : '0' });
+      i += parenthesized ? 3 : 1;
+    }
+
+    // Identifiers left after expansion evaluate to 0, as in C
+    const expanded = this.expand(resolved, new Set()).map(t =>
+      t.kind === 'identifier' || t.kind === 'keyword' ? { ...t, kind: 'number' as const, value: t.value === 'true' ? '1' : '0' } : t
+    );
+
+    let pos = 0;
+    const peek = () => expanded[pos]?.value;
+    const fail = (): never => {
+      throw new Error(`Invalid #if expression '${spell(words)}'`);
+    };
+
+    const primary = (): number => {
+      const token = expanded[pos++];
+      if (!token) return fail();
+      if (token.value === '(') {
+        const value = conditional();
+        if (expanded[pos++]?.value !== ')') fail();
+        return value;
+      }
+      if (token.value === '!') return primary() ? 0 : 1;
+      if (token.value === '-') return -primary();
+      if (token.value === '+') return primary();
+      if (token.value === '~') return ~primary();
+      if (token.kind === 'number') {
+        const value = parseInteger(token.value);
+        return Number.isNaN(value) ? fail() : value;
+      }
+      if (token.kind === 'char') return token.value.charCodeAt(1);
+      return fail();
+    };
+
+    const binary = (minPrecedence: number): number => {
+      let left = primary();
+      for (;;) {
+        const op = peek();
+        const precedence = op ? BINARY_PRECEDENCE[op] : undefined;
+        if (precedence === undefined || precedence < minPrecedence) return left;
+        pos++;
+        const right = binary(precedence + 1);
+        left = this.apply(op!, left, right);
+      }
+    };
+
+    const conditional = (): number => {
+      const test = binary(1);
+      if (peek() !== '?') return test;
+      pos++;
+      const consequent = conditional();
+      if (expanded[pos++]?.value !== ':') fail();
+      const alternate = conditional();
+      return test ? consequent : alternate;
+    };
+
+    try {
+      if (expanded.length === 0) fail();
+      const value = conditional();
+      if (pos < expanded.length) fail();
+      return value !== 0;
+    } catch (error) {
+      this.error(directive, (error as Error).message);
+      return false;
+    }
+  }
+
+  private apply(op: string, left: number, right: number): number {
+    switch (op) {
+      case '||': return left || right ? 1 : 0;
+      case '&&': return left && right ? 1 : 0;
+      case '|': return left | right;
+      case '^': return left ^ right;
+      case '&': return left & right;
+      case '==': return left === right ? 1 : 0;
+      case '!=': return left !== right ? 1 : 0;
+      case '<': return left < right ? 1 : 0;
+      case '>': return left > right ? 1 : 0;
+      case '<=': return left <= right ? 1 : 0;
+      case '>=': return left >= right ? 1 : 0;
+      case '<<': return left * 2 ** right;
+      case '>>': return Math.floor(left / 2 ** right);
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return right === 0 ? 0 : Math.trunc(left / right);
+      default: return right === 0 ? 0 : left % right;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from './analyzer';
+import { applyEdits, getQuickFixSuggestions, textInRange, toFixSuggestion } from './quickFixes';
+
+const analyze = (code: string) => Analyzer.analyze(code, { boardId: 'uno' });
+
+// What accepting the preferred code action of each diagnostic leaves behind
+function fixAll(code: string, ruleId: string): string {
+  const fixes = analyze(code).filter(e => e.ruleId === ruleId).map(e => e.fixes![0]);
+  expect(fixes.length).toBeGreaterThan(0);
+  return applyEdits(code, fixes.flatMap(fix => fix.edits));
+}
+
+describe('applyEdits', () => {
+  it('applies edits given in original positions, whatever their order', () => {
+    const code = 'int a = 1\nint b = 2\n';
+    const edits = [
+      { line: 1, column: 10, endLine: 1, endColumn: 10, text: ';' },
+      { line: 2, column: 5, endLine: 2, endColumn: 6, text: 'total' },
+      { line: 2, column: 10, endLine: 2, endColumn: 10, text: ';' }
+    ];
+    expect(applyEdits(code, edits)).toBe('int a = 1;\nint total = 2;\n');
+    expect(applyEdits(code, [...edits].reverse())).toBe('int a = 1;\nint total = 2;\n');
+  });
+
+  it('replaces text across lines', () => {
+    expect(applyEdits('a();\nb();\n', [{ line: 1, column: 5, endLine: 2, endColumn: 1, text: ' ' }])).toBe('a(); b();\n');
+  });
+});
+
+describe('textInRange', () => {
+  it('reads the text a diagnostic covers', () => {
+    expect(textInRange('int x = 60 * 1000;\n', { line: 1, column: 9, endLine: 1, endColumn: 18 })).toBe('60 * 1000');
+  });
+});
+
+describe('code actions', () => {
+  it('resolve the diagnostics they are offered for', () => {
+    const cases: [string, string][] = [
+      ['void setup() {\n  int x = 1\n  x++;\n}\nvoid loop() {}\n', 'missing-semicolon'],
+      ['void setup() {\n  pinMode(13 OUTPUT);\n}\nvoid loop() {}\n', 'missing-comma'],
+      ['void setup() {\n  digitalWrite 13, HIGH;\n}\nvoid loop() {}\n', 'missing-call-parentheses'],
+      ['void setup() {\n  int a = 1; int b = 2;\n  Serial.print(a + b);\n}\nvoid loop() {}\n', 'multiple-statements-per-line'],
+      ['void setup() {\n  count = 0;\n  Serial.print(count);\n}\nvoid loop() {}\n', 'missing-type'],
+      ['void setup() {}\nvoid lop() {}\n', 'misspelled-entry-point'],
+      ['#include <Wire.h>\nvoid loop() {}\n', 'missing-setup'],
+      ['void setup() {\n}\n', 'missing-loop']
+    ];
+    cases.forEach(([code, ruleId]) => {
+      const fixed = fixAll(code, ruleId);
+      expect(analyze(fixed), `${ruleId}:\n${fixed}`).toEqual([]);
+    });
+  });
+
+  it('produce the expected text', () => {
+    expect(fixAll('#include <Wire.h>\nvoid loop() {}\n', 'missing-setup')).toBe('#include <Wire.h>\n\nvoid setup() {\n}\nvoid loop() {}\n');
+    expect(fixAll('void setup() {\n}\n', 'missing-loop')).toBe('void setup() {\n}\n\nvoid loop() {\n}\n');
+  });
+});
+
+describe('toFixSuggestion', () => {
+  it('turns a fix on one line into a line replacement for the assistant panel', () => {
+    const code = 'void setup() {\n  pinMode(13 OUTPUT);\n}\nvoid loop() {}\n';
+    const [error] = analyze(code);
+    expect(toFixSuggestion(code, error, error.fixes![0])).toEqual({
+      line: 2,
+      original: '  pinMode(13 OUTPUT);',
+      fixed: '  pinMode(13, OUTPUT);',
+      explanation: "Insert missing ','"
+    });
+  });
+
+  it('skips fixes that touch more than one line', () => {
+    const code = 'void setup() {\n  pinMode(13 OUTPUT);\n}\nvoid loop() {}\n';
+    const [error] = analyze(code);
+    const fix = { title: 'Wrap in a block', edits: [{ line: 2, column: 1, endLine: 2, endColumn: 1, text: '{' }, { line: 3, column: 1, endLine: 3, endColumn: 1, text: '}' }] };
+    expect(toFixSuggestion(code, error, fix)).toBeNull();
+    expect(getQuickFixSuggestions(code, [{ ...error, fixes: [fix] }, { ...error, fixes: undefined }])).toEqual([]);
+  });
+});
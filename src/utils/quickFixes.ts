@@ -0,0 +1,38 @@
+import { AIFixSuggestion, CompilationError, QuickFix, TextEdit } from '../types';
+import type { SourceRange } from './cppAst';
+
+function toOffset(lines: string[], line: number, column: number): number {
+  let offset = 0;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) offset += lines[i].length + 1;
+  return offset + Math.min(Math.max(column - 1, 0), (lines[line - 1] ?? '').length);
+}
+
+export function textInRange(code: string, range: SourceRange): string {
+  const lines = code.split('\n');
+  return code.slice(toOffset(lines, range.line, range.column), toOffset(lines, range.endLine, range.endColumn));
+}
+
+// Applies edits that refer to positions in the original code; later edits are
+// applied first so earlier positions stay valid
+export function applyEdits(code: string, edits: TextEdit[]): string {
+  const lines = code.split('\n');
+  return edits
+    .map(edit => ({ start: toOffset(lines, edit.line, edit.column), end: toOffset(lines, edit.endLine, edit.endColumn), text: edit.text }))
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+}
+
+// The assistant panel replaces whole lines, so only fixes that stay on one line fit it
+export function toFixSuggestion(code: string, error: CompilationError, fix: QuickFix, explanation = fix.title): AIFixSuggestion | null {
+  const line = fix.edits[0]?.line;
+  if (line === undefined || fix.edits.some(edit => edit.line !== line || edit.endLine !== line)) return null;
+  const original = code.split('\n')[line - 1] ?? '';
+  const fixed = applyEdits(original, fix.edits.map(edit => ({ ...edit, line: 1, endLine: 1 })));
+  return { line, original, fixed, explanation: explanation || error.message };
+}
+
+export function getQuickFixSuggestions(code: string, errors: CompilationError[]): AIFixSuggestion[] {
+  return errors
+    .map(error => (error.fixes?.[0] ? toFixSuggestion(code, error, error.fixes[0]) : null))
+    .filter((suggestion): suggestion is AIFixSuggestion => suggestion !== null);
+}
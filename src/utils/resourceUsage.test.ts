@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { analyzeResources } from './resourceUsage';
+
+function analyze(code: string, boardId = 'uno') {
+  const { ast, tokens } = CppParser.parseSource(code);
+  return analyzeResources(ast, tokens, getBoard(boardId));
+}
+
+describe('analyzeResources', () => {
+  it('finds the timers Servo and tone() take on the board', () => {
+    const code = '#include <Servo.h>\nServo arm, wrist;\nvoid setup() { tone(8, 440); tone(8, 880); }\nvoid loop() {}\n';
+    expect(analyze(code).claims.map(c => [c.owner, c.resource, c.range.line])).toEqual([
+      ['Servo', 'timer1', 2],
+      ['tone()', 'timer2', 3]
+    ]);
+    expect(analyze(code, 'mega2560').claims.map(c => c.resource)).toEqual(['timer5', 'timer2']);
+    expect(analyze(code, 'esp32').claims).toEqual([]);
+  });
+
+  it('finds the buses libraries drive', () => {
+    const code = 'void setup() { Wire.begin(); SD.begin(4); SPI.transfer(0); }\nvoid loop() {}\n';
+    expect(analyze(code).claims.map(c => [c.owner, c.resource])).toEqual([
+      ['Wire', 'Wire'],
+      ['SD', 'SPI'],
+      ['SPI', 'SPI']
+    ]);
+  });
+
+  it('finds SoftwareSerial ports and their RX pins', () => {
+    const code = '#include <SoftwareSerial.h>\nconst int RX = 10;\nSoftwareSerial gps(RX, 11);\nSoftwareSerial other(pin(), 3);\nvoid setup() {}\nvoid loop() {}\n';
+    const { claims, softwareSerials } = analyze(code);
+    expect(softwareSerials.map(p => [p.name, p.rx, p.rxRange?.line])).toEqual([
+      ['gps', 10, 3],
+      ['other', null, 4]
+    ]);
+    expect(claims).toMatchObject([{ owner: 'SoftwareSerial', resource: 'pin change interrupts' }]);
+    expect(analyze(code, 'esp8266').claims).toEqual([]);
+  });
+});
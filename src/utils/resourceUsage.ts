@@ -0,0 +1,62 @@
+import { BoardProfile, BusName } from './boards';
+import { SourceRange, TranslationUnit, calleeName, walk } from './cppAst';
+import { Token } from './cppLexer';
+import { pinResolver } from './pinUsage';
+
+export interface ResourceClaim {
+  // What takes the resource, as named in messages: 'Servo', 'tone()', 'SPI'
+  owner: string;
+  // A timer such as 'timer1', a bus, or 'pin change interrupts'
+  resource: string;
+  // Where the sketch first uses the owner
+  range: SourceRange;
+}
+
+export interface SoftwareSerialPort {
+  name: string;
+  range: SourceRange;
+  // The RX pin when it is known before run time
+  rx: number | null;
+  rxRange: SourceRange | null;
+}
+
+export interface ResourceAnalysis {
+  claims: ResourceClaim[];
+  softwareSerials: SoftwareSerialPort[];
+}
+
+// Objects whose calls drive a bus; the SD library talks to the card over SPI
+const BUS_OBJECTS: Record<string, BusName> = { SPI: 'SPI', SD: 'SPI', Wire: 'Wire' };
+
+// Hardware the sketch hands over to libraries and core functions, so rules can
+// tell which of the sketch's own pin and interrupt uses collide with them
+export function analyzeResources(ast: TranslationUnit, tokens: Token[], board: BoardProfile): ResourceAnalysis {
+  const claims: ResourceClaim[] = [];
+  const softwareSerials: SoftwareSerialPort[] = [];
+  const resolvePin = pinResolver(ast, tokens, board);
+
+  const claim = (owner: string, resource: string | undefined, range: SourceRange) => {
+    if (resource && !claims.some(c => c.owner === owner)) claims.push({ owner, resource, range });
+  };
+
+  walk(ast, node => {
+    if (node.kind === 'VariableDeclaration' && node.type.name === 'Servo') {
+      node.declarators.forEach(d => claim('Servo', board.timerUsers.Servo, d.nameRange));
+    }
+    if (node.kind === 'VariableDeclaration' && node.type.name === 'SoftwareSerial') {
+      node.declarators.forEach(d => {
+        const argument = d.ctorArgs?.[0] ?? null;
+        softwareSerials.push({ name: d.name, range: d.nameRange, rx: argument && resolvePin(argument), rxRange: argument?.range ?? null });
+        // On AVR it takes every pin change vector, whichever pins it listens on
+        if (board.architecture === 'avr') claim('SoftwareSerial', 'pin change interrupts', d.nameRange);
+      });
+    }
+    if (node.kind !== 'CallExpression') return;
+    const name = calleeName(node) ?? '';
+    if (name === 'tone') claim('tone()', board.timerUsers['tone()'], node.range);
+    const object = name.split('.')[0];
+    if (name.includes('.') && object in BUS_OBJECTS) claim(object, BUS_OBJECTS[object], node.range);
+  });
+
+  return { claims, softwareSerials };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const errors = (code: string) => Analyzer.analyze(code, { boardId: 'uno' });
+
+describe('declaration rules', () => {
+  it('offers a type for an assignment to an undeclared name', () => {
+    const [error] = errors('void setup() {\n  count = 0;\n}\nvoid loop() {}\n');
+    expect(error).toMatchObject({ ruleId: 'missing-type', severity: 'warning', line: 2, column: 3, endLine: 2, endColumn: 8 });
+    expect(error.fixes).toEqual([{ title: "Declare 'count' as int", edits: [{ line: 2, column: 3, endLine: 2, endColumn: 3, text: 'int ' }] }]);
+  });
+
+  it('leaves assignments to declared variables alone', () => {
+    expect(errors('int count;\nvoid setup() {\n  count = 5;\n}\nvoid loop() {}\n')).toEqual([]);
+  });
+
+  it('reports undeclared names but not macros or core identifiers', () => {
+    expect(errors('void setup() {\n  Serial.println(total);\n  Serial.println(LED_BUILTIN + MY_PIN);\n}\nvoid loop() {}\n')).toEqual([
+      { line: 2, column: 18, endLine: 2, endColumn: 23, message: "'total' was not declared in this scope", severity: 'error', ruleId: 'undeclared-identifier' }
+    ]);
+  });
+
+  it('reports calls to functions that are never declared or never defined', () => {
+    expect(errors('void ready();\nvoid setup() {\n  start();\n  ready();\n}\nvoid loop() {}\n')).toMatchObject([
+      { ruleId: 'undefined-function', severity: 'error', line: 3, column: 3, endColumn: 8, message: "'start' was not declared in this scope" },
+      { ruleId: 'undefined-function', severity: 'error', line: 4, column: 3, endColumn: 8, message: "Function 'ready' is declared (line 1) but never defined" }
+    ]);
+  });
+
+  it('reports variables that are never used', () => {
+    expect(errors('int _reserved;\nvoid setup() {}\nvoid loop() { int spare = 1; }\n')).toEqual([
+      { line: 3, column: 19, endLine: 3, endColumn: 24, message: "Variable 'spare' is declared but never used", severity: 'warning', ruleId: 'unused-variable' }
+    ]);
+  });
+
+  it('reports locals that shadow a global', () => {
+    expect(errors('int level = 0;\nvoid setup() { int level = 2; level++; }\nvoid loop() { level++; }\n')).toEqual([
+      {
+        line: 2,
+        column: 20,
+        endLine: 2,
+        endColumn: 25,
+        message: "Declaration of 'level' shadows a global variable (line 1)",
+        severity: 'warning',
+        ruleId: 'shadowed-variable'
+      }
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    expect(errors('void setup() {\n  // arduino-lint-disable-next-line undeclared-identifier\n  Serial.println(total);\n}\nvoid loop() {}\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import type { Rule } from '../analyzer';
+import { looksLikeMacro } from '../arduinoCore';
+import { SymbolTable, UnresolvedReference } from '../symbolTable';
+
+// All-caps names are macros or registers, and names that may come from an
+// unknown header or base class cannot be judged either way
+function reportable(ref: UnresolvedReference): boolean {
+  return !ref.uncertain && !looksLikeMacro(ref.name);
+}
+
+export const declarationRules: Rule[] = [
+  {
+    id: 'missing-type',
+    defaultSeverity: 'warning',
+    category: 'declarations',
+    description:
+      'A statement assigns to a name that is not declared in any enclosing scope, usually a declaration written without its type (`count = 0;`).',
+    check(context) {
+      SymbolTable.build(context.ast, context.tokens, context.libraries).unresolved.forEach(ref => {
+        if (!ref.assignment || !reportable(ref)) return;
+        // Only `count = 0;` at the start of a line can become a declaration
+        const first = context.tokens.find(t => t.line === ref.range.line && t.column === ref.range.column)?.firstOnLine;
+        const { line, column } = ref.range;
+        context.report(ref.range, `Variable '${ref.name}' declaration missing type (int, float, char, etc.)`, first ? [
+          { title: `Declare '${ref.name}' as int`, edits: [{ line, column, endLine: line, endColumn: column, text: 'int ' }] }
+        ] : undefined);
+      });
+    }
+  },
+  {
+    id: 'undeclared-identifier',
+    defaultSeverity: 'error',
+    category: 'declarations',
+    description: 'A name that is not declared in any enclosing scope, by the sketch or the Arduino core.',
+    check(context) {
+      SymbolTable.build(context.ast, context.tokens, context.libraries).unresolved.forEach(ref => {
+        if (ref.call || ref.assignment || !reportable(ref)) return;
+        context.report(ref.range, `'${ref.name}' was not declared in this scope`);
+      });
+    }
+  },
+  {
+    id: 'undefined-function',
+    defaultSeverity: 'error',
+    category: 'declarations',
+    description: 'A call to a function that is never declared, or that has a prototype but no body anywhere in the project.',
+    check(context) {
+      const table = SymbolTable.build(context.ast, context.tokens, context.libraries);
+      table.unresolved.forEach(ref => {
+        if (!ref.call || !reportable(ref)) return;
+        context.report(ref.range, `'${ref.name}' was not declared in this scope`);
+      });
+      table.symbols.forEach(symbol => {
+        if (symbol.kind !== 'function' || symbol.defined || symbol.scope !== table.global) return;
+        if (context.linkedFunctions.has(symbol.name)) return;
+        symbol.references.forEach(range => {
+          context.report(range, `Function '${symbol.name}' is declared (line ${symbol.declaration?.line}) but never defined`);
+        });
+      });
+    }
+  },
+  {
+    id: 'unused-variable',
+    defaultSeverity: 'warning',
+    category: 'declarations',
+    description: 'A global or local variable that is declared but never read or written.',
+    check(context) {
+      SymbolTable.build(context.ast, context.tokens, context.libraries).symbols.forEach(symbol => {
+        if (symbol.kind !== 'variable' || symbol.references.length > 0 || !symbol.declaration || symbol.name.startsWith('_')) return;
+        context.report(symbol.declaration, `Variable '${symbol.name}' is declared but never used`);
+      });
+    }
+  },
+  {
+    id: 'shadowed-variable',
+    defaultSeverity: 'warning',
+    category: 'declarations',
+    description: 'A local variable or parameter that hides a variable of the same name from an enclosing scope.',
+    check(context) {
+      SymbolTable.build(context.ast, context.tokens, context.libraries).shadowing.forEach(({ symbol, shadowed }) => {
+        if (!symbol.declaration) return;
+        const owner = shadowed.scope.kind === 'global' ? 'a global variable' : shadowed.kind === 'parameter' ? 'a parameter' : 'an outer variable';
+        context.report(
+          symbol.declaration,
+          `Declaration of '${symbol.name}' shadows ${owner} (line ${shadowed.declaration?.line})`
+        );
+      });
+    }
+  }
+];
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const errors = (code: string, ruleId: string, boardId = 'uno') => Analyzer.analyze(code, { boardId }).filter(e => e.ruleId === ruleId);
+
+describe('hardware rules', () => {
+  it('reports analogWrite() on pins whose timer Servo or tone() took', () => {
+    const code = '#include <Servo.h>\nServo arm;\nvoid setup() {\n  arm.attach(6);\n  analogWrite(9, 100);\n  analogWrite(5, 100);\n}\nvoid loop() {}\n';
+    expect(errors(code, 'timer-conflict')).toEqual([
+      {
+        line: 5,
+        column: 15,
+        endLine: 5,
+        endColumn: 16,
+        message:
+          'analogWrite() on pin 9 will not dim: Servo (line 2) reprograms timer1, which drives PWM on pins 9 and 10 of the Arduino Uno. ' +
+          'PWM pins that still work: 3, 5, 6, 11',
+        severity: 'warning',
+        ruleId: 'timer-conflict'
+      }
+    ]);
+    // The Mega's Servo library starts with timer5, away from the usual PWM pins
+    expect(errors(code, 'timer-conflict', 'mega2560')).toEqual([]);
+  });
+
+  it('reports plain pin use of a bus a library drives', () => {
+    const code = '#include <SPI.h>\nvoid setup() {\n  SPI.begin();\n  pinMode(13, OUTPUT);\n  pinMode(7, OUTPUT);\n}\nvoid loop() {}\n';
+    expect(errors(code, 'bus-pin-conflict')).toMatchObject([
+      { severity: 'warning', line: 4, column: 11, endColumn: 13, message: expect.stringMatching(/^Pin 13 is the SPI SCK line on Arduino Uno, and SPI uses that bus \(line 3\)/) }
+    ]);
+    expect(errors(code.replace('  SPI.begin();\n', ''), 'bus-pin-conflict')).toEqual([]);
+    expect(errors('#include <Wire.h>\nvoid setup() {\n  Wire.begin();\n  analogRead(A4);\n}\nvoid loop() {}\n', 'bus-pin-conflict')[0].message).toMatch(
+      /^Pin A4 is the I2C SDA line/
+    );
+  });
+
+  it('reports SoftwareSerial RX pins without a pin change interrupt', () => {
+    const code = '#include <SoftwareSerial.h>\nSoftwareSerial gps(4, 5);\nvoid setup() { gps.begin(9600); }\nvoid loop() {}\n';
+    const [error] = errors(code, 'software-serial-conflict', 'mega2560');
+    expect(error).toMatchObject({ severity: 'warning', line: 2, column: 20, endColumn: 21 });
+    expect(error.message).toMatch(/^SoftwareSerial can only receive on a pin with a pin change interrupt, and pin 4 has none on Arduino Mega 2560\. RX pins that work: 10, 11/);
+    expect(errors(code, 'software-serial-conflict')).toEqual([]);
+  });
+
+  it('reports what SoftwareSerial collides with', () => {
+    const code =
+      '#include <SoftwareSerial.h>\n#include <Servo.h>\nSoftwareSerial link(2, 3);\nServo arm;\nvoid count() {}\nISR(PCINT0_vect) {}\n' +
+      'void setup() {\n  attachInterrupt(0, count, RISING);\n}\nvoid loop() {}\n';
+    expect(errors(code, 'software-serial-conflict').map(e => [e.line, e.message.split(',')[0]])).toEqual([
+      [4, 'SoftwareSerial (line 3) keeps interrupts off for each byte it sends or receives'],
+      [6, 'SoftwareSerial (line 3) already defines every pin change interrupt handler'],
+      [8, 'SoftwareSerial (line 3) keeps interrupts off while it sends or receives a byte (about 1 ms at 9600 baud)']
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    const code = '#include <Servo.h>\nServo arm;\nvoid setup() {\n  // arduino-lint-disable-next-line timer-conflict\n  analogWrite(9, 100);\n}\nvoid loop() {}\n';
+    expect(errors(code, 'timer-conflict')).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import type { Rule } from '../analyzer';
+import { BoardProfile, BusName } from '../boards';
+import { analyzeInterrupts } from '../interruptUsage';
+import { analyzePins, pinLabel } from '../pinUsage';
+import { analyzeResources, ResourceClaim } from '../resourceUsage';
+import { collectFunctions } from './sketch';
+
+const BUS_LABELS: Record<BusName, string> = { SPI: 'SPI', Wire: 'I2C' };
+
+// '9 and 10', '2, 3 and 5'
+function listPins(pins: number[]): string {
+  return pins.length > 1 ? `${pins.slice(0, -1).join(', ')} and ${pins[pins.length - 1]}` : pins.join('');
+}
+
+function timerClaims(claims: ResourceClaim[], board: BoardProfile): ResourceClaim[] {
+  return claims.filter(claim => claim.resource in board.timers);
+}
+
+export const hardwareRules: Rule[] = [
+  {
+    id: 'timer-conflict',
+    defaultSeverity: 'warning',
+    category: 'hardware',
+    description: 'analogWrite() on a pin whose timer a library such as Servo, or tone(), has taken over, or two libraries that need the same timer.',
+    check(context) {
+      const { board } = context;
+      const timers = timerClaims(analyzeResources(context.ast, context.tokens, board).claims, board);
+      if (timers.length === 0) return;
+
+      timers.forEach((claim, index) => {
+        const other = timers.slice(0, index).find(c => c.resource === claim.resource);
+        if (other) {
+          context.report(claim.range, `${claim.owner} and ${other.owner} (line ${other.range.line}) both need ${claim.resource} on ${board.name}, so only one of them will work`);
+        }
+      });
+
+      const taken = (pin: number) => timers.find(claim => board.timers[claim.resource].includes(pin));
+      const freePins = board.pwmPins.filter(pin => !taken(pin));
+      analyzePins(context.ast, context.tokens, board).usages.forEach(usage => {
+        const claim = usage.fn === 'analogWrite' ? taken(usage.pin) : undefined;
+        if (!claim) return;
+        context.report(
+          usage.range,
+          `analogWrite() on pin ${usage.label} will not dim: ${claim.owner} (line ${claim.range.line}) reprograms ${claim.resource}, ` +
+            `which drives PWM on pins ${listPins(board.timers[claim.resource])} of the ${board.name}.` +
+            (freePins.length > 0 ? ` PWM pins that still work: ${freePins.join(', ')}` : '')
+        );
+      });
+    }
+  },
+  {
+    id: 'bus-pin-conflict',
+    defaultSeverity: 'warning',
+    category: 'hardware',
+    description: 'A pin used as plain GPIO while it carries the SPI or I2C bus that a library in the sketch also uses.',
+    check(context) {
+      const { board } = context;
+      const buses = analyzeResources(context.ast, context.tokens, board).claims.filter(claim => claim.resource in board.busPins);
+      if (buses.length === 0) return;
+
+      analyzePins(context.ast, context.tokens, board).usages.forEach(usage => {
+        for (const claim of buses) {
+          const bus = claim.resource as BusName;
+          const signal = Object.entries(board.busPins[bus]).find(([, pin]) => pin === usage.pin)?.[0];
+          if (!signal) continue;
+          context.report(
+            usage.range,
+            `Pin ${usage.label} is the ${BUS_LABELS[bus]} ${signal} line on ${board.name}, and ${claim.owner} uses that bus (line ${claim.range.line}). ` +
+              `${usage.fn}() on it disturbs the bus traffic; move this to another pin.`
+          );
+          return;
+        }
+      });
+    }
+  },
+  {
+    id: 'software-serial-conflict',
+    defaultSeverity: 'warning',
+    category: 'hardware',
+    description: 'SoftwareSerial on an RX pin without a pin change interrupt, or next to interrupt handlers and Servo, which it delays while it sends and receives.',
+    check(context) {
+      const { board } = context;
+      const { claims, softwareSerials } = analyzeResources(context.ast, context.tokens, board);
+      const serial = claims.find(claim => claim.owner === 'SoftwareSerial');
+      if (!serial) return;
+      const where = `SoftwareSerial (line ${serial.range.line})`;
+
+      softwareSerials.forEach(port => {
+        if (port.rx === null || !port.rxRange || board.pinChangePins.includes(port.rx)) return;
+        context.report(
+          port.rxRange,
+          `SoftwareSerial can only receive on a pin with a pin change interrupt, and pin ${pinLabel(board, port.rx)} has none on ${board.name}. ` +
+            `RX pins that work: ${board.pinChangePins.map(pin => pinLabel(board, pin)).join(', ')}`
+        );
+      });
+
+      collectFunctions(context.ast.body)
+        .filter(fn => /^ISR\(PCINT\d+_vect\)$/.test(fn.name))
+        .forEach(fn => {
+          context.report(fn.nameRange, `${where} already defines every pin change interrupt handler, so ${fn.name} fails to link with a "multiple definition" error`);
+        });
+
+      analyzeInterrupts(context.ast, context.tokens, board, context.libraries).handlers.forEach(handler => {
+        if (!handler.attach) return;
+        context.report(
+          handler.attach.range,
+          `${where} keeps interrupts off while it sends or receives a byte (about 1 ms at 9600 baud), so this handler runs late and can miss pulses that come faster than that`
+        );
+      });
+
+      const servo = claims.find(claim => claim.owner === 'Servo');
+      if (servo) {
+        context.report(servo.range, `${where} keeps interrupts off for each byte it sends or receives, which delays the Servo timer interrupt and makes the servo jitter`);
+      }
+    }
+  }
+];
@@ -0,0 +1,26 @@
+import type { Rule } from '../analyzer';
+import { declarationRules } from './declarations';
+import { hardwareRules } from './hardware';
+import { interruptRules } from './interrupts';
+import { libraryRules } from './libraries';
+import { memoryRules } from './memory';
+import { pinRules } from './pins';
+import { sketchRules } from './sketch';
+import { styleRules } from './style';
+import { syntaxRules } from './syntax';
+import { timingRules } from './timing';
+import { typeRules } from './types';
+
+export const BUILTIN_RULES: Rule[] = [
+  ...syntaxRules,
+  ...sketchRules,
+  ...declarationRules,
+  ...libraryRules,
+  ...typeRules,
+  ...memoryRules,
+  ...pinRules,
+  ...timingRules,
+  ...interruptRules,
+  ...hardwareRules,
+  ...styleRules
+];
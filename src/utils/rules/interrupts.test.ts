@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+import { applyEdits } from '../quickFixes';
+
+const errors = (code: string, ruleId: string, boardId = 'uno') => Analyzer.analyze(code, { boardId }).filter(e => e.ruleId === ruleId);
+
+const attach = (argument: string) => `void count() {}\nvoid setup() {\n  attachInterrupt(${argument}, count, RISING);\n}\nvoid loop() {}\n`;
+
+describe('interrupt rules', () => {
+  it('reports pins that cannot trigger interrupts', () => {
+    expect(errors(attach('digitalPinToInterrupt(4)'), 'interrupt-pin')).toEqual([
+      {
+        line: 3,
+        column: 41,
+        endLine: 3,
+        endColumn: 42,
+        message: 'Pin 4 cannot trigger interrupts on Arduino Uno. Interrupt pins: 2, 3',
+        severity: 'error',
+        ruleId: 'interrupt-pin'
+      }
+    ]);
+    expect(errors(attach('digitalPinToInterrupt(3)'), 'interrupt-pin')).toEqual([]);
+    expect(errors(attach('0'), 'interrupt-pin')).toEqual([]);
+  });
+
+  it('wraps a pin passed as an interrupt number in digitalPinToInterrupt()', () => {
+    const code = attach('3');
+    const [error] = errors(code, 'interrupt-pin');
+    expect(error).toMatchObject({ line: 3, column: 19, endColumn: 20 });
+    expect(error.message).toContain('To use pin 3, write digitalPinToInterrupt(3).');
+    expect(applyEdits(code, error.fixes![0].edits)).toContain('attachInterrupt(digitalPinToInterrupt(3), count, RISING);');
+  });
+
+  it('checks GPIO numbers on the ESP cores', () => {
+    expect(errors(attach('4'), 'interrupt-pin', 'esp32')).toEqual([]);
+    expect(errors(attach('6'), 'interrupt-pin', 'esp32')[0].message).toMatch(/^GPIO 6 cannot trigger interrupts on ESP32 Dev Module/);
+  });
+
+  it('reports blocking calls in a handler and the functions it calls', () => {
+    const code = 'void report() { Serial.println("hit"); }\nvoid count() {\n  delay(10);\n  report();\n}\nvoid setup() { attachInterrupt(0, count, RISING); }\nvoid loop() { report(); }\n';
+    expect(errors(code, 'isr-blocking-call').map(e => [e.line, e.column, e.severity, e.message.split(':')[0]])).toEqual([
+      [1, 17, 'warning', 'Serial.println() inside count()'],
+      [3, 3, 'warning', 'delay() inside count()']
+    ]);
+  });
+
+  it('makes a shared variable volatile', () => {
+    const code = 'bool pressed = false;\nvoid hit() { pressed = true; }\nvoid setup() { attachInterrupt(0, hit, FALLING); }\nvoid loop() { if (pressed) pressed = false; }\n';
+    const [error] = errors(code, 'non-volatile-isr-variable');
+    expect(error).toMatchObject({ severity: 'warning', line: 1, column: 6, endLine: 1, endColumn: 13 });
+    expect(applyEdits(code, error.fixes![0].edits).split('\n')[0]).toBe('volatile bool pressed = false;');
+    expect(errors(`volatile ${code}`, 'non-volatile-isr-variable')).toEqual([]);
+  });
+
+  it('guards reads of multi-byte shared variables', () => {
+    const code =
+      'volatile unsigned long pulses;\nvoid count() { pulses++; }\nvoid setup() { attachInterrupt(0, count, RISING); }\nvoid loop() {\n  unsigned long copy = pulses;\n  Serial.println(copy);\n}\n';
+    const [error] = errors(code, 'unguarded-isr-variable');
+    expect(error).toMatchObject({ severity: 'warning', line: 5, column: 24, endColumn: 30 });
+    expect(applyEdits(code, error.fixes![0].edits)).toContain('  noInterrupts();\n  unsigned long copy = pulses;\n  interrupts();\n');
+    // A single byte cannot be torn on AVR, and four can't on a 32-bit core
+    expect(errors(code.replace('unsigned long', 'byte'), 'unguarded-isr-variable')).toEqual([]);
+    expect(errors(code, 'unguarded-isr-variable', 'esp32')).toEqual([]);
+  });
+
+  it('honours a suppression comment', () => {
+    const code = 'void count() {\n  // arduino-lint-disable-next-line isr-blocking-call\n  delay(10);\n}\nvoid setup() { attachInterrupt(0, count, RISING); }\nvoid loop() {}\n';
+    expect(errors(code, 'isr-blocking-call')).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { QuickFix } from '../../types';
+import type { Rule, RuleContext } from '../analyzer';
+import { BoardProfile } from '../boards';
+import { Expression, SourceRange, calleeName, containsRange, walk } from '../cppAst';
+import { analyzeInterrupts, SharedAccess } from '../interruptUsage';
+import { analyzePins, collectConstants, pinLabel } from '../pinUsage';
+import { textInRange } from '../quickFixes';
+
+// Why a call does not belong in an interrupt handler, by callee
+const BLOCKING_CALLS: Record<string, string> = {
+  delay: 'delay() counts timer interrupts, which cannot run while the handler does, so it stalls the whole sketch',
+  millis: 'millis() does not advance while the handler runs, so any timing done with it here is wrong',
+  pulseIn: 'pulseIn() waits for a whole pulse, up to a second, with every other interrupt held off',
+  pulseInLong: 'pulseInLong() waits for a whole pulse and needs the timer interrupt to do it'
+};
+
+// Serial and Wire move their data from interrupts of their own
+const INTERRUPT_DRIVEN = /^(Serial\d?|Wire\d?)\./;
+
+function describeHandler(name: string): string {
+  if (name === 'lambda') return 'the interrupt handler';
+  return name.startsWith('ISR(') ? name : `${name}()`;
+}
+
+function pinList(board: BoardProfile): string {
+  return board.interruptPins.map(pin => pinLabel(board, pin)).join(', ');
+}
+
+function resolveNumber(expression: Expression, constants: Map<string, Expression>): number | null {
+  const value = expression.kind === 'Identifier' ? constants.get(expression.name) : expression;
+  return value?.kind === 'NumberLiteral' && !value.isFloat ? value.value : null;
+}
+
+// Reads that are a single instruction cannot be torn by an interrupt
+function atomicBytes(board: BoardProfile): number {
+  return board.architecture === 'avr' ? 1 : 4;
+}
+
+function indentationOf(context: RuleContext, line: number): string {
+  return context.code.split('\n')[line - 1]?.match(/^\s*/)?.[0] ?? '';
+}
+
+// Wraps a one-line statement in noInterrupts()/interrupts()
+function guardFix(context: RuleContext, access: SharedAccess): QuickFix[] | undefined {
+  const statement = access.statement;
+  if (!statement || (statement.kind !== 'ExpressionStatement' && statement.kind !== 'VariableDeclaration')) return undefined;
+  const { line, column, endLine, endColumn } = statement.range;
+  const indent = indentationOf(context, line);
+  if (line !== endLine || indent.length !== column - 1) return undefined;
+  return [{
+    title: 'Turn interrupts off around this statement',
+    edits: [
+      { line, column, endLine: line, endColumn: column, text: `noInterrupts();\n${indent}` },
+      { line: endLine, column: endColumn, endLine, endColumn, text: `\n${indent}interrupts();` }
+    ]
+  }];
+}
+
+export const interruptRules: Rule[] = [
+  {
+    id: 'interrupt-pin',
+    defaultSeverity: 'error',
+    category: 'interrupts',
+    description: 'attachInterrupt() on a pin or interrupt number the selected board cannot use for external interrupts.',
+    check(context) {
+      const { board } = context;
+      const { handlers } = analyzeInterrupts(context.ast, context.tokens, board, context.libraries);
+      const pinUsages = analyzePins(context.ast, context.tokens, board).usages.filter(u => u.fn === 'digitalPinToInterrupt');
+      const constants = collectConstants(context.ast);
+
+      handlers.forEach(({ attach }) => {
+        const argument = attach?.arguments[0];
+        if (!argument) return;
+
+        if (argument.kind === 'CallExpression' && calleeName(argument) === 'digitalPinToInterrupt') {
+          const usage = pinUsages.find(u => containsRange(argument.range, u.range));
+          if (usage && !board.interruptPins.includes(usage.pin)) {
+            context.report(usage.range, `Pin ${usage.label} cannot trigger interrupts on ${board.name}. Interrupt pins: ${pinList(board)}`);
+          }
+          return;
+        }
+
+        const number = resolveNumber(argument, constants);
+        if (number === null) return;
+        if (board.architecture !== 'avr') {
+          // On the ESP cores the first argument is the GPIO number itself
+          if (!board.interruptPins.includes(number)) {
+            context.report(argument.range, `GPIO ${number} cannot trigger interrupts on ${board.name}. Interrupt pins: ${pinList(board)}`);
+          }
+          return;
+        }
+        if (number < board.interruptPins.length) return;
+
+        const text = textInRange(context.code, argument.range);
+        const meantPin = board.interruptPins.includes(number);
+        context.report(
+          argument.range,
+          `attachInterrupt() takes an interrupt number, not a pin, and ${board.name} only has interrupts 0-${board.interruptPins.length - 1} ` +
+            `(pins ${pinList(board)}).${meantPin ? ` To use pin ${number}, write digitalPinToInterrupt(${text}).` : ''}`,
+          meantPin ? [{ title: `Use digitalPinToInterrupt(${text})`, edits: [{ ...argument.range, text: `digitalPinToInterrupt(${text})` }] }] : undefined
+        );
+      });
+    }
+  },
+  {
+    id: 'isr-blocking-call',
+    defaultSeverity: 'warning',
+    category: 'interrupts',
+    description: 'A call inside an interrupt handler that waits, relies on other interrupts or reads a clock that is stopped, such as delay(), millis() or Serial.print().',
+    check(context) {
+      const reported = new Set<string>();
+      analyzeInterrupts(context.ast, context.tokens, context.board, context.libraries).handlers.forEach(handler => {
+        handler.bodies.forEach(body => {
+          walk(body, node => {
+            if (node.kind !== 'CallExpression') return;
+            const name = calleeName(node) ?? '';
+            const reason = BLOCKING_CALLS[name] ?? (INTERRUPT_DRIVEN.test(name) ? `${name}() relies on interrupts to move its data and can wait forever once its buffer fills` : null);
+            const key = `${node.range.line}:${node.range.column}`;
+            if (!reason || reported.has(key)) return;
+            reported.add(key);
+            context.report(
+              node.range,
+              `${name}() inside ${describeHandler(handler.name)}: ${reason}. Set a volatile flag in the handler and do the work in loop().`
+            );
+          });
+        });
+      });
+    }
+  },
+  {
+    id: 'non-volatile-isr-variable',
+    defaultSeverity: 'warning',
+    category: 'interrupts',
+    description: 'A global that an interrupt handler changes and loop() uses, but that is not declared `volatile`.',
+    check(context) {
+      analyzeInterrupts(context.ast, context.tokens, context.board, context.libraries).shared.forEach(variable => {
+        if (variable.volatile) return;
+        const { line, column } = variable.declaration.range;
+        context.report(
+          variable.declarator.nameRange,
+          `'${variable.name}' is changed by ${describeHandler(variable.handler)} and used in loop(), but is not volatile. ` +
+            `The compiler may keep it in a register in loop() and never see the handler's change.`,
+          [{ title: `Declare '${variable.name}' volatile`, edits: [{ line, column, endLine: line, endColumn: column, text: 'volatile ' }] }]
+        );
+      });
+    }
+  },
+  {
+    id: 'unguarded-isr-variable',
+    defaultSeverity: 'warning',
+    category: 'interrupts',
+    description: 'A multi-byte global changed by an interrupt handler is read in loop() without noInterrupts(), so the read can be torn halfway.',
+    check(context) {
+      const { board } = context;
+      analyzeInterrupts(context.ast, context.tokens, board, context.libraries).shared.forEach(variable => {
+        if (variable.size <= atomicBytes(board)) return;
+        const statements = new Set<SourceRange>();
+        variable.accesses.forEach(access => {
+          if (access.guarded || access.write) return;
+          // One report per statement, so the rewrite is offered once
+          if (access.statement && statements.has(access.statement.range)) return;
+          if (access.statement) statements.add(access.statement.range);
+          context.report(
+            access.range,
+            `'${variable.name}' is ${variable.size} bytes, so reading it takes several instructions on the ${board.mcu}. If ` +
+              `${describeHandler(variable.handler)} fires halfway through, the value is half old and half new. Copy it with ` +
+              `interrupts off: \`noInterrupts(); copy = ${variable.name}; interrupts();\``,
+            guardFix(context, access)
+          );
+        });
+      });
+    }
+  }
+];
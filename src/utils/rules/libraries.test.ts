@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const errors = (code: string, ruleId: string) => Analyzer.analyze(code, { boardId: 'uno' }).filter(e => e.ruleId === ruleId);
+
+const sketch = (head: string, setup: string) => `${head}\nvoid setup() {\n${setup}\n}\nvoid loop() {}\n`;
+
+describe('library rules', () => {
+  it('reports headers that are not in the catalog', () => {
+    expect(errors(sketch('#include <Mystery.h>', ''), 'unknown-library')).toMatchObject([
+      { severity: 'warning', line: 1, column: 11, endLine: 1, endColumn: 20, message: expect.stringMatching(/^'Mystery\.h' is not in the library catalog/) }
+    ]);
+    expect(errors(sketch('#include <Servo.h>\n#include <SPI.h>\n#include "local.h"', ''), 'unknown-library')).toEqual([]);
+  });
+
+  it('corrects the case of a known header', () => {
+    const [error] = errors(sketch('#include <servo.h>', ''), 'unknown-library');
+    expect(error.message).toBe("No library provides 'servo.h'; header names are case-sensitive. Did you mean 'Servo.h'?");
+    expect(error.fixes).toEqual([{ title: "Change to 'Servo.h'", edits: [{ line: 1, column: 11, endLine: 1, endColumn: 18, text: 'Servo.h' }] }]);
+  });
+
+  it('reports methods the class does not have', () => {
+    const code = sketch('#include <Servo.h>\nServo arm;', '  arm.atach(9);\n  arm.Write(90);');
+    const found = errors(code, 'unknown-library-member');
+    expect(found.map(e => [e.line, e.column, e.endColumn, e.severity, e.message])).toEqual([
+      [4, 7, 12, 'error', "'Servo' has no member named 'atach'"],
+      [5, 7, 12, 'error', "'Servo' has no member named 'Write'. Did you mean 'write'?"]
+    ]);
+    expect(found[0].fixes).toBeUndefined();
+    expect(found[1].fixes).toEqual([{ title: "Change to 'write'", edits: [{ line: 5, column: 7, endLine: 5, endColumn: 12, text: 'write' }] }]);
+  });
+
+  it('reports calls no overload takes', () => {
+    const code = sketch('#include <Servo.h>\n#include <LiquidCrystal.h>\nServo arm;\nLiquidCrystal lcd(12, 11, 5);', '  arm.attach(9, 1000);\n  arm.write(90);');
+    expect(errors(code, 'library-arguments').map(e => [e.line, e.column, e.message])).toEqual([
+      [4, 15, expect.stringMatching(/^No constructor of LiquidCrystal takes 3 arguments\. Candidates: LiquidCrystal\(uint8_t rs, uint8_t enable, uint8_t d4/)],
+      [6, 7, 'No overload of Servo::attach() takes 2 arguments. Candidates: uint8_t attach(int pin); uint8_t attach(int pin, int min, int max)']
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    expect(errors(sketch('// arduino-lint-disable-next-line unknown-library -- installed with the board package\n#include <Mystery.h>', ''), 'unknown-library')).toEqual([]);
+  });
+});
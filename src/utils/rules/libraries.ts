@@ -0,0 +1,76 @@
+import type { Rule } from '../analyzer';
+import { HEADER_SYMBOLS } from '../arduinoCore';
+import { LibraryInfo, acceptsArguments, allLibraries, parseSignature } from '../libraryCatalog';
+import { analyzeLibraries, libraryIncludes } from '../libraryUsage';
+
+// Imported libraries can change between runs, so this is not a constant
+function knownHeaders(imported: LibraryInfo[]): string[] {
+  return [...Object.keys(HEADER_SYMBOLS), ...allLibraries(imported).flatMap(library => library.headers)];
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export const libraryRules: Rule[] = [
+  {
+    id: 'unknown-library',
+    defaultSeverity: 'warning',
+    category: 'libraries',
+    description: 'An `#include <...>` of a header that is neither part of the Arduino core nor a library in the built-in catalog, so nothing it declares can be checked.',
+    check(context) {
+      const known = knownHeaders(context.libraries);
+      libraryIncludes(context.tokens, context.libraries).forEach(include => {
+        if (!include.angled || known.includes(include.header)) return;
+        // Windows builds forgive the wrong case; the Linux and macOS toolchains do not
+        const match = known.find(header => header.toLowerCase() === include.header.toLowerCase());
+        if (match) {
+          context.report(include.range, `No library provides '${include.header}'; header names are case-sensitive. Did you mean '${match}'?`, [
+            { title: `Change to '${match}'`, edits: [{ ...include.range, text: match }] }
+          ]);
+          return;
+        }
+        context.report(
+          include.range,
+          `'${include.header}' is not in the library catalog, so calls into it are not checked. Import the library's .zip, or make sure it is installed before compiling`
+        );
+      });
+    }
+  },
+  {
+    id: 'unknown-library-member',
+    defaultSeverity: 'error',
+    category: 'libraries',
+    description: 'A call to a method that the library class does not have, such as `myServo.atach(9)`.',
+    check(context) {
+      analyzeLibraries(context.ast, context.tokens, context.libraries).calls.forEach(call => {
+        const { cls, method } = call;
+        if (!cls || method === null || !cls.complete || call.overloads.length > 0) return;
+        const names = [...new Set(cls.methods.map(text => parseSignature(text).name))];
+        const match = names.find(name => name.toLowerCase() === method.toLowerCase());
+        context.report(
+          call.nameRange,
+          `'${cls.name}' has no member named '${method}'${match ? `. Did you mean '${match}'?` : ''}`,
+          match ? [{ title: `Change to '${match}'`, edits: [{ ...call.nameRange, text: match }] }] : undefined
+        );
+      });
+    }
+  },
+  {
+    id: 'library-arguments',
+    defaultSeverity: 'error',
+    category: 'libraries',
+    description: 'A library function, method or constructor called with a number of arguments that none of its overloads accepts.',
+    check(context) {
+      analyzeLibraries(context.ast, context.tokens, context.libraries).calls.forEach(call => {
+        const { cls, method, overloads } = call;
+        if (overloads.length === 0 || overloads.some(signature => acceptsArguments(signature, call.argumentCount))) return;
+        const what = method === null ? `constructor of ${cls?.name}` : `overload of ${cls ? `${cls.name}::` : ''}${method}()`;
+        context.report(
+          call.nameRange,
+          `No ${what} takes ${plural(call.argumentCount, 'argument')}. Candidates: ${overloads.map(signature => signature.text).join('; ')}`
+        );
+      });
+    }
+  }
+];
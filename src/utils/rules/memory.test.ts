@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const sketch = (globals: string, setup: string) => `${globals}\nvoid setup() { ${setup} }\nvoid loop() {}\n`;
+// A constant string in flash, `length` characters long
+const text = (length: number) => sketch(`const char text[] PROGMEM = "${'x'.repeat(length)}";`, 'Serial.print(text[1]);');
+
+const errors = (code: string, boardId = 'uno') => Analyzer.analyze(code, { boardId });
+
+describe('memory rules', () => {
+  it('reports a sketch too big for the board, naming the largest parts', () => {
+    const [error] = errors(text(40000));
+    expect(error).toMatchObject({ ruleId: 'flash-overflow', severity: 'error', line: 1, column: 0 });
+    expect(error.message).toMatch(/^Sketch too big: about \d+ bytes of program storage, but Arduino Uno has 32256 bytes\. Largest: text \(40001 bytes\)/);
+    expect(errors(text(40000), 'mega2560')).toEqual([]);
+  });
+
+  it('warns when flash is almost full', () => {
+    const [error] = errors(text(30000));
+    expect(error).toMatchObject({ ruleId: 'low-flash', severity: 'warning', line: 1, column: 0 });
+    expect(error.message).toMatch(/^Program storage almost full: about \d+ of 32256 bytes\. Largest: text \(30001 bytes\)/);
+  });
+
+  it('warns when globals leave little SRAM, and when they do not fit at all', () => {
+    expect(errors(sketch('char buffer[1700];', 'buffer[0] = 1;'))).toEqual([
+      {
+        line: 1,
+        column: 0,
+        message: 'Low memory available: global variables use about 1709 of 2048 bytes. Stability problems may occur. Largest: buffer (1700 bytes).',
+        severity: 'warning',
+        ruleId: 'low-memory'
+      }
+    ]);
+    expect(errors(sketch('char buffer[3000];', 'buffer[0] = 1;'))[0].message).toBe(
+      'Global variables use about 3009 bytes of dynamic memory, but Arduino Uno has 2048 bytes. Largest: buffer (3000 bytes).'
+    );
+    expect(errors(sketch('char buffer[1700];', 'buffer[0] = 1;'), 'mega2560')).toEqual([]);
+  });
+
+  it('honours a file-level suppression', () => {
+    expect(errors(`// arduino-lint-disable low-memory -- the buffer is the point of this sketch\n${sketch('char buffer[1700];', 'buffer[0] = 1;')}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { Rule } from '../analyzer';
+import { LOW_MEMORY_RATIO, MemoryEstimate, MemoryEstimator } from '../memoryEstimator';
+
+// `buffer (512 bytes), Serial (175 bytes)`, so the warning says where to start trimming
+function largest(estimate: MemoryEstimate, key: 'flashBytes' | 'sramBytes'): string {
+  return (estimate.contributors ?? [])
+    .filter(c => c.category !== 'core' && c[key] > 0)
+    .sort((a, b) => b[key] - a[key])
+    .slice(0, 3)
+    .map(c => `${c.name} (${c[key]} bytes)`)
+    .join(', ');
+}
+
+export const memoryRules: Rule[] = [
+  {
+    id: 'flash-overflow',
+    defaultSeverity: 'error',
+    category: 'memory',
+    description: "The estimated program size does not fit in the selected board's flash.",
+    check(context) {
+      const estimate = MemoryEstimator.estimate(context.ast, context.board);
+      const { flashBytes } = estimate;
+      if (flashBytes > context.board.flashBytes) {
+        context.report(
+          { line: 1, column: 0 },
+          `Sketch too big: about ${flashBytes} bytes of program storage, but ${context.board.name} has ${context.board.flashBytes} bytes. ` +
+            `Largest: ${largest(estimate, 'flashBytes')}.`
+        );
+      }
+    }
+  },
+  {
+    id: 'low-memory',
+    defaultSeverity: 'warning',
+    category: 'memory',
+    description: 'Global variables use more than 75% of SRAM, leaving little room for the stack and heap.',
+    check(context) {
+      const estimate = MemoryEstimator.estimate(context.ast, context.board);
+      const { sramBytes } = estimate;
+      const max = context.board.sramBytes;
+      const biggest = largest(estimate, 'sramBytes');
+      if (sramBytes > max) {
+        context.report(
+          { line: 1, column: 0 },
+          `Global variables use about ${sramBytes} bytes of dynamic memory, but ${context.board.name} has ${max} bytes. Largest: ${biggest}.`
+        );
+      } else if (sramBytes > max * LOW_MEMORY_RATIO) {
+        context.report(
+          { line: 1, column: 0 },
+          `Low memory available: global variables use about ${sramBytes} of ${max} bytes. Stability problems may occur. Largest: ${biggest}.`
+        );
+      }
+    }
+  },
+  {
+    id: 'low-flash',
+    defaultSeverity: 'warning',
+    category: 'memory',
+    description: 'The estimated program uses more than 75% of flash, leaving little room for the sketch to grow.',
+    check(context) {
+      const estimate = MemoryEstimator.estimate(context.ast, context.board);
+      const max = context.board.flashBytes;
+      if (estimate.flashBytes > max * LOW_MEMORY_RATIO && estimate.flashBytes <= max) {
+        context.report(
+          { line: 1, column: 0 },
+          `Program storage almost full: about ${estimate.flashBytes} of ${max} bytes. Largest: ${largest(estimate, 'flashBytes')}.`
+        );
+      }
+    }
+  }
+];
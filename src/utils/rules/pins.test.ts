@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const sketch = (setup: string) => `void setup() {\n${setup}\n}\nvoid loop() {}\n`;
+
+const errors = (code: string, boardId = 'uno') => Analyzer.analyze(code, { boardId });
+
+describe('pin rules', () => {
+  it('reports pins the board does not have', () => {
+    expect(errors(sketch('  pinMode(22, OUTPUT);'))).toEqual([
+      { line: 2, column: 11, endLine: 2, endColumn: 13, message: 'Pin 22 does not exist on Arduino Uno', severity: 'error', ruleId: 'invalid-pin' }
+    ]);
+    expect(errors(sketch('  pinMode(22, OUTPUT);'), 'mega2560')).toEqual([]);
+  });
+
+  it('reports analog-only and input-only pins used the wrong way', () => {
+    expect(errors(sketch('  digitalWrite(A6, HIGH);'), 'nano')).toMatchObject([
+      { ruleId: 'invalid-pin', line: 2, column: 16, endColumn: 18, message: 'Pin A6 is analog input only on Arduino Nano; use analogRead() instead of digitalWrite()' }
+    ]);
+    expect(errors(sketch('  digitalWrite(34, HIGH);'), 'esp32')).toMatchObject([
+      { ruleId: 'invalid-pin', message: 'Pin 34 is input only on ESP32 Dev Module and cannot be driven by digitalWrite()' }
+    ]);
+  });
+
+  it('reports analogWrite() without PWM and analogRead() without an ADC', () => {
+    expect(errors(sketch('  analogWrite(7, 100);\n  analogRead(7);\n  analogWrite(9, 100);\n  analogRead(A0);'))).toEqual([
+      {
+        line: 2,
+        column: 15,
+        endLine: 2,
+        endColumn: 16,
+        message: 'analogWrite() on pin 7, which has no PWM on Arduino Uno. PWM pins: 3, 5, 6, 9, 10, 11',
+        severity: 'warning',
+        ruleId: 'non-pwm-pin'
+      },
+      {
+        line: 3,
+        column: 14,
+        endLine: 3,
+        endColumn: 15,
+        message: 'analogRead() on pin 7, which has no ADC on Arduino Uno. Analog inputs: A0, A1, A2, A3, A4, A5',
+        severity: 'warning',
+        ruleId: 'non-adc-pin'
+      }
+    ]);
+  });
+
+  it('reports driving the pins of a serial port in use', () => {
+    expect(errors(sketch('  Serial.begin(9600);\n  digitalWrite(1, HIGH);'))).toMatchObject([
+      { ruleId: 'serial-pin-conflict', severity: 'warning', line: 3, column: 16, message: 'Pin 1 is used by Serial; digitalWrite() on it will interfere with Serial.begin()' }
+    ]);
+    expect(errors(sketch('  digitalWrite(1, HIGH);'))).toEqual([]);
+  });
+
+  it('reports digitalWrite() to a pin only ever set to INPUT', () => {
+    expect(errors(sketch('  pinMode(4, INPUT);\n  digitalWrite(4, HIGH);'))).toMatchObject([
+      { ruleId: 'pin-mode-conflict', severity: 'warning', line: 3, column: 16, endColumn: 17, message: expect.stringContaining('configured as INPUT (line 2)') }
+    ]);
+    expect(errors(sketch('  pinMode(4, INPUT);\n  pinMode(4, OUTPUT);\n  digitalWrite(4, HIGH);'))).toEqual([]);
+  });
+
+  it('honours a suppression comment', () => {
+    expect(errors(sketch('  // arduino-lint-disable-next-line non-pwm-pin -- only ever full on\n  analogWrite(7, 255);'))).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Rule } from '../analyzer';
+import { analyzePins, PinFunction, PinUsage } from '../pinUsage';
+
+const DRIVING = new Set<PinFunction>(['digitalWrite', 'analogWrite', 'tone', 'shiftOut', 'Servo.attach']);
+
+const drivesPin = (usage: PinUsage): boolean => DRIVING.has(usage.fn) || (usage.fn === 'pinMode' && usage.mode === 'OUTPUT');
+
+// Everything except the ADC and the interrupt lookup needs a digital pin
+const isDigital = (usage: PinUsage): boolean => usage.fn !== 'analogRead' && usage.fn !== 'analogWrite' && usage.fn !== 'digitalPinToInterrupt';
+
+export const pinRules: Rule[] = [
+  {
+    id: 'invalid-pin',
+    defaultSeverity: 'error',
+    category: 'pins',
+    description: "A pin number that does not exist on the selected board, or that the board's hardware cannot use the way the sketch does.",
+    check(context) {
+      const { board } = context;
+      analyzePins(context.ast, context.tokens, board).usages.forEach(usage => {
+        const exists = board.digitalPins.includes(usage.pin) || board.adcPins.includes(usage.pin);
+        if (!exists) {
+          context.report(usage.range, `Pin ${usage.label} does not exist on ${board.name}`);
+        } else if (isDigital(usage) && !board.digitalPins.includes(usage.pin)) {
+          context.report(usage.range, `Pin ${usage.label} is analog input only on ${board.name}; use analogRead() instead of ${usage.fn}()`);
+        } else if (drivesPin(usage) && board.inputOnlyPins.includes(usage.pin)) {
+          context.report(usage.range, `Pin ${usage.label} is input only on ${board.name} and cannot be driven by ${usage.fn}()`);
+        }
+      });
+    }
+  },
+  {
+    id: 'non-pwm-pin',
+    defaultSeverity: 'warning',
+    category: 'pins',
+    description: 'analogWrite() on a pin without PWM just switches it fully on or off.',
+    check(context) {
+      const { board } = context;
+      analyzePins(context.ast, context.tokens, board).usages.forEach(usage => {
+        if (usage.fn !== 'analogWrite' || !board.digitalPins.includes(usage.pin) || board.pwmPins.includes(usage.pin)) return;
+        context.report(
+          usage.range,
+          `analogWrite() on pin ${usage.label}, which has no PWM on ${board.name}. PWM pins: ${board.pwmPins.join(', ')}`
+        );
+      });
+    }
+  },
+  {
+    id: 'non-adc-pin',
+    defaultSeverity: 'warning',
+    category: 'pins',
+    description: 'analogRead() on a pin that is not connected to the ADC returns meaningless values.',
+    check(context) {
+      const { board } = context;
+      const analogNames = Object.keys(board.analogPins).join(', ');
+      analyzePins(context.ast, context.tokens, board).usages.forEach(usage => {
+        if (usage.fn !== 'analogRead' || !board.digitalPins.includes(usage.pin) || board.adcPins.includes(usage.pin)) return;
+        context.report(usage.range, `analogRead() on pin ${usage.label}, which has no ADC on ${board.name}. Analog inputs: ${analogNames}`);
+      });
+    }
+  },
+  {
+    id: 'serial-pin-conflict',
+    defaultSeverity: 'warning',
+    category: 'pins',
+    description: 'Driving the RX/TX pins of a hardware serial port that the sketch also uses corrupts the serial traffic.',
+    check(context) {
+      const { board } = context;
+      const { usages, serialPorts } = analyzePins(context.ast, context.tokens, board);
+      const owners = new Map<number, string>();
+      serialPorts.forEach(port => board.serialPins[port].forEach(pin => owners.set(pin, port)));
+
+      usages.forEach(usage => {
+        const port = owners.get(usage.pin);
+        if (port && drivesPin(usage)) {
+          context.report(usage.range, `Pin ${usage.label} is used by ${port}; ${usage.fn}() on it will interfere with ${port}.begin()`);
+        }
+      });
+    }
+  },
+  {
+    id: 'pin-mode-conflict',
+    defaultSeverity: 'warning',
+    category: 'pins',
+    description: 'A pin set to INPUT and never to OUTPUT is written with digitalWrite(), which only toggles the pull-up resistor.',
+    check(context) {
+      const { usages } = analyzePins(context.ast, context.tokens, context.board);
+      const modes = new Map<number, Set<string>>();
+      usages.forEach(usage => {
+        if (usage.fn !== 'pinMode' || !usage.mode) return;
+        if (!modes.has(usage.pin)) modes.set(usage.pin, new Set());
+        modes.get(usage.pin)!.add(usage.mode);
+      });
+
+      usages.forEach(usage => {
+        const pinModes = modes.get(usage.pin);
+        if (usage.fn !== 'digitalWrite' || !pinModes?.has('INPUT') || pinModes.has('OUTPUT')) return;
+        const input = usages.find(u => u.fn === 'pinMode' && u.pin === usage.pin && u.mode === 'INPUT')!;
+        context.report(
+          usage.range,
+          `Pin ${usage.label} is configured as INPUT (line ${input.range.line}) but written with digitalWrite(); set it to OUTPUT first`
+        );
+      });
+    }
+  }
+];
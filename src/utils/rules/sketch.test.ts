@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const errors = (code: string) => Analyzer.analyze(code, { boardId: 'uno' });
+
+describe('sketch rules', () => {
+  it('reports a missing setup() and adds one below the directives', () => {
+    const [error] = errors('#include <Wire.h>\nvoid loop() {}\n');
+    expect(error).toMatchObject({ ruleId: 'missing-setup', severity: 'error', line: 1, column: 0 });
+    expect(error.fixes).toEqual([
+      { title: 'Add an empty setup() function', edits: [{ line: 2, column: 1, endLine: 2, endColumn: 1, text: '\nvoid setup() {\n}\n' }] }
+    ]);
+  });
+
+  it('reports a missing loop() and adds one after setup()', () => {
+    const [error] = errors('void setup() {\n}\n');
+    expect(error).toMatchObject({ ruleId: 'missing-loop', severity: 'error', line: 1, column: 0 });
+    expect(error.fixes![0].edits).toEqual([{ line: 2, column: 2, endLine: 2, endColumn: 2, text: '\n\nvoid loop() {\n}' }]);
+  });
+
+  it('renames a misspelled entry point instead of adding another', () => {
+    const found = errors('void setup() {}\nvoid lop() {}\n');
+    expect(found.map(e => e.ruleId)).toEqual(['missing-loop', 'misspelled-entry-point']);
+    expect(found[0].fixes).toBeUndefined();
+    expect(found[1]).toMatchObject({ severity: 'error', line: 2, column: 6, endLine: 2, endColumn: 9 });
+    expect(found[1].fixes).toEqual([{ title: "Rename to 'loop'", edits: [{ line: 2, column: 6, endLine: 2, endColumn: 9, text: 'loop' }] }]);
+  });
+
+  it('reports a second definition with the same parameters but not overloads', () => {
+    const found = errors('void blink(int n) {}\nvoid blink(int n) {}\nvoid blink(long n) {}\nvoid setup() {}\nvoid loop() {}\n');
+    expect(found).toEqual([
+      {
+        line: 2,
+        column: 6,
+        endLine: 2,
+        endColumn: 11,
+        message: "Redefinition of function 'blink'. Function already defined.",
+        severity: 'error',
+        ruleId: 'duplicate-function'
+      }
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    expect(errors('void setup() {}\n// arduino-lint-disable-next-line misspelled-entry-point\nvoid lop() {}\n').map(e => e.ruleId)).toEqual(['missing-loop']);
+  });
+});
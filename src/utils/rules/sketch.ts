@@ -0,0 +1,149 @@
+import { QuickFix } from '../../types';
+import type { Rule, RuleContext } from '../analyzer';
+import { AstNode, Declaration, FunctionDeclaration, TranslationUnit, walk } from '../cppAst';
+
+export const MISSPELLED_ARDUINO_FUNCTIONS: Record<string, string> = {
+  'lop': 'loop',
+  'loo': 'loop',
+  'looop': 'loop',
+  'setu': 'setup',
+  'setpu': 'setup',
+  'setp': 'setup'
+};
+
+// Free functions and out-of-class member definitions, including those inside namespaces
+export function collectFunctions(body: Declaration[]): FunctionDeclaration[] {
+  const functions: FunctionDeclaration[] = [];
+  body.forEach(decl => {
+    if (decl.kind === 'FunctionDeclaration') functions.push(decl);
+    if (decl.kind === 'NamespaceDeclaration') functions.push(...collectFunctions(decl.body));
+  });
+  return functions;
+}
+
+// `roots` and every function of this file they call, directly or through
+// others; lambdas and other bodies can be roots too
+export function reachableFunctions(ast: TranslationUnit, roots: AstNode[]): FunctionDeclaration[] {
+  const functions = collectFunctions(ast.body).filter(fn => fn.body && fn.className === null);
+  const reached = new Set<FunctionDeclaration>();
+  const visit = (node: AstNode) => {
+    walk(node, child => {
+      if (child.kind !== 'CallExpression' || child.callee.kind !== 'Identifier') return;
+      const name = child.callee.name;
+      functions.filter(fn => fn.name === name && !reached.has(fn)).forEach(fn => {
+        reached.add(fn);
+        visit(fn.body!);
+      });
+    });
+  };
+  roots.forEach(root => {
+    if (root.kind === 'FunctionDeclaration') reached.add(root);
+    visit(root);
+  });
+  return [...reached];
+}
+
+// Parameter types without their names, so overloads can be told apart
+function signature(fn: FunctionDeclaration): string {
+  const params = fn.params.map(p => {
+    const qualifiers = p.type.qualifiers.filter(q => q === 'const').join(' ');
+    return `${qualifiers} ${p.type.name}${'*'.repeat(p.pointer)}${p.reference ? '&' : ''}${'[]'.repeat(p.arrayDims.length)}`.trim();
+  });
+  return `${fn.className ? `${fn.className}::` : ''}${fn.name}(${params.join(',')})`;
+}
+
+function definesEntryPoint(ast: TranslationUnit, name: string): boolean {
+  return collectFunctions(ast.body).some(f => f.body && f.className === null && f.name === name && f.returnType?.name === 'void');
+}
+
+// New entry points go below the #include and #define lines at the top
+function afterDirectives(context: RuleContext): number {
+  let line = 0;
+  for (const token of context.tokens) {
+    if (token.kind === 'preprocessor') line = token.endLine;
+    else if (token.kind !== 'comment' && token.kind !== 'eof') break;
+  }
+  return line + 1;
+}
+
+// Renaming `lop` is the better fix than adding a second, empty loop()
+function hasMisspelling(context: RuleContext, name: string): boolean {
+  return collectFunctions(context.ast.body).some(f => MISSPELLED_ARDUINO_FUNCTIONS[f.name] === name && f.className === null);
+}
+
+function insertFunction(name: string, line: number, text: string, column = 1): QuickFix[] {
+  return [{ title: `Add an empty ${name}() function`, edits: [{ line, column, endLine: line, endColumn: column, text }] }];
+}
+
+export const sketchRules: Rule[] = [
+  {
+    id: 'missing-setup',
+    defaultSeverity: 'error',
+    category: 'sketch',
+    sketchOnly: true,
+    description: 'Every sketch needs a `void setup()` function; the Arduino core calls it once at start-up.',
+    check(context) {
+      if (!definesEntryPoint(context.ast, 'setup')) {
+        const line = afterDirectives(context);
+        context.report(
+          { line: 1, column: 0 },
+          'Arduino sketch must have a void setup() function',
+          hasMisspelling(context, 'setup') ? undefined : insertFunction('setup', line, line > 1 ? '\nvoid setup() {\n}\n' : 'void setup() {\n}\n\n')
+        );
+      }
+    }
+  },
+  {
+    id: 'missing-loop',
+    defaultSeverity: 'error',
+    category: 'sketch',
+    sketchOnly: true,
+    description: 'Every sketch needs a `void loop()` function; the Arduino core calls it repeatedly after setup().',
+    check(context) {
+      if (!definesEntryPoint(context.ast, 'loop')) {
+        const setup = collectFunctions(context.ast.body).find(f => f.body && f.className === null && f.name === 'setup');
+        const lines = context.code.split('\n');
+        const after = setup?.range ?? { endLine: lines.length, endColumn: lines[lines.length - 1].length + 1 };
+        context.report(
+          { line: 1, column: 0 },
+          'Arduino sketch must have a void loop() function',
+          hasMisspelling(context, 'loop') ? undefined : insertFunction('loop', after.endLine, '\n\nvoid loop() {\n}', after.endColumn)
+        );
+      }
+    }
+  },
+  {
+    id: 'misspelled-entry-point',
+    defaultSeverity: 'error',
+    category: 'sketch',
+    sketchOnly: true,
+    description: 'A function whose name is a likely typo of `setup` or `loop`, such as `lop` or `setu`.',
+    check(context) {
+      collectFunctions(context.ast.body).forEach(fn => {
+        const correctName = MISSPELLED_ARDUINO_FUNCTIONS[fn.name];
+        if (correctName && fn.className === null) {
+          context.report(fn.nameRange, `Function '${fn.name}' appears to be misspelled. Did you mean '${correctName}'?`, [
+            { title: `Rename to '${correctName}'`, edits: [{ ...fn.nameRange, text: correctName }] }
+          ]);
+        }
+      });
+    }
+  },
+  {
+    id: 'duplicate-function',
+    defaultSeverity: 'error',
+    category: 'sketch',
+    description: 'A function is defined twice with the same parameter types. Overloads with different parameters are allowed.',
+    check(context) {
+      const definitions = new Set<string>();
+      collectFunctions(context.ast.body).forEach(fn => {
+        if (!fn.body) return;
+        const key = signature(fn);
+        if (definitions.has(key)) {
+          context.report(fn.nameRange, `Redefinition of function '${fn.name}'. Function already defined.`);
+        }
+        definitions.add(key);
+      });
+    }
+  }
+];
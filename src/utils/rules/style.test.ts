@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const errors = (code: string) => Analyzer.analyze(code, { boardId: 'uno' });
+
+describe('style rules', () => {
+  it('moves a second statement on a line to its own line', () => {
+    const [error] = errors('void setup() {\n  int a = 1; int b = 2;\n  Serial.print(a + b);\n}\nvoid loop() {}\n');
+    expect(error).toMatchObject({ ruleId: 'multiple-statements-per-line', severity: 'error', line: 2, column: 14, endLine: 2, endColumn: 24 });
+    expect(error.fixes).toEqual([
+      { title: 'Move the statement to its own line', edits: [{ line: 2, column: 13, endLine: 2, endColumn: 14, text: '\n  ' }] }
+    ]);
+  });
+
+  it('leaves blocks written on one line alone', () => {
+    expect(errors('void setup() { int a = 1; Serial.print(a); }\nvoid loop() {}\n')).toEqual([]);
+  });
+
+  it('reports short void function names', () => {
+    expect(errors('void go() {}\nint id() { return 1; }\nvoid setup() { go(); id(); }\nvoid loop() {}\n')).toEqual([
+      {
+        line: 1,
+        column: 6,
+        endLine: 1,
+        endColumn: 8,
+        message: "Function name 'go' is too short. Use descriptive names (e.g., 'blinkLED', 'readSensor').",
+        severity: 'warning',
+        ruleId: 'short-function-name'
+      }
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    const code = 'void setup() {\n  // arduino-lint-disable-next-line multiple-statements-per-line\n  int a = 1; int b = 2;\n  Serial.print(a + b);\n}\nvoid loop() {}\n';
+    expect(errors(code)).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { Rule } from '../analyzer';
+import { CompoundStatement, Statement, walk } from '../cppAst';
+import { collectFunctions, MISSPELLED_ARDUINO_FUNCTIONS } from './sketch';
+
+export const styleRules: Rule[] = [
+  {
+    id: 'multiple-statements-per-line',
+    defaultSeverity: 'error',
+    category: 'style',
+    description:
+      'Two statements start on the same line of a block. Labels, a trailing `break` and blocks written entirely on one line (`{ a(); b(); }`) are fine.',
+    check(context) {
+      const reported = new Set<number>();
+
+      walk(context.ast, node => {
+        if (node.kind !== 'CompoundStatement' || node.range.line === node.range.endLine) return;
+        const statements = (node as CompoundStatement).body.filter(
+          (s: Statement) => !['CaseLabel', 'LabelStatement', 'EmptyStatement', 'BreakStatement'].includes(s.kind)
+        );
+
+        for (let i = 1; i < statements.length; i++) {
+          const statement = statements[i];
+          if (statement.range.line !== statements[i - 1].range.endLine || reported.has(statement.range.line)) continue;
+          reported.add(statement.range.line);
+          const previous = statements[i - 1].range;
+          const indent = context.code.split('\n')[previous.line - 1]?.match(/^\s*/)?.[0] ?? '';
+          context.report(statement.range, 'Multiple statements on same line. Each statement must be on a separate line.', [{
+            title: 'Move the statement to its own line',
+            edits: [{ line: previous.endLine, column: previous.endColumn, endLine: statement.range.line, endColumn: statement.range.column, text: `\n${indent}` }]
+          }]);
+        }
+      });
+    }
+  },
+  {
+    id: 'short-function-name',
+    defaultSeverity: 'warning',
+    category: 'style',
+    description: 'A `void` function with a name of three characters or fewer. Descriptive names make sketches easier to follow.',
+    check(context) {
+      const warned = new Set<string>();
+      collectFunctions(context.ast.body).forEach(fn => {
+        if (
+          fn.returnType?.name !== 'void' ||
+          fn.className !== null ||
+          fn.name.length > 3 ||
+          ['setup', 'loop'].includes(fn.name) ||
+          MISSPELLED_ARDUINO_FUNCTIONS[fn.name] ||
+          warned.has(fn.name)
+        ) {
+          return;
+        }
+        warned.add(fn.name);
+        context.report(fn.nameRange, `Function name '${fn.name}' is too short. Use descriptive names (e.g., 'blinkLED', 'readSensor').`);
+      });
+    }
+  }
+];
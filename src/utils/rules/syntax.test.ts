@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+
+const sketch = (body: string) => `void setup() {\n${body}\n}\nvoid loop() {}\n`;
+
+// The diagnostics of one rule as `line:column-endLine:endColumn severity`
+function found(code: string, ruleId: string): string[] {
+  return Analyzer.analyze(code, { boardId: 'uno' })
+    .filter(e => e.ruleId === ruleId)
+    .map(e => `${e.line}:${e.column}-${e.endLine}:${e.endColumn} ${e.severity}`);
+}
+
+describe('syntax rules', () => {
+  it('reports stray characters', () => {
+    const errors = Analyzer.analyze(sketch('  int x = 1 @ 2;'), { boardId: 'uno' }).filter(e => e.ruleId === 'syntax-error');
+    expect(errors).toMatchObject([{ line: 2, column: 13, severity: 'error', message: "Stray '@' in program" }]);
+  });
+
+  it('inserts a missing semicolon', () => {
+    const [error] = Analyzer.analyze(sketch('  int x = 1\n  x++;'), { boardId: 'uno' });
+    expect(error).toMatchObject({ ruleId: 'missing-semicolon', severity: 'error', line: 2, column: 11, endLine: 2, endColumn: 12 });
+    expect(error.fixes).toEqual([{ title: "Insert missing ';'", edits: [{ line: 2, column: 12, endLine: 2, endColumn: 12, text: ';' }] }]);
+  });
+
+  it('closes an unclosed brace before the next function', () => {
+    const [error] = Analyzer.analyze('void setup() {\n  if (1) {\n}\nvoid loop() {}\n', { boardId: 'uno' });
+    expect(error).toMatchObject({ ruleId: 'unclosed-brace', line: 1, column: 14 });
+    expect(error.fixes![0].edits).toEqual([{ line: 4, column: 1, endLine: 4, endColumn: 1, text: '}\n\n' }]);
+  });
+
+  it('reports an extra closing brace', () => {
+    expect(found(sketch('  delay(1);\n}'), 'extra-brace')).toEqual(['4:1-4:2 error']);
+  });
+
+  it('closes a parenthesis left open', () => {
+    const [error] = Analyzer.analyze(sketch('  delay((10);'), { boardId: 'uno' });
+    expect(error).toMatchObject({ ruleId: 'mismatched-parentheses', line: 2, column: 8 });
+    expect(error.fixes![0].edits).toEqual([{ line: 2, column: 13, endLine: 2, endColumn: 13, text: ')' }]);
+  });
+
+  it('inserts a missing comma between arguments', () => {
+    const [error] = Analyzer.analyze(sketch('  pinMode(13 OUTPUT);'), { boardId: 'uno' });
+    expect(error).toMatchObject({ ruleId: 'missing-comma', line: 2, column: 14, endColumn: 20 });
+    expect(error.fixes![0].edits).toEqual([{ line: 2, column: 13, endLine: 2, endColumn: 14, text: ', ' }]);
+  });
+
+  it('adds the parentheses of a call written without them', () => {
+    const [error] = Analyzer.analyze(sketch('  digitalWrite 13, HIGH;'), { boardId: 'uno' });
+    expect(error).toMatchObject({ ruleId: 'missing-call-parentheses', line: 2, column: 3, endColumn: 15 });
+    expect(error.fixes![0].edits.map(e => e.text)).toEqual(['(', ')']);
+  });
+
+  it('reports names and numbers that are not valid', () => {
+    expect(found(sketch('  int 2x = 1;'), 'invalid-identifier')).toEqual(['2:7-2:9 error']);
+    expect(found(sketch('  int x = 0x1G;'), 'invalid-number')).toEqual(['2:11-2:15 error']);
+  });
+
+  it('reports preprocessor problems and #error and #warning directives', () => {
+    expect(found(`#if 1\n${sketch('')}`, 'preprocessor')).toEqual(['1:1-1:6 error']);
+    expect(found(`#error stop here\n${sketch('')}`, 'preprocessor-error')).toEqual(['1:1-1:17 error']);
+    expect(found(`#warning careful\n${sketch('')}`, 'preprocessor-warning')).toEqual(['1:1-1:17 warning']);
+  });
+
+  it('honours a suppression comment', () => {
+    expect(found(sketch('  // arduino-lint-disable-next-line missing-comma\n  pinMode(13 OUTPUT);'), 'missing-comma')).toEqual([]);
+  });
+});
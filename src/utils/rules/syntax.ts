@@ -0,0 +1,32 @@
+import type { Rule, RuleSeverity } from '../analyzer';
+
+// Syntax problems are found by the preprocessor, lexer and parser; each rule
+// reports the errors tagged with its ID so they can be configured separately
+function syntaxRule(id: string, description: string, defaultSeverity: RuleSeverity = 'error'): Rule {
+  return {
+    id,
+    defaultSeverity,
+    category: 'syntax',
+    description,
+    check(context) {
+      context.syntaxErrors
+        .filter(e => e.ruleId === id)
+        .forEach(e => context.report(e, e.message, e.fixes));
+    }
+  };
+}
+
+export const syntaxRules: Rule[] = [
+  syntaxRule('syntax-error', 'Code that cannot be parsed as C++: stray characters, unterminated literals, unexpected tokens.'),
+  syntaxRule('missing-semicolon', 'A statement or declaration is not terminated with `;`.'),
+  syntaxRule('unclosed-brace', 'A `{` block is never closed, so the following code ends up inside it.'),
+  syntaxRule('extra-brace', 'A `}` with no matching `{`.'),
+  syntaxRule('mismatched-parentheses', 'A `(` is never closed, or is closed by the wrong delimiter.'),
+  syntaxRule('missing-comma', 'Two call arguments are written without a `,` between them, e.g. `pinMode(13 OUTPUT)`.'),
+  syntaxRule('missing-call-parentheses', 'A function is called without parentheses, e.g. `digitalWrite 13, HIGH;`.'),
+  syntaxRule('invalid-identifier', 'A variable or function name starts with a digit.'),
+  syntaxRule('invalid-number', 'A numeric literal with characters that are not valid for its base or suffix.'),
+  syntaxRule('preprocessor', 'A malformed directive: unbalanced #if/#endif, an invalid #if expression or a bad macro call.'),
+  syntaxRule('preprocessor-error', 'An `#error` directive in a branch that is active for the selected board.'),
+  syntaxRule('preprocessor-warning', 'A `#warning` directive in a branch that is active for the selected board.', 'warning')
+];
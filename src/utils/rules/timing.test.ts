@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from '../analyzer';
+import { applyEdits } from '../quickFixes';
+
+const errors = (code: string, ruleId: string) => Analyzer.analyze(code, { boardId: 'uno' }).filter(e => e.ruleId === ruleId);
+
+describe('timing rules', () => {
+  it('reports long delays in code run from loop() while inputs are polled', () => {
+    const code = 'const int PAUSE = 500;\nvoid setup() {}\nvoid loop() {\n  if (digitalRead(2)) flash();\n  delay(50);\n}\nvoid flash() {\n  delay(PAUSE);\n}\n';
+    const found = errors(code, 'blocking-delay');
+    expect(found).toMatchObject([{ severity: 'warning', line: 8, column: 3, endLine: 8, endColumn: 15 }]);
+    expect(found[0].message).toMatch(/^delay\(500\) stops the sketch for 500 ms, and digitalRead\(\) is not checked meanwhile/);
+    expect(errors(code.replace('digitalRead(2)', 'true'), 'blocking-delay')).toEqual([]);
+  });
+
+  it('rewrites `millis() > start + interval` as a subtraction', () => {
+    const code = 'unsigned long last;\nvoid setup() {}\nvoid loop() {\n  if (millis() > last + 1000) last = millis();\n  if (last + 1000 <= millis()) last = millis();\n}\n';
+    const found = errors(code, 'millis-overflow');
+    expect(found).toMatchObject([
+      { severity: 'warning', line: 4, column: 7, endLine: 4, endColumn: 29 },
+      { line: 5, column: 7, endColumn: 30 }
+    ]);
+    expect(found.map(e => e.fixes![0].edits[0].text)).toEqual(['millis() - last > 1000', 'millis() - last >= 1000']);
+    expect(errors('unsigned long last;\nvoid setup() {}\nvoid loop() {\n  if (millis() - last > 1000) last = millis();\n}\n', 'millis-overflow')).toEqual([]);
+  });
+
+  it('adds a timeout to a loop waiting for a pin', () => {
+    const code = 'void setup() {\n  while (digitalRead(2) == HIGH) {}\n}\nvoid loop() {}\n';
+    const [error] = errors(code, 'blocking-pin-wait');
+    expect(error).toMatchObject({ severity: 'warning', line: 2, column: 10, endLine: 2, endColumn: 32 });
+    expect(applyEdits(code, error.fixes![0].edits)).toBe(
+      'void setup() {\n  unsigned long waitStart = millis();\n  while ((digitalRead(2) == HIGH) && millis() - waitStart < 1000) {}\n}\nvoid loop() {}\n'
+    );
+  });
+
+  it('leaves pin waits that can end on their own alone', () => {
+    expect(errors('void setup() {\n  while (digitalRead(2)) { if (Serial.available()) break; }\n}\nvoid loop() {}\n', 'blocking-pin-wait')).toEqual([]);
+    expect(errors('unsigned long t;\nvoid setup() {\n  while (digitalRead(2) && millis() - t < 50) {}\n}\nvoid loop() {}\n', 'blocking-pin-wait')).toEqual([]);
+  });
+
+  it('prints the pieces of a String built in loop() one by one', () => {
+    const code = 'void setup() {}\nvoid loop() {\n  int t = analogRead(A0);\n  Serial.println("T: " + String(t));\n}\n';
+    const [error] = errors(code, 'string-concat-in-loop');
+    expect(error).toMatchObject({ severity: 'warning', line: 4, column: 18, endLine: 4, endColumn: 35 });
+    expect(applyEdits(code, error.fixes![0].edits)).toBe('void setup() {}\nvoid loop() {\n  int t = analogRead(A0);\n  Serial.print("T: ");\n  Serial.println(t);\n}\n');
+  });
+
+  it('reports other String concatenation in loop() but not in setup()', () => {
+    const code = 'String log;\nvoid setup() {\n  log += "start";\n}\nvoid loop() {\n  log += "x";\n  log.concat("y");\n}\n';
+    expect(errors(code, 'string-concat-in-loop').map(e => [e.line, e.fixes])).toEqual([
+      [6, undefined],
+      [7, undefined]
+    ]);
+  });
+
+  it('honours a suppression comment', () => {
+    const code = 'void setup() {\n  // arduino-lint-disable-next-line blocking-pin-wait -- the start button is required\n  while (digitalRead(2) == HIGH) {}\n}\nvoid loop() {}\n';
+    expect(errors(code, 'blocking-pin-wait')).toEqual([]);
+  });
+});
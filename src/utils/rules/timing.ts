@@ -0,0 +1,241 @@
+import { QuickFix } from '../../types';
+import type { Rule, RuleContext } from '../analyzer';
+import { AstNode, CallExpression, Expression, FunctionDeclaration, Statement, TranslationUnit, calleeName, walk } from '../cppAst';
+import { collectConstants } from '../pinUsage';
+import { textInRange } from '../quickFixes';
+import { collectFunctions, reachableFunctions } from './sketch';
+
+// Long enough that a button press can start and end while the sketch sleeps
+const LONG_DELAY_MS = 100;
+// Default timeout for the rewritten pin waits
+const WAIT_TIMEOUT_MS = 1000;
+
+const INPUT_FUNCTIONS = new Set(['digitalRead', 'analogRead', 'pulseIn']);
+const PIN_READS = new Set(['digitalRead', 'analogRead']);
+const CLOCKS = new Set(['millis', 'micros']);
+const COMPARISONS = new Set(['<', '<=', '>', '>=']);
+const FLIPPED: Record<string, string> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+function findCall(node: AstNode, names: Set<string>): CallExpression | null {
+  let found: CallExpression | null = null;
+  walk(node, child => {
+    if (found) return false;
+    if (child.kind === 'CallExpression' && names.has(calleeName(child) ?? '')) found = child;
+  });
+  return found;
+}
+
+function isClockCall(expression: Expression): boolean {
+  return expression.kind === 'CallExpression' && expression.arguments.length === 0 && CLOCKS.has(calleeName(expression) ?? '');
+}
+
+// loop() and every function of this file it calls, directly or through others
+function reachableFromLoop(ast: TranslationUnit): FunctionDeclaration[] {
+  return reachableFunctions(ast, collectFunctions(ast.body).filter(fn => fn.body && fn.className === null && fn.name === 'loop'));
+}
+
+// Buttons, sensors and serial input are only seen when the sketch gets round to reading them
+function pollsInputs(ast: TranslationUnit): string | null {
+  let input: string | null = null;
+  walk(ast, node => {
+    if (input || node.kind !== 'CallExpression') return;
+    const name = calleeName(node);
+    if (name && (INPUT_FUNCTIONS.has(name) || /\.(available|read)$/.test(name))) input = name;
+  });
+  return input;
+}
+
+function resolveMilliseconds(expression: Expression, constants: Map<string, Expression>): number | null {
+  if (expression.kind === 'NumberLiteral') return expression.value;
+  if (expression.kind === 'Identifier' && constants.has(expression.name)) {
+    const init = constants.get(expression.name)!;
+    return init.kind === 'NumberLiteral' ? init.value : null;
+  }
+  return null;
+}
+
+function indentationOf(context: RuleContext, line: number): string {
+  return context.code.split('\n')[line - 1]?.match(/^\s*/)?.[0] ?? '';
+}
+
+// Names declared with type String anywhere in the file; good enough to tell
+// `String + x` from arithmetic without full type checking
+function stringNames(ast: TranslationUnit): Set<string> {
+  const names = new Set<string>();
+  walk(ast, node => {
+    if (node.kind === 'VariableDeclaration' && node.type.name === 'String') {
+      node.declarators.forEach(d => d.pointer === 0 && d.arrayDims.length === 0 && names.add(d.name));
+    }
+    if (node.kind === 'Parameter' && node.type.name === 'String' && node.name) names.add(node.name);
+  });
+  return names;
+}
+
+function isString(expression: Expression, names: Set<string>): boolean {
+  if (expression.kind === 'Identifier') return names.has(expression.name);
+  if (expression.kind === 'CallExpression') return calleeName(expression) === 'String';
+  if (expression.kind === 'BinaryExpression' && expression.operator === '+') {
+    return isString(expression.left, names) || isString(expression.right, names);
+  }
+  return false;
+}
+
+// `a + b + c` as [a, b, c], when a String is involved from the first `+` on, so
+// printing the pieces one by one gives the same text as the concatenation
+function concatenatedPieces(expression: Expression, names: Set<string>): Expression[] | null {
+  const pieces: Expression[] = [];
+  let current = expression;
+  while (current.kind === 'BinaryExpression' && current.operator === '+') {
+    pieces.unshift(current.right);
+    current = current.left;
+  }
+  pieces.unshift(current);
+  return isString(pieces[0], names) || isString(pieces[1], names) ? pieces : null;
+}
+
+// `Serial.println("T: " + String(t));` becomes `Serial.print("T: "); Serial.println(t);`,
+// one statement per line
+function printPiecesFix(context: RuleContext, statement: Statement, call: CallExpression, names: Set<string>): QuickFix[] | undefined {
+  const name = calleeName(call);
+  const pieces = concatenatedPieces(call.arguments[0], names);
+  if (!name || !pieces || statement.range.line !== statement.range.endLine) return undefined;
+  const port = name.slice(0, name.lastIndexOf('.'));
+  const texts = pieces.map(piece =>
+    piece.kind === 'CallExpression' && calleeName(piece) === 'String' && piece.arguments.length > 0
+      ? piece.arguments.map(arg => textInRange(context.code, arg.range)).join(', ')
+      : textInRange(context.code, piece.range)
+  );
+  const last = name.endsWith('println') ? 'println' : 'print';
+  const text = texts
+    .map((piece, i) => `${port}.${i === texts.length - 1 ? last : 'print'}(${piece});`)
+    .join(`\n${indentationOf(context, statement.range.line)}`);
+  return [{ title: `Print the pieces with ${port}.print() instead of building a String`, edits: [{ ...statement.range, text }] }];
+}
+
+export const timingRules: Rule[] = [
+  {
+    id: 'blocking-delay',
+    defaultSeverity: 'warning',
+    category: 'timing',
+    description: 'A long delay() in code run from loop() while the sketch also reads inputs; nothing is read while the sketch waits.',
+    check(context) {
+      const input = pollsInputs(context.ast);
+      if (!input) return;
+      const constants = collectConstants(context.ast);
+      reachableFromLoop(context.ast).forEach(fn => {
+        walk(fn.body!, node => {
+          if (node.kind !== 'CallExpression' || calleeName(node) !== 'delay' || node.arguments.length !== 1) return;
+          const ms = resolveMilliseconds(node.arguments[0], constants);
+          if (ms === null || ms < LONG_DELAY_MS) return;
+          context.report(
+            node.range,
+            `delay(${ms}) stops the sketch for ${ms} ms, and ${input}() is not checked meanwhile, so short button presses and incoming data are missed. ` +
+              `Run the delayed work when it is due instead: \`if (millis() - lastRun >= ${ms}) { lastRun = millis(); ... }\` with a global \`unsigned long lastRun\`.`
+          );
+        });
+      });
+    }
+  },
+  {
+    id: 'millis-overflow',
+    defaultSeverity: 'warning',
+    category: 'timing',
+    description: 'A millis() or micros() comparison against `start + interval`, which fails when the counter wraps around (after about 49 days for millis()).',
+    check(context) {
+      walk(context.ast, node => {
+        if (node.kind !== 'BinaryExpression' || !COMPARISONS.has(node.operator)) return;
+        // Normalise to `clock OP start + interval`
+        const [clock, sum, operator] = isClockCall(node.left)
+          ? [node.left, node.right, node.operator]
+          : [node.right, node.left, FLIPPED[node.operator]];
+        if (!isClockCall(clock) || sum.kind !== 'BinaryExpression' || sum.operator !== '+') return;
+        // `millis() > interval + start` reads the same once the clock is on the left
+        const [start, interval] = isClockCall(sum.right) ? [sum.right, sum.left] : [sum.left, sum.right];
+        if (isClockCall(start)) return;
+
+        const clockText = textInRange(context.code, clock.range);
+        const rewrite = `${clockText} - ${textInRange(context.code, start.range)} ${operator} ${textInRange(context.code, interval.range)}`;
+        context.report(
+          node.range,
+          `\`${clockText} ${operator} start + interval\` breaks when ${clockText} overflows: \`start + interval\` wraps to a small number first and the comparison ` +
+            `flips. Subtract instead, which stays correct across the overflow: \`${rewrite}\`.`,
+          [{ title: 'Compare the elapsed time instead', edits: [{ ...node.range, text: rewrite }] }]
+        );
+      });
+    }
+  },
+  {
+    id: 'blocking-pin-wait',
+    defaultSeverity: 'warning',
+    category: 'timing',
+    description: 'A while loop that waits for a pin to change with no timeout; if the signal never comes, the sketch hangs.',
+    check(context) {
+      walk(context.ast, node => {
+        if (node.kind !== 'WhileStatement' && node.kind !== 'DoWhileStatement') return;
+        const read = findCall(node.test, PIN_READS);
+        if (!read || findCall(node.test, CLOCKS)) return;
+        let exits = false;
+        walk(node.body, child => {
+          if (child.kind === 'BreakStatement' || child.kind === 'ReturnStatement' || child.kind === 'GotoStatement') exits = true;
+        });
+        if (exits) return;
+
+        const fixes: QuickFix[] = [];
+        const { line, column } = node.range;
+        const startsLine = indentationOf(context, line).length === column - 1;
+        if (node.kind === 'WhileStatement' && startsLine && !/\bwaitStart\b/.test(context.code)) {
+          fixes.push({
+            title: `Give up waiting after ${WAIT_TIMEOUT_MS} ms`,
+            edits: [
+              { line, column, endLine: line, endColumn: column, text: `unsigned long waitStart = millis();\n${indentationOf(context, line)}` },
+              { ...node.test.range, text: `(${textInRange(context.code, node.test.range)}) && millis() - waitStart < ${WAIT_TIMEOUT_MS}` }
+            ]
+          });
+        }
+        context.report(
+          node.test.range,
+          `This loop waits for ${calleeName(read)}() with no timeout. If the signal never changes (a loose wire, a sensor that is not connected), ` +
+            `the sketch hangs here for good. Stop waiting after a while: \`while (... && millis() - waitStart < ${WAIT_TIMEOUT_MS})\`.`,
+          fixes
+        );
+      });
+    }
+  },
+  {
+    id: 'string-concat-in-loop',
+    defaultSeverity: 'warning',
+    category: 'timing',
+    description: 'String concatenation in code run from loop(); every `+` allocates on the heap, which fragments the few KB of SRAM until allocations fail.',
+    check(context) {
+      const names = stringNames(context.ast);
+      const message =
+        'String concatenation in loop() allocates a new heap block every pass. On boards with a few KB of SRAM the heap fragments and the sketch ' +
+        'eventually misbehaves or resets. Print the pieces one by one, or build the text in a fixed `char` buffer with snprintf().';
+
+      reachableFromLoop(context.ast).forEach(fn => {
+        walk(fn.body!, node => {
+          if (node.kind === 'ExpressionStatement' && node.expression.kind === 'CallExpression') {
+            const call = node.expression;
+            const name = calleeName(call) ?? '';
+            if (/\.(print|println)$/.test(name) && call.arguments.length === 1 && isString(call.arguments[0], names) && call.arguments[0].kind === 'BinaryExpression') {
+              context.report(call.arguments[0].range, message, printPiecesFix(context, node, call, names));
+              return false;
+            }
+          }
+          if (node.kind === 'AssignmentExpression' && node.operator === '+=' && isString(node.left, names)) {
+            context.report(node.range, message);
+            return false;
+          }
+          if (node.kind === 'CallExpression' && node.callee.kind === 'MemberExpression' && node.callee.property === 'concat' && isString(node.callee.object, names)) {
+            context.report(node.range, message);
+            return false;
+          }
+          if (node.kind === 'BinaryExpression' && node.operator === '+' && isString(node, names)) {
+            context.report(node.range, message);
+            return false;
+          }
+        });
+      });
+    }
+  }
+];
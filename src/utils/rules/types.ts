@@ -0,0 +1,186 @@
+import { QuickFix } from '../../types';
+import type { Rule } from '../analyzer';
+import { Expression, walk } from '../cppAst';
+import { textInRange } from '../quickFixes';
+import { fitsInteger, integerType, TypeChecker } from '../typeChecker';
+
+// How long a counter of `bits` bits lasts, in the clock's own units
+function wrapTime(units: number, clock: string): string {
+  const seconds = clock === 'micros()' ? units / 1e6 : units / 1e3;
+  if (seconds < 1) return `${Math.round(seconds * 1000)} ms`;
+  if (seconds < 120) return `${seconds.toFixed(1)} seconds`;
+  if (seconds < 2 * 3600) return `${Math.round(seconds / 60)} minutes`;
+  return `${(seconds / 3600).toFixed(1)} hours`;
+}
+
+// `.c_str()` goes straight onto names, calls and members; anything else needs parentheses
+function needsParentheses(expression: Expression): boolean {
+  return !['Identifier', 'CallExpression', 'MemberExpression', 'IndexExpression'].includes(expression.kind);
+}
+
+// Returning these can be dropped without losing a side effect
+function isPlainValue(expression: Expression): boolean {
+  if (['Identifier', 'NumberLiteral', 'StringLiteral', 'CharLiteral', 'BooleanLiteral', 'NullLiteral'].includes(expression.kind)) return true;
+  if (expression.kind === 'UnaryExpression' && (expression.operator === '-' || expression.operator === '!')) return isPlainValue(expression.argument);
+  if (expression.kind === 'BinaryExpression') return isPlainValue(expression.left) && isPlainValue(expression.right);
+  return false;
+}
+
+const SUFFIXES: { suffix: string; min: number; max: number }[] = [
+  { suffix: 'L', min: -(2 ** 31), max: 2 ** 31 - 1 },
+  { suffix: 'UL', min: 0, max: 2 ** 32 - 1 },
+  { suffix: 'LL', min: -(2 ** 63), max: 2 ** 63 - 1 }
+];
+
+export const typeRules: Rule[] = [
+  {
+    id: 'clock-truncation',
+    defaultSeverity: 'warning',
+    category: 'types',
+    description: 'millis() or micros() stored in an int, byte or float, which cannot hold the unsigned long the clock returns and wraps or loses precision within seconds or hours.',
+    check(context) {
+      TypeChecker.check(context.ast, context.tokens, context.board, context.libraries).clockTruncations.forEach(truncation => {
+        const { clock, target, type, bits, typeSpec } = truncation;
+        const fixes = typeSpec
+          ? [{ title: `Declare '${target}' as unsigned long`, edits: [{ ...typeSpec.range, text: [...typeSpec.qualifiers, 'unsigned long'].join(' ') }] }]
+          : undefined;
+        if (bits === null) {
+          // A float has a 24-bit mantissa; beyond that it counts in steps of 2, 4, 8...
+          context.report(
+            truncation.range,
+            `${clock} returns unsigned long, but '${target}' is a ${type.name}, which holds whole numbers exactly only up to 2^24: ` +
+              `after ${wrapTime(2 ** 24, clock)} it stops counting single ${clock === 'micros()' ? 'microseconds' : 'milliseconds'}. Use unsigned long.`,
+            fixes
+          );
+          return;
+        }
+        const { signed } = truncation;
+        const units = 2 ** (bits - (signed ? 1 : 0));
+        context.report(
+          truncation.range,
+          `${clock} returns unsigned long, but '${target}' is ${/^[aeiou]/.test(type.name) ? 'an' : 'a'} ${type.name} ` +
+            `(${bits} bits on ${context.board.name}), so it ${signed ? 'turns negative' : 'wraps to 0'} after ${wrapTime(units, clock)}. Use unsigned long.`,
+          fixes
+        );
+      });
+    }
+  },
+  {
+    id: 'constant-overflow',
+    defaultSeverity: 'warning',
+    category: 'types',
+    description:
+      'A constant expression such as `60 * 1000` that overflows int, since the arithmetic happens in int whatever the type of the variable it is stored in, ' +
+      'or a constant such as `int big = 40000;` that does not fit the type of the variable it initializes.',
+    check(context) {
+      const { overflows, narrowings } = TypeChecker.check(context.ast, context.tokens, context.board, context.libraries);
+      overflows.forEach(overflow => {
+        const { literal, value } = overflow;
+        const wider = literal ? SUFFIXES.find(({ min, max }) => value >= min && value <= max) : undefined;
+        const fixes = literal && wider
+          ? [{
+              title: `Make ${literal.raw} a ${wider.suffix === 'UL' ? 'unsigned long' : wider.suffix === 'L' ? 'long' : 'long long'} (${literal.raw}${wider.suffix})`,
+              edits: [{ line: literal.range.endLine, column: literal.range.endColumn, endLine: literal.range.endLine, endColumn: literal.range.endColumn, text: wider.suffix }]
+            }]
+          : undefined;
+        context.report(
+          overflow.range,
+          `\`${textInRange(context.code, overflow.range)}\` is ${value}, which does not fit in ${overflow.type} (${overflow.bits} bits on ${context.board.name}). The calculation overflows ` +
+            `before the result is stored, whatever type it is stored in${wider && literal ? `; write ${literal.raw}${wider.suffix} to calculate in a wider type` : ''}.`,
+          fixes
+        );
+      });
+
+      narrowings.forEach(narrowing => {
+        const { value, stored, target, type, bits, typeSpec } = narrowing;
+        const wider = (narrowing.signed ? ['int', 'long', 'long long'] : ['unsigned int', 'unsigned long', 'unsigned long long']).find(name =>
+          fitsInteger(value, integerType(name)!, context.board)
+        );
+        const fixes = typeSpec && wider
+          ? [{ title: `Declare '${target}' as ${wider}`, edits: [{ ...typeSpec.range, text: [...typeSpec.qualifiers, wider].join(' ') }] }]
+          : undefined;
+        context.report(
+          narrowing.range,
+          `${value} does not fit in '${target}', which is ${/^[aeiou]/.test(type.name) ? 'an' : 'a'} ${type.name} (${bits} bits on ${context.board.name}), ` +
+            `so it holds ${stored} instead${wider ? `. Use ${wider}` : ''}.`,
+          fixes
+        );
+      });
+    }
+  },
+  {
+    id: 'sign-compare',
+    defaultSeverity: 'warning',
+    category: 'types',
+    description: 'A comparison between a signed and an unsigned value, such as `int i < s.length()`, where a negative number is converted to a huge unsigned one.',
+    check(context) {
+      TypeChecker.check(context.ast, context.tokens, context.board, context.libraries).signCompares.forEach(compare => {
+        context.report(
+          compare.range,
+          `'${compare.operator}' compares ${compare.signed} with ${compare.unsigned}: the ${compare.signed} is converted to unsigned first, so a negative ` +
+            `value compares as a very large one. Make both sides the same signedness.`
+        );
+      });
+    }
+  },
+  {
+    id: 'string-as-char-pointer',
+    defaultSeverity: 'error',
+    category: 'types',
+    description: 'A String passed where a `const char *` is expected, as to strcmp(), atoi() or the `...` of sprintf(). Pass `.c_str()` instead.',
+    check(context) {
+      TypeChecker.check(context.ast, context.tokens, context.board, context.libraries).stringArguments.forEach(({ argument, callee, variadic }) => {
+        const { range } = argument;
+        const end = { line: range.endLine, column: range.endColumn, endLine: range.endLine, endColumn: range.endColumn };
+        const edits = needsParentheses(argument)
+          ? [{ line: range.line, column: range.column, endLine: range.line, endColumn: range.column, text: '(' }, { ...end, text: ').c_str()' }]
+          : [{ ...end, text: '.c_str()' }];
+        context.report(
+          range,
+          variadic
+            ? `A String passed through the '...' of ${callee}() is copied as an object, not as text, so %s prints garbage. Pass its .c_str().`
+            : `${callee}() expects a const char *, and a String does not convert to one. Pass its .c_str().`,
+          [{ title: 'Append .c_str()', edits }]
+        );
+      });
+    }
+  },
+  {
+    id: 'void-return',
+    defaultSeverity: 'error',
+    category: 'types',
+    description: 'A `return` with a value in a function declared `void`.',
+    check(context) {
+      const declarations = new Map<string, number>();
+      walk(context.ast, node => {
+        if (node.kind === 'FunctionDeclaration') declarations.set(node.name, (declarations.get(node.name) ?? 0) + 1);
+      });
+      TypeChecker.check(context.ast, context.tokens, context.board, context.libraries).voidReturns.forEach(({ range, fn, argument, type }) => {
+        const fixes: QuickFix[] = [];
+        if (isPlainValue(argument)) fixes.push({ title: 'Return without a value', edits: [{ ...range, text: 'return;' }] });
+        // Only when nothing else, such as a prototype, repeats the return type
+        const known = type && type.pointer === 0 && type.name !== '' && type.name !== 'void';
+        if (known && fn.returnType && declarations.get(fn.name) === 1) {
+          fixes.push({ title: `Make ${fn.name}() return ${type.name}`, edits: [{ ...fn.returnType.range, text: [...fn.returnType.qualifiers, type.name].join(' ') }] });
+        }
+        context.report(range, `${fn.name}() is declared void, so it cannot return a value.`, fixes.length > 0 ? fixes : undefined);
+      });
+    }
+  },
+  {
+    id: 'array-index-out-of-bounds',
+    defaultSeverity: 'error',
+    category: 'types',
+    description: 'A constant array index outside the declared length, such as `values[5]` for `int values[5]`, which reads or overwrites whatever is next in memory.',
+    check(context) {
+      TypeChecker.check(context.ast, context.tokens, context.board, context.libraries).arrayIndexes.forEach(({ range, array, index, length }) => {
+        context.report(
+          range,
+          index < 0
+            ? `Index ${index} is before the start of '${array}'.`
+            : `Index ${index} is past the end of '${array}', which has ${length} element${length === 1 ? '' : 's'} (indexes 0 to ${length - 1}).`
+        );
+      });
+    }
+  }
+];
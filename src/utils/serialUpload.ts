@@ -3,14 +3,14 @@ export class SerialUploader {
   private reader: ReadableStreamDefaultReader | null = null;
   private writer: WritableStreamDefaultWriter | null = null;
 
-  async connect(): Promise<boolean> {
+  async connect(baudRate: number = 115200): Promise<boolean> {
     try {
       if (!('serial' in navigator)) {
         throw new Error('Web Serial API not supported in this browser');
       }
 
       this.port = await (navigator as any).serial.requestPort();
-      await this.port.open({ baudRate: 115200 });
+      await this.port.open({ baudRate });
 
       this.reader = this.port.readable?.getReader() || null;
       this.writer = this.port.writable?.getWriter() || null;
@@ -45,7 +45,8 @@ export class SerialUploader {
     }
   }
 
-  async upload(code: string, onProgress?: (message: string) => void): Promise<boolean> {
+  // Sends a built firmware image, or the sketch source when the backend does not build one
+  async upload(firmware: Uint8Array | string, onProgress?: (message: string) => void): Promise<boolean> {
     try {
       if (!this.port || !this.writer) {
         throw new Error('Not connected to Arduino');
@@ -53,8 +54,7 @@ export class SerialUploader {
 
       onProgress?.('Uploading sketch to Arduino...');
 
-      const encoder = new TextEncoder();
-      const data = encoder.encode(code);
+      const data = typeof firmware === 'string' ? new TextEncoder().encode(firmware) : firmware;
 
       await this.writer.write(data);
 
@@ -0,0 +1,268 @@
+import { isSketchFile, joinTabs } from './analyzer';
+import { Atmega328p } from './atmega328p';
+import { BoardProfile } from './boards';
+import { CppParser } from './cppParser';
+import { Preprocessor, SourceFile } from './preprocessor';
+import { SimEvent, SimLocation, SimulationError, SketchInterpreter, SketchUnit } from './sketchInterpreter';
+import { VirtualPins } from './virtualPins';
+
+export type SimulationState = 'stopped' | 'running' | 'paused';
+
+export interface SimulatorCallbacks {
+  // One complete line of serial output
+  onSerial: (port: string, line: string) => void;
+  // Behaviour that would differ on the real board, reported once
+  onNotice: (message: string, location: SimLocation | null) => void;
+  onError: (message: string, location: SimLocation | null) => void;
+  // `location` is the statement a pause stopped at
+  onStateChange: (state: SimulationState, location: SimLocation | null) => void;
+}
+
+// Virtual time a statement takes; a 16 MHz AVR runs very roughly this fast
+const STATEMENT_MICROS = 10;
+// Real time spent interpreting before the page gets a chance to redraw
+const SLICE_MS = 12;
+// How far virtual time may fall behind before the simulation stops trying to catch up
+const MAX_LAG_MS = 100;
+// Virtual time an emulated CPU runs between checks of the real clock (µs)
+const FIRMWARE_BATCH_MICROS = 100;
+
+// Runs a sketch's setup() and loop() in the browser against VirtualPins, keeping
+// the virtual clock in step with real time: delay(1000) takes a second. It can
+// also run a compiled firmware image on an emulated ATmega328P instead.
+export class Simulator {
+  readonly pins: VirtualPins;
+  private state: SimulationState = 'stopped';
+  private execution: Generator<SimEvent, void, void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private virtualMicros = 0;
+  // performance.now() at which the virtual clock read 0, while running
+  private origin = 0;
+  private readonly serialBuffers = new Map<string, string>();
+  private firmware: Atmega328p | null = null;
+
+  constructor(readonly board: BoardProfile, private readonly callbacks: SimulatorCallbacks) {
+    this.pins = new VirtualPins(board);
+  }
+
+  get simulationState(): SimulationState {
+    return this.state;
+  }
+
+  // Microseconds of virtual time since the sketch started
+  get time(): number {
+    return this.virtualMicros;
+  }
+
+  // Flash address of the next instruction while running firmware; null for a sketch
+  get programCounter(): number | null {
+    return this.firmware?.pc ?? null;
+  }
+
+  start(files: SourceFile[]): void {
+    this.stop();
+    this.releaseFirmware();
+    let units: SketchUnit[];
+    try {
+      units = this.parse(files);
+    } catch (error) {
+      this.callbacks.onError(error instanceof Error ? error.message : String(error), null);
+      return;
+    }
+    this.pins.reset();
+    this.virtualMicros = 0;
+    const interpreter = new SketchInterpreter(units, this.board, {
+      pins: this.pins,
+      micros: () => this.virtualMicros,
+      serialWrite: (port, text, baud) => {
+        // 10 bits per character: a start bit, 8 data bits and a stop bit
+        this.virtualMicros += (text.length * 10 * 1e6) / baud;
+        this.serialWrite(port, text);
+      },
+      notice: (message, location) => this.callbacks.onNotice(message, location)
+    });
+    this.execution = interpreter.run();
+    this.resume();
+  }
+
+  // Runs a flash image instruction by instruction, peripherals and all
+  startFirmware(image: Uint8Array): void {
+    this.stop();
+    this.releaseFirmware();
+    if (this.board.mcu !== 'ATmega328P') {
+      this.callbacks.onError(`Firmware runs on an emulated ATmega328P; the ${this.board.name} has an ${this.board.mcu}`, null);
+      return;
+    }
+    this.pins.reset();
+    this.virtualMicros = 0;
+    const decoder = new TextDecoder();
+    try {
+      this.firmware = new Atmega328p(image, this.board, {
+        pins: this.pins,
+        transmit: byte => this.serialWrite('Serial', decoder.decode(Uint8Array.of(byte), { stream: true })),
+        notice: message => this.callbacks.onNotice(message, null)
+      });
+    } catch (error) {
+      this.callbacks.onError(error instanceof Error ? error.message : String(error), null);
+      return;
+    }
+    this.execution = this.runFirmware(this.firmware);
+    this.resume();
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.cancel();
+    this.flushSerial();
+    this.setState('paused', null);
+  }
+
+  resume(): void {
+    if (!this.execution || this.state === 'running') return;
+    this.origin = performance.now() - this.virtualMicros / 1000;
+    this.setState('running', null);
+    this.timer = setTimeout(() => this.slice(), 0);
+  }
+
+  // Runs to the next statement, or firmware's next instruction, and pauses there
+  step(): void {
+    if (!this.execution) return;
+    this.cancel();
+    if (this.firmware) {
+      try {
+        this.firmware.step();
+      } catch (error) {
+        this.fail(error);
+        return;
+      }
+      this.virtualMicros = this.firmware.cycles / (this.board.clockHz / 1e6);
+      this.flushSerial();
+      this.setState('paused', null);
+      return;
+    }
+    for (;;) {
+      const event = this.advance();
+      if (!event) return;
+      if (event.kind === 'statement') {
+        this.flushSerial();
+        this.setState('paused', event.location);
+        return;
+      }
+    }
+  }
+
+  stop(): void {
+    if (!this.execution) return;
+    this.cancel();
+    this.flushSerial();
+    this.execution = null;
+    this.setState('stopped', null);
+  }
+
+  private parse(files: SourceFile[]): SketchUnit[] {
+    const tabs = files.filter(f => isSketchFile(f.name));
+    if (tabs.length === 0) throw new Error('The project has no .ino sketch to simulate');
+    const joined = joinTabs(tabs);
+    const sources = [{ name: tabs[0].name, content: joined.code }, ...files.filter(f => /\.(c|cpp)$/i.test(f.name))];
+
+    return sources.map(source => {
+      const preprocessed = Preprocessor.process(source.content, { board: this.board, files, fileName: source.name });
+      const parsed = CppParser.parse(preprocessed.tokens);
+      const [error] = [...preprocessed.errors, ...parsed.errors].filter(e => e.severity === 'error');
+      if (error) throw new Error(`Fix the errors in ${source.name} before simulating: ${error.message}`);
+      const locate = (line: number): SimLocation => {
+        if (source.name !== tabs[0].name) return { file: source.name, line };
+        const segment = [...joined.segments].reverse().find(s => s.startLine <= line) ?? joined.segments[0];
+        return { file: segment.name, line: line - segment.startLine + 1 };
+      };
+      return { ast: parsed.ast, locate };
+    });
+  }
+
+  private *runFirmware(firmware: Atmega328p): Generator<SimEvent, void, void> {
+    const cyclesPerMicro = this.board.clockHz / 1e6;
+    for (;;) {
+      firmware.run(FIRMWARE_BATCH_MICROS * cyclesPerMicro);
+      yield { kind: 'delay', micros: firmware.cycles / cyclesPerMicro - this.virtualMicros };
+    }
+  }
+
+  private releaseFirmware(): void {
+    this.firmware?.dispose();
+    this.firmware = null;
+  }
+
+  // Interprets for one slice of real time, then sleeps until real time catches
+  // up with the virtual clock
+  private slice(): void {
+    this.timer = null;
+    const sliceEnd = performance.now() + SLICE_MS;
+    for (;;) {
+      const now = performance.now();
+      const ahead = this.virtualMicros / 1000 - (now - this.origin);
+      if (ahead > 0) {
+        this.timer = setTimeout(() => this.slice(), ahead);
+        return;
+      }
+      if (-ahead > MAX_LAG_MS) this.origin = now - this.virtualMicros / 1000 - MAX_LAG_MS;
+      if (now >= sliceEnd) break;
+      // Check the time every few hundred statements rather than every one
+      for (let i = 0; i < 200; i++) {
+        const event = this.advance();
+        if (!event) return;
+        if (event.kind === 'delay') break;
+      }
+    }
+    this.timer = setTimeout(() => this.slice(), 0);
+  }
+
+  // The next event of the sketch with its cost in virtual time, or null once it ended
+  private advance(): SimEvent | null {
+    if (!this.execution) return null;
+    try {
+      const result = this.execution.next();
+      if (result.done) {
+        this.stop();
+        return null;
+      }
+      this.virtualMicros += result.value.kind === 'delay' ? result.value.micros : STATEMENT_MICROS;
+      return result.value;
+    } catch (error) {
+      this.fail(error);
+      return null;
+    }
+  }
+
+  private fail(error: unknown): void {
+    const location = error instanceof SimulationError ? error.location : null;
+    this.flushSerial();
+    this.execution = null;
+    this.cancel();
+    this.callbacks.onError(error instanceof Error ? error.message : String(error), location);
+    this.setState('stopped', location);
+  }
+
+  private serialWrite(port: string, text: string): void {
+    const lines = ((this.serialBuffers.get(port) ?? '') + text).split('\n');
+    this.serialBuffers.set(port, lines.pop() ?? '');
+    lines.forEach(line => this.callbacks.onSerial(port, line.replace(/\r$/, '')));
+  }
+
+  // Complete lines go out as they are printed; a partial line only when the sketch stops
+  private flushSerial(): void {
+    this.serialBuffers.forEach((text, port) => {
+      if (text) this.callbacks.onSerial(port, text.replace(/\r$/, ''));
+    });
+    this.serialBuffers.clear();
+  }
+
+  private cancel(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private setState(state: SimulationState, location: SimLocation | null): void {
+    this.state = state;
+    this.callbacks.onStateChange(state, location);
+  }
+}
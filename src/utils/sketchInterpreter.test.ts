@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { SimulationError, SketchInterpreter } from './sketchInterpreter';
+import { VirtualPins } from './virtualPins';
+
+// Runs a sketch until `until` µs of virtual time have passed and returns what it did
+function simulate(code: string, until = 10_000, boardId = 'uno') {
+  const board = getBoard(boardId);
+  const pins = new VirtualPins(board);
+  const serial: string[] = [];
+  const notices: string[] = [];
+  const edges: { micros: number; pin: number; level: number }[] = [];
+  let micros = 0;
+
+  const { ast, errors } = CppParser.parseSource(code);
+  expect(errors).toEqual([]);
+  const interpreter = new SketchInterpreter([{ ast, locate: line => ({ file: 'sketch.ino', line }) }], board, {
+    pins,
+    micros: () => micros,
+    serialWrite: (_port, text) => serial.push(text),
+    notice: message => notices.push(message)
+  });
+  pins.subscribe(() => pins.snapshot().forEach(state => {
+    const last = edges.filter(e => e.pin === state.pin).pop();
+    if (state.mode === 'OUTPUT' && (last?.level ?? 0) !== state.output) edges.push({ micros, pin: state.pin, level: state.output });
+  }));
+
+  const run = interpreter.run();
+  for (let steps = 0; micros < until && steps < 100_000; steps++) {
+    const event = run.next().value;
+    micros += event && event.kind === 'delay' ? event.micros : 1;
+  }
+  return { pins, serial: serial.join(''), notices, edges };
+}
+
+describe('SketchInterpreter', () => {
+  it('blinks with delay() on virtual time', () => {
+    const { edges } = simulate(`
+      void setup() { pinMode(13, OUTPUT); }
+      void loop() { digitalWrite(13, HIGH); delay(500); digitalWrite(13, LOW); delay(500); }
+    `, 2_100_000);
+    const times = edges.filter(e => e.pin === 13).map(e => Math.round(e.micros / 1000));
+    expect(times.slice(0, 4)).toEqual([0, 500, 1000, 1500]);
+  });
+
+  it('uses the board width of int', () => {
+    const code = `
+      void setup() {
+        Serial.begin(9600);
+        int big = 32767;
+        big++;
+        unsigned long t = 60 * 1000UL;
+        Serial.println(big);
+        Serial.println(t);
+      }
+      void loop() {}
+    `;
+    expect(simulate(code).serial).toBe('-32768\r\n60000\r\n');
+    expect(simulate(code, 10_000, 'esp32').serial).toBe('32768\r\n60000\r\n');
+  });
+
+  it('runs structs, arrays, String and lambdas', () => {
+    const { serial } = simulate(`
+      struct Point { int x; int y; int sum() { return x + y; } };
+      int values[3] = {4, 5, 6};
+      void setup() {
+        Serial.begin(115200);
+        Point p = {2, 3};
+        String s = "sum=";
+        s += p.sum();
+        auto twice = [](int v) { return v * 2; };
+        int total = 0;
+        for (int i = 0; i < 3; i++) total += twice(values[i]);
+        Serial.print(s);
+        Serial.print(' ');
+        Serial.println(total);
+      }
+      void loop() {}
+    `);
+    expect(serial).toBe('sum=5 30\r\n');
+  });
+
+  it('stops with an error that points at the failing line', () => {
+    const code = 'int a[2];\nvoid setup() {\n  a[5] = 1;\n}\nvoid loop() {}\n';
+    expect(() => simulate(code)).toThrow(SimulationError);
+    try {
+      simulate(code);
+    } catch (error) {
+      expect((error as SimulationError).location).toEqual({ file: 'sketch.ino', line: 3 });
+    }
+  });
+});
@@ -0,0 +1,1698 @@
+import { BoardProfile } from './boards';
+import {
+  CallExpression,
+  Declaration,
+  Expression,
+  FunctionDeclaration,
+  LambdaExpression,
+  NumberLiteral,
+  Parameter,
+  SourceRange,
+  Statement,
+  StructDeclaration,
+  TranslationUnit,
+  TypeSpec,
+  VariableDeclaration,
+  VariableDeclarator
+} from './cppAst';
+import {
+  IntegerType,
+  ValueType,
+  commonInteger,
+  fitsInteger,
+  integerSize,
+  integerType,
+  promoteInteger,
+  wrapInteger
+} from './typeChecker';
+import { PinMode, VirtualPins } from './virtualPins';
+
+// A tree-walking interpreter for the part of Arduino C++ that sketches use:
+// the integer types with their board widths, float, bool, char arrays, String,
+// arrays, structs and classes with methods, lambdas, and the core API on top of
+// a VirtualPins model. Execution is a generator that yields at every statement
+// and every delay(), so a runner can pace it against real time, pause it and
+// step through it. Pointers only reach into arrays and variables.
+
+export interface SimLocation {
+  file: string;
+  line: number;
+}
+
+export type SimEvent =
+  | { kind: 'statement'; location: SimLocation }
+  | { kind: 'delay'; micros: number };
+
+export class SimulationError extends Error {
+  constructor(message: string, readonly location: SimLocation | null) {
+    super(message);
+  }
+}
+
+export interface SketchHost {
+  pins: VirtualPins;
+  // Microseconds since the sketch started
+  micros(): number;
+  // Sending takes as long as it would at `baud`, so a chatty loop() slows down as it does on a board
+  serialWrite(port: string, text: string, baud: number): void;
+  // Something the sketch does that works differently on a real board
+  notice(message: string, location: SimLocation | null): void;
+}
+
+export interface SketchUnit {
+  ast: TranslationUnit;
+  // Maps a line of the unit to the file it came from, for joined .ino tabs
+  locate(line: number): SimLocation;
+}
+
+export interface NativeObject {
+  className: string;
+  // Returns undefined when the object has no such method
+  call(method: string, args: Value[]): Value | undefined;
+}
+
+interface Cell {
+  type: ValueType;
+  value: Value;
+}
+
+interface FunctionInfo {
+  decl: FunctionDeclaration;
+  unit: SketchUnit;
+  className: string | null;
+}
+
+interface StructValue {
+  kind: 'struct';
+  name: string;
+  fields: Map<string, Cell>;
+}
+
+export type Value =
+  | { kind: 'int'; value: number; type: IntegerType; char?: boolean }
+  | { kind: 'float'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'array'; cells: Cell[] }
+  // Into an array or at a single variable; `cells` is empty for a null pointer
+  | { kind: 'pointer'; cells: Cell[]; index: number }
+  | StructValue
+  | { kind: 'function'; fn: FunctionInfo }
+  | { kind: 'lambda'; node: LambdaExpression; env: Env; unit: SketchUnit }
+  | { kind: 'object'; object: NativeObject }
+  | { kind: 'void' };
+
+type Completion = 'normal' | 'break' | 'continue' | { value: Value };
+
+type Run<T> = Generator<SimEvent, T, void>;
+
+class Env {
+  readonly vars = new Map<string, Cell>();
+  constructor(readonly parent: Env | null, readonly self: StructValue | null = null) {}
+
+  lookup(name: string): Cell | null {
+    return this.vars.get(name) ?? this.self?.fields.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+interface AttachedInterrupt {
+  pin: number;
+  handler: Value;
+  mode: number;
+  level: 0 | 1;
+}
+
+const VOID: Value = { kind: 'void' };
+const BOOL: IntegerType = integerType('bool')!;
+const INT: IntegerType = integerType('int')!;
+const LONG: IntegerType = integerType('long')!;
+const UNSIGNED_LONG: IntegerType = integerType('unsigned long')!;
+const CHAR: IntegerType = integerType('char')!;
+
+const MODES: Record<number, PinMode> = { 0: 'INPUT', 1: 'OUTPUT', 2: 'INPUT_PULLUP' };
+const INTERRUPT_MODES = { LOW: 0, CHANGE: 1, FALLING: 2, RISING: 3 };
+const MAX_DEPTH = 64;
+
+const FLOAT_TYPES = new Set(['float', 'double', 'long double']);
+
+const MATH: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  pow: Math.pow,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  exp: Math.exp,
+  log: Math.log,
+  log10: Math.log10,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  fabs: Math.abs,
+  fmod: (a, b) => a % b,
+  radians: deg => (deg * Math.PI) / 180,
+  degrees: rad => (rad * 180) / Math.PI
+};
+
+const CHARACTER_TESTS: Record<string, (c: string) => boolean> = {
+  isAlpha: c => /[A-Za-z]/.test(c),
+  isAlphaNumeric: c => /[A-Za-z0-9]/.test(c),
+  isDigit: c => /[0-9]/.test(c),
+  isSpace: c => /[ \t\n\v\f\r]/.test(c),
+  isWhitespace: c => c === ' ' || c === '\t',
+  isUpperCase: c => /[A-Z]/.test(c),
+  isLowerCase: c => /[a-z]/.test(c),
+  isHexadecimalDigit: c => /[0-9A-Fa-f]/.test(c),
+  isPunct: c => /[!-/:-@[-`{-~]/.test(c),
+  isPrintable: c => c >= ' ' && c <= '~',
+  isalpha: c => /[A-Za-z]/.test(c),
+  isdigit: c => /[0-9]/.test(c),
+  isspace: c => /[ \t\n\v\f\r]/.test(c),
+  isupper: c => /[A-Z]/.test(c),
+  islower: c => /[a-z]/.test(c)
+};
+
+const int = (value: number, type: IntegerType = INT): Value => ({ kind: 'int', value, type });
+const bool = (value: boolean): Value => int(value ? 1 : 0, BOOL);
+const float = (value: number): Value => ({ kind: 'float', value });
+const nullPointer = (): Value => ({ kind: 'pointer', cells: [], index: 0 });
+
+function isFloatType(name: string): boolean {
+  return FLOAT_TYPES.has(name);
+}
+
+// The characters of a C string, from a pointer into a char array
+function cString(value: Value): string | null {
+  if (value.kind === 'string') return value.value;
+  const cells = value.kind === 'array' ? value.cells : value.kind === 'pointer' ? value.cells : null;
+  if (!cells) return null;
+  let text = '';
+  for (let i = value.kind === 'pointer' ? value.index : 0; i < cells.length; i++) {
+    const cell = cells[i].value;
+    if (cell.kind !== 'int' || cell.value === 0) break;
+    text += String.fromCharCode(cell.value & 0xff);
+  }
+  return text;
+}
+
+function charCells(text: string): Cell[] {
+  const type = { name: 'char', pointer: 0 };
+  return [...text, '\0'].map(c => ({ type, value: { kind: 'int', value: c.charCodeAt(0), type: CHAR, char: true } as Value }));
+}
+
+function describe(value: Value): string {
+  switch (value.kind) {
+    case 'int':
+      return value.char ? 'char' : 'number';
+    case 'float':
+      return 'number';
+    case 'string':
+      return 'String';
+    case 'struct':
+      return value.name;
+    case 'object':
+      return value.object.className;
+    default:
+      return value.kind;
+  }
+}
+
+export class SketchInterpreter {
+  private readonly globals = new Env(null);
+  private readonly functions = new Map<string, FunctionInfo[]>();
+  private readonly methods = new Map<string, Map<string, FunctionInfo[]>>();
+  private readonly structs = new Map<string, StructDeclaration>();
+  private readonly typedefs = new Map<string, ValueType>();
+  private readonly enums = new Set<string>();
+  private readonly constants: Map<string, Value>;
+  private readonly serialPorts: Map<string, NativeObject>;
+  private readonly statics = new Map<VariableDeclarator, Cell>();
+  private readonly interrupts = new Map<number, AttachedInterrupt>();
+  private interruptsEnabled = true;
+  private inInterrupt = false;
+  private location: SimLocation | null = null;
+  private unit: SketchUnit | null = null;
+  private depth = 0;
+  private seed = 1;
+  private readonly warned = new Set<string>();
+
+  constructor(private readonly units: SketchUnit[], private readonly board: BoardProfile, private readonly host: SketchHost) {
+    this.constants = new Map<string, Value>([
+      ['HIGH', int(1)],
+      ['LOW', int(0)],
+      ['INPUT', int(0)],
+      ['OUTPUT', int(1)],
+      ['INPUT_PULLUP', int(2)],
+      ['LED_BUILTIN', int(board.builtinLed)],
+      ['DEC', int(10)],
+      ['HEX', int(16)],
+      ['OCT', int(8)],
+      ['BIN', int(2)],
+      ['LSBFIRST', int(0)],
+      ['MSBFIRST', int(1)],
+      ['PI', float(Math.PI)],
+      ['HALF_PI', float(Math.PI / 2)],
+      ['TWO_PI', float(Math.PI * 2)],
+      ['DEG_TO_RAD', float(Math.PI / 180)],
+      ['RAD_TO_DEG', float(180 / Math.PI)],
+      ['NULL', int(0)],
+      ...Object.entries(INTERRUPT_MODES).map(([name, mode]) => [name, int(mode)] as [string, Value]),
+      ...Object.entries(board.analogPins).map(([name, pin]) => [name, int(pin)] as [string, Value])
+    ]);
+    this.serialPorts = new Map(
+      ['Serial', ...Object.keys(board.serialPins)].map(port => [port, this.serialPort(port)] as [string, NativeObject])
+    );
+  }
+
+  // Global initialisers, setup(), then loop() for ever
+  *run(): Run<void> {
+    this.units.forEach(unit => this.hoist(unit.ast.body, unit, null));
+    for (const unit of this.units) {
+      this.unit = unit;
+      yield* this.declareGlobals(unit.ast.body);
+    }
+    const setup = this.functions.get('setup')?.find(fn => fn.decl.params.length === 0);
+    const loop = this.functions.get('loop')?.find(fn => fn.decl.params.length === 0);
+    if (!setup || !loop) throw new SimulationError(`The sketch has no ${setup ? 'loop()' : 'setup()'} function`, null);
+    yield* this.invoke(setup, [], null);
+    for (;;) {
+      // Each pass stops at loop() itself, so even an empty loop() takes time
+      this.unit = loop.unit;
+      yield* this.at(loop.decl.range);
+      yield* this.invoke(loop, [], null);
+    }
+  }
+
+  // ---------------------------------------------------------------- declarations
+
+  private hoist(declarations: Declaration[], unit: SketchUnit, className: string | null): void {
+    declarations.forEach(decl => {
+      switch (decl.kind) {
+        case 'FunctionDeclaration': {
+          if (!decl.body) return;
+          const owner = decl.className ?? className;
+          const table = owner ? this.methodTable(owner) : this.functions;
+          table.set(decl.name, [...(table.get(decl.name) ?? []), { decl, unit, className: owner }]);
+          return;
+        }
+        case 'StructDeclaration':
+          if (!decl.name) return;
+          this.structs.set(decl.name, decl);
+          this.hoist(decl.members, unit, decl.name);
+          return;
+        case 'TypedefDeclaration':
+          this.typedefs.set(decl.name, { name: decl.type.name, pointer: 0 });
+          return;
+        case 'EnumDeclaration': {
+          if (decl.name) this.enums.add(decl.name);
+          return;
+        }
+        case 'NamespaceDeclaration':
+          this.hoist(decl.body, unit, className);
+          return;
+      }
+    });
+  }
+
+  private methodTable(className: string): Map<string, FunctionInfo[]> {
+    const table = this.methods.get(className) ?? new Map<string, FunctionInfo[]>();
+    this.methods.set(className, table);
+    return table;
+  }
+
+  private *declareGlobals(declarations: Declaration[]): Run<void> {
+    for (const decl of declarations) {
+      switch (decl.kind) {
+        case 'VariableDeclaration':
+          yield* this.declare(decl, this.globals);
+          break;
+        case 'EnumDeclaration': {
+          let next = 0;
+          for (const e of decl.enumerators) {
+            const value = e.value ? this.toNumber(yield* this.evaluate(e.value, this.globals)) : next;
+            const cell = { type: { name: 'int', pointer: 0 }, value: int(value) };
+            if (!decl.scoped) this.globals.vars.set(e.name, cell);
+            if (decl.name) this.globals.vars.set(`${decl.name}::${e.name}`, cell);
+            next = value + 1;
+          }
+          break;
+        }
+        case 'StructDeclaration':
+          for (const d of decl.instances) {
+            this.globals.vars.set(d.name, { type: { name: decl.name ?? '', pointer: d.pointer }, value: yield* this.create(decl.name ?? '', d.pointer, []) });
+          }
+          break;
+        case 'NamespaceDeclaration':
+          yield* this.declareGlobals(decl.body);
+          break;
+      }
+    }
+  }
+
+  private *declare(decl: VariableDeclaration, env: Env): Run<void> {
+    if (decl.type.qualifiers.includes('extern')) return;
+    // A static local is initialised once and keeps its value between calls
+    const persistent = env !== this.globals && decl.type.qualifiers.includes('static');
+    for (const d of decl.declarators) {
+      this.location = this.locate(d.range);
+      const cell = (persistent && this.statics.get(d)) || (yield* this.initialize(decl.type, d, env));
+      if (persistent) this.statics.set(d, cell);
+      env.vars.set(d.name, cell);
+    }
+  }
+
+  private *initialize(typeSpec: TypeSpec, d: VariableDeclarator, env: Env): Run<Cell> {
+    const type = { name: typeSpec.name, pointer: d.pointer };
+    // `int &alias = other;` shares the other variable's cell
+    if (d.reference && d.init) return yield* this.reference(d.init, env);
+
+    const dims: (number | null)[] = [];
+    for (const dim of d.arrayDims) dims.push(dim ? this.toNumber(yield* this.evaluate(dim, env)) : null);
+    if (dims.length > 0) {
+      if (dims[0] === null) {
+        const init = d.init;
+        dims[0] = init?.kind === 'InitializerList' ? init.elements.length : init?.kind === 'StringLiteral' ? init.value.length + 1 : 0;
+      }
+      const value = yield* this.create(type.name, type.pointer, dims as number[]);
+      if (d.init) yield* this.fill(value, d.init, env);
+      return { type, value };
+    }
+
+    if (type.name === 'auto' && d.init) {
+      const value = yield* this.evaluate(d.init, env);
+      return { type: this.typeOf(value), value: this.copy(value) };
+    }
+    if (d.ctorArgs) return { type, value: yield* this.construct(type.name, d.ctorArgs, env) };
+    if (d.init?.kind === 'InitializerList' && type.pointer === 0) {
+      const value = yield* this.create(type.name, 0, []);
+      if (value.kind === 'struct') yield* this.fill(value, d.init, env);
+      // `int x = {5};` and `int x{};`
+      else if (d.init.elements.length > 0) return { type, value: this.coerce(yield* this.evaluate(d.init.elements[0], env), type) };
+      return { type, value };
+    }
+    if (d.init) return { type, value: this.coerce(yield* this.evaluate(d.init, env), type) };
+    return { type, value: yield* this.create(type.name, type.pointer, []) };
+  }
+
+  // The zero value of a type; arrays of `dims` hold one cell per element
+  private *create(name: string, pointer: number, dims: number[]): Run<Value> {
+    const type = this.resolve({ name, pointer });
+    if (dims.length > 0) {
+      const cells: Cell[] = [];
+      for (let i = 0; i < dims[0]; i++) {
+        const element = dims.length > 1 ? { name: type.name, pointer: type.pointer } : type;
+        cells.push({ type: element, value: yield* this.create(type.name, type.pointer, dims.slice(1)) });
+      }
+      return { kind: 'array', cells };
+    }
+    if (type.pointer > 0) return nullPointer();
+    const integer = this.integerOf(type);
+    if (integer) return { kind: 'int', value: 0, type: integer, char: type.name === 'char' || undefined };
+    if (isFloatType(type.name)) return float(0);
+    if (type.name === 'String') return { kind: 'string', value: '' };
+    const struct = this.structs.get(type.name);
+    if (struct) return yield* this.createStruct(struct);
+    const library = this.library(type.name, []);
+    if (library) return { kind: 'object', object: library };
+    throw new SimulationError(`The simulator has no model of '${type.name}'`, this.location);
+  }
+
+  private *createStruct(struct: StructDeclaration): Run<StructValue> {
+    const value: StructValue = { kind: 'struct', name: struct.name ?? '', fields: new Map() };
+    const env = new Env(this.globals, value);
+    for (const member of struct.members) {
+      if (member.kind !== 'VariableDeclaration' || member.type.qualifiers.includes('static')) continue;
+      for (const d of member.declarators) value.fields.set(d.name, yield* this.initialize(member.type, d, env));
+    }
+    return value;
+  }
+
+  // `Point p(1, 2);` runs the constructor; `String s("text")` and `int x(5)` convert
+  private *construct(name: string, ctorArgs: Expression[], env: Env): Run<Value> {
+    const type = this.resolve({ name, pointer: 0 });
+    const struct = this.structs.get(type.name);
+    if (!struct) {
+      const args: Value[] = [];
+      for (const arg of ctorArgs) args.push(yield* this.evaluate(arg, env));
+      const library = this.library(type.name, args);
+      if (library) return { kind: 'object', object: library };
+      return type.name === 'String' ? this.stringConstructor(args) : this.coerce(args[0] ?? int(0), type);
+    }
+    const value = yield* this.createStruct(struct);
+    const constructors = this.methods.get(type.name)?.get(type.name) ?? [];
+    const ctor = this.overload(constructors, ctorArgs.length);
+    if (ctor) {
+      const args = yield* this.arguments(ctor.decl.params, ctorArgs, env);
+      yield* this.invoke(ctor, args, value);
+    } else if (ctorArgs.length > 0) {
+      throw new SimulationError(`'${type.name}' has no constructor that takes ${ctorArgs.length} arguments`, this.location);
+    }
+    return value;
+  }
+
+  // `= {1, 2, 3}` into an array or struct, `= "text"` into a char array
+  private *fill(target: Value, init: Expression, env: Env): Run<void> {
+    if (target.kind === 'array' && init.kind === 'StringLiteral') {
+      charCells(init.value).forEach((cell, i) => {
+        if (target.cells[i]) target.cells[i].value = cell.value;
+      });
+      return;
+    }
+    if (init.kind !== 'InitializerList') {
+      throw new SimulationError('An array can only be initialised with a { ... } list', this.location);
+    }
+    const cells = target.kind === 'array' ? target.cells : target.kind === 'struct' ? [...target.fields.values()] : [];
+    for (let i = 0; i < init.elements.length && i < cells.length; i++) {
+      const element = init.elements[i];
+      const cell = cells[i];
+      if (cell.value.kind === 'array' || cell.value.kind === 'struct') {
+        yield* this.fill(cell.value, element, env);
+      } else {
+        cell.value = this.coerce(yield* this.evaluate(element, env), cell.type);
+      }
+    }
+    if (init.elements.length > cells.length) {
+      throw new SimulationError(`Too many initialisers for ${describe(target)} of ${cells.length}`, this.location);
+    }
+  }
+
+  // ---------------------------------------------------------------- statements
+
+  private locate(range: SourceRange): SimLocation {
+    return this.unit ? this.unit.locate(range.line) : { file: '', line: range.line };
+  }
+
+  // Every statement is a point where the runner may stop, and where a pin
+  // change may interrupt the sketch
+  private *at(range: SourceRange): Run<void> {
+    this.location = this.locate(range);
+    yield { kind: 'statement', location: this.location };
+    if (this.interrupts.size > 0) yield* this.serviceInterrupts();
+  }
+
+  private *execute(statement: Statement, env: Env): Run<Completion> {
+    switch (statement.kind) {
+      case 'CompoundStatement': {
+        const scope = new Env(env);
+        for (const child of statement.body) {
+          const completion = yield* this.execute(child, scope);
+          if (completion !== 'normal') return completion;
+        }
+        return 'normal';
+      }
+      case 'ExpressionStatement':
+        yield* this.at(statement.range);
+        yield* this.evaluate(statement.expression, env);
+        return 'normal';
+      case 'VariableDeclaration':
+        yield* this.at(statement.range);
+        yield* this.declare(statement, env);
+        return 'normal';
+      case 'IfStatement': {
+        yield* this.at(statement.range);
+        const test = this.truthy(yield* this.evaluate(statement.test, env));
+        const branch = test ? statement.consequent : statement.alternate;
+        return branch ? yield* this.execute(branch, new Env(env)) : 'normal';
+      }
+      case 'WhileStatement':
+        for (;;) {
+          yield* this.at(statement.range);
+          if (!this.truthy(yield* this.evaluate(statement.test, env))) return 'normal';
+          const completion = yield* this.execute(statement.body, new Env(env));
+          if (completion === 'break') return 'normal';
+          if (typeof completion === 'object') return completion;
+        }
+      case 'DoWhileStatement':
+        for (;;) {
+          const completion = yield* this.execute(statement.body, new Env(env));
+          if (completion === 'break') return 'normal';
+          if (typeof completion === 'object') return completion;
+          yield* this.at(statement.range);
+          if (!this.truthy(yield* this.evaluate(statement.test, env))) return 'normal';
+        }
+      case 'ForStatement': {
+        const scope = new Env(env);
+        yield* this.at(statement.range);
+        if (statement.init?.kind === 'VariableDeclaration') yield* this.declare(statement.init, scope);
+        else if (statement.init) yield* this.evaluate(statement.init, scope);
+        for (;;) {
+          if (statement.test && !this.truthy(yield* this.evaluate(statement.test, scope))) return 'normal';
+          const completion = yield* this.execute(statement.body, new Env(scope));
+          if (completion === 'break') return 'normal';
+          if (typeof completion === 'object') return completion;
+          yield* this.at(statement.range);
+          if (statement.update) yield* this.evaluate(statement.update, scope);
+        }
+      }
+      case 'ForRangeStatement': {
+        yield* this.at(statement.range);
+        const iterable = yield* this.evaluate(statement.iterable, env);
+        const cells = iterable.kind === 'array' ? iterable.cells : iterable.kind === 'string' ? charCells(iterable.value).slice(0, -1) : null;
+        if (!cells) throw new SimulationError(`Cannot loop over a ${describe(iterable)}`, this.location);
+        const [d] = statement.declaration.declarators;
+        for (const cell of cells) {
+          const scope = new Env(env);
+          scope.vars.set(d.name, d.reference ? cell : { type: cell.type, value: this.copy(cell.value) });
+          const completion = yield* this.execute(statement.body, scope);
+          if (completion === 'break') return 'normal';
+          if (typeof completion === 'object') return completion;
+          yield* this.at(statement.range);
+        }
+        return 'normal';
+      }
+      case 'SwitchStatement':
+        return yield* this.executeSwitch(statement.discriminant, statement.body, env, statement.range);
+      case 'ReturnStatement': {
+        yield* this.at(statement.range);
+        return { value: statement.argument ? yield* this.evaluate(statement.argument, env) : VOID };
+      }
+      case 'BreakStatement':
+        return 'break';
+      case 'ContinueStatement':
+        return 'continue';
+      case 'EmptyStatement':
+      case 'CaseLabel':
+      case 'TypedefDeclaration':
+      case 'StructDeclaration':
+      case 'EnumDeclaration':
+        return 'normal';
+      case 'LabelStatement':
+      case 'GotoStatement':
+        throw new SimulationError('The simulator does not support goto', this.locate(statement.range));
+      default:
+        throw new SimulationError(`The simulator does not support ${statement.kind.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()}`, this.locate(statement.range));
+    }
+  }
+
+  private *executeSwitch(discriminant: Expression, body: Statement, env: Env, range: SourceRange): Run<Completion> {
+    yield* this.at(range);
+    const value = this.toNumber(yield* this.evaluate(discriminant, env));
+    const statements = body.kind === 'CompoundStatement' ? body.body : [body];
+    let start = -1;
+    for (let i = 0; i < statements.length && start < 0; i++) {
+      const statement = statements[i];
+      if (statement.kind === 'CaseLabel' && statement.test && this.toNumber(yield* this.evaluate(statement.test, env)) === value) start = i;
+    }
+    if (start < 0) start = statements.findIndex(statement => statement.kind === 'CaseLabel' && !statement.test);
+    if (start < 0) return 'normal';
+    const scope = new Env(env);
+    for (let i = start; i < statements.length; i++) {
+      const completion = yield* this.execute(statements[i], scope);
+      if (completion === 'break') return 'normal';
+      if (completion !== 'normal') return completion;
+    }
+    return 'normal';
+  }
+
+  // ---------------------------------------------------------------- functions
+
+  private overload(candidates: FunctionInfo[], count: number): FunctionInfo | null {
+    return candidates.find(fn => {
+      const required = fn.decl.params.filter(param => !param.defaultValue).length;
+      return count >= required && (fn.decl.variadic || count <= fn.decl.params.length);
+    }) ?? null;
+  }
+
+  // Reference parameters get the caller's cell; everything else a copy
+  private *arguments(params: Parameter[], args: Expression[], env: Env): Run<Cell[]> {
+    const cells: Cell[] = [];
+    for (let i = 0; i < params.length; i++) {
+      const param = params[i];
+      const type = { name: param.type.name, pointer: param.pointer + (param.arrayDims.length > 0 ? 1 : 0) };
+      const arg = args[i] ?? param.defaultValue;
+      if (!arg) break;
+      if (param.reference) {
+        cells.push(yield* this.reference(arg, env));
+      } else {
+        cells.push({ type, value: this.coerce(yield* this.evaluate(arg, env), type) });
+      }
+    }
+    return cells;
+  }
+
+  private *invoke(fn: FunctionInfo, args: Cell[], self: StructValue | null): Run<Value> {
+    if (this.depth >= MAX_DEPTH) {
+      throw new SimulationError(`${fn.decl.name}() calls itself too deeply; a real board would run out of stack`, this.location);
+    }
+    const { decl } = fn;
+    const env = new Env(self ? new Env(this.globals, self) : this.globals);
+    decl.params.forEach((param, i) => param.name && args[i] && env.vars.set(param.name, args[i]));
+
+    const outer = this.unit;
+    this.unit = fn.unit;
+    this.depth++;
+    try {
+      const completion = yield* this.execute(decl.body!, env);
+      const result = typeof completion === 'object' ? completion.value : VOID;
+      const returns = decl.returnType;
+      if (!returns || (returns.name === 'void' && decl.returnPointer === 0)) return VOID;
+      return this.coerce(result, { name: returns.name, pointer: decl.returnPointer });
+    } finally {
+      this.depth--;
+      this.unit = outer;
+    }
+  }
+
+  private *callValue(callee: Value, args: Expression[], env: Env): Run<Value> {
+    if (callee.kind === 'function') {
+      const cells = yield* this.arguments(callee.fn.decl.params, args, env);
+      return yield* this.invoke(callee.fn, cells, null);
+    }
+    if (callee.kind === 'lambda') {
+      const cells = yield* this.arguments(callee.node.params, args, env);
+      const scope = new Env(callee.env);
+      callee.node.params.forEach((param, i) => param.name && cells[i] && scope.vars.set(param.name, cells[i]));
+      this.depth++;
+      try {
+        const completion = yield* this.execute(callee.node.body, scope);
+        return typeof completion === 'object' ? completion.value : VOID;
+      } finally {
+        this.depth--;
+      }
+    }
+    throw new SimulationError(`A ${describe(callee)} cannot be called`, this.location);
+  }
+
+  private *call(node: CallExpression, env: Env): Run<Value> {
+    const { callee } = node;
+
+    if (callee.kind === 'MemberExpression') {
+      const target = yield* this.evaluate(callee.object, env);
+      const object = callee.arrow ? this.dereference(target) : target;
+      if (object.kind === 'object') return yield* this.nativeCall(object.object, callee.property, node.arguments, env);
+      if (object.kind === 'string') {
+        const cell = callee.arrow ? null : yield* this.reference(callee.object, env);
+        return yield* this.stringMethod(cell ?? { type: { name: 'String', pointer: 0 }, value: object }, callee.property, node.arguments, env);
+      }
+      if (object.kind === 'struct') {
+        const fn = this.overload(this.methods.get(object.name)?.get(callee.property) ?? [], node.arguments.length);
+        if (!fn) throw new SimulationError(`'${object.name}' has no method '${callee.property}' that takes ${node.arguments.length} arguments`, this.location);
+        const cells = yield* this.arguments(fn.decl.params, node.arguments, env);
+        return yield* this.invoke(fn, cells, object);
+      }
+      throw new SimulationError(`A ${describe(object)} has no method '${callee.property}'`, this.location);
+    }
+
+    if (callee.kind !== 'Identifier') return yield* this.callValue(yield* this.evaluate(callee, env), node.arguments, env);
+
+    const name = callee.name;
+    const variable = env.lookup(name);
+    if (variable) return yield* this.callValue(variable.value, node.arguments, env);
+
+    // A method called from another method of the same class
+    for (let scope: Env | null = env; scope; scope = scope.parent) {
+      if (!scope.self) continue;
+      const fn = this.overload(this.methods.get(scope.self.name)?.get(name) ?? [], node.arguments.length);
+      if (fn) {
+        const cells = yield* this.arguments(fn.decl.params, node.arguments, env);
+        return yield* this.invoke(fn, cells, scope.self);
+      }
+    }
+
+    const qualified = name.split('::');
+    const own = qualified.length === 2
+      ? this.methods.get(qualified[0])?.get(qualified[1]) ?? this.functions.get(qualified[1])
+      : this.functions.get(name);
+    if (own) {
+      const fn = this.overload(own, node.arguments.length);
+      if (!fn) throw new SimulationError(`No ${name}() takes ${node.arguments.length} arguments`, this.location);
+      const cells = yield* this.arguments(fn.decl.params, node.arguments, env);
+      return yield* this.invoke(fn, cells, null);
+    }
+
+    const type = this.resolve({ name, pointer: 0 });
+    if (this.integerOf(type) || isFloatType(type.name) || type.name === 'String') {
+      const args: Value[] = [];
+      for (const arg of node.arguments) args.push(yield* this.evaluate(arg, env));
+      return type.name === 'String' ? this.stringConstructor(args) : this.coerce(args[0] ?? int(0), type);
+    }
+
+    return yield* this.builtin(name.replace(/^std::/, ''), node, env);
+  }
+
+  // ---------------------------------------------------------------- expressions
+
+  private *evaluate(node: Expression, env: Env): Run<Value> {
+    switch (node.kind) {
+      case 'NumberLiteral':
+        return this.literal(node);
+      case 'CharLiteral':
+        return { kind: 'int', value: node.value, type: CHAR, char: true };
+      case 'BooleanLiteral':
+        return bool(node.value);
+      case 'StringLiteral':
+        return { kind: 'pointer', cells: charCells(node.value), index: 0 };
+      case 'NullLiteral':
+        return nullPointer();
+      case 'Identifier':
+        return this.identifier(node.name, env);
+      case 'ThisExpression': {
+        for (let scope: Env | null = env; scope; scope = scope.parent) {
+          if (scope.self) return { kind: 'pointer', cells: [{ type: { name: scope.self.name, pointer: 0 }, value: scope.self }], index: 0 };
+        }
+        throw new SimulationError("'this' outside a method", this.location);
+      }
+      case 'CallExpression':
+        return yield* this.call(node, env);
+      case 'MemberExpression':
+      case 'IndexExpression':
+        return (yield* this.reference(node, env)).value;
+      case 'UnaryExpression':
+        return yield* this.unary(node.operator, node.argument, node.prefix, env);
+      case 'BinaryExpression': {
+        if (node.operator === '&&' || node.operator === '||') {
+          const left = this.truthy(yield* this.evaluate(node.left, env));
+          if (node.operator === '&&' ? !left : left) return bool(left);
+          return bool(this.truthy(yield* this.evaluate(node.right, env)));
+        }
+        const left = yield* this.evaluate(node.left, env);
+        const right = yield* this.evaluate(node.right, env);
+        return this.binary(node.operator, left, right);
+      }
+      case 'AssignmentExpression': {
+        const cell = yield* this.reference(node.left, env);
+        const right = yield* this.evaluate(node.right, env);
+        const value = node.operator === '=' ? right : this.binary(node.operator.slice(0, -1), cell.value, right);
+        this.assign(cell, value);
+        return cell.value;
+      }
+      case 'ConditionalExpression': {
+        const test = this.truthy(yield* this.evaluate(node.test, env));
+        return yield* this.evaluate(test ? node.consequent : node.alternate, env);
+      }
+      case 'CastExpression':
+        return this.coerce(yield* this.evaluate(node.argument, env), { name: node.type.name, pointer: node.pointer });
+      case 'SizeofExpression': {
+        if (node.argument.kind === 'Type') return int(this.sizeOf({ name: node.argument.name, pointer: 0 }, null), integerType('size_t')!);
+        const value = yield* this.evaluate(node.argument, env);
+        return int(this.sizeOf(this.typeOf(value), value), integerType('size_t')!);
+      }
+      case 'SequenceExpression': {
+        let last: Value = VOID;
+        for (const expression of node.expressions) last = yield* this.evaluate(expression, env);
+        return last;
+      }
+      case 'LambdaExpression':
+        return { kind: 'lambda', node, env, unit: this.unit! };
+      case 'InitializerList':
+        throw new SimulationError('A { ... } list can only initialise a variable', this.location);
+      case 'NewExpression':
+      case 'DeleteExpression':
+        throw new SimulationError('The simulator does not support new and delete', this.location);
+    }
+  }
+
+  private literal(node: NumberLiteral): Value {
+    if (node.isFloat) return float(/[fF]$/.test(node.raw) ? Math.fround(node.value) : node.value);
+    const base = node.isLong ? (node.isUnsigned ? UNSIGNED_LONG : LONG) : node.isUnsigned ? integerType('unsigned int')! : INT;
+    const candidates = [base, LONG, UNSIGNED_LONG, integerType('long long')!].filter(type => type.rank >= base.rank);
+    const type = candidates.find(candidate => fitsInteger(node.value, candidate, this.board)) ?? base;
+    return int(node.value, type);
+  }
+
+  private identifier(name: string, env: Env): Value {
+    const cell = env.lookup(name) ?? this.globals.lookup(name);
+    if (cell) return cell.value;
+    const constant = this.constants.get(name);
+    if (constant) return constant;
+    const port = this.serialPorts.get(name);
+    if (port) return { kind: 'object', object: port };
+    const fn = this.functions.get(name)?.[0];
+    if (fn) return { kind: 'function', fn };
+    throw new SimulationError(`'${name}' is not available in the simulator`, this.location);
+  }
+
+  // The cell an expression names, for assignment, `&x` and reference parameters.
+  // Anything that is not a variable gets a temporary cell.
+  private *reference(node: Expression, env: Env): Run<Cell> {
+    switch (node.kind) {
+      case 'Identifier': {
+        const cell = env.lookup(node.name);
+        if (cell) return cell;
+        break;
+      }
+      case 'IndexExpression': {
+        const target = yield* this.evaluate(node.object, env);
+        const index = this.toNumber(yield* this.evaluate(node.index, env));
+        if (target.kind === 'string') {
+          const c = target.value.charCodeAt(index);
+          return { type: { name: 'char', pointer: 0 }, value: { kind: 'int', value: Number.isNaN(c) ? 0 : c, type: CHAR, char: true } };
+        }
+        const cells = target.kind === 'array' || target.kind === 'pointer' ? target.cells : null;
+        if (!cells) throw new SimulationError(`A ${describe(target)} cannot be indexed`, this.location);
+        const at = (target.kind === 'pointer' ? target.index : 0) + index;
+        if (at < 0 || at >= cells.length) {
+          throw new SimulationError(`Index ${index} is outside the array of ${cells.length} elements; on the board this reads or overwrites other variables`, this.location);
+        }
+        return cells[at];
+      }
+      case 'MemberExpression': {
+        const target = yield* this.evaluate(node.object, env);
+        const object = node.arrow ? this.dereference(target) : target;
+        if (object.kind !== 'struct') throw new SimulationError(`A ${describe(object)} has no member '${node.property}'`, this.location);
+        const cell = object.fields.get(node.property);
+        if (!cell) throw new SimulationError(`'${object.name}' has no member '${node.property}'`, this.location);
+        return cell;
+      }
+      case 'UnaryExpression':
+        if (node.operator === '*') {
+          const pointer = yield* this.evaluate(node.argument, env);
+          if ((pointer.kind === 'pointer' || pointer.kind === 'array') && pointer.cells.length > 0) {
+            const at = pointer.kind === 'pointer' ? pointer.index : 0;
+            if (at < 0 || at >= pointer.cells.length) throw new SimulationError('The pointer points outside its array', this.location);
+            return pointer.cells[at];
+          }
+          throw new SimulationError('Dereferencing a null pointer', this.location);
+        }
+        break;
+    }
+    const value = yield* this.evaluate(node, env);
+    return { type: this.typeOf(value), value };
+  }
+
+  private *unary(operator: string, argument: Expression, prefix: boolean, env: Env): Run<Value> {
+    if (operator === '++' || operator === '--') {
+      const cell = yield* this.reference(argument, env);
+      const old = cell.value;
+      this.assign(cell, this.binary(operator[0], old, int(1)));
+      return prefix ? cell.value : old;
+    }
+    if (operator === '&') {
+      if (argument.kind === 'Identifier' && !env.lookup(argument.name)) return this.identifier(argument.name, env);
+      return { kind: 'pointer', cells: [yield* this.reference(argument, env)], index: 0 };
+    }
+    if (operator === '*') return (yield* this.reference({ kind: 'UnaryExpression', operator, argument, prefix, range: argument.range }, env)).value;
+
+    const value = yield* this.evaluate(argument, env);
+    switch (operator) {
+      case '!':
+        return bool(!this.truthy(value));
+      case '-':
+        return value.kind === 'float' ? float(-value.value) : this.binary('-', int(0), value);
+      case '+':
+        return value.kind === 'float' ? value : this.binary('+', int(0), value);
+      case '~': {
+        if (value.kind !== 'int') throw new SimulationError(`'~' needs an integer, not a ${describe(value)}`, this.location);
+        const type = promoteInteger(value.type, this.board);
+        return int(wrapInteger(~BigInt(value.value), type, this.board), type);
+      }
+    }
+    throw new SimulationError(`The simulator does not support the '${operator}' operator`, this.location);
+  }
+
+  private binary(operator: string, left: Value, right: Value): Value {
+    // String concatenation and comparison
+    if (left.kind === 'string' || right.kind === 'string') {
+      const a = this.text(left);
+      const b = this.text(right);
+      switch (operator) {
+        case '+': return { kind: 'string', value: a + b };
+        case '==': return bool(a === b);
+        case '!=': return bool(a !== b);
+        case '<': return bool(a < b);
+        case '>': return bool(a > b);
+        case '<=': return bool(a <= b);
+        case '>=': return bool(a >= b);
+      }
+      throw new SimulationError(`A String does not support '${operator}'`, this.location);
+    }
+
+    if (left.kind === 'pointer' || left.kind === 'array' || right.kind === 'pointer' || right.kind === 'array') {
+      return this.pointerArithmetic(operator, left, right);
+    }
+
+    if (left.kind === 'float' || right.kind === 'float') {
+      const a = this.toNumber(left);
+      const b = this.toNumber(right);
+      // double is float on AVR
+      const round = this.board.doubleSize === 4 ? Math.fround : (x: number) => x;
+      switch (operator) {
+        case '+': return float(round(a + b));
+        case '-': return float(round(a - b));
+        case '*': return float(round(a * b));
+        case '/': return float(round(a / b));
+        case '<': return bool(a < b);
+        case '>': return bool(a > b);
+        case '<=': return bool(a <= b);
+        case '>=': return bool(a >= b);
+        case '==': return bool(a === b);
+        case '!=': return bool(a !== b);
+      }
+      throw new SimulationError(`'${operator}' needs integers, not floating-point numbers`, this.location);
+    }
+
+    if (left.kind !== 'int' || right.kind !== 'int') {
+      throw new SimulationError(`Cannot apply '${operator}' to a ${describe(left)} and a ${describe(right)}`, this.location);
+    }
+
+    if (operator === '<<' || operator === '>>') {
+      const type = promoteInteger(left.type, this.board);
+      const shifted = operator === '<<' ? BigInt(left.value) << BigInt(right.value) : BigInt(left.value) >> BigInt(right.value);
+      return int(wrapInteger(shifted, type, this.board), type);
+    }
+
+    const type = commonInteger(promoteInteger(left.type, this.board), promoteInteger(right.type, this.board), this.board);
+    // Both sides are converted first, so -1 < 1u is false
+    const a = wrapInteger(BigInt(left.value), type, this.board);
+    const b = wrapInteger(BigInt(right.value), type, this.board);
+    let result: number;
+    switch (operator) {
+      case '+': result = a + b; break;
+      case '-': result = a - b; break;
+      case '*': result = Number.isSafeInteger(a * b) ? a * b : Number(BigInt(a) * BigInt(b)); break;
+      case '/':
+      case '%':
+        if (b === 0) throw new SimulationError('Division by zero', this.location);
+        result = operator === '/' ? Math.trunc(a / b) : a % b;
+        break;
+      case '&': return int(wrapInteger(BigInt(a) & BigInt(b), type, this.board), type);
+      case '|': return int(wrapInteger(BigInt(a) | BigInt(b), type, this.board), type);
+      case '^': return int(wrapInteger(BigInt(a) ^ BigInt(b), type, this.board), type);
+      case '<': return bool(a < b);
+      case '>': return bool(a > b);
+      case '<=': return bool(a <= b);
+      case '>=': return bool(a >= b);
+      case '==': return bool(a === b);
+      case '!=': return bool(a !== b);
+      default:
+        throw new SimulationError(`The simulator does not support the '${operator}' operator`, this.location);
+    }
+    return int(fitsInteger(result, type, this.board) ? result : wrapInteger(BigInt(result), type, this.board), type);
+  }
+
+  private pointerArithmetic(operator: string, left: Value, right: Value): Value {
+    const pointer = (value: Value) =>
+      value.kind === 'array' ? { cells: value.cells, index: 0 } : value.kind === 'pointer' ? { cells: value.cells, index: value.index } : null;
+    const a = pointer(left);
+    const b = pointer(right);
+    // `p == NULL` and `if (p != 0)`
+    const isNull = (value: Value) => (value.kind === 'int' && value.value === 0) || (value.kind === 'pointer' && value.cells.length === 0);
+    if (operator === '==' || operator === '!=') {
+      const same = a && b ? a.cells === b.cells && a.index === b.index : isNull(left) && isNull(right);
+      return bool(operator === '==' ? same : !same);
+    }
+    if (a && b && operator === '-' && a.cells === b.cells) return int(a.index - b.index);
+    if (a && b && ['<', '>', '<=', '>='].includes(operator) && a.cells === b.cells) {
+      return this.binary(operator, int(a.index), int(b.index));
+    }
+    if (a && !b && (operator === '+' || operator === '-')) {
+      const offset = this.toNumber(right);
+      return { kind: 'pointer', cells: a.cells, index: a.index + (operator === '+' ? offset : -offset) };
+    }
+    if (b && !a && operator === '+') return { kind: 'pointer', cells: b.cells, index: b.index + this.toNumber(left) };
+    throw new SimulationError(`The simulator does not support '${operator}' on pointers`, this.location);
+  }
+
+  // ---------------------------------------------------------------- conversions
+
+  private resolve(type: ValueType): ValueType {
+    const target = this.typedefs.get(type.name);
+    return target ? { name: target.name, pointer: target.pointer + type.pointer } : type;
+  }
+
+  private integerOf(type: ValueType): IntegerType | null {
+    if (type.pointer > 0) return null;
+    const resolved = this.resolve(type);
+    if (this.enums.has(resolved.name)) return INT;
+    return integerType(resolved.name);
+  }
+
+  private typeOf(value: Value): ValueType {
+    switch (value.kind) {
+      case 'int':
+        return { name: value.char ? 'char' : value.type.signed || value.type.rank === 0 ? ['bool', 'char', 'short', 'int', 'long', 'long long'][value.type.rank] : 'unsigned long', pointer: 0 };
+      case 'float':
+        return { name: 'double', pointer: 0 };
+      case 'string':
+        return { name: 'String', pointer: 0 };
+      case 'struct':
+        return { name: value.name, pointer: 0 };
+      case 'array':
+      case 'pointer':
+        return { name: value.cells[0]?.type.name ?? 'void', pointer: (value.cells[0]?.type.pointer ?? 0) + 1 };
+      default:
+        return { name: 'auto', pointer: 0 };
+    }
+  }
+
+  private copy(value: Value): Value {
+    if (value.kind === 'struct') {
+      return { kind: 'struct', name: value.name, fields: new Map([...value.fields].map(([name, cell]) => [name, { type: cell.type, value: this.copy(cell.value) }])) };
+    }
+    if (value.kind === 'array') return { kind: 'array', cells: value.cells.map(cell => ({ type: cell.type, value: this.copy(cell.value) })) };
+    return value;
+  }
+
+  private assign(cell: Cell, value: Value): void {
+    if (cell.value.kind === 'array') throw new SimulationError('An array cannot be assigned to; copy its elements one by one', this.location);
+    cell.value = cell.type.name === 'auto' ? this.copy(value) : this.coerce(value, cell.type);
+  }
+
+  // The implicit conversions of an assignment or a call
+  private coerce(value: Value, declared: ValueType): Value {
+    const type = this.resolve(declared);
+    if (type.name === 'auto') return value;
+    if (type.pointer > 0) {
+      if (value.kind === 'pointer' || value.kind === 'function' || value.kind === 'lambda') return value;
+      if (value.kind === 'array') return { kind: 'pointer', cells: value.cells, index: 0 };
+      if (value.kind === 'int' && value.value === 0) return nullPointer();
+      // `const char *text = message.c_str()` and friends
+      if (value.kind === 'string') return { kind: 'pointer', cells: charCells(value.value), index: 0 };
+      throw new SimulationError(`Cannot convert a ${describe(value)} to a pointer`, this.location);
+    }
+    const integer = this.integerOf(type);
+    if (integer) {
+      if (value.kind === 'int' || value.kind === 'float') {
+        const number = value.kind === 'float' ? Math.trunc(value.value) : value.value;
+        if (integer.rank === 0) return bool(number !== 0 || (value.kind === 'float' && value.value !== 0));
+        const wrapped = fitsInteger(number, integer, this.board) ? number : wrapInteger(BigInt(Number.isFinite(number) ? number : 0), integer, this.board);
+        return { kind: 'int', value: wrapped, type: integer, char: type.name === 'char' || undefined };
+      }
+      if (integer.rank === 0) return bool(this.truthy(value));
+      throw new SimulationError(`Cannot convert a ${describe(value)} to ${type.name}`, this.location);
+    }
+    if (isFloatType(type.name)) {
+      if (value.kind !== 'int' && value.kind !== 'float') throw new SimulationError(`Cannot convert a ${describe(value)} to ${type.name}`, this.location);
+      return float(type.name === 'float' || this.board.doubleSize === 4 ? Math.fround(value.value) : value.value);
+    }
+    if (type.name === 'String') return this.stringConstructor([value]);
+    if (value.kind === 'struct' && value.name === type.name) return this.copy(value);
+    if (value.kind === 'object' && value.object.className === type.name) return value;
+    throw new SimulationError(`Cannot convert a ${describe(value)} to ${type.name}`, this.location);
+  }
+
+  private truthy(value: Value): boolean {
+    switch (value.kind) {
+      case 'int':
+      case 'float':
+        return value.value !== 0;
+      case 'pointer':
+        return value.cells.length > 0;
+      case 'void':
+        return false;
+      default:
+        return true;
+    }
+  }
+
+  private toNumber(value: Value): number {
+    if (value.kind === 'int' || value.kind === 'float') return value.value;
+    throw new SimulationError(`Expected a number, not a ${describe(value)}`, this.location);
+  }
+
+  private dereference(value: Value): Value {
+    if (value.kind === 'pointer' && value.cells[value.index]) return value.cells[value.index].value;
+    if (value.kind === 'pointer') throw new SimulationError('Dereferencing a null pointer', this.location);
+    return value;
+  }
+
+  private sizeOf(type: ValueType, value: Value | null): number {
+    if (value?.kind === 'array') return value.cells.reduce((sum, cell) => sum + this.sizeOf(cell.type, cell.value), 0);
+    if (type.pointer > 0) return this.board.pointerSize;
+    const integer = this.integerOf(type);
+    if (integer) return integerSize(integer, this.board);
+    if (type.name === 'float') return 4;
+    if (isFloatType(type.name)) return this.board.doubleSize;
+    if (type.name === 'String') return this.board.pointerSize + 2 * this.board.intSize;
+    if (value?.kind === 'struct') return [...value.fields.values()].reduce((sum, cell) => sum + this.sizeOf(cell.type, cell.value), 0);
+    return this.board.intSize;
+  }
+
+  // What print() and String concatenation make of a value
+  private text(value: Value, format?: number): string {
+    switch (value.kind) {
+      case 'string':
+        return value.value;
+      case 'pointer':
+      case 'array':
+        return cString(value) ?? '';
+      case 'int': {
+        if (value.char && format === undefined) return String.fromCharCode(value.value & 0xff);
+        const base = format ?? 10;
+        // Print::print(long, base) shows negative numbers in other bases as unsigned 32-bit
+        const number = base !== 10 && value.value < 0 ? value.value >>> 0 : value.value;
+        return number.toString(base).toUpperCase();
+      }
+      case 'float':
+        return this.floatText(value.value, format ?? 2);
+      case 'void':
+        return '';
+      default:
+        return describe(value);
+    }
+  }
+
+  // Print::printFloat, which has no exponent notation
+  private floatText(value: number, digits: number): string {
+    if (Number.isNaN(value)) return 'nan';
+    if (!Number.isFinite(value)) return 'inf';
+    if (Math.abs(value) > 4294967040) return 'ovf';
+    return value.toFixed(Math.max(0, Math.min(digits, 20)));
+  }
+
+  private stringConstructor(args: Value[]): Value {
+    const [value, format] = args;
+    if (!value) return { kind: 'string', value: '' };
+    const base = format ? this.toNumber(format) : undefined;
+    if (value.kind === 'int' && value.char && base === undefined) return { kind: 'string', value: String.fromCharCode(value.value & 0xff) };
+    // String(byte) is a number; only char is taken as a character
+    return { kind: 'string', value: value.kind === 'int' ? this.text({ ...value, char: undefined }, base) : this.text(value, base) };
+  }
+
+  // ---------------------------------------------------------------- String
+
+  private *stringMethod(cell: Cell, method: string, argNodes: Expression[], env: Env): Run<Value> {
+    const args: Value[] = [];
+    for (const arg of argNodes) args.push(yield* this.evaluate(arg, env));
+    const self = cell.value.kind === 'string' ? cell.value.value : '';
+    const set = (text: string) => {
+      cell.value = { kind: 'string', value: text };
+    };
+    const num = (i: number) => this.toNumber(args[i]);
+    const str = (i: number) => this.text(args[i]);
+    switch (method) {
+      case 'length': return int(self.length, integerType('unsigned int')!);
+      case 'isEmpty': return bool(self.length === 0);
+      case 'charAt': return { kind: 'int', value: self.charCodeAt(num(0)) || 0, type: CHAR, char: true };
+      case 'setCharAt':
+        if (num(0) < self.length) set(self.slice(0, num(0)) + String.fromCharCode(num(1)) + self.slice(num(0) + 1));
+        return VOID;
+      case 'substring': return { kind: 'string', value: self.slice(num(0), args.length > 1 ? num(1) : undefined) };
+      case 'indexOf': return int(self.indexOf(str(0), args.length > 1 ? num(1) : 0));
+      case 'lastIndexOf': return int(self.lastIndexOf(str(0)));
+      case 'startsWith': return bool(self.startsWith(str(0)));
+      case 'endsWith': return bool(self.endsWith(str(0)));
+      case 'equals': return bool(self === str(0));
+      case 'equalsIgnoreCase': return bool(self.toLowerCase() === str(0).toLowerCase());
+      case 'compareTo': return int(self < str(0) ? -1 : self > str(0) ? 1 : 0);
+      case 'toInt': return int(parseInt(self, 10) || 0, LONG);
+      case 'toFloat':
+      case 'toDouble': return float(Math.fround(parseFloat(self) || 0));
+      case 'c_str': return { kind: 'pointer', cells: charCells(self), index: 0 };
+      case 'concat': set(self + this.text(args[0])); return bool(true);
+      case 'trim': set(self.trim()); return VOID;
+      case 'toUpperCase': set(self.toUpperCase()); return VOID;
+      case 'toLowerCase': set(self.toLowerCase()); return VOID;
+      case 'replace': set(self.split(str(0)).join(str(1))); return VOID;
+      case 'remove': set(self.slice(0, num(0)) + (args.length > 1 ? self.slice(num(0) + num(1)) : '')); return VOID;
+      case 'reserve': return bool(true);
+    }
+    throw new SimulationError(`String has no method '${method}' in the simulator`, this.location);
+  }
+
+  // ---------------------------------------------------------------- the Arduino core
+
+  private *nativeCall(object: NativeObject, method: string, argNodes: Expression[], env: Env): Run<Value> {
+    const args: Value[] = [];
+    for (const arg of argNodes) args.push(yield* this.evaluate(arg, env));
+    const result = object.call(method, args);
+    if (result === undefined) throw new SimulationError(`${object.className} has no method '${method}' in the simulator`, this.location);
+    return result;
+  }
+
+  private serialPort(port: string): NativeObject {
+    let baud = 0;
+    const write = (text: string) => {
+      if (!baud && !this.warned.has(port)) {
+        this.warned.add(port);
+        this.host.notice(`${port}.print() before ${port}.begin(): a real board sends nothing`, this.location);
+      }
+      this.host.serialWrite(port, text, baud || 9600);
+      return int(text.length, integerType('size_t')!);
+    };
+    return {
+      className: 'HardwareSerial',
+      call: (method, args) => {
+        const [value, format] = args;
+        const base = format ? this.toNumber(format) : undefined;
+        switch (method) {
+          case 'begin':
+            baud = value ? this.toNumber(value) : 9600;
+            return VOID;
+          case 'end':
+            baud = 0;
+            return VOID;
+          case 'print':
+            return write(value ? this.text(value, base) : '');
+          case 'println':
+            return write(`${value ? this.text(value, base) : ''}\r\n`);
+          case 'write':
+            return write(value?.kind === 'int' ? String.fromCharCode(value.value & 0xff) : value ? this.text(value) : '');
+          case 'printf':
+            return write(this.format(args));
+          case 'available':
+          case 'availableForWrite':
+            return int(method === 'available' ? 0 : 63);
+          case 'read':
+          case 'peek':
+            return int(-1);
+          case 'parseInt':
+            return int(0, LONG);
+          case 'parseFloat':
+            return float(0);
+          case 'readString':
+          case 'readStringUntil':
+            return { kind: 'string', value: '' };
+          case 'flush':
+          case 'setTimeout':
+            return VOID;
+        }
+        return undefined;
+      }
+    };
+  }
+
+  // Libraries the simulator has a model of, by class name
+  private library(className: string, args: Value[]): NativeObject | null {
+    switch (className) {
+      case 'Servo':
+        return this.servo();
+      case 'LiquidCrystal':
+        return this.liquidCrystal(args);
+    }
+    return null;
+  }
+
+  // Servo.h: the pin carries a pulse of 544-2400 µs for 0-180 degrees
+  private servo(): NativeObject {
+    let pin: number | null = null;
+    let min = 544;
+    let max = 2400;
+    let pulse = 1500;
+    const output = (micros: number) => {
+      pulse = Math.round(Math.max(min, Math.min(max, micros)));
+      if (pin !== null) this.host.pins.writePulse(pin, pulse);
+      return VOID;
+    };
+    return {
+      className: 'Servo',
+      call: (method, args) => {
+        const num = (i: number) => this.toNumber(args[i]);
+        switch (method) {
+          case 'attach':
+            pin = this.pin(args[0]);
+            if (args.length >= 3) [min, max] = [num(1), num(2)];
+            output(pulse);
+            return int(0, integerType('uint8_t')!);
+          case 'detach':
+            if (pin !== null) this.host.pins.writePulse(pin, null);
+            pin = null;
+            return VOID;
+          case 'write':
+            // As in the library, values below 544 are angles and anything else microseconds
+            return output(num(0) < 544 ? min + (Math.max(0, Math.min(180, num(0))) * (max - min)) / 180 : num(0));
+          case 'writeMicroseconds':
+            return output(num(0));
+          case 'read':
+            return int(Math.round(((pulse - min) * 180) / (max - min)));
+          case 'readMicroseconds':
+            return int(pulse);
+          case 'attached':
+            return bool(pin !== null);
+        }
+        return undefined;
+      }
+    };
+  }
+
+  // LiquidCrystal.h in 4-bit mode. It drives the pins exactly as the library
+  // does, so whatever is wired to them has to decode the HD44780 protocol.
+  private liquidCrystal(args: Value[]): NativeObject {
+    if (args.length !== 6 && args.length !== 7) {
+      throw new SimulationError('The simulator models LiquidCrystal in 4-bit mode: LiquidCrystal lcd(rs, enable, d4, d5, d6, d7)', this.location);
+    }
+    const wiring = args.map(arg => this.pin(arg));
+    // The seven-pin form names RW too, which stays LOW
+    const rw = wiring.length === 7 ? wiring.splice(1, 1)[0] : null;
+    const [rs, enable, ...data] = wiring;
+    const pins = this.host.pins;
+    let rows = 1;
+    let rowOffsets = [0x00, 0x40, 0x10, 0x50];
+    let displayControl = 0x04;
+    let entryMode = 0x02;
+
+    const nibble = (value: number) => {
+      data.forEach((pin, i) => pins.write(pin, ((value >> i) & 1) as 0 | 1));
+      pins.write(enable, 0);
+      pins.write(enable, 1);
+      pins.write(enable, 0);
+    };
+    const send = (value: number, mode: 0 | 1) => {
+      pins.write(rs, mode);
+      nibble(value >> 4);
+      nibble(value & 0x0f);
+    };
+    const command = (value: number) => {
+      send(value, 0);
+      return VOID;
+    };
+    const write = (text: string) => {
+      for (const c of text) send(c.charCodeAt(0) & 0xff, 1);
+      return int(text.length, integerType('size_t')!);
+    };
+    const setFlag = (flags: number, bit: number, on: boolean) => (on ? flags | bit : flags & ~bit);
+    const control = (bit: number, on: boolean) => command(0x08 | (displayControl = setFlag(displayControl, bit, on)));
+    const entry = (bit: number, on: boolean) => command(0x04 | (entryMode = setFlag(entryMode, bit, on)));
+
+    return {
+      className: 'LiquidCrystal',
+      call: (method, args) => {
+        const [value, format] = args;
+        const num = (i: number) => this.toNumber(args[i]);
+        switch (method) {
+          case 'begin': {
+            const columns = num(0);
+            rows = args.length > 1 ? num(1) : 1;
+            rowOffsets = [0x00, 0x40, columns, 0x40 + columns];
+            [rs, rw, enable, ...data].forEach(pin => pin !== null && pins.setMode(pin, 'OUTPUT'));
+            if (rw !== null) pins.write(rw, 0);
+            pins.write(rs, 0);
+            pins.write(enable, 0);
+            // The power-on reset sequence that puts the controller into 4-bit mode
+            [0x03, 0x03, 0x03, 0x02].forEach(nibble);
+            command(0x20 | (rows > 1 ? 0x08 : 0));
+            displayControl = 0x04;
+            command(0x08 | displayControl);
+            command(0x01);
+            entryMode = 0x02;
+            return command(0x04 | entryMode);
+          }
+          case 'clear':
+            return command(0x01);
+          case 'home':
+            return command(0x02);
+          case 'setCursor':
+            return command(0x80 | (num(0) + rowOffsets[Math.max(0, Math.min(num(1), rows - 1, 3))]));
+          case 'display':
+          case 'noDisplay':
+            return control(0x04, method === 'display');
+          case 'cursor':
+          case 'noCursor':
+            return control(0x02, method === 'cursor');
+          case 'blink':
+          case 'noBlink':
+            return control(0x01, method === 'blink');
+          case 'scrollDisplayLeft':
+            return command(0x18);
+          case 'scrollDisplayRight':
+            return command(0x1c);
+          case 'leftToRight':
+          case 'rightToLeft':
+            return entry(0x02, method === 'leftToRight');
+          case 'autoscroll':
+          case 'noAutoscroll':
+            return entry(0x01, method === 'autoscroll');
+          case 'createChar': {
+            const charmap = args[1];
+            const cells = charmap?.kind === 'array' ? charmap.cells : charmap?.kind === 'pointer' ? charmap.cells.slice(charmap.index) : [];
+            command(0x40 | ((num(0) & 7) << 3));
+            for (let row = 0; row < 8; row++) {
+              const bits = cells[row]?.value;
+              send(bits?.kind === 'int' ? bits.value & 0x1f : 0, 1);
+            }
+            return VOID;
+          }
+          case 'print':
+            return write(value ? this.text(value, format ? this.toNumber(format) : undefined) : '');
+          case 'println':
+            return write(`${value ? this.text(value, format ? this.toNumber(format) : undefined) : ''}\r\n`);
+          case 'write':
+            if (value?.kind !== 'int') return write(value ? this.text(value) : '');
+            send(value.value & 0xff, 1);
+            return int(1, integerType('size_t')!);
+        }
+        return undefined;
+      }
+    };
+  }
+
+  // printf-style formatting; avr-libc leaves %f out and prints '?'
+  private format(args: Value[]): string {
+    const [formatValue, ...rest] = args;
+    let next = 0;
+    return this.text(formatValue).replace(/%([-+ 0#]*)(\d*)(?:\.(\d+))?(l{0,2}|h{0,2})([diuxXcsfeEgG%])/g, (match, flags: string, width: string, precision: string | undefined, _size, conversion: string) => {
+      if (conversion === '%') return '%';
+      const value = rest[next++];
+      if (!value) return match;
+      let text: string;
+      switch (conversion) {
+        case 'd':
+        case 'i':
+        case 'u':
+          text = Math.trunc(this.toNumber(value)).toString();
+          break;
+        case 'x':
+        case 'X':
+          text = (this.toNumber(value) >>> 0).toString(16);
+          if (conversion === 'X') text = text.toUpperCase();
+          break;
+        case 'c':
+          text = String.fromCharCode(this.toNumber(value) & 0xff);
+          break;
+        case 's':
+          text = cString(value) ?? '';
+          break;
+        default:
+          text = this.board.architecture === 'avr' ? '?' : this.toNumber(value).toFixed(precision ? Number(precision) : 6);
+      }
+      const pad = Number(width || 0);
+      if (text.length >= pad) return text;
+      if (flags.includes('-')) return text.padEnd(pad);
+      return text.padStart(pad, flags.includes('0') && conversion !== 's' ? '0' : ' ');
+    });
+  }
+
+  private pin(value: Value): number {
+    const pin = this.toNumber(value);
+    if (!this.host.pins.isValid(pin)) throw new SimulationError(`${this.board.name} has no pin ${pin}`, this.location);
+    return pin;
+  }
+
+  private *builtin(name: string, node: CallExpression, env: Env): Run<Value> {
+    // The bit macros change their first argument
+    if (name === 'bitSet' || name === 'bitClear' || name === 'bitWrite') {
+      const cell = yield* this.reference(node.arguments[0], env);
+      const bit = this.toNumber(yield* this.evaluate(node.arguments[1], env));
+      const on = name === 'bitSet' || (name === 'bitWrite' && this.truthy(yield* this.evaluate(node.arguments[2], env)));
+      const mask = 2 ** bit;
+      const current = this.toNumber(cell.value);
+      const isSet = Math.floor(current / mask) % 2 !== 0;
+      this.assign(cell, int(on === isSet ? current : on ? current + mask : current - mask, cell.value.kind === 'int' ? cell.value.type : LONG));
+      return cell.value;
+    }
+
+    const args: Value[] = [];
+    for (const arg of node.arguments) args.push(yield* this.evaluate(arg, env));
+    const num = (i: number) => this.toNumber(args[i]);
+    const pins = this.host.pins;
+
+    switch (name) {
+      case 'pinMode': {
+        const mode = MODES[num(1)];
+        if (!mode) throw new SimulationError(`${num(1)} is not a pin mode; use INPUT, OUTPUT or INPUT_PULLUP`, this.location);
+        pins.setMode(this.pin(args[0]), mode);
+        return VOID;
+      }
+      case 'digitalWrite': {
+        const pin = this.pin(args[0]);
+        if (pins.get(pin).mode !== 'OUTPUT' && num(1) && !this.warned.has(`pullup:${pin}`)) {
+          this.warned.add(`pullup:${pin}`);
+          this.host.notice(`digitalWrite(${pin}, HIGH) on a pin without pinMode(${pin}, OUTPUT) only turns on its pull-up resistor`, this.location);
+        }
+        pins.write(pin, num(1) ? 1 : 0);
+        return VOID;
+      }
+      case 'digitalRead':
+        return int(pins.read(this.pin(args[0])));
+      case 'analogRead': {
+        const pin = this.toNumber(args[0]);
+        // analogRead(0) means A0 on AVR
+        const mapped = this.board.architecture === 'avr' && pin < Object.keys(this.board.analogPins).length ? Object.values(this.board.analogPins)[pin] : pin;
+        if (!this.board.adcPins.includes(mapped)) throw new SimulationError(`Pin ${pin} cannot be read with analogRead() on ${this.board.name}`, this.location);
+        return int(pins.readAnalog(mapped));
+      }
+      case 'analogWrite':
+        pins.writeDuty(this.pin(args[0]), num(1));
+        return VOID;
+      case 'tone':
+        pins.setFrequency(this.pin(args[0]), num(1));
+        return VOID;
+      case 'noTone':
+        pins.setFrequency(this.pin(args[0]), null);
+        return VOID;
+      case 'delay':
+        yield { kind: 'delay', micros: Math.max(0, num(0)) * 1000 };
+        return VOID;
+      case 'delayMicroseconds':
+        yield { kind: 'delay', micros: Math.max(0, num(0)) };
+        return VOID;
+      case 'millis':
+        return int(Math.floor(this.host.micros() / 1000) % 2 ** 32, UNSIGNED_LONG);
+      case 'micros':
+        return int(Math.floor(this.host.micros()) % 2 ** 32, UNSIGNED_LONG);
+      case 'pulseIn':
+      case 'pulseInLong':
+        // Nothing pulses a virtual pin, so this always times out
+        yield { kind: 'delay', micros: args.length > 2 ? num(2) : 1_000_000 };
+        return int(0, UNSIGNED_LONG);
+      case 'yield':
+      case 'analogReference':
+      case 'analogReadResolution':
+      case 'analogWriteResolution':
+        return VOID;
+      case 'interrupts':
+      case 'sei':
+        this.interruptsEnabled = true;
+        return VOID;
+      case 'noInterrupts':
+      case 'cli':
+        this.interruptsEnabled = false;
+        return VOID;
+      case 'digitalPinToInterrupt':
+        // AVR numbers its external interrupts in the order of interruptPins; ESP boards use the pin
+        return int(this.board.architecture === 'avr' ? this.board.interruptPins.indexOf(num(0)) : num(0));
+      case 'attachInterrupt': {
+        const pin = this.interruptPin(num(0));
+        this.interrupts.set(pin, { pin, handler: args[1], mode: num(2), level: pins.read(pin) });
+        return VOID;
+      }
+      case 'detachInterrupt':
+        this.interrupts.delete(this.interruptPin(num(0)));
+        return VOID;
+      case 'random': {
+        const [low, high] = args.length > 1 ? [num(0), num(1)] : [0, num(0)];
+        return int(high <= low ? low : low + (this.nextRandom() % (high - low)), LONG);
+      }
+      case 'randomSeed':
+        this.seed = Math.abs(Math.trunc(num(0))) || 1;
+        return VOID;
+      case 'map':
+        return int(Math.trunc(((num(0) - num(1)) * (num(4) - num(3))) / (num(2) - num(1))) + num(3), LONG);
+      case 'constrain':
+        return this.pick(args[0], Math.min(Math.max(num(0), num(1)), num(2)));
+      case 'min':
+        return this.pick(num(0) <= num(1) ? args[0] : args[1], Math.min(num(0), num(1)));
+      case 'max':
+        return this.pick(num(0) >= num(1) ? args[0] : args[1], Math.max(num(0), num(1)));
+      case 'abs':
+        return this.pick(args[0], Math.abs(num(0)));
+      case 'sq':
+        return this.binary('*', args[0], args[0]);
+      case 'isnan':
+        return bool(Number.isNaN(num(0)));
+      case 'isinf':
+        return bool(!Number.isFinite(num(0)) && !Number.isNaN(num(0)));
+      case 'bitRead':
+        return int(Math.floor(num(0) / 2 ** num(1)) % 2);
+      case 'bit':
+      case '_BV':
+        return int(2 ** num(0), num(0) >= 8 * this.board.intSize - 1 ? UNSIGNED_LONG : INT);
+      case 'lowByte':
+        return int(num(0) & 0xff, integerType('uint8_t')!);
+      case 'highByte':
+        return int((num(0) >> 8) & 0xff, integerType('uint8_t')!);
+      case 'makeWord':
+        return int(((num(0) & 0xff) << 8) | (num(1) & 0xff), integerType('word')!);
+      case 'toupper':
+      case 'tolower': {
+        const c = String.fromCharCode(num(0));
+        return { kind: 'int', value: (name === 'toupper' ? c.toUpperCase() : c.toLowerCase()).charCodeAt(0), type: INT };
+      }
+      case 'F':
+      case 'PSTR':
+        return args[0];
+      case 'strlen':
+        return int((cString(args[0]) ?? '').length, integerType('size_t')!);
+      case 'strcmp':
+      case 'strcasecmp': {
+        const fold = (text: string) => (name === 'strcasecmp' ? text.toLowerCase() : text);
+        const a = fold(cString(args[0]) ?? '');
+        const b = fold(cString(args[1]) ?? '');
+        return int(a < b ? -1 : a > b ? 1 : 0);
+      }
+      case 'strcpy':
+      case 'strcat': {
+        const target = args[0];
+        const text = (name === 'strcat' ? cString(target) ?? '' : '') + (cString(args[1]) ?? '');
+        this.writeChars(target, text);
+        return target;
+      }
+      case 'sprintf':
+      case 'snprintf': {
+        const text = this.format(name === 'snprintf' ? args.slice(2) : args.slice(1));
+        this.writeChars(args[0], name === 'snprintf' ? text.slice(0, Math.max(0, num(1) - 1)) : text);
+        return int(text.length);
+      }
+      case 'atoi':
+      case 'atol':
+        return int(parseInt(cString(args[0]) ?? '', 10) || 0, name === 'atoi' ? INT : LONG);
+      case 'atof':
+        return float(parseFloat(cString(args[0]) ?? '') || 0);
+      case 'dtostrf': {
+        const text = num(0).toFixed(num(2)).padStart(num(1));
+        this.writeChars(args[3], text);
+        return args[3];
+      }
+    }
+
+    if (MATH[name]) return float(MATH[name](...args.map(arg => this.toNumber(arg))));
+    if (CHARACTER_TESTS[name]) return bool(CHARACTER_TESTS[name](String.fromCharCode(num(0))));
+    throw new SimulationError(`${name}() is not available in the simulator`, this.location);
+  }
+
+  private interruptPin(interrupt: number): number {
+    const pin = this.board.architecture === 'avr' ? this.board.interruptPins[interrupt] : interrupt;
+    if (pin === undefined || !this.board.interruptPins.includes(pin)) {
+      throw new SimulationError(`${this.board.name} has no external interrupt ${interrupt}; use digitalPinToInterrupt(pin)`, this.location);
+    }
+    return pin;
+  }
+
+  // min(), max() and friends keep the type of their arguments, as the macros do
+  private pick(like: Value, result: number): Value {
+    return like.kind === 'float' ? float(result) : int(result, like.kind === 'int' ? promoteInteger(like.type, this.board) : INT);
+  }
+
+  private writeChars(target: Value, text: string): void {
+    if (target.kind !== 'array' && target.kind !== 'pointer') throw new SimulationError(`Cannot write text into a ${describe(target)}`, this.location);
+    const start = target.kind === 'pointer' ? target.index : 0;
+    if (start + text.length + 1 > target.cells.length) {
+      throw new SimulationError(`'${text}' does not fit in a buffer of ${target.cells.length - start} characters; on the board this overwrites other variables`, this.location);
+    }
+    charCells(text).forEach((cell, i) => {
+      target.cells[start + i].value = cell.value;
+    });
+  }
+
+  // The Park-Miller generator of avr-libc's random()
+  private nextRandom(): number {
+    this.seed = Number((BigInt(this.seed) * 16807n) % 2147483647n);
+    return this.seed;
+  }
+
+  // Runs the handlers of pins whose level changed the way they were attached for
+  private *serviceInterrupts(): Run<void> {
+    if (!this.interruptsEnabled || this.inInterrupt) return;
+    for (const attached of this.interrupts.values()) {
+      const level = this.host.pins.read(attached.pin);
+      const previous = attached.level;
+      attached.level = level;
+      const fires =
+        attached.mode === INTERRUPT_MODES.LOW ? level === 0 :
+        attached.mode === INTERRUPT_MODES.CHANGE ? level !== previous :
+        attached.mode === INTERRUPT_MODES.FALLING ? previous === 1 && level === 0 :
+        previous === 0 && level === 1;
+      if (!fires) continue;
+      this.inInterrupt = true;
+      const location = this.location;
+      try {
+        yield* this.callValue(attached.handler, [], this.globals);
+      } finally {
+        this.inInterrupt = false;
+        this.location = location;
+      }
+    }
+  }
+}
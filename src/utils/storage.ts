@@ -1,7 +1,11 @@
-import { Project, Sketch } from '../types';
+import { ImportedLibrary, Project, Sketch } from '../types';
+import { DEFAULT_BOARD_ID } from './boards';
+import { unpackLibrary } from './libraryIndexer';
+import { readZip } from './zipArchive';
 
 const PROJECTS_KEY = 'arduino_ide_projects';
 const CURRENT_PROJECT_KEY = 'arduino_ide_current_project';
+const LIBRARIES_KEY = 'arduino_ide_libraries';
 
 export const storage = {
   getProjects(): Project[] {
@@ -32,6 +36,7 @@ export const storage = {
         name: `${name}.ino`,
         content: `void setup() {\n  // put your setup code here, to run once:\n  Serial.begin(9600);\n}\n\nvoid loop() {\n  // put your main code here, to run repeatedly:\n  \n}`
       }],
+      boardId: DEFAULT_BOARD_ID,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
@@ -57,6 +62,7 @@ export const storage = {
   deleteProject(id: string): void {
     const projects = this.getProjects();
     this.saveProjects(projects.filter(p => p.id !== id));
+    this.saveLibraries(this.getLibraries().filter(l => l.projectId !== id));
     if (this.getCurrentProjectId() === id) {
       localStorage.removeItem(CURRENT_PROJECT_KEY);
     }
@@ -124,5 +130,33 @@ export const storage = {
       reader.onerror = reject;
       reader.readAsText(file);
     });
+  },
+
+  getLibraries(): ImportedLibrary[] {
+    const data = localStorage.getItem(LIBRARIES_KEY);
+    return data ? JSON.parse(data) : [];
+  },
+
+  saveLibraries(libraries: ImportedLibrary[]): void {
+    localStorage.setItem(LIBRARIES_KEY, JSON.stringify(libraries));
+  },
+
+  // Imports a library .zip into a project, or into the workspace when projectId is null.
+  // A library of the same name in the same place is replaced, as an upgrade would.
+  async importLibrary(file: File, projectId: string | null): Promise<ImportedLibrary> {
+    const unpacked = unpackLibrary(await readZip(await file.arrayBuffer()), file.name);
+    const library: ImportedLibrary = {
+      id: crypto.randomUUID(),
+      ...unpacked,
+      projectId,
+      importedAt: new Date().toISOString()
+    };
+    const others = this.getLibraries().filter(l => l.name !== library.name || l.projectId !== projectId);
+    this.saveLibraries([...others, library]);
+    return library;
+  },
+
+  deleteLibrary(id: string): void {
+    this.saveLibraries(this.getLibraries().filter(l => l.id !== id));
   }
 };
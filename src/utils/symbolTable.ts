@@ -0,0 +1,414 @@
+import { CORE_CONSTANTS, CORE_FUNCTIONS, CORE_OBJECTS, CORE_TYPES, HEADER_SYMBOLS } from './arduinoCore';
+import {
+  AstNode,
+  Declaration,
+  Expression,
+  FunctionDeclaration,
+  Parameter,
+  SourceRange,
+  Statement,
+  StructDeclaration,
+  TranslationUnit,
+  VariableDeclarator,
+  forEachChild
+} from './cppAst';
+import { Token } from './cppLexer';
+import { LibraryInfo, librarySymbols } from './libraryCatalog';
+
+export type SymbolKind = 'variable' | 'parameter' | 'function' | 'macro' | 'type' | 'enumerator' | 'member' | 'core';
+
+export type ScopeKind = 'core' | 'global' | 'class' | 'function' | 'block';
+
+export interface SymbolInfo {
+  name: string;
+  kind: SymbolKind;
+  scope: Scope;
+  // Where the name is declared; core symbols have none
+  declaration: SourceRange | null;
+  // Functions only: whether any declaration has a body
+  defined: boolean;
+  references: SourceRange[];
+}
+
+export interface Scope {
+  kind: ScopeKind;
+  parent: Scope | null;
+  symbols: Map<string, SymbolInfo>;
+}
+
+export interface UnresolvedReference {
+  name: string;
+  range: SourceRange;
+  // Used as the callee of a call, e.g. `blink()`
+  call: boolean;
+  // The whole statement is `name = value;`, which usually means a missing type
+  assignment: boolean;
+  // The name may come from a header or base class the analyzer cannot see into
+  uncertain: boolean;
+}
+
+export interface Shadowing {
+  symbol: SymbolInfo;
+  shadowed: SymbolInfo;
+}
+
+export interface SymbolTableResult {
+  global: Scope;
+  symbols: SymbolInfo[];
+  unresolved: UnresolvedReference[];
+  shadowing: Shadowing[];
+  // Includes a header whose declarations are unknown
+  unknownIncludes: string[];
+}
+
+interface ClassInfo {
+  scope: Scope;
+  // Derives from a class that is not defined in the sketch
+  openBases: boolean;
+}
+
+const cache = new WeakMap<TranslationUnit, { imported: LibraryInfo[]; result: SymbolTableResult }>();
+
+export class SymbolTable {
+  private readonly core: Scope = { kind: 'core', parent: null, symbols: new Map() };
+  private readonly global: Scope = { kind: 'global', parent: this.core, symbols: new Map() };
+  private readonly classes = new Map<string, ClassInfo>();
+  private readonly symbols: SymbolInfo[] = [];
+  private readonly unresolved: UnresolvedReference[] = [];
+  private readonly shadowing: Shadowing[] = [];
+  private readonly unknownIncludes: string[] = [];
+  private uncertain = false;
+
+  private constructor(private readonly imported: LibraryInfo[]) {}
+
+  // The result is cached per AST, so every rule can ask for it without re-walking
+  // the tree. `imported` are the user's imported libraries, for their headers.
+  static build(ast: TranslationUnit, tokens: Token[], imported: LibraryInfo[] = []): SymbolTableResult {
+    const cached = cache.get(ast);
+    if (cached?.imported === imported) return cached.result;
+
+    const table = new SymbolTable(imported);
+    table.declareCore();
+    table.collectDirectives(tokens);
+    table.hoist(ast.body);
+    table.resolveDeclarations(ast.body, table.global);
+
+    const result: SymbolTableResult = {
+      global: table.global,
+      symbols: table.symbols,
+      unresolved: table.unresolved,
+      shadowing: table.shadowing,
+      unknownIncludes: table.unknownIncludes
+    };
+    cache.set(ast, { imported, result });
+    return result;
+  }
+
+  static lookup(scope: Scope | null, name: string): SymbolInfo | null {
+    for (let current = scope; current; current = current.parent) {
+      const symbol = current.symbols.get(name);
+      if (symbol) return symbol;
+    }
+    return null;
+  }
+
+  private declare(scope: Scope, name: string, kind: SymbolKind, declaration: SourceRange | null): SymbolInfo {
+    const existing = scope.symbols.get(name);
+    if (existing) return existing;
+    const symbol: SymbolInfo = { name, kind, scope, declaration, defined: false, references: [] };
+    scope.symbols.set(name, symbol);
+    if (kind !== 'core') this.symbols.push(symbol);
+    return symbol;
+  }
+
+  private declareCore(): void {
+    [...CORE_TYPES, ...CORE_FUNCTIONS, ...CORE_OBJECTS, ...CORE_CONSTANTS].forEach(name => this.declare(this.core, name, 'core', null));
+  }
+
+  // #include and #define lines; macros are visible from anywhere, as the preprocessor sees them first
+  private collectDirectives(tokens: Token[]): void {
+    tokens.forEach(token => {
+      if (token.kind !== 'preprocessor') return;
+      const include = /^#\s*include\s*[<"]([^>"]+)[>"]/.exec(token.value);
+      if (include) {
+        const known = HEADER_SYMBOLS[include[1]] ?? librarySymbols(include[1], this.imported);
+        if (known) {
+          known.forEach(name => this.declare(this.core, name, 'core', null));
+        } else {
+          this.unknownIncludes.push(include[1]);
+        }
+        return;
+      }
+      const define = /^#\s*define\s+([A-Za-z_]\w*)/.exec(token.value);
+      if (define) {
+        const column = token.column + token.value.indexOf(define[1]);
+        this.declare(this.global, define[1], 'macro', {
+          line: token.line, column, endLine: token.line, endColumn: column + define[1].length
+        });
+      }
+    });
+  }
+
+  // Everything at file scope is visible in every function: the Arduino builder
+  // generates prototypes, and globals are declared before setup() in practice
+  private hoist(body: Declaration[]): void {
+    body.forEach(decl => {
+      switch (decl.kind) {
+        case 'VariableDeclaration':
+          decl.declarators.forEach(d => this.declare(this.global, d.name, 'variable', d.nameRange));
+          break;
+        case 'FunctionDeclaration':
+          if (decl.className === null) {
+            const fn = this.declare(this.global, decl.name, 'function', decl.nameRange);
+            if (decl.body) fn.defined = true;
+          } else {
+            const member = this.classes.get(decl.className)?.scope.symbols.get(decl.name);
+            if (member && decl.body) member.defined = true;
+          }
+          break;
+        case 'StructDeclaration':
+          this.hoistClass(decl);
+          break;
+        case 'EnumDeclaration':
+          if (decl.name) this.declare(this.global, decl.name, 'type', decl.range);
+          if (!decl.scoped) decl.enumerators.forEach(e => this.declare(this.global, e.name, 'enumerator', e.range));
+          decl.instances.forEach(d => this.declare(this.global, d.name, 'variable', d.nameRange));
+          break;
+        case 'TypedefDeclaration':
+          this.declare(this.global, decl.name, 'type', decl.range);
+          break;
+        case 'NamespaceDeclaration':
+          this.hoist(decl.body);
+          break;
+      }
+    });
+  }
+
+  private hoistClass(decl: StructDeclaration): void {
+    if (decl.name) this.declare(this.global, decl.name, 'type', decl.range);
+    decl.instances.forEach(d => this.declare(this.global, d.name, 'variable', d.nameRange));
+    if (!decl.name) return;
+
+    const bases = decl.bases.map(base => this.classes.get(base));
+    const scope: Scope = { kind: 'class', parent: this.global, symbols: new Map() };
+    bases.forEach(base => base?.scope.symbols.forEach((symbol, name) => scope.symbols.set(name, symbol)));
+
+    decl.members.forEach(member => {
+      switch (member.kind) {
+        case 'VariableDeclaration':
+          member.declarators.forEach(d => this.declare(scope, d.name, 'member', d.nameRange));
+          break;
+        case 'FunctionDeclaration': {
+          const method = this.declare(scope, member.name, 'member', member.nameRange);
+          if (member.body) method.defined = true;
+          break;
+        }
+        case 'EnumDeclaration':
+          member.enumerators.forEach(e => this.declare(scope, e.name, 'enumerator', e.range));
+          break;
+        case 'StructDeclaration':
+        case 'TypedefDeclaration':
+          if (member.name) this.declare(scope, member.name, 'type', member.range);
+          break;
+      }
+    });
+
+    this.classes.set(decl.name, { scope, openBases: bases.some(base => !base) });
+  }
+
+  private resolveDeclarations(body: Declaration[], scope: Scope): void {
+    body.forEach(decl => this.resolveStatement(decl, scope));
+  }
+
+  private resolveFunction(fn: FunctionDeclaration, outer: Scope): void {
+    const classInfo = fn.className ? this.classes.get(fn.className) : undefined;
+    const parent = classInfo?.scope ?? outer;
+    const scope: Scope = { kind: 'function', parent, symbols: new Map() };
+
+    const wasUncertain = this.uncertain;
+    // Methods of a class we cannot fully see may use inherited members
+    if (fn.className && (!classInfo || classInfo.openBases)) this.uncertain = true;
+
+    this.declareParameters(fn.params, scope);
+    if (fn.body) this.resolveBlock(fn.body.body, scope);
+    this.uncertain = wasUncertain;
+  }
+
+  private declareParameters(params: Parameter[], scope: Scope): void {
+    params.forEach(param => {
+      if (param.defaultValue) this.resolveExpression(param.defaultValue, scope);
+      if (param.name && param.nameRange) this.declareLocal(scope, param.name, 'parameter', param.nameRange);
+    });
+  }
+
+  private declareLocal(scope: Scope, name: string, kind: SymbolKind, range: SourceRange): void {
+    const shadowed = SymbolTable.lookup(scope, name);
+    const symbol = this.declare(scope, name, kind, range);
+    // Constructor parameters named after the member they initialise are idiomatic
+    if (shadowed && shadowed !== symbol && (shadowed.kind === 'variable' || shadowed.kind === 'parameter')) {
+      this.shadowing.push({ symbol, shadowed });
+    }
+  }
+
+  private resolveBlock(statements: Statement[], parent: Scope): void {
+    const scope: Scope = { kind: 'block', parent, symbols: new Map() };
+    statements.forEach(statement => this.resolveStatement(statement, scope));
+  }
+
+  private resolveDeclarator(declarator: VariableDeclarator, scope: Scope, local: boolean): void {
+    declarator.arrayDims.forEach(dim => dim && this.resolveExpression(dim, scope));
+    if (local) this.declareLocal(scope, declarator.name, 'variable', declarator.nameRange);
+    if (declarator.init) this.resolveExpression(declarator.init, scope);
+    declarator.ctorArgs?.forEach(arg => this.resolveExpression(arg, scope));
+  }
+
+  private resolveStatement(statement: Statement, scope: Scope): void {
+    const local = scope.kind !== 'global';
+    switch (statement.kind) {
+      case 'VariableDeclaration':
+        statement.declarators.forEach(d => this.resolveDeclarator(d, scope, local));
+        return;
+      case 'FunctionDeclaration':
+        this.resolveFunction(statement, scope);
+        return;
+      case 'StructDeclaration': {
+        const classScope = statement.name ? this.classes.get(statement.name)?.scope ?? scope : scope;
+        statement.members.forEach(member => {
+          if (member.kind === 'VariableDeclaration') {
+            member.declarators.forEach(d => this.resolveDeclarator(d, classScope, false));
+          } else {
+            this.resolveStatement(member, classScope);
+          }
+        });
+        statement.instances.forEach(d => this.resolveDeclarator(d, scope, local));
+        return;
+      }
+      case 'EnumDeclaration':
+        statement.enumerators.forEach(e => {
+          if (e.value) this.resolveExpression(e.value, scope);
+          if (local && !statement.scoped) this.declare(scope, e.name, 'enumerator', e.range);
+        });
+        statement.instances.forEach(d => this.resolveDeclarator(d, scope, local));
+        return;
+      case 'TypedefDeclaration':
+        if (local) this.declare(scope, statement.name, 'type', statement.range);
+        return;
+      case 'NamespaceDeclaration':
+        this.resolveDeclarations(statement.body, scope);
+        return;
+      case 'OpaqueDeclaration':
+        return;
+      case 'CompoundStatement':
+        this.resolveBlock(statement.body, scope);
+        return;
+      case 'ExpressionStatement': {
+        const expression = statement.expression;
+        if (expression.kind === 'AssignmentExpression' && expression.operator === '=' && expression.left.kind === 'Identifier') {
+          this.resolveIdentifier(expression.left.name, expression.left.range, scope, false, true);
+          this.resolveExpression(expression.right, scope);
+        } else {
+          this.resolveExpression(expression, scope);
+        }
+        return;
+      }
+      case 'ForStatement': {
+        const forScope: Scope = { kind: 'block', parent: scope, symbols: new Map() };
+        if (statement.init?.kind === 'VariableDeclaration') {
+          this.resolveStatement(statement.init, forScope);
+        } else if (statement.init) {
+          this.resolveExpression(statement.init, forScope);
+        }
+        if (statement.test) this.resolveExpression(statement.test, forScope);
+        if (statement.update) this.resolveExpression(statement.update, forScope);
+        this.resolveBody(statement.body, forScope);
+        return;
+      }
+      case 'ForRangeStatement': {
+        const forScope: Scope = { kind: 'block', parent: scope, symbols: new Map() };
+        this.resolveExpression(statement.iterable, scope);
+        this.resolveStatement(statement.declaration, forScope);
+        this.resolveBody(statement.body, forScope);
+        return;
+      }
+      default:
+        this.resolveChildren(statement, scope);
+    }
+  }
+
+  // A compound body shares the scope of its for-loop header
+  private resolveBody(body: Statement, scope: Scope): void {
+    if (body.kind === 'CompoundStatement') {
+      body.body.forEach(statement => this.resolveStatement(statement, scope));
+    } else {
+      this.resolveStatement(body, scope);
+    }
+  }
+
+  private resolveChildren(node: AstNode, scope: Scope): void {
+    forEachChild(node, child => {
+      if (isStatement(child)) {
+        this.resolveStatement(child, scope);
+      } else if (isExpression(child)) {
+        this.resolveExpression(child, scope);
+      }
+    });
+  }
+
+  private resolveExpression(expression: Expression, scope: Scope): void {
+    switch (expression.kind) {
+      case 'Identifier':
+        this.resolveIdentifier(expression.name, expression.range, scope, false, false);
+        return;
+      case 'CallExpression':
+        if (expression.callee.kind === 'Identifier') {
+          this.resolveIdentifier(expression.callee.name, expression.callee.range, scope, true, false);
+        } else {
+          this.resolveExpression(expression.callee, scope);
+        }
+        expression.arguments.forEach(arg => this.resolveExpression(arg, scope));
+        return;
+      case 'MemberExpression':
+        // The property belongs to the object's type, which is not tracked here
+        this.resolveExpression(expression.object, scope);
+        return;
+      case 'SizeofExpression':
+        if (expression.argument.kind !== 'Type') this.resolveExpression(expression.argument, scope);
+        return;
+      case 'LambdaExpression': {
+        const lambdaScope: Scope = { kind: 'function', parent: scope, symbols: new Map() };
+        this.declareParameters(expression.params, lambdaScope);
+        this.resolveBlock(expression.body.body, lambdaScope);
+        return;
+      }
+      default:
+        this.resolveChildren(expression, scope);
+    }
+  }
+
+  private resolveIdentifier(name: string, range: SourceRange, scope: Scope, call: boolean, assignment: boolean): void {
+    // Qualified names such as `std::min` or `Motor::count` live in scopes we do not model
+    if (name.includes('::')) return;
+    const symbol = SymbolTable.lookup(scope, name);
+    if (symbol) {
+      symbol.references.push(range);
+      return;
+    }
+    this.unresolved.push({ name, range, call, assignment, uncertain: this.uncertain || this.unknownIncludes.length > 0 });
+  }
+}
+
+const STATEMENT_KINDS = new Set([
+  'CompoundStatement', 'ExpressionStatement', 'IfStatement', 'ForStatement', 'ForRangeStatement', 'WhileStatement',
+  'DoWhileStatement', 'SwitchStatement', 'CaseLabel', 'LabelStatement', 'GotoStatement', 'BreakStatement',
+  'ContinueStatement', 'ReturnStatement', 'EmptyStatement', 'VariableDeclaration', 'FunctionDeclaration',
+  'StructDeclaration', 'EnumDeclaration', 'TypedefDeclaration', 'NamespaceDeclaration', 'OpaqueDeclaration'
+]);
+
+function isStatement(node: AstNode): node is Statement {
+  return STATEMENT_KINDS.has(node.kind);
+}
+
+function isExpression(node: AstNode): node is Expression {
+  return !isStatement(node) && node.kind !== 'Type' && node.kind !== 'VariableDeclarator' && node.kind !== 'Parameter'
+    && node.kind !== 'Enumerator' && node.kind !== 'TranslationUnit';
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Analyzer } from './analyzer';
+import { getBoard } from './boards';
+import { CppParser } from './cppParser';
+import { TypeChecker } from './typeChecker';
+
+const sketch = (code: string) => `${code}\nvoid setup() {}\nvoid loop() {}\n`;
+
+function check(code: string, boardId = 'uno') {
+  const { ast, tokens } = CppParser.parseSource(sketch(code));
+  return TypeChecker.check(ast, tokens, getBoard(boardId));
+}
+
+function diagnostics(code: string, ruleId: string, boardId = 'uno') {
+  return Analyzer.analyze(sketch(code), { boardId }).filter(e => e.ruleId === ruleId);
+}
+
+describe('TypeChecker', () => {
+  it('folds constant expressions that overflow int', () => {
+    expect(check('unsigned long interval = 60 * 1000;').overflows).toMatchObject([{ value: 60000, type: 'int', bits: 16, literal: { raw: '60' } }]);
+    expect(check('long mask = 1 << 16;').overflows).toMatchObject([{ value: 65536 }]);
+    expect(check('unsigned long interval = 60 * 1000;', 'esp32').overflows).toEqual([]);
+    expect(check('unsigned long interval = 60UL * 1000;').overflows).toEqual([]);
+  });
+
+  it('finds constant initializers the variable cannot hold', () => {
+    expect(check('int big = 40000;').narrowings).toMatchObject([{ value: 40000, stored: -25536, target: 'big', bits: 16, signed: true }]);
+    expect(check('byte level = 300;').narrowings).toMatchObject([{ value: 300, stored: 44, target: 'level', bits: 8, signed: false }]);
+    expect(check('int big = 40000;', 'esp32').narrowings).toEqual([]);
+    expect(check('unsigned int all = -1;\nint edge = -32768;\nlong wide = 40000;\nbool on = 2;').narrowings).toEqual([]);
+  });
+
+  it('reports an overflowing expression once, not again as a narrowing', () => {
+    expect(check('int area = 300 * 200;').narrowings).toEqual([]);
+  });
+});
+
+describe('type rules', () => {
+  it('offers a literal suffix for constant overflow', () => {
+    const [error] = diagnostics('unsigned long interval = 60 * 1000;', 'constant-overflow');
+    expect(error).toMatchObject({ line: 1, column: 26, endColumn: 35, severity: 'warning' });
+    expect(error.fixes).toEqual([{ title: 'Make 60 a long (60L)', edits: [{ line: 1, column: 28, endLine: 1, endColumn: 28, text: 'L' }] }]);
+  });
+
+  it('offers a wide enough type for a narrowing initializer', () => {
+    const [big] = diagnostics('int big = 40000;', 'constant-overflow');
+    expect(big).toMatchObject({ line: 1, column: 11, endColumn: 16, severity: 'warning' });
+    expect(big.message).toBe("40000 does not fit in 'big', which is an int (16 bits on Arduino Uno), so it holds -25536 instead. Use long.");
+    expect(big.fixes).toEqual([{ title: "Declare 'big' as long", edits: [{ line: 1, column: 1, endLine: 1, endColumn: 4, text: 'long' }] }]);
+
+    const [level] = diagnostics('const byte level = 300;', 'constant-overflow');
+    expect(level.fixes![0].edits[0].text).toBe('const unsigned int');
+    // The type is shared with `a`, so it cannot change for `b` alone
+    expect(diagnostics('int a = 2, b = 70000;', 'constant-overflow')[0].fixes).toBeUndefined();
+  });
+
+  it('reports clocks stored in types that cannot hold them', () => {
+    const [error] = diagnostics('int started = millis();', 'clock-truncation');
+    expect(error.message).toBe("millis() returns unsigned long, but 'started' is an int (16 bits on Arduino Uno), so it turns negative after 32.8 seconds. Use unsigned long.");
+    expect(error.fixes![0].edits).toEqual([{ line: 1, column: 1, endLine: 1, endColumn: 4, text: 'unsigned long' }]);
+    expect(diagnostics('float started = micros();', 'clock-truncation')[0].message).toContain('only up to 2^24');
+    expect(diagnostics('unsigned long started = millis();', 'clock-truncation')).toEqual([]);
+  });
+
+  it('reports comparisons between signed and unsigned values', () => {
+    const errors = diagnostics('void scan(String s) { for (int i = 0; i < s.length(); i++) {} unsigned int u = 1; int n = 0; if (n == u) {} }', 'sign-compare');
+    expect(errors.map(e => e.message.split(':')[0])).toEqual(["'<' compares int with unsigned int", "'==' compares int with unsigned int"]);
+  });
+
+  it('reports Strings passed as char pointers', () => {
+    const errors = diagnostics('void parse(String s) { int n = atoi(s); char out[20]; sprintf(out, "%s", s); strcmp(s + "x", "y"); }', 'string-as-char-pointer');
+    expect(errors.map(e => e.severity)).toEqual(['error', 'error', 'error']);
+    expect(errors[1].message).toContain("'...' of sprintf()");
+    expect(errors[0].fixes![0].edits).toEqual([{ line: 1, column: 38, endLine: 1, endColumn: 38, text: '.c_str()' }]);
+    expect(errors[2].fixes![0].edits.map(e => e.text)).toEqual(['(', ').c_str()']);
+  });
+
+  it('reports values returned from void functions', () => {
+    const errors = diagnostics('int level() { return 1; }\nvoid reset() { return 5; }\nvoid clear() { return level(); }', 'void-return');
+    expect(errors.map(e => [e.line, e.message])).toEqual([
+      [2, 'reset() is declared void, so it cannot return a value.'],
+      [3, 'clear() is declared void, so it cannot return a value.']
+    ]);
+    expect(errors[0].fixes!.map(f => f.title)).toEqual(['Return without a value', 'Make reset() return int']);
+    // Dropping the value would drop the call
+    expect(errors[1].fixes!.map(f => f.title)).toEqual(['Make clear() return int']);
+  });
+
+  it('reports constant indexes outside the array', () => {
+    const errors = diagnostics('int values[5];\nvoid fill() { values[5] = 1; values[4] = 2; values[-1] = 0; }', 'array-index-out-of-bounds');
+    expect(errors.map(e => [e.line, e.column, e.message])).toEqual([
+      [2, 15, "Index 5 is past the end of 'values', which has 5 elements (indexes 0 to 4)."],
+      [2, 45, "Index -1 is before the start of 'values'."]
+    ]);
+  });
+});
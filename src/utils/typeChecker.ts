@@ -0,0 +1,900 @@
+import { BoardProfile } from './boards';
+import {
+  AstNode,
+  CallExpression,
+  Declaration,
+  Expression,
+  FunctionDeclaration,
+  NumberLiteral,
+  Parameter,
+  SourceRange,
+  StructDeclaration,
+  TranslationUnit,
+  TypeSpec,
+  VariableDeclaration,
+  VariableDeclarator,
+  forEachChild
+} from './cppAst';
+import { Token } from './cppLexer';
+import { CORE_CLASS_METHODS, LibraryInfo, LibrarySignature, acceptsArguments, parseSignature } from './libraryCatalog';
+import { analyzeLibraries } from './libraryUsage';
+
+export interface ValueType {
+  // As written, e.g. 'byte' or 'unsigned long'; computed results use the standard name
+  name: string;
+  // Levels of indirection; an array counts as one, since it decays to a pointer
+  pointer: number;
+}
+
+export interface ClockTruncation {
+  // The millis() or micros() call
+  range: SourceRange;
+  clock: string;
+  // The variable or function that receives the time
+  target: string;
+  type: ValueType;
+  // Width of the integer type; null for float and double
+  bits: number | null;
+  signed: boolean;
+  // The declaration's type, when it can be rewritten on its own
+  typeSpec: TypeSpec | null;
+}
+
+export interface ConstantOverflow {
+  range: SourceRange;
+  // The exact value the expression was meant to have
+  value: number;
+  type: string;
+  bits: number;
+  // An unsuffixed literal that, made wider, makes the whole expression wider
+  literal: NumberLiteral | null;
+}
+
+// `int big = 40000;`: a constant initializer the variable's type cannot hold
+export interface ConstantNarrowing {
+  range: SourceRange;
+  value: number;
+  // What the variable ends up holding
+  stored: number;
+  target: string;
+  type: ValueType;
+  bits: number;
+  signed: boolean;
+  // The declaration's type, when it can be rewritten on its own
+  typeSpec: TypeSpec | null;
+}
+
+export interface SignCompare {
+  range: SourceRange;
+  operator: string;
+  signed: string;
+  unsigned: string;
+}
+
+export interface StringArgument {
+  argument: Expression;
+  callee: string;
+  // Passed through `...`, as to sprintf(), rather than to a `const char *` parameter
+  variadic: boolean;
+}
+
+export interface VoidReturn {
+  range: SourceRange;
+  fn: FunctionDeclaration;
+  argument: Expression;
+  // What the function would return, when known
+  type: ValueType | null;
+}
+
+export interface ArrayIndex {
+  range: SourceRange;
+  array: string;
+  index: number;
+  length: number;
+}
+
+export interface TypeCheckResult {
+  clockTruncations: ClockTruncation[];
+  overflows: ConstantOverflow[];
+  narrowings: ConstantNarrowing[];
+  signCompares: SignCompare[];
+  stringArguments: StringArgument[];
+  voidReturns: VoidReturn[];
+  arrayIndexes: ArrayIndex[];
+}
+
+interface Value {
+  type: ValueType;
+  // Integer constant expressions are folded, so `60 * 1000` is 60000
+  constant: number | null;
+}
+
+interface Binding {
+  type: ValueType;
+  constant: number | null;
+  // Known lengths of each array dimension
+  dims: (number | null)[];
+  declaration: VariableDeclaration | null;
+}
+
+type Scope = Map<string, Binding>;
+
+// Conversion ranks of the integer types; bool and char promote to int before any arithmetic
+export interface IntegerType {
+  rank: number;
+  signed: boolean;
+}
+
+const RANK_NAMES = ['bool', 'char', 'short', 'int', 'long', 'long long'];
+const INT_RANK = 3;
+
+const INTEGER_TYPES: Record<string, IntegerType> = {
+  bool: { rank: 0, signed: false },
+  boolean: { rank: 0, signed: false },
+  char: { rank: 1, signed: true },
+  'signed char': { rank: 1, signed: true },
+  int8_t: { rank: 1, signed: true },
+  'unsigned char': { rank: 1, signed: false },
+  uint8_t: { rank: 1, signed: false },
+  byte: { rank: 1, signed: false },
+  short: { rank: 2, signed: true },
+  int16_t: { rank: 2, signed: true },
+  'unsigned short': { rank: 2, signed: false },
+  uint16_t: { rank: 2, signed: false },
+  int: { rank: 3, signed: true },
+  'unsigned int': { rank: 3, signed: false },
+  word: { rank: 3, signed: false },
+  size_t: { rank: 3, signed: false },
+  long: { rank: 4, signed: true },
+  int32_t: { rank: 4, signed: true },
+  'unsigned long': { rank: 4, signed: false },
+  uint32_t: { rank: 4, signed: false },
+  'long long': { rank: 5, signed: true },
+  int64_t: { rank: 5, signed: true },
+  'unsigned long long': { rank: 5, signed: false },
+  uint64_t: { rank: 5, signed: false }
+};
+
+// The integer rules of C++, which the simulator follows as well
+export function integerType(name: string): IntegerType | null {
+  return INTEGER_TYPES[name] ?? null;
+}
+
+export function integerSize(integer: IntegerType, board: BoardProfile): number {
+  return [1, 1, 2, board.intSize, 4, 8][integer.rank];
+}
+
+export function fitsInteger(value: number, integer: IntegerType, board: BoardProfile): boolean {
+  const bits = integerSize(integer, board) * 8;
+  return integer.signed ? value >= -(2 ** (bits - 1)) && value < 2 ** (bits - 1) : value >= 0 && value < 2 ** bits;
+}
+
+export function wrapInteger(value: bigint, integer: IntegerType, board: BoardProfile): number {
+  const bits = integerSize(integer, board) * 8;
+  return Number(integer.signed ? BigInt.asIntN(bits, value) : BigInt.asUintN(bits, value));
+}
+
+export function integerTypeName(integer: IntegerType): string {
+  const name = RANK_NAMES[integer.rank];
+  return integer.signed || integer.rank === 0 ? name : `unsigned ${name}`;
+}
+
+// Types smaller than int become int, or unsigned int when int cannot hold
+// them all, as with uint16_t on AVR
+export function promoteInteger(integer: IntegerType, board: BoardProfile): IntegerType {
+  if (integer.rank >= INT_RANK) return integer;
+  const widens = integerSize(integer, board) < board.intSize || integer.signed;
+  return { rank: INT_RANK, signed: widens };
+}
+
+export function commonInteger(a: IntegerType, b: IntegerType, board: BoardProfile): IntegerType {
+  if (a.signed === b.signed) return a.rank >= b.rank ? a : b;
+  const [s, u] = a.signed ? [a, b] : [b, a];
+  if (u.rank >= s.rank) return u;
+  // long holds every unsigned int on AVR; on 32-bit boards it does not
+  if (integerSize(s, board) > integerSize(u, board)) return s;
+  return { rank: s.rank, signed: false };
+}
+
+const FLOAT_TYPES = new Set(['float', 'double', 'long double']);
+
+const CLOCKS = new Set(['millis', 'micros']);
+const COMPARISONS = new Set(['<', '<=', '>', '>=', '==', '!=']);
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%', '&', '|', '^']);
+
+// Core functions, written as the Arduino and avr-libc headers declare them
+const CORE_SIGNATURES: Record<string, string> = {
+  millis: 'unsigned long millis()',
+  micros: 'unsigned long micros()',
+  pulseIn: 'unsigned long pulseIn(uint8_t pin, uint8_t state, unsigned long timeout = 1000000L)',
+  pulseInLong: 'unsigned long pulseInLong(uint8_t pin, uint8_t state, unsigned long timeout = 1000000L)',
+  analogRead: 'int analogRead(uint8_t pin)',
+  digitalRead: 'int digitalRead(uint8_t pin)',
+  random: 'long random(long max)',
+  map: 'long map(long value, long fromLow, long fromHigh, long toLow, long toHigh)',
+  strlen: 'size_t strlen(const char *s)',
+  strcmp: 'int strcmp(const char *a, const char *b)',
+  strncmp: 'int strncmp(const char *a, const char *b, size_t n)',
+  strcasecmp: 'int strcasecmp(const char *a, const char *b)',
+  strcpy: 'char *strcpy(char *dest, const char *src)',
+  strncpy: 'char *strncpy(char *dest, const char *src, size_t n)',
+  strcat: 'char *strcat(char *dest, const char *src)',
+  strncat: 'char *strncat(char *dest, const char *src, size_t n)',
+  strstr: 'char *strstr(const char *s, const char *find)',
+  strchr: 'char *strchr(const char *s, int c)',
+  strrchr: 'char *strrchr(const char *s, int c)',
+  strtok: 'char *strtok(char *s, const char *delimiters)',
+  atoi: 'int atoi(const char *s)',
+  atol: 'long atol(const char *s)',
+  atof: 'double atof(const char *s)',
+  strtol: 'long strtol(const char *s, char **end, int base)',
+  strtoul: 'unsigned long strtoul(const char *s, char **end, int base)',
+  strtod: 'double strtod(const char *s, char **end)',
+  printf: 'int printf(const char *format, ...)',
+  sprintf: 'int sprintf(char *buffer, const char *format, ...)',
+  snprintf: 'int snprintf(char *buffer, size_t size, const char *format, ...)',
+  sscanf: 'int sscanf(const char *s, const char *format, ...)'
+};
+
+const STRING_METHODS: Record<string, string> = {
+  length: 'unsigned int',
+  charAt: 'char',
+  indexOf: 'int',
+  lastIndexOf: 'int',
+  compareTo: 'int',
+  substring: 'String',
+  toInt: 'long',
+  toFloat: 'float',
+  toDouble: 'double',
+  c_str: 'const char *',
+  equals: 'bool',
+  equalsIgnoreCase: 'bool',
+  startsWith: 'bool',
+  endsWith: 'bool',
+  concat: 'bool',
+  reserve: 'bool',
+  trim: 'void',
+  toUpperCase: 'void',
+  toLowerCase: 'void',
+  replace: 'void',
+  remove: 'void',
+  setCharAt: 'void'
+};
+
+// The hardware serial ports are Streams
+const SERIAL_PORT = /^Serial(\d|USB)?$/;
+
+// Macros of the core that take the type of their arguments
+const ARITHMETIC_MACROS = new Set(['min', 'max', 'abs', 'constrain']);
+
+// Results by board ID, for the imported libraries they were checked against
+const cache = new WeakMap<TranslationUnit, { imported: LibraryInfo[]; byBoard: Map<string, TypeCheckResult> }>();
+
+const key = (range: SourceRange) => `${range.line}:${range.column}`;
+
+function typeFromText(text: string): ValueType {
+  const cleaned = text.replace(/\b(const|volatile|static)\b/g, '').replace(/&/g, '').trim();
+  const pointer = (cleaned.match(/\*|\[\d*\]/g) ?? []).length;
+  return { name: cleaned.replace(/\*|\[\d*\]/g, '').replace(/\s+/g, ' ').trim(), pointer };
+}
+
+function isCharPointer(type: ValueType): boolean {
+  return type.pointer === 1 && type.name === 'char';
+}
+
+function isString(type: ValueType): boolean {
+  return type.pointer === 0 && type.name === 'String';
+}
+
+// A single-pass checker for the handful of types sketches use: the integer
+// types with their AVR widths, float, bool, char pointers, String and arrays.
+// It follows the usual arithmetic conversions of C++, so it knows `60 * 1000`
+// is an int and that `i < s.length()` compares int with unsigned int. Anything
+// it cannot type is left alone.
+export class TypeChecker {
+  private readonly result: TypeCheckResult = {
+    clockTruncations: [],
+    overflows: [],
+    narrowings: [],
+    signCompares: [],
+    stringArguments: [],
+    voidReturns: [],
+    arrayIndexes: []
+  };
+  private readonly scopes: Scope[] = [new Map()];
+  private readonly functions = new Map<string, FunctionDeclaration[]>();
+  private readonly structs = new Map<string, StructDeclaration>();
+  private readonly methods = new Map<string, Map<string, FunctionDeclaration[]>>();
+  private readonly typedefs = new Map<string, ValueType>();
+  private readonly enums = new Set<string>();
+  // Library method and function calls, by the position of their name
+  private readonly libraryCalls = new Map<string, LibrarySignature[]>();
+  private fn: FunctionDeclaration | null = null;
+  // Set while re-reading declarations, e.g. member types at each use, so nothing is reported twice
+  private quiet = 0;
+
+  private constructor(private readonly board: BoardProfile) {}
+
+  static check(ast: TranslationUnit, tokens: Token[], board: BoardProfile, imported: LibraryInfo[] = []): TypeCheckResult {
+    const entry = cache.get(ast);
+    const byBoard = entry?.imported === imported ? entry.byBoard : new Map<string, TypeCheckResult>();
+    cache.set(ast, { imported, byBoard });
+    const cached = byBoard.get(board.id);
+    if (cached) return cached;
+
+    const checker = new TypeChecker(board);
+    analyzeLibraries(ast, tokens, imported).calls.forEach(call => checker.libraryCalls.set(key(call.nameRange), call.overloads));
+    checker.hoist(ast.body);
+    ast.body.forEach(decl => checker.visit(decl));
+
+    byBoard.set(board.id, checker.result);
+    return checker.result;
+  }
+
+  // Functions and types can be used before they are defined; variables cannot
+  private hoist(declarations: Declaration[], className: string | null = null): void {
+    declarations.forEach(decl => {
+      switch (decl.kind) {
+        case 'FunctionDeclaration': {
+          const owner = decl.className ?? className;
+          const table = owner ? this.methodsOf(owner) : this.functions;
+          table.set(decl.name, [...(table.get(decl.name) ?? []), decl]);
+          break;
+        }
+        case 'StructDeclaration':
+          if (decl.name) {
+            this.structs.set(decl.name, decl);
+            this.hoist(decl.members, decl.name);
+          }
+          break;
+        case 'EnumDeclaration': {
+          if (decl.name) this.enums.add(decl.name);
+          if (decl.scoped) break;
+          let next = 0;
+          decl.enumerators.forEach(e => {
+            const value = e.value ? this.evaluate(e.value).constant : next;
+            this.global.set(e.name, { type: { name: 'int', pointer: 0 }, constant: value, dims: [], declaration: null });
+            next = value === null ? 0 : value + 1;
+          });
+          break;
+        }
+        case 'TypedefDeclaration':
+          this.typedefs.set(decl.name, this.resolve({ name: decl.type.name, pointer: 0 }));
+          break;
+        case 'NamespaceDeclaration':
+          this.hoist(decl.body);
+          break;
+      }
+    });
+  }
+
+  private methodsOf(className: string): Map<string, FunctionDeclaration[]> {
+    const table = this.methods.get(className) ?? new Map<string, FunctionDeclaration[]>();
+    this.methods.set(className, table);
+    return table;
+  }
+
+  private get global(): Scope {
+    return this.scopes[0];
+  }
+
+  private lookup(name: string): Binding | null {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const binding = this.scopes[i].get(name);
+      if (binding) return binding;
+    }
+    return null;
+  }
+
+  private found<T>(list: T[], item: T): void {
+    if (this.quiet === 0) list.push(item);
+  }
+
+  private quietly<T>(body: () => T): T {
+    this.quiet++;
+    try {
+      return body();
+    } finally {
+      this.quiet--;
+    }
+  }
+
+  private inScope(scope: Scope, body: () => void): void {
+    this.scopes.push(scope);
+    body();
+    this.scopes.pop();
+  }
+
+  // ---------------------------------------------------------------- traversal
+
+  private visit(node: AstNode): void {
+    switch (node.kind) {
+      case 'FunctionDeclaration':
+        this.visitFunction(node);
+        return;
+      case 'StructDeclaration':
+        node.members.forEach(member => member.kind === 'FunctionDeclaration' && this.visitFunction(member, node.name));
+        node.instances.forEach(d => this.declare(d, { name: node.name ?? '', pointer: 0 }, null));
+        return;
+      case 'VariableDeclaration':
+        this.visitDeclaration(node);
+        return;
+      case 'CompoundStatement':
+        this.inScope(new Map(), () => node.body.forEach(statement => this.visit(statement)));
+        return;
+      case 'ForStatement':
+      case 'ForRangeStatement':
+        this.inScope(new Map(), () => forEachChild(node, child => this.visit(child)));
+        return;
+      case 'ReturnStatement':
+        this.visitReturn(node.argument, node.range);
+        return;
+      case 'LambdaExpression': {
+        // A lambda's returns are its own
+        const outer = this.fn;
+        this.fn = null;
+        this.inScope(this.parameterScope(node.params), () => this.visit(node.body));
+        this.fn = outer;
+        return;
+      }
+      case 'EnumDeclaration':
+      case 'TypedefDeclaration':
+        return;
+    }
+    if (isExpression(node)) {
+      this.evaluate(node);
+      return;
+    }
+    forEachChild(node, child => this.visit(child));
+  }
+
+  private visitFunction(fn: FunctionDeclaration, className: string | null = null): void {
+    if (!fn.body) return;
+    const owner = fn.className ?? className;
+    const members: Scope = new Map();
+    this.quietly(() => this.structs.get(owner ?? '')?.members.forEach(member => {
+      if (member.kind === 'VariableDeclaration') member.declarators.forEach(d => members.set(d.name, this.binding(member, d)));
+    }));
+    const outer = this.fn;
+    this.fn = fn;
+    this.inScope(members, () => this.inScope(this.parameterScope(fn.params), () => this.visit(fn.body!)));
+    this.fn = outer;
+  }
+
+  private parameterScope(params: Parameter[]): Scope {
+    const scope: Scope = new Map();
+    params.forEach(param => {
+      if (!param.name) return;
+      const type = { name: param.type.name, pointer: param.pointer + (param.arrayDims.length > 0 ? 1 : 0) };
+      scope.set(param.name, { type, constant: null, dims: [], declaration: null });
+    });
+    return scope;
+  }
+
+  private visitDeclaration(decl: VariableDeclaration): void {
+    decl.declarators.forEach(d => {
+      d.ctorArgs?.forEach(arg => this.evaluate(arg));
+      const binding = this.binding(decl, d);
+      if (d.init && d.init.kind !== 'InitializerList') {
+        const value = this.evaluate(d.init);
+        if (binding.type.name === 'auto') binding.type = { ...value.type, pointer: value.type.pointer + d.pointer };
+        this.checkClock(d.init, d.name, binding.type, decl.declarators.length === 1 ? decl.type : null);
+        this.checkNarrowing(d.init, value, d.name, binding.type, decl.declarators.length === 1 ? decl.type : null);
+        const fixed = decl.type.qualifiers.includes('const') || decl.type.qualifiers.includes('constexpr');
+        if (fixed && value.constant !== null && this.integer(binding.type)) binding.constant = this.convert(value.constant, binding.type);
+      } else if (d.init) {
+        this.evaluate(d.init);
+      }
+      this.scopes[this.scopes.length - 1].set(d.name, binding);
+    });
+  }
+
+  private declare(d: VariableDeclarator, type: ValueType, declaration: VariableDeclaration | null): void {
+    this.scopes[this.scopes.length - 1].set(d.name, { type: { ...type, pointer: type.pointer + d.pointer }, constant: null, dims: [], declaration });
+  }
+
+  private binding(decl: VariableDeclaration, d: VariableDeclarator): Binding {
+    const dims = d.arrayDims.map((dim, i) => {
+      if (dim) return this.evaluate(dim).constant;
+      // `int pins[] = {2, 3, 4};` and `char name[] = "abc";` take their length from the initializer
+      if (i > 0 || !d.init) return null;
+      if (d.init.kind === 'InitializerList') return d.init.elements.length;
+      return d.init.kind === 'StringLiteral' ? d.init.value.length + 1 : null;
+    });
+    const pointer = d.pointer + (d.arrayDims.length > 0 ? 1 : 0);
+    return { type: { name: decl.type.name, pointer }, constant: null, dims, declaration: decl };
+  }
+
+  private visitReturn(argument: Expression | null, range: SourceRange): void {
+    const value = argument ? this.evaluate(argument) : null;
+    const fn = this.fn;
+    if (!argument || !fn?.returnType) return;
+    const returns = { name: fn.returnType.name, pointer: fn.returnPointer };
+    if (returns.name === 'void' && returns.pointer === 0) {
+      // `return other();` is allowed when other() is void as well
+      const type = value?.type ?? null;
+      if (type?.name === 'void' && type.pointer === 0) return;
+      this.found(this.result.voidReturns, { range, fn, argument, type });
+      return;
+    }
+    this.checkClock(argument, `${fn.name}()`, returns, null);
+  }
+
+  // `int start = millis();` keeps only the low 16 bits on AVR
+  private checkClock(value: Expression, target: string, type: ValueType, typeSpec: TypeSpec | null): void {
+    if (value.kind !== 'CallExpression' || value.callee.kind !== 'Identifier' || !CLOCKS.has(value.callee.name)) return;
+    const integer = this.integer(type);
+    const narrow = integer && integerSize(integer, this.board) < 4;
+    if (!narrow && !this.isFloat(type)) return;
+    const bits = narrow ? integerSize(integer, this.board) * 8 : null;
+    const signed = integer?.signed ?? true;
+    this.found(this.result.clockTruncations, { range: value.range, clock: `${value.callee.name}()`, target, type, bits, signed, typeSpec });
+  }
+
+  // `byte level = 300;` stores 44. A negative value in an unsigned variable is
+  // left alone: `unsigned int all = -1;` is the usual way to ask for all ones.
+  private checkNarrowing(init: Expression, value: Value, target: string, type: ValueType, typeSpec: TypeSpec | null): void {
+    const integer = this.integer(type);
+    if (!integer || integer.rank === 0 || value.constant === null) return;
+    if (fitsInteger(value.constant, integer, this.board) || (value.constant < 0 && !integer.signed)) return;
+    const stored = wrapInteger(BigInt(value.constant), integer, this.board);
+    const bits = integerSize(integer, this.board) * 8;
+    this.found(this.result.narrowings, { range: init.range, value: value.constant, stored, target, type, bits, signed: integer.signed, typeSpec });
+  }
+
+  // ---------------------------------------------------------------- expressions
+
+  private evaluate(expression: Expression): Value {
+    const value = this.infer(expression);
+    return value ?? { type: { name: '', pointer: 0 }, constant: null };
+  }
+
+  private infer(node: Expression): Value | null {
+    switch (node.kind) {
+      case 'NumberLiteral':
+        return this.literal(node);
+      case 'CharLiteral':
+        return { type: { name: 'char', pointer: 0 }, constant: node.value };
+      case 'BooleanLiteral':
+        return { type: { name: 'bool', pointer: 0 }, constant: node.value ? 1 : 0 };
+      case 'StringLiteral':
+        return { type: { name: 'char', pointer: 1 }, constant: null };
+      case 'Identifier': {
+        const binding = this.lookup(node.name);
+        return binding ? { type: binding.type, constant: binding.constant } : null;
+      }
+      case 'CallExpression':
+        return this.call(node);
+      case 'MemberExpression': {
+        const object = this.evaluate(node.object);
+        const owner = this.structs.get(object.type.name);
+        if (!owner || object.type.pointer !== (node.arrow ? 1 : 0)) return null;
+        for (const member of owner.members) {
+          const d = member.kind === 'VariableDeclaration' ? member.declarators.find(d => d.name === node.property) : undefined;
+          if (d && member.kind === 'VariableDeclaration') return { type: this.quietly(() => this.binding(member, d)).type, constant: null };
+        }
+        return null;
+      }
+      case 'IndexExpression': {
+        const object = this.evaluate(node.object);
+        const index = this.evaluate(node.index);
+        this.checkIndex(node.object, index.constant, node.range);
+        if (isString(object.type)) return { type: { name: 'char', pointer: 0 }, constant: null };
+        return object.type.pointer > 0 ? { type: { ...object.type, pointer: object.type.pointer - 1 }, constant: null } : null;
+      }
+      case 'CastExpression': {
+        const value = this.evaluate(node.argument);
+        const type = { name: node.type.name, pointer: node.pointer };
+        const constant = value.constant !== null && this.integer(type) ? this.convert(value.constant, type) : null;
+        return { type, constant };
+      }
+      case 'SizeofExpression':
+        if (node.argument.kind !== 'Type') this.evaluate(node.argument);
+        return { type: { name: 'size_t', pointer: 0 }, constant: null };
+      case 'UnaryExpression':
+        return this.unary(node.operator, node.argument, node.prefix);
+      case 'BinaryExpression':
+        return this.binary(node.operator, node.left, node.right, node.range);
+      case 'AssignmentExpression': {
+        const target = this.evaluate(node.left);
+        this.evaluate(node.right);
+        if (node.operator === '=' && node.left.kind === 'Identifier') {
+          const declaration = this.lookup(node.left.name)?.declaration ?? null;
+          const typeSpec = declaration && declaration.declarators.length === 1 ? declaration.type : null;
+          this.checkClock(node.right, node.left.name, target.type, typeSpec);
+        }
+        return { type: target.type, constant: null };
+      }
+      case 'ConditionalExpression': {
+        const test = this.evaluate(node.test);
+        const consequent = this.evaluate(node.consequent);
+        const alternate = this.evaluate(node.alternate);
+        const type = this.arithmetic(consequent.type, alternate.type) ?? consequent.type;
+        const chosen = test.constant === null ? null : test.constant ? consequent.constant : alternate.constant;
+        return { type, constant: chosen };
+      }
+      case 'SequenceExpression':
+        return node.expressions.map(e => this.evaluate(e)).pop() ?? null;
+      case 'InitializerList':
+        node.elements.forEach(e => this.evaluate(e));
+        return null;
+      case 'NewExpression':
+      case 'DeleteExpression':
+        forEachChild(node, child => this.visit(child));
+        return null;
+      case 'LambdaExpression':
+        this.visit(node);
+        return null;
+      default:
+        return null;
+    }
+  }
+
+  // C++ gives an unsuffixed literal the first of int, long, long long that holds
+  // it; hex and octal literals may also become unsigned
+  private literal(node: NumberLiteral): Value {
+    if (node.isFloat) return { type: { name: /[fF]$/.test(node.raw) ? 'float' : 'double', pointer: 0 }, constant: null };
+    const decimal = !/^0[xXbB0-7]/.test(node.raw);
+    const longLong = /ll$/i.test(node.raw.replace(/u/gi, ''));
+    const ranks = [longLong ? 5 : node.isLong ? 4 : INT_RANK, 4, 5].filter((rank, i, all) => all.indexOf(rank) === i && rank >= all[0]);
+    const candidates = ranks.flatMap(rank =>
+      node.isUnsigned ? [{ rank, signed: false }] : decimal ? [{ rank, signed: true }] : [{ rank, signed: true }, { rank, signed: false }]
+    );
+    const type = candidates.find(candidate => fitsInteger(node.value, candidate, this.board)) ?? candidates[candidates.length - 1];
+    return { type: { name: integerTypeName(type), pointer: 0 }, constant: node.value };
+  }
+
+  private call(node: CallExpression): Value | null {
+    const { callee } = node;
+    const args = node.arguments.map(arg => this.evaluate(arg));
+
+    if (callee.kind === 'Identifier') {
+      const name = callee.name;
+      // Functional casts such as `long(x)` and `String(x)`
+      if (INTEGER_TYPES[name] || FLOAT_TYPES.has(name) || name === 'String' || this.typedefs.has(name)) {
+        const type = { name, pointer: 0 };
+        const constant = args.length === 1 && args[0].constant !== null && this.integer(type) ? this.convert(args[0].constant, type) : null;
+        return { type, constant };
+      }
+      if (ARITHMETIC_MACROS.has(name) && args.length > 0 && !this.lookup(name)) {
+        return { type: args.map(arg => arg.type).reduce((a, b) => this.arithmetic(a, b) ?? a), constant: null };
+      }
+      const own = this.functions.get(name);
+      if (own) return this.userCall(node, name, own, args);
+      const library = this.libraryCalls.get(key(callee.range));
+      const core = CORE_SIGNATURES[name];
+      const signatures = library ?? (core ? [parseSignature(core)] : []);
+      return this.signatureCall(node, name, signatures, args);
+    }
+
+    if (callee.kind === 'MemberExpression') {
+      const object = this.evaluate(callee.object);
+      const name = callee.object.kind === 'Identifier' ? `${callee.object.name}.${callee.property}` : callee.property;
+      if (isString(object.type) && STRING_METHODS[callee.property]) {
+        return { type: typeFromText(STRING_METHODS[callee.property]), constant: null };
+      }
+      const methods = this.methods.get(object.type.name)?.get(callee.property);
+      if (methods) return this.userCall(node, name, methods, args);
+      const library = this.libraryCalls.get(key(callee.propertyRange));
+      if (library) return this.signatureCall(node, name, library, args);
+      if (callee.object.kind === 'Identifier' && SERIAL_PORT.test(callee.object.name) && !this.lookup(callee.object.name)) {
+        const signatures = CORE_CLASS_METHODS.Stream.map(parseSignature).filter(signature => signature.name === callee.property);
+        return this.signatureCall(node, name, signatures, args);
+      }
+      return null;
+    }
+
+    this.evaluate(callee);
+    return null;
+  }
+
+  private userCall(node: CallExpression, name: string, overloads: FunctionDeclaration[], args: Value[]): Value | null {
+    const candidates = overloads.filter(fn => {
+      const required = fn.params.filter(param => !param.defaultValue).length;
+      return args.length >= required && (fn.variadic || args.length <= fn.params.length);
+    });
+    this.checkStringArguments(
+      node,
+      name,
+      args,
+      candidates.map(fn => ({
+        params: fn.params.map(param => ({ name: param.type.name, pointer: param.pointer + (param.arrayDims.length > 0 ? 1 : 0) })),
+        variadic: false
+      }))
+    );
+    const returns = candidates.filter(fn => fn.returnType).map(fn => ({ name: fn.returnType!.name, pointer: fn.returnPointer }));
+    const same = returns.length > 0 && returns.every(type => type.name === returns[0].name && type.pointer === returns[0].pointer);
+    return same ? { type: returns[0], constant: null } : null;
+  }
+
+  private signatureCall(node: CallExpression, name: string, signatures: LibrarySignature[], args: Value[]): Value | null {
+    const candidates = signatures.filter(signature => acceptsArguments(signature, args.length));
+    this.checkStringArguments(
+      node,
+      name,
+      args,
+      // `print(T value)` takes anything, String included
+      candidates.map(signature => ({ params: signature.params.map(param => typeFromText(param.type)), variadic: signature.variadic }))
+    );
+    const returns = [...new Set(candidates.map(signature => signature.returns))];
+    return returns.length === 1 && returns[0] ? { type: typeFromText(returns[0]), constant: null } : null;
+  }
+
+  // A String where every candidate wants a `const char *`; through `...` it is
+  // copied as raw bytes and the callee reads garbage
+  private checkStringArguments(node: CallExpression, callee: string, args: Value[], candidates: { params: ValueType[]; variadic: boolean }[]): void {
+    if (candidates.length === 0) return;
+    args.forEach((arg, i) => {
+      if (!isString(arg.type)) return;
+      const variadic = candidates.every(candidate => candidate.variadic && i >= candidate.params.length);
+      if (variadic || candidates.every(candidate => candidate.params[i] && isCharPointer(candidate.params[i]))) {
+        this.found(this.result.stringArguments, { argument: node.arguments[i], callee, variadic });
+      }
+    });
+  }
+
+  private checkIndex(object: Expression, index: number | null, range: SourceRange): void {
+    if (index === null) return;
+    // `grid[r][c]` indexes the second dimension of grid
+    let base = object;
+    let depth = 0;
+    while (base.kind === 'IndexExpression') {
+      base = base.object;
+      depth++;
+    }
+    if (base.kind !== 'Identifier') return;
+    const length = this.lookup(base.name)?.dims[depth];
+    if (length === null || length === undefined || (index >= 0 && index < length)) return;
+    this.found(this.result.arrayIndexes, { range, array: base.name, index, length });
+  }
+
+  private unary(operator: string, argument: Expression, prefix: boolean): Value | null {
+    const value = this.evaluate(argument);
+    const { type, constant } = value;
+    switch (operator) {
+      case '!':
+        return { type: { name: 'bool', pointer: 0 }, constant: constant === null ? null : constant ? 0 : 1 };
+      case '&':
+        return { type: { ...type, pointer: type.pointer + 1 }, constant: null };
+      case '*':
+        return type.pointer > 0 ? { type: { ...type, pointer: type.pointer - 1 }, constant: null } : null;
+      case '-':
+      case '+':
+      case '~': {
+        if (this.isFloat(type)) return { type, constant: null };
+        const integer = this.integer(type);
+        if (!integer) return null;
+        const promoted = promoteInteger(integer, this.board);
+        const result = { type: { name: integerTypeName(promoted), pointer: 0 }, constant: null };
+        if (constant === null) return result;
+        if (operator === '~') return { ...result, constant: wrapInteger(~BigInt(constant), promoted, this.board) };
+        return { ...result, constant: wrapInteger(BigInt(operator === '-' ? -constant : constant), promoted, this.board) };
+      }
+      default:
+        // ++ and -- keep the type of what they change
+        return prefix || operator === '++' || operator === '--' ? { type, constant: null } : null;
+    }
+  }
+
+  private binary(operator: string, leftNode: Expression, rightNode: Expression, range: SourceRange): Value | null {
+    const left = this.evaluate(leftNode);
+    const right = this.evaluate(rightNode);
+    const bool = { name: 'bool', pointer: 0 };
+
+    if (operator === '&&' || operator === '||') return { type: bool, constant: null };
+    if (COMPARISONS.has(operator)) {
+      this.checkSignCompare(operator, left, right, range);
+      return { type: bool, constant: null };
+    }
+    if (operator === '+' && (isString(left.type) || isString(right.type))) return { type: { name: 'String', pointer: 0 }, constant: null };
+    if (left.type.pointer > 0 && (operator === '+' || operator === '-')) {
+      return right.type.pointer > 0 ? { type: { name: 'int', pointer: 0 }, constant: null } : { type: left.type, constant: null };
+    }
+    if (right.type.pointer > 0 && operator === '+') return { type: right.type, constant: null };
+
+    if (operator === '<<' || operator === '>>') {
+      const integer = this.integer(left.type);
+      if (!integer) return null;
+      const promoted = promoteInteger(integer, this.board);
+      const type = { name: integerTypeName(promoted), pointer: 0 };
+      if (left.constant === null || right.constant === null || right.constant < 0) return { type, constant: null };
+      const bits = integerSize(promoted, this.board) * 8;
+      // `1 << 16` is 0 in a 16-bit int; the bit is gone whatever the variable it ends up in
+      if (operator === '<<' && right.constant >= bits && left.constant !== 0) {
+        this.overflow(range, left.constant * 2 ** right.constant, promoted, leftmostLiteral(leftNode));
+        return { type, constant: null };
+      }
+      const shifted = operator === '<<' ? BigInt(left.constant) << BigInt(right.constant) : BigInt(left.constant) >> BigInt(right.constant);
+      return { type, constant: wrapInteger(shifted, promoted, this.board) };
+    }
+
+    if (!ARITHMETIC.has(operator)) return null;
+    const type = this.arithmetic(left.type, right.type);
+    if (!type) return null;
+    const integer = this.integer(type);
+    if (!integer || left.constant === null || right.constant === null) return { type, constant: null };
+
+    const a = BigInt(left.constant);
+    const b = BigInt(right.constant);
+    if ((operator === '/' || operator === '%') && b === 0n) return { type, constant: null };
+    const exact = { '+': a + b, '-': a - b, '*': a * b, '/': a / b, '%': a % b, '&': a & b, '|': a | b, '^': a ^ b }[operator]!;
+    if (integer.signed && !fitsInteger(Number(exact), integer, this.board)) {
+      this.overflow(range, Number(exact), integer, leftmostLiteral(leftNode) ?? leftmostLiteral(rightNode));
+      return { type, constant: null };
+    }
+    return { type, constant: wrapInteger(exact, integer, this.board) };
+  }
+
+  private overflow(range: SourceRange, value: number, integer: IntegerType, literal: NumberLiteral | null): void {
+    this.found(this.result.overflows, { range, value, type: integerTypeName(integer), bits: integerSize(integer, this.board) * 8, literal });
+  }
+
+  // gcc's -Wsign-compare: after the usual conversions the signed side is
+  // compared as unsigned, so -1 is larger than any unsigned value
+  private checkSignCompare(operator: string, left: Value, right: Value, range: SourceRange): void {
+    const a = this.integer(left.type);
+    const b = this.integer(right.type);
+    if (!a || !b || left.type.pointer > 0 || right.type.pointer > 0) return;
+    const pa = promoteInteger(a, this.board);
+    const pb = promoteInteger(b, this.board);
+    if (pa.signed === pb.signed || commonInteger(pa, pb, this.board).signed) return;
+    const [signedSide, unsignedSide] = pa.signed ? [left, right] : [right, left];
+    if (signedSide.constant !== null && signedSide.constant >= 0) return;
+    this.found(this.result.signCompares, { range, operator, signed: signedSide.type.name, unsigned: unsignedSide.type.name });
+  }
+
+  // ---------------------------------------------------------------- conversions
+
+  private resolve(type: ValueType): ValueType {
+    const target = this.typedefs.get(type.name);
+    return target ? { name: target.name, pointer: target.pointer + type.pointer } : type;
+  }
+
+  private integer(type: ValueType): IntegerType | null {
+    const resolved = this.resolve(type);
+    if (resolved.pointer > 0) return null;
+    if (this.enums.has(resolved.name)) return { rank: INT_RANK, signed: true };
+    return integerType(resolved.name);
+  }
+
+  private isFloat(type: ValueType): boolean {
+    const resolved = this.resolve(type);
+    return resolved.pointer === 0 && FLOAT_TYPES.has(resolved.name);
+  }
+
+  private convert(value: number, type: ValueType): number | null {
+    const integer = this.integer(type);
+    if (!integer) return null;
+    if (integer.rank === 0) return value ? 1 : 0;
+    return wrapInteger(BigInt(Math.trunc(value)), integer, this.board);
+  }
+
+  // The type of `a op b` for arithmetic operands
+  private arithmetic(a: ValueType, b: ValueType): ValueType | null {
+    if (this.isFloat(a) || this.isFloat(b)) {
+      const double = [a, b].some(type => this.resolve(type).name.includes('double'));
+      return (this.isFloat(a) || this.integer(a)) && (this.isFloat(b) || this.integer(b)) ? { name: double ? 'double' : 'float', pointer: 0 } : null;
+    }
+    const x = this.integer(a);
+    const y = this.integer(b);
+    if (!x || !y) return null;
+    return { name: integerTypeName(commonInteger(promoteInteger(x, this.board), promoteInteger(y, this.board), this.board)), pointer: 0 };
+  }
+}
+
+// The first unsuffixed integer literal of `a * b * c`, from the left; widening it
+// widens every operation from there on
+function leftmostLiteral(expression: Expression): NumberLiteral | null {
+  if (expression.kind === 'NumberLiteral') return !expression.isFloat && /\d$/.test(expression.raw) ? expression : null;
+  if (expression.kind !== 'BinaryExpression' || !ARITHMETIC.has(expression.operator)) return null;
+  return leftmostLiteral(expression.left) ?? leftmostLiteral(expression.right);
+}
+
+function isExpression(node: AstNode): node is Expression {
+  return [
+    'Identifier', 'NumberLiteral', 'StringLiteral', 'CharLiteral', 'BooleanLiteral', 'NullLiteral', 'ThisExpression',
+    'UnaryExpression', 'BinaryExpression', 'AssignmentExpression', 'ConditionalExpression', 'CallExpression',
+    'MemberExpression', 'IndexExpression', 'CastExpression', 'SizeofExpression', 'InitializerList', 'NewExpression',
+    'DeleteExpression', 'LambdaExpression', 'SequenceExpression'
+  ].includes(node.kind);
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { VirtualComponent } from '../types';
+import { getBoard } from './boards';
+import { Breadboard, createComponent, Hd44780, wiringProblems } from './virtualComponents';
+import { VirtualPins } from './virtualPins';
+
+const uno = getBoard('uno');
+
+const part = (id: string, kind: VirtualComponent['kind'], pins: Record<string, number>, extra: Partial<VirtualComponent> = {}): VirtualComponent => ({
+  id,
+  kind,
+  label: id,
+  pins,
+  ...extra
+});
+
+// Drives an LCD the way LiquidCrystal does in 4-bit mode
+function lcd() {
+  const wiring = { rs: 12, en: 11, d4: 5, d5: 4, d6: 3, d7: 2 };
+  const pins = new VirtualPins(uno);
+  Object.values(wiring).forEach(pin => pins.setMode(pin, 'OUTPUT'));
+  const display = new Hd44780(pins, wiring);
+  pins.subscribe(() => display.sample());
+
+  const nibble = (value: number, rs: 0 | 1) => {
+    pins.write(wiring.rs, rs);
+    ['d4', 'd5', 'd6', 'd7'].forEach((name, i) => pins.write(wiring[name as keyof typeof wiring], ((value >> i) & 1) as 0 | 1));
+    pins.write(wiring.en, 1);
+    pins.write(wiring.en, 0);
+  };
+  const send = (value: number, rs: 0 | 1) => {
+    nibble(value >> 4, rs);
+    nibble(value & 0x0f, rs);
+  };
+  const command = (value: number) => send(value, 0);
+  const print = (text: string) => [...text].forEach(c => send(c.charCodeAt(0), 1));
+  const text = () => display.rows().map(row => String.fromCharCode(...row));
+
+  // begin(16, 2): the reset sequence, then 4-bit mode, two lines, display on
+  [0x03, 0x03, 0x03, 0x02].forEach(value => nibble(value, 0));
+  command(0x28);
+  command(0x0c);
+  command(0x01);
+  command(0x06);
+  return { display, command, print, text };
+}
+
+describe('Hd44780', () => {
+  it('writes characters after the 4-bit reset sequence', () => {
+    const { display, print, text } = lcd();
+    print('Hello');
+    expect(text()).toEqual(['Hello           ', '                ']);
+    expect(display.on).toBe(true);
+    expect(display.cursorPosition()).toEqual({ row: 0, column: 5 });
+  });
+
+  it('positions the cursor with setCursor()', () => {
+    const { display, command, print, text } = lcd();
+    // setCursor(3, 1)
+    command(0x80 | (0x40 + 3));
+    print('42');
+    expect(text()[1]).toBe('   42           ');
+    expect(display.cursorPosition()).toEqual({ row: 1, column: 5 });
+    // home()
+    command(0x02);
+    print('A');
+    expect(text()).toEqual(['A               ', '   42           ']);
+  });
+
+  it('clears the display and returns the cursor home', () => {
+    const { display, command, print, text } = lcd();
+    print('Temp');
+    command(0x01);
+    expect(text()).toEqual(['                ', '                ']);
+    expect(display.cursorPosition()).toEqual({ row: 0, column: 0 });
+  });
+
+  it('stores custom characters from createChar()', () => {
+    const { display, command, print } = lcd();
+    command(0x40 | (1 << 3));
+    print(String.fromCharCode(0x1f, 0x11));
+    expect(display.cgram.slice(8, 10)).toEqual([0x1f, 0x11]);
+    expect(display.cursorPosition()).toBeNull();
+  });
+});
+
+describe('Breadboard', () => {
+  it('lights an LED from its pin, dimmed by analogWrite()', () => {
+    const pins = new VirtualPins(uno);
+    const led = part('led', 'led', { anode: 9 });
+    const breadboard = new Breadboard(pins, [led]);
+    expect(breadboard.read(led)).toEqual({ kind: 'led', brightness: 0 });
+    pins.setMode(9, 'OUTPUT');
+    pins.write(9, 1);
+    expect(breadboard.read(led)).toEqual({ kind: 'led', brightness: 1 });
+    pins.writeDuty(9, 51);
+    expect(breadboard.read(led)).toEqual({ kind: 'led', brightness: 0.2 });
+  });
+
+  it('drives a button pin while it is pressed', () => {
+    const pins = new VirtualPins(uno);
+    const toGround = part('a', 'button', { pin: 2 }, { pressedLevel: 0 });
+    const toPower = part('b', 'button', { pin: 3 }, { pressedLevel: 1 });
+    const breadboard = new Breadboard(pins, [toGround, toPower]);
+    pins.setMode(2, 'INPUT_PULLUP');
+    pins.setMode(3, 'INPUT');
+    expect([pins.read(2), pins.read(3)]).toEqual([1, 0]);
+
+    breadboard.press('a', true);
+    breadboard.press('b', true);
+    expect([pins.read(2), pins.read(3)]).toEqual([0, 1]);
+    expect(breadboard.read(toGround)).toEqual({ kind: 'button', pressed: true });
+
+    breadboard.press('a', false);
+    breadboard.press('b', false);
+    expect([pins.read(2), pins.read(3)]).toEqual([1, 0]);
+  });
+
+  it('lets go of a pin when a button is rewired', () => {
+    const pins = new VirtualPins(uno);
+    const button = part('a', 'button', { pin: 2 });
+    const breadboard = new Breadboard(pins, [button]);
+    breadboard.press('a', true);
+    breadboard.setComponents([{ ...button, pins: { pin: 4 } }]);
+    expect(pins.get(2).input).toBeNull();
+    expect(pins.get(4).input).toBe(0);
+  });
+
+  it('turns a servo to the angle of its pulse width', () => {
+    const pins = new VirtualPins(uno);
+    const servo = part('servo', 'servo', { signal: 9 });
+    const breadboard = new Breadboard(pins, [servo]);
+    expect(breadboard.read(servo)).toEqual({ kind: 'servo', angle: null });
+    pins.writePulse(9, 1472);
+    expect(breadboard.read(servo)).toEqual({ kind: 'servo', angle: 90 });
+    pins.writePulse(9, 3000);
+    expect(breadboard.read(servo)).toEqual({ kind: 'servo', angle: 180 });
+  });
+
+  it('keeps an LCD that stays wired the same way', () => {
+    const pins = new VirtualPins(uno);
+    const display = part('lcd', 'lcd', { rs: 12, en: 11, d4: 5, d5: 4, d6: 3, d7: 2 });
+    const breadboard = new Breadboard(pins, [display]);
+    const shown = () => (breadboard.read(display) as { display: Hd44780 | null }).display;
+    const before = shown();
+    expect(before).not.toBeNull();
+    breadboard.setComponents([{ ...display, label: 'Status' }]);
+    expect(shown()).toBe(before);
+    breadboard.setComponents([{ ...display, pins: { ...display.pins, rs: 7 } }]);
+    expect(shown()).not.toBe(before);
+  });
+});
+
+describe('createComponent', () => {
+  it('uses the pins of the Arduino examples while they are free', () => {
+    const led = createComponent('led', uno, []);
+    expect(led).toMatchObject({ kind: 'led', label: 'LED 1', pins: { anode: 13 }, color: 'red' });
+    expect(createComponent('led', uno, [led])).toMatchObject({ label: 'LED 2', pins: { anode: 9 }, color: 'green' });
+    expect(createComponent('servo', uno, []).pins).toEqual({ signal: 9 });
+    expect(createComponent('button', uno, []).pins).toEqual({ pin: 2 });
+    expect(createComponent('lcd', uno, []).pins).toEqual({ rs: 12, en: 11, d4: 5, d5: 4, d6: 3, d7: 2 });
+  });
+
+  it('falls back to free pins, avoiding the serial pins', () => {
+    const button = createComponent('button', uno, []);
+    const pins = Object.values(createComponent('lcd', uno, [button]).pins);
+    expect(pins).toHaveLength(6);
+    expect(pins).not.toContain(2);
+    expect(pins.some(pin => pin === 0 || pin === 1)).toBe(false);
+  });
+});
+
+describe('wiringProblems', () => {
+  it('reports missing pins and inputs driven twice', () => {
+    const problems = wiringProblems(
+      [part('a', 'button', { pin: 2 }), part('b', 'button', { pin: 2 }), part('c', 'led', { anode: 40 }), part('d', 'led', { anode: 13 })],
+      uno
+    );
+    expect([...problems]).toEqual([
+      ['b', 'Pin 2 is already driven by a'],
+      ['c', 'Arduino Uno has no pin 40 for anode']
+    ]);
+  });
+});
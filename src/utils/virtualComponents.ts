@@ -0,0 +1,315 @@
+import { VirtualComponent, VirtualComponentKind } from '../types';
+import { BoardProfile } from './boards';
+import { pinLabel } from './pinUsage';
+import { VirtualPins } from './virtualPins';
+
+export interface ComponentKindInfo {
+  name: string;
+  // Connections to the board, in the order the part's datasheet or library names them
+  pins: string[];
+}
+
+export const COMPONENT_KINDS: Record<VirtualComponentKind, ComponentKindInfo> = {
+  led: { name: 'LED', pins: ['anode'] },
+  button: { name: 'Push button', pins: ['pin'] },
+  potentiometer: { name: 'Potentiometer', pins: ['wiper'] },
+  buzzer: { name: 'Buzzer', pins: ['pin'] },
+  lcd: { name: '16x2 LCD', pins: ['rs', 'en', 'd4', 'd5', 'd6', 'd7'] },
+  servo: { name: 'Servo', pins: ['signal'] }
+};
+
+export const LED_COLORS = ['red', 'green', 'yellow', 'blue', 'white'];
+
+// The wiring the Arduino examples use, where the board has those pins
+const PREFERRED_PINS: Record<VirtualComponentKind, number[][]> = {
+  led: [[13], [9], [10], [11], [6], [5], [3]],
+  button: [[2], [3], [4], [7]],
+  potentiometer: [],
+  buzzer: [[8]],
+  lcd: [[12, 11, 5, 4, 3, 2]],
+  servo: [[9], [10]]
+};
+
+// Wires a new part to pins nothing else on the breadboard uses yet
+export function createComponent(kind: VirtualComponentKind, board: BoardProfile, existing: VirtualComponent[]): VirtualComponent {
+  const used = new Set(existing.flatMap(c => Object.values(c.pins)));
+  const serial = new Set(Object.values(board.serialPins).flat());
+  const info = COMPONENT_KINDS[kind];
+  const free = (pin: number) => !used.has(pin) && board.digitalPins.includes(pin);
+
+  let pins = PREFERRED_PINS[kind].find(candidate => candidate.every(free));
+  if (!pins) {
+    // Analog inputs for knobs; outputs on PWM pins where brightness or sound can vary
+    const candidates =
+      kind === 'potentiometer' ? board.adcPins :
+      kind === 'led' || kind === 'servo' ? [...board.pwmPins, ...board.digitalPins] :
+      board.digitalPins;
+    const outputs = kind !== 'button' && kind !== 'potentiometer';
+    const available = candidates.filter(pin => free(pin) && !serial.has(pin) && !(outputs && board.inputOnlyPins.includes(pin)));
+    pins = available.slice(0, info.pins.length);
+    while (pins.length < info.pins.length) pins.push(candidates[pins.length % candidates.length]);
+  }
+
+  const count = existing.filter(c => c.kind === kind).length;
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    label: `${info.name} ${count + 1}`,
+    pins: Object.fromEntries(info.pins.map((name, i) => [name, pins![i]])),
+    ...(kind === 'led' ? { color: LED_COLORS[count % LED_COLORS.length] } : {}),
+    ...(kind === 'button' ? { pressedLevel: 0 as const } : {})
+  };
+}
+
+// Wiring mistakes that would stop a part from working, by component ID
+export function wiringProblems(components: VirtualComponent[], board: BoardProfile): Map<string, string> {
+  const problems = new Map<string, string>();
+  const inputs = new Map<number, VirtualComponent>();
+
+  components.forEach(component => {
+    const pins = Object.entries(component.pins);
+    const missing = pins.find(([, pin]) => !board.digitalPins.includes(pin));
+    if (missing) {
+      problems.set(component.id, `${board.name} has no pin ${missing[1]} for ${missing[0]}`);
+      return;
+    }
+    if (component.kind === 'potentiometer' && !board.adcPins.includes(component.pins.wiper)) {
+      problems.set(component.id, `Pin ${pinLabel(board, component.pins.wiper)} cannot be read with analogRead() on ${board.name}`);
+      return;
+    }
+    const driven = pins.find(([, pin]) => component.kind !== 'button' && component.kind !== 'potentiometer' && board.inputOnlyPins.includes(pin));
+    if (driven) {
+      problems.set(component.id, `Pin ${driven[1]} is input-only on ${board.name}`);
+      return;
+    }
+    // Two parts driving the same pin fight each other
+    if (component.kind === 'button' || component.kind === 'potentiometer') {
+      const pin = Object.values(component.pins)[0];
+      const other = inputs.get(pin);
+      if (other) problems.set(component.id, `Pin ${pinLabel(board, pin)} is already driven by ${other.label}`);
+      else inputs.set(pin, component);
+    }
+  });
+
+  return problems;
+}
+
+// The character controller of 16x2 LCDs, decoding what the firmware puts on
+// its pins. Data is latched on the falling edge of EN; after the reset
+// sequence each byte arrives as two nibbles on D4-D7.
+export class Hd44780 {
+  private readonly ddram = new Array<number>(0x80).fill(0x20);
+  // Eight custom characters of eight 5-bit rows, as createChar() defines them
+  readonly cgram = new Array<number>(64).fill(0);
+  private address = 0;
+  private cgramMode = false;
+  private increment = true;
+  private shiftOnWrite = false;
+  private shift = 0;
+  private fourBit = false;
+  private pending: number | null = null;
+  private enable: 0 | 1 = 0;
+  on = false;
+  cursor = false;
+  blink = false;
+
+  constructor(private readonly pins: VirtualPins, private readonly wiring: Record<string, number>) {}
+
+  // Called on every pin change
+  sample(): void {
+    const level = this.pins.read(this.wiring.en);
+    const falling = this.enable === 1 && level === 0;
+    this.enable = level;
+    if (!falling) return;
+
+    const nibble = ['d4', 'd5', 'd6', 'd7'].reduce((value, name, i) => value | (this.pins.read(this.wiring[name]) << i), 0);
+    const rs = this.pins.read(this.wiring.rs);
+    if (!this.fourBit) {
+      // Still in 8-bit mode: D0-D3 are not connected and read as 0
+      this.execute(nibble << 4, rs);
+      return;
+    }
+    if (this.pending === null) {
+      this.pending = nibble;
+      return;
+    }
+    const value = (this.pending << 4) | nibble;
+    this.pending = null;
+    this.execute(value, rs);
+  }
+
+  // The 16 visible characters of both rows, as character codes
+  rows(): number[][] {
+    return [0x00, 0x40].map(base => Array.from({ length: 16 }, (_, column) => this.ddram[base + ((column + this.shift) % 40)]));
+  }
+
+  // Where the cursor is on screen, or null when it is off the visible part
+  cursorPosition(): { row: number; column: number } | null {
+    const column = ((this.address & 0x3f) - this.shift + 40) % 40;
+    return column < 16 && !this.cgramMode ? { row: this.address >= 0x40 ? 1 : 0, column } : null;
+  }
+
+  private execute(value: number, rs: 0 | 1): void {
+    if (rs) {
+      this.writeData(value);
+      return;
+    }
+    if (value & 0x80) {
+      this.cgramMode = false;
+      this.address = value & 0x7f;
+    } else if (value & 0x40) {
+      this.cgramMode = true;
+      this.address = value & 0x3f;
+    } else if (value & 0x20) {
+      // Function set: DL selects the 4-bit interface once the reset sequence is done
+      const fourBit = (value & 0x10) === 0;
+      if (fourBit && !this.fourBit) this.pending = null;
+      this.fourBit = fourBit;
+    } else if (value & 0x10) {
+      const right = (value & 0x04) !== 0;
+      if (value & 0x08) this.shift = (this.shift + (right ? -1 : 1) + 40) % 40;
+      else this.moveAddress(right ? 1 : -1);
+    } else if (value & 0x08) {
+      this.on = (value & 0x04) !== 0;
+      this.cursor = (value & 0x02) !== 0;
+      this.blink = (value & 0x01) !== 0;
+    } else if (value & 0x04) {
+      this.increment = (value & 0x02) !== 0;
+      this.shiftOnWrite = (value & 0x01) !== 0;
+    } else if (value & 0x02) {
+      this.address = 0;
+      this.shift = 0;
+      this.cgramMode = false;
+    } else if (value & 0x01) {
+      this.ddram.fill(0x20);
+      this.address = 0;
+      this.shift = 0;
+      this.increment = true;
+      this.cgramMode = false;
+    }
+  }
+
+  private writeData(value: number): void {
+    if (this.cgramMode) {
+      this.cgram[this.address] = value & 0x1f;
+      this.address = (this.address + 1) & 0x3f;
+      return;
+    }
+    this.ddram[this.address] = value;
+    this.moveAddress(this.increment ? 1 : -1);
+    if (this.shiftOnWrite) this.shift = (this.shift + (this.increment ? 1 : -1) + 40) % 40;
+  }
+
+  // DDRAM holds two rows of 40 characters at 0x00 and 0x40
+  private moveAddress(delta: number): void {
+    const row = this.address >= 0x40 ? 0x40 : 0;
+    const column = (this.address - row + delta + 40) % 40;
+    this.address = row + column;
+  }
+}
+
+export type ComponentReading =
+  | { kind: 'led'; brightness: number }
+  | { kind: 'button'; pressed: boolean }
+  | { kind: 'potentiometer'; position: number }
+  // An active buzzer sounds at its own pitch when the pin is HIGH; `frequency` is tone()'s
+  | { kind: 'buzzer'; sounding: boolean; frequency: number | null }
+  | { kind: 'lcd'; display: Hd44780 | null }
+  | { kind: 'servo'; angle: number | null };
+
+// The parts of a project wired to the pins of one simulation. Buttons and knobs
+// drive their pins; LEDs, buzzers, servos and displays read theirs.
+export class Breadboard {
+  private components: VirtualComponent[] = [];
+  private readonly displays = new Map<string, Hd44780>();
+  private readonly pressed = new Set<string>();
+  private readonly positions = new Map<string, number>();
+  private readonly unsubscribe: () => void;
+
+  constructor(readonly pins: VirtualPins, components: VirtualComponent[]) {
+    this.unsubscribe = pins.subscribe(() => this.displays.forEach(display => display.sample()));
+    this.setComponents(components);
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  // Keeps the state of parts that are still wired the same way, so editing
+  // the breadboard during a simulation does not blank the display
+  setComponents(components: VirtualComponent[]): void {
+    const wiring = (component?: VirtualComponent) => JSON.stringify(component?.pins);
+    const next = new Map(components.map(c => [c.id, c]));
+    this.components.forEach(component => {
+      if (wiring(next.get(component.id)) === wiring(component)) return;
+      this.release(component);
+      this.displays.delete(component.id);
+    });
+    this.components = components;
+    components.forEach(component => {
+      if (component.kind === 'lcd' && !this.displays.has(component.id)) this.displays.set(component.id, new Hd44780(this.pins, component.pins));
+      this.apply(component);
+    });
+  }
+
+  press(id: string, down: boolean): void {
+    if (down) this.pressed.add(id);
+    else this.pressed.delete(id);
+    const component = this.components.find(c => c.id === id);
+    if (component) this.apply(component);
+  }
+
+  turn(id: string, position: number): void {
+    this.positions.set(id, Math.max(0, Math.min(1, position)));
+    const component = this.components.find(c => c.id === id);
+    if (component) this.apply(component);
+  }
+
+  read(component: VirtualComponent): ComponentReading {
+    const pin = Object.values(component.pins)[0];
+    const state = this.pins.get(pin);
+    switch (component.kind) {
+      case 'led': {
+        const brightness = state.mode !== 'OUTPUT' ? 0 : state.duty !== null ? state.duty / 255 : state.frequency !== null ? 0.5 : state.output;
+        return { kind: 'led', brightness };
+      }
+      case 'button':
+        return { kind: 'button', pressed: this.pressed.has(component.id) };
+      case 'potentiometer':
+        return { kind: 'potentiometer', position: this.position(component) };
+      case 'buzzer':
+        return {
+          kind: 'buzzer',
+          sounding: state.mode === 'OUTPUT' && (state.frequency !== null || state.output === 1 || state.duty !== null),
+          frequency: state.frequency
+        };
+      case 'lcd':
+        return { kind: 'lcd', display: this.displays.get(component.id) ?? null };
+      case 'servo': {
+        // 544-2400 µs is the Servo library's 0-180 degrees
+        const angle = state.pulse === null ? null : Math.max(0, Math.min(180, ((state.pulse - 544) * 180) / (2400 - 544)));
+        return { kind: 'servo', angle };
+      }
+    }
+  }
+
+  private position(component: VirtualComponent): number {
+    return this.positions.get(component.id) ?? 0.5;
+  }
+
+  private apply(component: VirtualComponent): void {
+    if (component.kind === 'button') {
+      const level = component.pressedLevel ?? 0;
+      const pressed = this.pressed.has(component.id);
+      // Pressed, the button connects the pin; released, only the pull-down (if any) holds it
+      this.pins.drive(component.pins.pin, pressed ? level : level === 1 ? 0 : null);
+    } else if (component.kind === 'potentiometer') {
+      this.pins.setVoltage(component.pins.wiper, this.position(component));
+    }
+  }
+
+  private release(component: VirtualComponent): void {
+    if (component.kind === 'button') this.pins.drive(component.pins.pin, null);
+    else if (component.kind === 'potentiometer') this.pins.setVoltage(component.pins.wiper, 0);
+  }
+}
@@ -0,0 +1,132 @@
+import { BoardProfile } from './boards';
+
+export type PinMode = 'INPUT' | 'OUTPUT' | 'INPUT_PULLUP';
+
+export interface PinState {
+  pin: number;
+  mode: PinMode;
+  // The level the firmware drives while the pin is an OUTPUT
+  output: 0 | 1;
+  // analogWrite() duty cycle, 0-255; null while the pin is a plain digital output
+  duty: number | null;
+  // tone() frequency in Hz
+  frequency: number | null;
+  // Width in µs of the pulse a servo signal repeats every 20 ms
+  pulse: number | null;
+  // What the outside world drives onto the pin; null when nothing does
+  input: 0 | 1 | null;
+  // Voltage at the pin as a fraction of the reference, for analogRead()
+  voltage: number;
+}
+
+type Listener = () => void;
+
+// The pins as the simulated firmware and the virtual parts around the board see
+// them. Sketch interpreters and CPU emulators drive the outputs; buttons and
+// knobs drive the inputs. Listeners are told that something changed and take a
+// snapshot when they are ready to redraw.
+export class VirtualPins {
+  private readonly pins = new Map<number, PinState>();
+  private readonly listeners = new Set<Listener>();
+
+  constructor(readonly board: BoardProfile) {}
+
+  reset(): void {
+    // Outside inputs stay as they are; the firmware starts over with every pin an INPUT
+    this.pins.forEach(state => Object.assign(state, { mode: 'INPUT', output: 0, duty: null, frequency: null, pulse: null }));
+    this.notify();
+  }
+
+  isValid(pin: number): boolean {
+    return this.board.digitalPins.includes(pin);
+  }
+
+  // Every pin that has been used or wired up, in pin order
+  snapshot(): PinState[] {
+    return [...this.pins.values()].sort((a, b) => a.pin - b.pin).map(state => ({ ...state }));
+  }
+
+  get(pin: number): PinState {
+    let state = this.pins.get(pin);
+    if (!state) {
+      state = { pin, mode: 'INPUT', output: 0, duty: null, frequency: null, pulse: null, input: null, voltage: 0 };
+      this.pins.set(pin, state);
+    }
+    return state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ---------------------------------------------------------------- firmware side
+
+  setMode(pin: number, mode: PinMode): void {
+    this.update(pin, { mode, duty: null });
+  }
+
+  write(pin: number, level: 0 | 1): void {
+    const state = this.get(pin);
+    // As on AVR, writing HIGH to an input turns its pull-up on
+    if (state.mode !== 'OUTPUT') {
+      this.update(pin, { mode: level ? 'INPUT_PULLUP' : 'INPUT' });
+      return;
+    }
+    this.update(pin, { output: level, duty: null });
+  }
+
+  writeDuty(pin: number, duty: number): void {
+    const clamped = Math.max(0, Math.min(255, Math.round(duty)));
+    // analogWrite() of 0 or 255 is a plain digitalWrite()
+    const pwm = clamped > 0 && clamped < 255 && this.board.pwmPins.includes(pin);
+    const output = pwm ? this.get(pin).output : clamped >= 128 ? 1 : 0;
+    this.update(pin, { mode: 'OUTPUT', output, duty: pwm ? clamped : null });
+  }
+
+  setFrequency(pin: number, frequency: number | null): void {
+    this.update(pin, { mode: 'OUTPUT', frequency });
+  }
+
+  writePulse(pin: number, micros: number | null): void {
+    this.update(pin, { mode: 'OUTPUT', pulse: micros });
+  }
+
+  read(pin: number): 0 | 1 {
+    const state = this.get(pin);
+    if (state.mode === 'OUTPUT') return state.output;
+    if (state.input !== null) return state.input;
+    // A floating input reads whatever voltage is on it; the pull-up holds it HIGH
+    return state.mode === 'INPUT_PULLUP' || state.voltage > 0.5 ? 1 : 0;
+  }
+
+  // The ADC reading, with the board's default resolution
+  readAnalog(pin: number): number {
+    const state = this.get(pin);
+    const max = this.board.architecture === 'esp32' ? 4095 : 1023;
+    const voltage = state.input !== null ? state.input : state.mode === 'OUTPUT' ? state.output : state.voltage;
+    return Math.round(Math.max(0, Math.min(1, voltage)) * max);
+  }
+
+  // ---------------------------------------------------------------- outside world
+
+  drive(pin: number, level: 0 | 1 | null): void {
+    this.update(pin, { input: level });
+  }
+
+  setVoltage(pin: number, voltage: number): void {
+    this.update(pin, { voltage: Math.max(0, Math.min(1, voltage)) });
+  }
+
+  private update(pin: number, changes: Partial<PinState>): void {
+    const state = this.get(pin);
+    const changed = (Object.keys(changes) as (keyof PinState)[]).some(key => state[key] !== changes[key]);
+    if (!changed) return;
+    Object.assign(state, changes);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { readZip } from './zipArchive';
+
+interface Member {
+  name: string;
+  text: string;
+  deflate?: boolean;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Builds an archive the way zip tools lay it out; the reader does not check CRCs, so they stay 0
+async function makeZip(members: Member[], comment = ''): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const member of members) {
+    const name = encoder.encode(member.name);
+    const raw = encoder.encode(member.text);
+    const data = member.deflate ? await deflate(raw) : raw;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, member.deflate ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, member.deflate ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const commentBytes = encoder.encode(comment);
+  const end = new Uint8Array(22 + commentBytes.length);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, members.length, true);
+  ev.setUint16(10, members.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+  ev.setUint16(20, commentBytes.length, true);
+  end.set(commentBytes, 22);
+
+  return new Blob([...locals, ...centrals, end]).arrayBuffer();
+}
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('readZip', () => {
+  it('reads stored and deflated entries', async () => {
+    const zip = await makeZip([
+      { name: 'Gizmo/library.properties', text: 'name=Gizmo\n' },
+      { name: 'Gizmo/src/Gizmo.h', text: 'class Gizmo { public: void spin(); };\n'.repeat(20), deflate: true }
+    ]);
+    const entries = await readZip(zip);
+    expect(entries.map(e => e.name)).toEqual(['Gizmo/library.properties', 'Gizmo/src/Gizmo.h']);
+    expect(text(entries[0].data)).toBe('name=Gizmo\n');
+    expect(text(entries[1].data)).toBe('class Gizmo { public: void spin(); };\n'.repeat(20));
+  });
+
+  it('finds the end record behind an archive comment and skips folders', async () => {
+    const zip = await makeZip([{ name: 'lib/', text: '' }, { name: 'lib\\a.h', text: 'int a;' }], 'made by a zip tool');
+    expect((await readZip(zip)).map(e => e.name)).toEqual(['lib/a.h']);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip file at all, just text').buffer)).rejects.toThrow('Not a .zip archive');
+  });
+});